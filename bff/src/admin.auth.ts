@@ -0,0 +1,28 @@
+import crypto from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+
+// Bearer-token guard for /api/admin routes.
+// Callers send `Authorization: Bearer <ADMIN_TOKEN>`; without a configured token the
+// admin routes stay open, matching how unsigned webhooks are accepted in development.
+
+export function adminAuth(token: string | undefined) {
+  if (!token) {
+    console.warn('ADMIN_TOKEN is not set. Admin endpoints are not protected.')
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!token) return next()
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.header('authorization') || '')
+    if (!match || !safeEqual(match[1].trim(), token)) {
+      return res.status(401).json({ success: false, error: 'Admin token required' })
+    }
+    next()
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
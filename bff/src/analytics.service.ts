@@ -0,0 +1,171 @@
+import { EventGroupBy, StorageBackend } from './storage'
+import { SEVERITIES } from './validation'
+import { checkSeverities, parseListParam } from './incidents.query'
+
+export type TrendInterval = '5m' | '1h' | '1d'
+
+export const TREND_INTERVALS: Record<TrendInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+}
+
+export const EVENT_GROUPS: readonly EventGroupBy[] = [
+  'severity',
+  'namespace',
+  'service',
+  'alert_type',
+  'decision',
+]
+
+// Buckets covered when no `from` is given: 6 hours, 7 days or 30 days
+const DEFAULT_BUCKETS: Record<TrendInterval, number> = { '5m': 72, '1h': 168, '1d': 30 }
+const MAX_BUCKETS = 1000
+
+// Severities most severe first, then auto before manual; other groups by event count
+const GROUP_ORDER: Partial<Record<EventGroupBy, readonly string[]>> = {
+  severity: [...SEVERITIES].reverse(),
+  decision: ['auto', 'manual'],
+}
+
+export interface TrendQuery {
+  interval: TrendInterval
+  group_by: EventGroupBy
+  // Aligned to the interval; `to` is the end of the last bucket
+  from: string
+  to: string
+  namespace?: string[]
+  service?: string[]
+  severity?: string[]
+}
+
+export interface TrendBucket {
+  start: string
+  // Per group; every group of the response is present, zero when nothing happened
+  events: Record<string, number>
+  // Distinct incidents with events in the bucket, per group
+  incidents: Record<string, number>
+}
+
+export interface IncidentTrends {
+  interval: TrendInterval
+  group_by: EventGroupBy
+  from: string
+  to: string
+  groups: string[]
+  buckets: TrendBucket[]
+}
+
+// From the query parameters of GET /api/analytics/incidents. Without `from` the range covers
+// a span that suits the interval, ending with the bucket that holds `to` (default: now).
+export function parseTrendQuery(query: Record<string, unknown>): TrendQuery | { error: string } {
+  const interval = (query.interval ?? '1h') as TrendInterval
+  if (!(typeof interval === 'string' && interval in TREND_INTERVALS)) {
+    return { error: `interval must be one of: ${Object.keys(TREND_INTERVALS).join(', ')}` }
+  }
+  const groupBy = (query.group_by ?? 'severity') as EventGroupBy
+  if (!EVENT_GROUPS.includes(groupBy)) {
+    return { error: `group_by must be one of: ${EVENT_GROUPS.join(', ')}` }
+  }
+
+  const bounds: { from?: number; to?: number } = {}
+  for (const bound of ['from', 'to'] as const) {
+    const value = query[bound]
+    if (value === undefined || value === '') continue
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      return { error: `${bound} must be an ISO-8601 timestamp` }
+    }
+    bounds[bound] = Date.parse(value)
+  }
+  const bucketMs = TREND_INTERVALS[interval]
+  const end = Math.floor((bounds.to ?? Date.now()) / bucketMs) * bucketMs + bucketMs
+  const start =
+    bounds.from !== undefined
+      ? Math.floor(bounds.from / bucketMs) * bucketMs
+      : end - DEFAULT_BUCKETS[interval] * bucketMs
+  if (start >= end) {
+    return { error: 'from must be before to' }
+  }
+  if ((end - start) / bucketMs > MAX_BUCKETS) {
+    return { error: `At most ${MAX_BUCKETS} buckets; use a larger interval or a shorter range` }
+  }
+
+  const parsed: TrendQuery = {
+    interval,
+    group_by: groupBy,
+    from: new Date(start).toISOString(),
+    to: new Date(end).toISOString(),
+  }
+  for (const field of ['namespace', 'service', 'severity'] as const) {
+    const list = parseListParam(query, field)
+    if ('error' in list) return list
+    if (list.values) parsed[field] = list.values
+  }
+  const severityError = checkSeverities(parsed.severity)
+  if (severityError) return { error: severityError }
+
+  return parsed
+}
+
+// Trends over the event store: how many events arrived, and how many incidents they
+// belonged to, per time bucket and group. Buckets are aligned to the epoch (UTC midnight
+// for days), so the same bucket always covers the same span.
+export class AnalyticsService {
+  constructor(private storage: StorageBackend) { }
+
+  async trends(query: TrendQuery): Promise<IncidentTrends> {
+    const bucketMs = TREND_INTERVALS[query.interval]
+    const counts = await this.storage.countEventBuckets({
+      from: query.from,
+      to: query.to,
+      bucket_ms: bucketMs,
+      group_by: query.group_by,
+      namespace: query.namespace,
+      service: query.service,
+      severity: query.severity,
+    })
+
+    const totals = new Map<string, number>()
+    counts.forEach((count) => {
+      totals.set(count.group, (totals.get(count.group) ?? 0) + count.events)
+    })
+    const groups = orderGroups(query.group_by, totals)
+    const zeros = () => Object.fromEntries(groups.map((group) => [group, 0]))
+
+    const buckets = new Map<number, TrendBucket>()
+    const end = new Date(query.to).getTime()
+    for (let bucket = new Date(query.from).getTime(); bucket < end; bucket += bucketMs) {
+      buckets.set(bucket, {
+        start: new Date(bucket).toISOString(),
+        events: zeros(),
+        incidents: zeros(),
+      })
+    }
+    counts.forEach((count) => {
+      const bucket = buckets.get(Number(count.bucket))
+      if (!bucket) return
+      bucket.events[count.group] = count.events
+      bucket.incidents[count.group] = count.incidents
+    })
+
+    return {
+      interval: query.interval,
+      group_by: query.group_by,
+      from: query.from,
+      to: query.to,
+      groups,
+      buckets: Array.from(buckets.values()),
+    }
+  }
+}
+
+function orderGroups(groupBy: EventGroupBy, totals: Map<string, number>): string[] {
+  const fixed = GROUP_ORDER[groupBy] ?? []
+  const rank = (group: string) => {
+    const index = fixed.indexOf(group)
+    return index >= 0 ? index : fixed.length
+  }
+  return Array.from(totals.keys()).sort(
+    (a, b) => rank(a) - rank(b) || totals.get(b)! - totals.get(a)! || (a < b ? -1 : 1)
+  )
+}
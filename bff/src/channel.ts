@@ -0,0 +1,186 @@
+import { AlertEvent } from './types'
+
+// Outbound notification channels (SMS, webhook, email, file/console sink).
+//
+// Every adapter implements NotificationChannel and is looked up by name in a
+// ChannelRegistry, so several channels, even several of one kind, can be configured
+// side by side. Adapters take their endpoints from options rather than hardcoding them,
+// which is what lets them be pointed at local stand-in servers.
+
+export type ChannelKind = 'sms' | 'webhook' | 'email' | 'file'
+
+export interface NotificationMessage {
+  // Phone number, email address, ...; the channel's default recipients when omitted
+  recipient?: string
+  subject: string
+  text: string
+  // Rich body for channels that support it (email)
+  html?: string
+  // Structured body for channels that send JSON (webhook); text is sent when omitted
+  payload?: Record<string, unknown>
+  // The event being notified about
+  event?: AlertEvent
+}
+
+export interface DeliveryResult {
+  success: boolean
+  recipient: string
+  provider_response?: unknown
+  error?: string
+  // false when trying again cannot help (rejected recipient, bad request, ...)
+  retryable?: boolean
+}
+
+// ok: reachable and delivering; degraded: the last delivery failed;
+// down: the probe failed or deliveries keep failing; unknown: nothing sent or probed yet
+export type ChannelStatus = 'ok' | 'degraded' | 'down' | 'unknown'
+
+export interface ChannelHealth {
+  name: string
+  kind: ChannelKind
+  status: ChannelStatus
+  recipients: string[]
+  last_success_at: string | null
+  last_failure_at: string | null
+  last_error: string | null
+  consecutive_failures: number
+  detail?: string
+}
+
+export interface NotificationChannel {
+  readonly name: string
+  readonly kind: ChannelKind
+  // Where messages go when no recipient is given
+  readonly defaultRecipients: string[]
+  // Sends to message.recipient, or to every default recipient
+  send(message: NotificationMessage): Promise<DeliveryResult[]>
+  health(): Promise<ChannelHealth>
+}
+
+// Consecutive failed deliveries after which a channel is reported down
+const DOWN_AFTER_FAILURES = 3
+
+// Shared delivery bookkeeping; adapters only implement deliver() and, optionally, probe()
+export abstract class BaseChannel implements NotificationChannel {
+  abstract readonly kind: ChannelKind
+  private lastSuccessAt: string | null = null
+  private lastFailureAt: string | null = null
+  private lastError: string | null = null
+  private consecutiveFailures = 0
+
+  constructor(
+    readonly name: string,
+    readonly defaultRecipients: string[]
+  ) { }
+
+  protected abstract deliver(
+    recipient: string,
+    message: NotificationMessage
+  ): Promise<DeliveryResult>
+
+  // Cheap reachability check; throws when the channel cannot deliver
+  protected probe?(): Promise<string | void>
+
+  async send(message: NotificationMessage): Promise<DeliveryResult[]> {
+    const recipients = message.recipient ? [message.recipient] : this.defaultRecipients
+    if (recipients.length === 0) {
+      return [
+        {
+          success: false,
+          recipient: '',
+          error: `${this.name} has no recipient configured`,
+          retryable: false,
+        },
+      ]
+    }
+
+    const results: DeliveryResult[] = []
+    for (const recipient of recipients) {
+      let result: DeliveryResult
+      try {
+        result = await this.deliver(recipient, message)
+      } catch (error: any) {
+        result = { success: false, recipient, error: error?.message || String(error) }
+      }
+      this.record(result)
+      results.push(result)
+    }
+    return results
+  }
+
+  async health(): Promise<ChannelHealth> {
+    const health: ChannelHealth = {
+      name: this.name,
+      kind: this.kind,
+      status: 'unknown',
+      recipients: this.defaultRecipients,
+      last_success_at: this.lastSuccessAt,
+      last_failure_at: this.lastFailureAt,
+      last_error: this.lastError,
+      consecutive_failures: this.consecutiveFailures,
+    }
+
+    if (this.probe) {
+      try {
+        const detail = await this.probe()
+        if (detail) health.detail = detail
+      } catch (error: any) {
+        return { ...health, status: 'down', detail: error?.message || String(error) }
+      }
+    }
+
+    if (this.consecutiveFailures >= DOWN_AFTER_FAILURES) {
+      health.status = 'down'
+    } else if (this.consecutiveFailures > 0) {
+      health.status = 'degraded'
+    } else if (this.lastSuccessAt || this.probe) {
+      health.status = 'ok'
+    }
+    return health
+  }
+
+  private record(result: DeliveryResult) {
+    const now = new Date().toISOString()
+    if (result.success) {
+      this.lastSuccessAt = now
+      this.consecutiveFailures = 0
+    } else {
+      this.lastFailureAt = now
+      this.lastError = result.error ?? 'Delivery failed'
+      this.consecutiveFailures++
+    }
+  }
+}
+
+// Client errors other than timeouts and rate limiting will fail the same way every time
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status >= 500 || status === 408 || status === 429
+}
+
+export class ChannelRegistry {
+  private channels: Map<string, NotificationChannel> = new Map()
+
+  register(channel: NotificationChannel): this {
+    if (this.channels.has(channel.name)) {
+      throw new Error(`Notification channel "${channel.name}" is already registered`)
+    }
+    this.channels.set(channel.name, channel)
+    return this
+  }
+
+  get(name: string): NotificationChannel | undefined {
+    return this.channels.get(name)
+  }
+
+  list(): NotificationChannel[] {
+    return Array.from(this.channels.values())
+  }
+
+  byKind(kind: ChannelKind): NotificationChannel[] {
+    return this.list().filter((channel) => channel.kind === kind)
+  }
+
+  health(): Promise<ChannelHealth[]> {
+    return Promise.all(this.list().map((channel) => channel.health()))
+  }
+}
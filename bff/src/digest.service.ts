@@ -0,0 +1,132 @@
+import { AlertEvent, IncidentTransition, RouteTarget } from './types'
+import { StorageBackend } from './storage'
+import { NotificationService } from './notifications.service'
+import { Digest, DigestEntry } from './templates'
+import { SEVERITIES } from './validation'
+
+const DEFAULT_INTERVAL_MINUTES = 60
+// Timers fire a little late and replicas' clocks differ, so a flush this close to a full
+// interval after the previous one still goes ahead
+const FLUSH_SLACK_MS = 30 * 1000
+
+export interface DigestOptions {
+  // Transitions of incidents at these severities are batched instead of sent one by one
+  severities: string[]
+  intervalMinutes?: number
+}
+
+interface PendingDigest {
+  target: RouteTarget
+  // By incident, so an incident that changed several times is listed once
+  entries: Map<string, DigestEntry>
+}
+
+// Digest mode: low-severity transitions are collected per routed target and sent as one
+// message per target every interval, alongside the current rollups of the services
+// involved. Collected transitions wait in storage, so every replica adds to the same
+// digests and whichever replica flushes first in an interval sends them.
+export class DigestService {
+  private startedAt = new Date().toISOString()
+  private flushTimer?: NodeJS.Timeout
+  private intervalMs: number
+
+  constructor(
+    private storage: StorageBackend,
+    private notifications: NotificationService,
+    private options: DigestOptions
+  ) {
+    const unknown = options.severities.find(
+      (severity) => !(SEVERITIES as readonly string[]).includes(severity)
+    )
+    if (unknown) {
+      throw new Error(
+        `Unknown digest severity "${unknown}" (expected some of: ${SEVERITIES.join(', ')})`
+      )
+    }
+    this.intervalMs = (options.intervalMinutes || DEFAULT_INTERVAL_MINUTES) * 60 * 1000
+    console.log(
+      `Notifications for ${options.severities.join(', ')} incidents are sent as a digest ` +
+        `every ${this.intervalMs / 60000} minutes`
+    )
+  }
+
+  accepts(event: AlertEvent): boolean {
+    return this.options.severities.includes(event.alert.severity)
+  }
+
+  // Without targets the digest goes to every channel, like an unrouted notification
+  async add(event: AlertEvent, transition: IncidentTransition, targets?: RouteTarget[]) {
+    const routed: RouteTarget[] =
+      targets ?? this.notifications.channelNames().map((channel) => ({ channel }))
+    const entry: DigestEntry = {
+      dedupe_key: event.dedupe_key,
+      namespace: event.service.namespace,
+      service: event.service.name,
+      severity: event.alert.severity,
+      alert_type: event.alert.type,
+      transitions: [transition.kind],
+      last_observed_at: event.observed_at,
+    }
+
+    for (const target of routed) {
+      await this.storage.insertDigestEntry({ target, entry })
+    }
+  }
+
+  // Send what was collected since the previous flush, one message per target. Does nothing
+  // when another replica already flushed in this interval.
+  async flush(now = new Date()): Promise<void> {
+    const until = now.toISOString()
+    const notBefore = new Date(now.getTime() - this.intervalMs + FLUSH_SLACK_MS).toISOString()
+    const run = await this.storage.claimJobRun('digest', until, notBefore)
+    if (!run) return
+
+    const queued = await this.storage.takeDigestEntries()
+    if (queued.length === 0) return
+
+    const pending = new Map<string, PendingDigest>()
+    for (const { target, entry } of queued) {
+      const targetKey = `${target.channel}\u0000${(target.recipients ?? []).join(',')}`
+      let digest = pending.get(targetKey)
+      if (!digest) {
+        digest = { target, entries: new Map() }
+        pending.set(targetKey, digest)
+      }
+
+      const incidentKey = [entry.namespace, entry.service, entry.dedupe_key].join('\u0000')
+      const previous = digest.entries.get(incidentKey)
+      digest.entries.set(incidentKey, {
+        ...entry,
+        transitions: [...(previous?.transitions ?? []), ...entry.transitions],
+      })
+    }
+
+    const since = run.previous_run_at ?? this.startedAt
+    const rollups = await this.storage.getServices()
+    for (const { target, entries } of pending.values()) {
+      const list = Array.from(entries.values())
+      const digest: Digest = {
+        since,
+        until,
+        entries: list,
+        services: rollups.filter((rollup) =>
+          list.some((e) => e.namespace === rollup.namespace && e.service === rollup.service)
+        ),
+      }
+      await this.notifications.notifyDigest(digest, [target])
+    }
+  }
+
+  start() {
+    this.stop()
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((err) => console.error('Notification digest failed:', err))
+    }, this.intervalMs)
+    this.flushTimer.unref()
+  }
+
+  stop() {
+    if (this.flushTimer) clearInterval(this.flushTimer)
+    this.flushTimer = undefined
+  }
+}
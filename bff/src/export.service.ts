@@ -0,0 +1,161 @@
+import { AlertEvent, Incident } from './types'
+import { IncidentListFilter, IncidentPageRequest, StorageBackend } from './storage'
+import { cursorOf, IncidentQuery, parseIncidentQuery } from './incidents.query'
+
+export type ExportFormat = 'csv' | 'ndjson' | 'json'
+
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json; charset=utf-8',
+}
+
+// Incidents read from storage per round trip while streaming
+const EXPORT_BATCH_SIZE = 200
+
+const INCIDENT_COLUMNS: readonly (keyof Incident)[] = [
+  'namespace',
+  'service',
+  'dedupe_key',
+  'status',
+  'current_severity',
+  'current_priority',
+  'current_action',
+  'auto',
+  'risk_score',
+  'reason_codes',
+  'event_count',
+  'first_observed_at',
+  'last_observed_at',
+  'opened_at',
+  'acknowledged_at',
+  'acknowledged_by',
+  'assignee',
+  'resolved_at',
+  'resolved_by',
+  'silenced_by',
+  'quality_flags',
+]
+
+// With events, a CSV export has one row per event and repeats the incident's columns
+const EVENT_COLUMNS: readonly [string, (event: AlertEvent) => unknown][] = [
+  ['event_id', (event) => event.event_id],
+  ['event_observed_at', (event) => event.observed_at],
+  ['event_type', (event) => event.alert.type],
+  ['event_state', (event) => event.alert.state],
+  ['event_severity', (event) => event.alert.severity],
+  ['event_action', (event) => event.decision.action],
+  ['event_priority', (event) => event.decision.priority],
+  ['event_auto', (event) => event.decision.auto],
+  ['event_risk_score', (event) => event.decision.risk_score],
+  ['event_reason_codes', (event) => event.decision.reason_codes],
+]
+
+export interface ExportQuery extends IncidentQuery {
+  format: ExportFormat
+  events: boolean
+}
+
+// From the query parameters of GET /api/incidents/export: the filters, sort, cursor and limit
+// of GET /api/incidents, plus `format` (csv, ndjson or json; default csv) and `events=true`
+// to embed each incident's events. Without a limit every matching incident is exported.
+export function parseExportQuery(query: Record<string, unknown>): ExportQuery | { error: string } {
+  const format = (query.format ?? 'csv') as ExportFormat
+  if (!(typeof format === 'string' && format in EXPORT_FORMATS)) {
+    return { error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` }
+  }
+  const events = query.events ?? 'false'
+  if (events !== 'true' && events !== 'false') {
+    return { error: 'events must be true or false' }
+  }
+
+  const parsed = parseIncidentQuery(query)
+  if ('error' in parsed) return parsed
+  return { ...parsed, format, events: events === 'true' }
+}
+
+// Incidents, and optionally their events, serialized chunk by chunk so that exports of any
+// size can be streamed to the client
+export class ExportService {
+  constructor(private storage: StorageBackend) { }
+
+  async *export(query: ExportQuery): AsyncGenerator<string> {
+    const incidents = this.incidents(query.filter, query.page)
+    switch (query.format) {
+      case 'csv':
+        yield* this.csv(incidents, query.events)
+        break
+      case 'ndjson':
+        for await (const record of this.records(incidents, query.events)) {
+          yield `${JSON.stringify(record)}\n`
+        }
+        break
+      case 'json': {
+        let first = true
+        yield '['
+        for await (const record of this.records(incidents, query.events)) {
+          yield `${first ? '' : ','}\n${JSON.stringify(record)}`
+          first = false
+        }
+        yield first ? ']\n' : '\n]\n'
+        break
+      }
+    }
+  }
+
+  // Every incident matching the filter, in the page's order, fetched batch by batch
+  private async *incidents(
+    filter: IncidentListFilter,
+    page: IncidentPageRequest
+  ): AsyncGenerator<Incident> {
+    let remaining = page.limit ?? Infinity
+    let after = page.after
+    while (remaining > 0) {
+      const limit = Math.min(remaining, EXPORT_BATCH_SIZE)
+      const batch = await this.storage.listIncidents(filter, { ...page, limit, after })
+      yield* batch
+      if (batch.length < limit) return
+      remaining -= batch.length
+      after = cursorOf(batch[batch.length - 1], page.sort)
+    }
+  }
+
+  private async *records(
+    incidents: AsyncGenerator<Incident>,
+    withEvents: boolean
+  ): AsyncGenerator<Incident | (Incident & { events: AlertEvent[] })> {
+    for await (const incident of incidents) {
+      yield withEvents ? { ...incident, events: await this.events(incident) } : incident
+    }
+  }
+
+  private async *csv(incidents: AsyncGenerator<Incident>, withEvents: boolean) {
+    const eventColumns = withEvents ? EVENT_COLUMNS.map(([name]) => name) : []
+    yield csvRow([...INCIDENT_COLUMNS, ...eventColumns])
+    for await (const incident of incidents) {
+      const columns = INCIDENT_COLUMNS.map((column) => incident[column])
+      if (!withEvents) {
+        yield csvRow(columns)
+        continue
+      }
+      for (const event of await this.events(incident)) {
+        yield csvRow([...columns, ...EVENT_COLUMNS.map(([, value]) => value(event))])
+      }
+    }
+  }
+
+  private events(incident: Incident): Promise<AlertEvent[]> {
+    return this.storage.getEventHistory(incident.dedupe_key, incident.namespace, incident.service)
+  }
+}
+
+// RFC 4180: fields holding a comma, quote or line break are quoted, lists joined with ";"
+function csvRow(values: unknown[]): string {
+  return `${values.map(csvField).join(',')}\r\n`
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = Array.isArray(value) ? value.join(';') : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
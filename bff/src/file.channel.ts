@@ -0,0 +1,47 @@
+import fs from 'fs'
+import path from 'path'
+import { BaseChannel, DeliveryResult, NotificationMessage } from './channel'
+
+// Local sink for development and tests: appends one JSON line per notification to a
+// file, or logs it when the target is "console". Nothing leaves the machine.
+
+export class FileChannel extends BaseChannel {
+  readonly kind = 'file' as const
+  private filePath?: string
+
+  constructor(name: string, target: string) {
+    super(name, [target])
+    if (target !== 'console') {
+      this.filePath = path.resolve(target)
+    }
+  }
+
+  protected async deliver(recipient: string, message: NotificationMessage): Promise<DeliveryResult> {
+    const line = JSON.stringify({
+      at: new Date().toISOString(),
+      recipient,
+      subject: message.subject,
+      text: message.text,
+      event_id: message.event?.event_id,
+    })
+
+    if (!this.filePath) {
+      console.log(`[${this.name}] ${line}`)
+      return { success: true, recipient }
+    }
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.appendFile(this.filePath, line + '\n')
+    return { success: true, recipient, provider_response: { file: this.filePath } }
+  }
+
+  protected async probe(): Promise<string> {
+    if (!this.filePath) return 'console'
+
+    // The file may not exist yet; its directory must be writable either way
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    const target = fs.existsSync(this.filePath) ? this.filePath : path.dirname(this.filePath)
+    await fs.promises.access(target, fs.constants.W_OK)
+    return this.filePath
+  }
+}
@@ -0,0 +1,68 @@
+import axios from 'axios'
+import { BaseChannel, DeliveryResult, NotificationMessage, isRetryableStatus } from './channel'
+
+// SMS through the FitSMS HTTP API. Messages arrive already shaped for SMS (see templates.ts).
+
+const DEFAULT_FITSMS_URL = 'https://app.fitsms.lk/api/v3/sms/send'
+const REQUEST_TIMEOUT_MS = 10000
+
+export interface FitSmsOptions {
+  url?: string
+  apiKey?: string
+  senderId?: string
+  recipients: string[]
+}
+
+interface FitSmsPayload {
+  recipient: string
+  sender_id: string
+  type: string
+  message: string
+}
+
+export class FitSmsChannel extends BaseChannel {
+  readonly kind = 'sms' as const
+  private url: string
+
+  constructor(
+    name: string,
+    private options: FitSmsOptions
+  ) {
+    super(name, options.recipients)
+    this.url = options.url || DEFAULT_FITSMS_URL
+
+    if (options.recipients.length === 0) {
+      console.warn(`${name}: SMS_RECIPIENT is not set. Alert SMS have nowhere to go.`)
+    }
+  }
+
+  protected async deliver(recipient: string, message: NotificationMessage): Promise<DeliveryResult> {
+    const payload: FitSmsPayload = {
+      recipient,
+      sender_id: this.options.senderId || '',
+      type: 'plain',
+      message: message.text,
+    }
+
+    try {
+      const response = await axios.post(this.url, payload, {
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      })
+      return { success: true, recipient, provider_response: response.data }
+    } catch (error: any) {
+      console.error('FitSMS send failed:', error?.response?.data || error.message)
+      return {
+        success: false,
+        recipient,
+        provider_response: error?.response?.data,
+        error: error?.response?.data?.message || error.message,
+        retryable: isRetryableStatus(error?.response?.status),
+      }
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import fs from 'fs'
+import { AlertEvent } from './types'
+import { signPayload } from './webhook.auth'
+import { parseReplaySpeed } from './replay.service'
+import {
+  generateScenario,
+  needsTopology,
+  parseScenario,
+  Topology,
+  topologyFromServices,
+} from './scenario.generator'
+
+// Generates synthetic alerts.v1 events from a scenario file (see samples/scenarios) and
+// writes them as NDJSON or sends them to the BFF's webhook.
+//
+//   npm run generate -- <scenario.json> --out <file.ndjson|->
+//   npm run generate -- <scenario.json> --webhook [--speed instant|recorded|<n>x]
+//
+// Scenarios naming services as "@<n>", "@random" or "*", or cascading along "topology",
+// read them from the predictive engine's /services (--services-url, $PREDICTIVE_API_URL).
+// Webhook requests are signed with $WEBHOOK_SECRET when it is set.
+
+// Matches MAX_BATCH_EVENTS of POST /ingest/webhook/batch
+const BATCH_SIZE = 5000
+// Longest wait between checks for due events while pacing
+const TICK_MS = 1000
+
+const USAGE = `Usage: npm run generate -- <scenario.json> (--out <file> | --webhook) [options]
+
+Options:
+  --out <file>          Write NDJSON to the file, or to stdout with -
+  --webhook             Send events to the BFF as they fall due
+  --url <url>           BFF base URL (default: $BFF_URL or http://localhost:3001)
+  --speed <speed>       recorded (default), a multiplier such as 10x that compresses the
+                        timeline, or instant to send everything at once
+  --start <timestamp>   Minute 0 of the scenario (default: now)
+  --seed <n>            Overrides the scenario's seed
+  --services-url <url>  Predictive engine base URL for /services
+                        (default: $PREDICTIVE_API_URL or http://localhost:7000)`
+
+interface CliOptions {
+  scenario: string
+  out?: string
+  webhook: boolean
+  url: string
+  speed: string
+  start?: string
+  seed?: string
+  servicesUrl: string
+}
+
+const VALUE_OPTIONS: Record<string, keyof CliOptions> = {
+  '--out': 'out',
+  '--url': 'url',
+  '--speed': 'speed',
+  '--start': 'start',
+  '--seed': 'seed',
+  '--services-url': 'servicesUrl',
+}
+
+function parseArgs(args: string[]): CliOptions | string {
+  const options: Partial<CliOptions> = {
+    webhook: false,
+    url: process.env.BFF_URL || 'http://localhost:3001',
+    speed: 'recorded',
+    servicesUrl: process.env.PREDICTIVE_API_URL || 'http://localhost:7000',
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--webhook') options.webhook = true
+    else if (arg in VALUE_OPTIONS) {
+      const value = args[++i]
+      if (!value) return `${arg} needs a value`
+      Object.assign(options, { [VALUE_OPTIONS[arg]]: value })
+    } else if (arg.startsWith('--')) return `Unknown option ${arg}`
+    else if (options.scenario) return 'Give a single scenario'
+    else options.scenario = arg
+  }
+  if (!options.scenario) return 'A scenario is required'
+  if (Boolean(options.out) === options.webhook) return 'Give either --out or --webhook'
+  return options as CliOptions
+}
+
+async function fetchTopology(servicesUrl: string): Promise<Topology> {
+  const url = `${servicesUrl.replace(/\/$/, '')}/services`
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`${url} answered ${response.status}`)
+  const topology = topologyFromServices(await response.json())
+  if ('error' in topology) throw new Error(`${url}: ${topology.error}`)
+  return topology
+}
+
+class WebhookSender {
+  accepted = 0
+  rejected = 0
+  private firstError?: string
+
+  constructor(private baseUrl: string) { }
+
+  // One event goes to /ingest/webhook so the UI sees it as it would live; more go as batches
+  async send(events: AlertEvent[]) {
+    if (events.length === 1) {
+      const response = await this.post('/ingest/webhook', JSON.stringify(events[0]), 'json')
+      if (response.ok) this.accepted++
+      else this.fail(1, await response.text())
+      return
+    }
+    for (let i = 0; i < events.length; i += BATCH_SIZE) {
+      const chunk = events.slice(i, i + BATCH_SIZE)
+      const body = chunk.map((event) => JSON.stringify(event)).join('\n')
+      const response = await this.post('/ingest/webhook/batch', body, 'ndjson')
+      if (!response.ok) {
+        this.fail(chunk.length, await response.text())
+        continue
+      }
+      const { summary } = (await response.json()) as { summary: Record<string, number> }
+      this.accepted += summary.ingested + summary.duplicate
+      if (summary.rejected > 0) this.fail(summary.rejected, 'Rejected by validation')
+    }
+  }
+
+  report(): string {
+    const rejected = this.rejected ? `, ${this.rejected} rejected (${this.firstError})` : ''
+    return `${this.accepted} accepted${rejected}`
+  }
+
+  private post(path: string, body: string, type: 'json' | 'ndjson') {
+    const headers: Record<string, string> = {
+      'Content-Type': type === 'json' ? 'application/json' : 'application/x-ndjson',
+    }
+    const secret = process.env.WEBHOOK_SECRET
+    if (secret) {
+      const timestamp = Math.floor(Date.now() / 1000)
+      headers['X-Signature-Timestamp'] = String(timestamp)
+      headers['X-Signature'] = `sha256=${signPayload(secret, timestamp, body)}`
+    }
+    return fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, { method: 'POST', headers, body })
+  }
+
+  private fail(count: number, error: string) {
+    this.rejected += count
+    this.firstError ??= error.slice(0, 200)
+  }
+}
+
+// Sends each event once its observed_at comes round, grouping those due together
+async function sendPaced(events: AlertEvent[], sender: WebhookSender) {
+  let next = 0
+  while (next < events.length) {
+    const now = Date.now()
+    let due = next
+    while (due < events.length && Date.parse(events[due].observed_at) <= now) due++
+    if (due > next) {
+      await sender.send(events.slice(next, due))
+      next = due
+      continue
+    }
+    const wait = Math.min(Date.parse(events[next].observed_at) - now, TICK_MS)
+    await new Promise((resolve) => setTimeout(resolve, wait))
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  if (typeof options === 'string') {
+    console.error(`${options}\n\n${USAGE}`)
+    return 2
+  }
+
+  const scenario = parseScenario(JSON.parse(fs.readFileSync(options.scenario, 'utf8')))
+  if ('error' in scenario) {
+    console.error(`${options.scenario}: ${scenario.error}`)
+    return 1
+  }
+  const speed = parseReplaySpeed(options.speed)
+  if (typeof speed === 'object') {
+    console.error(speed.error)
+    return 2
+  }
+  const start = options.start ? Date.parse(options.start) : Date.now()
+  if (Number.isNaN(start)) {
+    console.error('--start must be an ISO-8601 timestamp')
+    return 2
+  }
+  const seed = options.seed === undefined ? undefined : Number(options.seed)
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    console.error('--seed must be an integer')
+    return 2
+  }
+
+  const topology = needsTopology(scenario) ? await fetchTopology(options.servicesUrl) : undefined
+  const events = generateScenario(scenario, {
+    start,
+    seed,
+    speed: speed === 'instant' ? 1 : speed,
+    topology,
+  })
+  const span = events.length
+    ? `${events[0].observed_at} to ${events[events.length - 1].observed_at}`
+    : 'nothing'
+  console.error(`${scenario.name}: ${events.length} events, ${span}`)
+
+  if (options.out) {
+    const ndjson = events.map((event) => `${JSON.stringify(event)}\n`).join('')
+    if (options.out === '-') process.stdout.write(ndjson)
+    else fs.writeFileSync(options.out, ndjson)
+    return 0
+  }
+
+  const sender = new WebhookSender(options.url)
+  const startedAt = Date.now()
+  if (speed === 'instant') await sender.send(events)
+  else await sendPaced(events, sender)
+  const seconds = Math.max((Date.now() - startedAt) / 1000, 0.001)
+  console.error(
+    `Sent ${events.length} events in ${seconds.toFixed(1)}s ` +
+      `(${Math.round(events.length / seconds)}/s): ${sender.report()}`
+  )
+  return sender.rejected > 0 ? 1 : 0
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
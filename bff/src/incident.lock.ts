@@ -0,0 +1,26 @@
+import { IncidentKey } from './storage'
+
+// Per-incident mutual exclusion for the single-process backends (memory, SQLite).
+// Callers for the same incident run one after another, in the order they asked; callers
+// for different incidents do not wait on each other.
+
+export class IncidentLocks {
+  private tails = new Map<string, Promise<unknown>>()
+
+  async run<T>(key: IncidentKey, fn: () => Promise<T>): Promise<T> {
+    const id = incidentLockKey(key)
+    const result = (this.tails.get(id) ?? Promise.resolve()).then(fn)
+    // The next caller waits for this one to finish, not to succeed
+    const tail = result.catch(() => undefined)
+    this.tails.set(id, tail)
+    try {
+      return await result
+    } finally {
+      if (this.tails.get(id) === tail) this.tails.delete(id)
+    }
+  }
+}
+
+export function incidentLockKey(key: IncidentKey): string {
+  return JSON.stringify([key.namespace, key.service, key.dedupe_key])
+}
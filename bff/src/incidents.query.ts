@@ -0,0 +1,242 @@
+import { Incident } from './types'
+import {
+  IncidentCursor,
+  IncidentListFilter,
+  IncidentPageRequest,
+  IncidentSort,
+  SortOrder,
+} from './storage'
+import { SEVERITIES } from './validation'
+import { severityRank } from './projection'
+
+export const INCIDENT_SORTS: readonly IncidentSort[] = [
+  'last_observed_at',
+  'risk_score',
+  'severity',
+  'event_count',
+]
+
+export const MAX_PAGE_SIZE = 500
+
+export const DEFAULT_INCIDENT_PAGE: IncidentPageRequest = {
+  sort: 'last_observed_at',
+  order: 'desc',
+}
+
+// severityRank() as SQL, for sorting by severity in the database
+export const SEVERITY_RANK_SQL = `CASE current_severity ${SEVERITIES.map(
+  (severity, rank) => `WHEN '${severity}' THEN ${rank}`
+).join(' ')} ELSE -1 END`
+
+const MULTI_VALUE_FIELDS = ['severity', 'namespace', 'service', 'priority'] as const
+
+// Silenced incidents are hidden unless ?silenced=include (or only) is passed
+const SILENCED_FILTERS: Record<string, boolean | undefined> = {
+  exclude: false,
+  include: undefined,
+  only: true,
+}
+
+export interface IncidentQuery {
+  filter: IncidentListFilter
+  page: IncidentPageRequest
+}
+
+// Filter and page from the query parameters of GET /api/incidents. Multi-value fields are
+// comma-separated lists, or repeated.
+export function parseIncidentQuery(
+  query: Record<string, unknown>
+): IncidentQuery | { error: string } {
+  const filter: IncidentListFilter = {}
+
+  for (const field of ['status', 'from', 'to', 'q', 'sort', 'order', 'cursor', 'silenced']) {
+    if (query[field] !== undefined && typeof query[field] !== 'string') {
+      return { error: `${field} must be given once` }
+    }
+  }
+  const single = query as Record<string, string | undefined>
+
+  if (single.status) filter.status = single.status
+  for (const field of MULTI_VALUE_FIELDS) {
+    const parsed = parseListParam(query, field)
+    if ('error' in parsed) return parsed
+    if (parsed.values) filter[field] = parsed.values
+  }
+  const severityError = checkSeverities(filter.severity)
+  if (severityError) return { error: severityError }
+
+  if (query.auto) filter.auto = query.auto === 'true'
+
+  const silenced = single.silenced || 'exclude'
+  if (!(silenced in SILENCED_FILTERS)) {
+    return { error: 'silenced must be one of: exclude, include, only' }
+  }
+  filter.silenced = SILENCED_FILTERS[silenced]
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = single[bound]
+    if (!value) continue
+    if (Number.isNaN(Date.parse(value))) {
+      return { error: `${bound} must be an ISO-8601 timestamp` }
+    }
+    filter[bound] = new Date(value).toISOString()
+  }
+
+  const q = single.q?.trim().toLowerCase()
+  if (q) filter.q = q
+
+  const sort = (single.sort || DEFAULT_INCIDENT_PAGE.sort) as IncidentSort
+  if (!INCIDENT_SORTS.includes(sort)) {
+    return { error: `sort must be one of: ${INCIDENT_SORTS.join(', ')}` }
+  }
+  const order = (single.order || DEFAULT_INCIDENT_PAGE.order) as SortOrder
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' }
+  }
+  const page: IncidentPageRequest = { sort, order }
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` }
+    }
+    page.limit = limit
+  }
+
+  if (single.cursor) {
+    const after = decodeCursor(single.cursor, sort, order)
+    if (!after) {
+      return { error: 'cursor is invalid or belongs to a different sort order' }
+    }
+    page.after = after
+  }
+
+  return { filter, page }
+}
+
+// A multi-value query parameter: comma-separated, repeated, or both. Undefined when absent
+// or empty.
+export function parseListParam(
+  query: Record<string, unknown>,
+  field: string
+): { values?: string[] } | { error: string } {
+  const value = query[field]
+  if (value === undefined) return {}
+  const values = Array.isArray(value) ? value : [value]
+  if (values.some((v) => typeof v !== 'string')) {
+    return { error: `${field} must be a comma-separated list` }
+  }
+  const list = (values as string[])
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter((v) => v !== '')
+  return list.length > 0 ? { values: list } : {}
+}
+
+export function checkSeverities(severities?: string[]): string | undefined {
+  const unknown = severities?.find(
+    (severity) => !(SEVERITIES as readonly string[]).includes(severity)
+  )
+  if (unknown) {
+    return `Unknown severity "${unknown}" (expected some of: ${SEVERITIES.join(', ')})`
+  }
+  return undefined
+}
+
+export function sortValue(incident: Incident, sort: IncidentSort): number {
+  switch (sort) {
+    case 'last_observed_at':
+      return new Date(incident.last_observed_at).getTime()
+    case 'risk_score':
+      return incident.risk_score
+    case 'severity':
+      return severityRank(incident.current_severity)
+    case 'event_count':
+      return incident.event_count
+  }
+}
+
+// Order of two incidents in a page: by sort value, then by key
+export function compareIncidents(a: Incident, b: Incident, page: IncidentPageRequest): number {
+  const direction = page.order === 'asc' ? 1 : -1
+  return direction * compareKeys(cursorOf(a, page.sort), cursorOf(b, page.sort))
+}
+
+// Whether the incident comes after the cursor in the page's order
+export function isAfterCursor(incident: Incident, page: IncidentPageRequest): boolean {
+  if (!page.after) return true
+  const direction = page.order === 'asc' ? 1 : -1
+  return direction * compareKeys(cursorOf(incident, page.sort), page.after) > 0
+}
+
+// SQL for the same test. `expressions` are the sort expression followed by the namespace,
+// service and dedupe key columns; `param(i)` returns the placeholder for the cursor's i-th
+// value, in that order, and may be called more than once per value.
+export function afterCursorSql(
+  expressions: string[],
+  order: SortOrder,
+  param: (index: number) => string
+): string {
+  const op = order === 'asc' ? '>' : '<'
+  const after = (i: number): string => {
+    const beyond = `${expressions[i]} ${op} ${param(i)}`
+    if (i === expressions.length - 1) return beyond
+    return `(${beyond} OR (${expressions[i]} = ${param(i)} AND ${after(i + 1)}))`
+  }
+  return after(0)
+}
+
+export function cursorValues(cursor: IncidentCursor): [number, string, string, string] {
+  return [cursor.value, cursor.namespace, cursor.service, cursor.dedupe_key]
+}
+
+// Substring match for `q`, which is already lower-cased
+export function matchesText(incident: Incident, q: string): boolean {
+  return [incident.service, incident.dedupe_key, ...incident.reason_codes].some((text) =>
+    text.toLowerCase().includes(q)
+  )
+}
+
+// Opaque to clients; names the sort so it cannot be replayed against another one
+export function encodeCursor(incident: Incident, page: IncidentPageRequest): string {
+  const cursor = cursorOf(incident, page.sort)
+  return Buffer.from(
+    JSON.stringify([page.sort, page.order, ...cursorValues(cursor)])
+  ).toString('base64url')
+}
+
+function decodeCursor(
+  token: string,
+  sort: IncidentSort,
+  order: SortOrder
+): IncidentCursor | undefined {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+  } catch {
+    return undefined
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 6) return undefined
+  const [cursorSort, cursorOrder, value, namespace, service, dedupeKey] = decoded
+  if (cursorSort !== sort || cursorOrder !== order) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined
+  if ([namespace, service, dedupeKey].some((part) => typeof part !== 'string')) return undefined
+  return { value, namespace, service, dedupe_key: dedupeKey }
+}
+
+export function cursorOf(incident: Incident, sort: IncidentSort): IncidentCursor {
+  return {
+    value: sortValue(incident, sort),
+    namespace: incident.namespace,
+    service: incident.service,
+    dedupe_key: incident.dedupe_key,
+  }
+}
+
+function compareKeys(a: IncidentCursor, b: IncidentCursor): number {
+  if (a.value !== b.value) return a.value < b.value ? -1 : 1
+  for (const part of ['namespace', 'service', 'dedupe_key'] as const) {
+    if (a[part] !== b[part]) return a[part] < b[part] ? -1 : 1
+  }
+  return 0
+}
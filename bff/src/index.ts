@@ -1,5 +1,6 @@
 import fs from 'fs'
 import path from 'path'
+import { once } from 'events'
 import express, { Request, Response } from 'express'
 
 // Simple .env loader
@@ -26,56 +27,190 @@ import cors from 'cors'
 import morgan from 'morgan'
 import http from 'http'
 import WebSocket, { WebSocketServer } from 'ws'
-import { Storage } from './storage'
-import { AlertService } from './service'
-import { WSMessage, AlertEvent } from './types'
-import { SmsService } from './sms.service'
+import { createStorage } from './storage'
+import {
+  AlertService,
+  BatchInput,
+  INCIDENT_ACTIONS,
+  IncidentActionResult,
+} from './service'
+import { NotificationStatus, SilenceState, WSMessage } from './types'
+import { createChannels, NotificationService } from './notifications.service'
+import { NotificationTemplates } from './templates'
+import { OutboxService, OutboxResult, NOTIFICATION_STATUSES } from './outbox.service'
+import { DigestService } from './digest.service'
+import { createSummarizer } from './summarizer'
+import { WebhookVerifier, captureRawBody } from './webhook.auth'
+import { adminAuth } from './admin.auth'
+import { NoteService, NoteResult } from './notes.service'
+import { SilenceService, SilenceResult, SILENCE_STATES } from './silences.service'
+import { RoutingService, RoutingRuleResult } from './routing.service'
+import { StreamService } from './stream.service'
+import { StreamClientOptions } from './stream.client'
+import { WebSocketClient } from './websocket.client'
+import { SseClient } from './sse.client'
+import { parseSubscriptionQuery } from './subscriptions'
+import { parseIncidentQuery } from './incidents.query'
+import { AnalyticsService, parseTrendQuery } from './analytics.service'
+import { ReportService, parseReportQuery } from './reports.service'
+import { EXPORT_FORMATS, ExportService, parseExportQuery } from './export.service'
+import { ReplayResult, ReplayService, parseReplaySpeed } from './replay.service'
 
 const app = express()
 app.use(cors())
-app.use(express.json({ limit: '10mb' }))
+app.use(express.json({ limit: '10mb', verify: captureRawBody }))
+app.use(
+  express.text({
+    type: ['application/x-ndjson', 'application/ndjson'],
+    limit: '10mb',
+    verify: captureRawBody,
+  })
+)
 app.use(morgan('dev'))
 
 const PORT = process.env.PORT || 3001
 const DB_PATH = process.env.DB_PATH || './alerts.db'
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND
+const DATABASE_URL = process.env.DATABASE_URL
+const WEBHOOK_SECRETS = (process.env.WEBHOOK_SECRETS || '').split(',').map((s) => s.trim())
+const WEBHOOK_TOLERANCE_SECONDS = Number(process.env.WEBHOOK_TOLERANCE_SECONDS) || 300
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN
+// Guards /api/admin and the other routes that change where notifications go
+const requireAdmin = adminAuth(ADMIN_TOKEN)
+// Notifications per channel recipient per window; 0 turns the limit off
+const NOTIFY_RATE_LIMIT = Number(process.env.NOTIFY_RATE_LIMIT || 10)
+if (!Number.isInteger(NOTIFY_RATE_LIMIT) || NOTIFY_RATE_LIMIT < 0) {
+  throw new Error(
+    `NOTIFY_RATE_LIMIT must be a non-negative integer, not "${process.env.NOTIFY_RATE_LIMIT}"`
+  )
+}
+
+const list = (value: string | undefined) =>
+  (value || '').split(',').map((s) => s.trim()).filter((s) => s.length > 0)
 
 // Initialize storage and service
-const storage = new Storage(DB_PATH)
+const storage = createStorage({
+  backend: STORAGE_BACKEND,
+  dbPath: DB_PATH,
+  databaseUrl: DATABASE_URL,
+})
 const server = http.createServer(app)
 const wss = new WebSocketServer({ server, path: '/ws' })
-const smsService = new SmsService()
+const channels = createChannels({
+  fitSms: {
+    url: process.env.FITSMS_URL,
+    apiKey: process.env.FITSMS_API_KEY,
+    senderId: process.env.FITSMS_SENDER_ID,
+    recipients: list(process.env.SMS_RECIPIENT),
+  },
+  webhook: {
+    urls: list(process.env.NOTIFY_WEBHOOK_URLS),
+    secret: process.env.NOTIFY_WEBHOOK_SECRET,
+  },
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: Number(process.env.SMTP_PORT) || undefined,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM,
+    recipients: list(process.env.EMAIL_RECIPIENTS),
+  },
+  file: process.env.NOTIFY_FILE,
+})
+const templates = new NotificationTemplates({
+  dir: process.env.NOTIFY_TEMPLATE_DIR,
+  dashboardUrl: process.env.DASHBOARD_URL,
+  summarizer: createSummarizer({
+    kind: process.env.NOTIFY_SUMMARIZER,
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiUrl: process.env.OPENAI_URL,
+  }),
+})
+const outbox = new OutboxService(storage, channels, broadcast, {
+  maxAttempts: Number(process.env.NOTIFY_MAX_ATTEMPTS) || undefined,
+  retryBaseSeconds: Number(process.env.NOTIFY_RETRY_BASE_SECONDS) || undefined,
+  rateLimit: {
+    limit: NOTIFY_RATE_LIMIT,
+    windowMinutes: Number(process.env.NOTIFY_RATE_LIMIT_WINDOW_MINUTES) || 15,
+  },
+})
+const notificationService = new NotificationService(channels, templates, outbox)
+const webhookVerifier = new WebhookVerifier({
+  secrets: WEBHOOK_SECRETS,
+  toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS,
+})
+
+const stream = new StreamService(storage, {
+  retention: Number(process.env.STREAM_RETENTION) || undefined,
+  heartbeatSeconds: Number(process.env.STREAM_HEARTBEAT_SECONDS) || undefined,
+})
+const streamClientOptions: StreamClientOptions = {
+  maxBufferedBytes: (Number(process.env.STREAM_CLIENT_BUFFER_KB) || 1024) * 1024,
+  maxBacklog: Number(process.env.STREAM_CLIENT_BACKLOG) || 500,
+}
 
-// Broadcast function for WebSocket
+// Broadcast function for WebSocket: every message is numbered and logged by the stream,
+// which sends it on to each connected client of every replica
 function broadcast(message: WSMessage) {
-  const payload = JSON.stringify(message)
-  wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(payload)
-    }
-  })
+  stream
+    .publish(message)
+    .catch((err) => console.error(`Failed to publish ${message.type} to the stream:`, err))
 }
 
-const alertService = new AlertService(storage, broadcast, smsService)
+const silenceService = new SilenceService(storage, broadcast)
+const routingService = new RoutingService(storage, notificationService, broadcast)
+const digestSeverities = list(process.env.NOTIFY_DIGEST_SEVERITIES)
+const digestService =
+  digestSeverities.length > 0
+    ? new DigestService(storage, notificationService, {
+        severities: digestSeverities,
+        intervalMinutes: Number(process.env.NOTIFY_DIGEST_INTERVAL_MINUTES) || undefined,
+      })
+    : undefined
+const alertService = new AlertService(
+  storage,
+  broadcast,
+  notificationService,
+  silenceService,
+  routingService,
+  digestService
+)
+const noteService = new NoteService(storage, broadcast)
+const analyticsService = new AnalyticsService(storage)
+const reportService = new ReportService(storage)
+const exportService = new ExportService(storage)
+const replayService = new ReplayService(alertService)
 
 // WebSocket connection handler
-wss.on('connection', (ws: WebSocket) => {
+wss.on('connection', (ws: WebSocket, request: http.IncomingMessage) => {
   console.log('Client connected to WebSocket')
+  stream.attach(new WebSocketClient(ws, request, stream, streamClientOptions))
+})
 
-  // Send connection confirmation
-  ws.send(
-    JSON.stringify({
-      type: 'connection',
-      data: { status: 'connected', timestamp: new Date().toISOString() },
-    })
-  )
-
-  ws.on('close', () => {
-    console.log('Client disconnected from WebSocket')
-  })
+// GET /sse - The same stream as Server-Sent Events, for clients that cannot open a
+// WebSocket. Subscription fields are comma-separated query parameters (?services=a,b);
+// a reconnecting EventSource resumes from Last-Event-ID, anything else can pass ?since=
+app.get('/sse', (req: Request, res: Response) => {
+  const parsed = parseSubscriptionQuery(req.query)
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error })
+  }
+  const resumeFrom = req.get('Last-Event-ID') ?? req.query.since
+  const since = resumeFrom === undefined || resumeFrom === '' ? undefined : Number(resumeFrom)
+  if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+    return res.status(400).json({ error: 'since must be a non-negative integer' })
+  }
 
-  ws.on('error', (error) => {
-    console.error('WebSocket error:', error)
+  console.log('Client connected to SSE stream')
+  const client = new SseClient(req, res, streamClientOptions)
+  client.subscription = parsed.subscription
+  req.on('close', () => {
+    console.log('Client disconnected from SSE stream')
+    stream.detach(client)
   })
+  stream.attach(client, since)
+  if (since !== undefined) stream.resume(client, since)
 })
 
 // Health check
@@ -84,17 +219,18 @@ app.get('/health', (req: Request, res: Response) => {
 })
 
 // ===== WEBHOOK INGESTION =====
+// Every /ingest route requires a valid HMAC signature when WEBHOOK_SECRETS is set
+app.use('/ingest', webhookVerifier.middleware())
+
 // POST /ingest/webhook - Receive full alert events from graph-alert-service
-app.post('/ingest/webhook', (req: Request, res: Response) => {
+app.post('/ingest/webhook', async (req: Request, res: Response) => {
   try {
-    const event = req.body as AlertEvent
-
-    const result = alertService.ingestAlertEvent(event)
+    const result = await alertService.ingestAlertEvent(req.body)
 
     if (result.success) {
       res.status(200).json({ success: true, message: result.message })
     } else {
-      res.status(400).json({ success: false, error: result.message })
+      res.status(400).json({ success: false, error: result.message, details: result.errors })
     }
   } catch (error: any) {
     console.error('Webhook ingestion error:', error)
@@ -102,12 +238,57 @@ app.post('/ingest/webhook', (req: Request, res: Response) => {
   }
 })
 
+// POST /ingest/webhook/batch - Receive many events as a JSON array or NDJSON (one event per line)
+const MAX_BATCH_EVENTS = 5000
+
+function parseNdjson(body: string): BatchInput[] {
+  return body
+    .split('\n')
+    .map((line, idx) => ({ line: line.trim(), lineNumber: idx + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => {
+      try {
+        return { payload: JSON.parse(line) }
+      } catch {
+        return { parseError: `Malformed JSON on line ${lineNumber}` }
+      }
+    })
+}
+
+app.post('/ingest/webhook/batch', async (req: Request, res: Response) => {
+  try {
+    let inputs: BatchInput[]
+    if (typeof req.body === 'string') {
+      inputs = parseNdjson(req.body)
+    } else if (Array.isArray(req.body)) {
+      inputs = req.body.map((payload: unknown) => ({ payload }))
+    } else {
+      return res
+        .status(400)
+        .json({ success: false, error: 'Expected a JSON array or an NDJSON body' })
+    }
+
+    if (inputs.length > MAX_BATCH_EVENTS) {
+      return res.status(413).json({
+        success: false,
+        error: `Batch exceeds ${MAX_BATCH_EVENTS} events`,
+      })
+    }
+
+    const result = await alertService.ingestBatch(inputs)
+    res.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error('Batch ingestion error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
 // ===== UI REST API =====
 
 // GET /api/overview - Dashboard overview stats
-app.get('/api/overview', (req: Request, res: Response) => {
+app.get('/api/overview', async (req: Request, res: Response) => {
   try {
-    const overview = alertService.getOverview()
+    const overview = await alertService.getOverview()
     res.json(overview)
   } catch (error: any) {
     console.error('Failed to get overview:', error)
@@ -115,28 +296,105 @@ app.get('/api/overview', (req: Request, res: Response) => {
   }
 })
 
-// GET /api/incidents - List incidents with optional filters
-app.get('/api/incidents', (req: Request, res: Response) => {
+// GET /api/analytics/incidents - Event and incident counts over time, from the event store
+// Query: interval=5m|1h|1d (default 1h),
+// group_by=severity|namespace|service|alert_type|decision (default severity), from, to,
+// and namespace, service, severity (comma-separated or repeated) to narrow the events
+app.get('/api/analytics/incidents', async (req: Request, res: Response) => {
+  try {
+    const query = parseTrendQuery(req.query)
+    if ('error' in query) {
+      return res.status(400).json({ error: query.error })
+    }
+
+    res.json(await analyticsService.trends(query))
+  } catch (error: any) {
+    console.error('Failed to compute incident trends:', error)
+    res.status(500).json({ error: 'Failed to fetch incident trends' })
+  }
+})
+
+// GET /api/reports/reliability - Time to acknowledge and resolve (mean, p90), reopen rate and
+// incident counts, overall and per namespace and service
+// Query: from, to (when episodes opened; default the last 7 days), namespace, service
+app.get('/api/reports/reliability', async (req: Request, res: Response) => {
+  try {
+    const query = parseReportQuery(req.query)
+    if ('error' in query) {
+      return res.status(400).json({ error: query.error })
+    }
+
+    res.json(await reportService.reliability(query))
+  } catch (error: any) {
+    console.error('Failed to build reliability report:', error)
+    res.status(500).json({ error: 'Failed to build reliability report' })
+  }
+})
+
+// GET /api/reports/reliability/incidents - The incident episodes behind the report
+// Query: as above
+app.get('/api/reports/reliability/incidents', async (req: Request, res: Response) => {
+  try {
+    const query = parseReportQuery(req.query)
+    if ('error' in query) {
+      return res.status(400).json({ error: query.error })
+    }
+
+    const episodes = await reportService.episodes(query)
+    res.json({ episodes, total: episodes.length })
+  } catch (error: any) {
+    console.error('Failed to list report incidents:', error)
+    res.status(500).json({ error: 'Failed to fetch report incidents' })
+  }
+})
+
+// GET /api/incidents - List incidents, most recently observed first
+// Query: status, severity, namespace, service, priority (comma-separated or repeated for
+// several values), auto, silenced=exclude|include|only (default exclude), from, to (bounds on
+// last_observed_at), q (text in the service, dedupe key or reason codes),
+// sort=last_observed_at|risk_score|severity|event_count, order=desc|asc, limit, and cursor
+// (next_cursor of the previous page). Without a limit every match is returned.
+app.get('/api/incidents', async (req: Request, res: Response) => {
   try {
-    const filter = {
-      status: req.query.status as string | undefined,
-      severity: req.query.severity as string | undefined,
-      namespace: req.query.namespace as string | undefined,
-      service: req.query.service as string | undefined,
-      priority: req.query.priority as string | undefined,
-      auto: req.query.auto ? req.query.auto === 'true' : undefined,
+    const parsed = parseIncidentQuery(req.query)
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error })
     }
 
-    const incidents = alertService.listIncidents(filter)
-    res.json({ incidents, total: incidents.length })
+    res.json(await alertService.listIncidentPage(parsed.filter, parsed.page))
   } catch (error: any) {
     console.error('Failed to list incidents:', error)
     res.status(500).json({ error: 'Failed to fetch incidents' })
   }
 })
 
+// GET /api/incidents/export - Download the incidents matching the /api/incidents filters as
+// CSV, NDJSON or JSON (?format=), optionally with their events (?events=true)
+app.get('/api/incidents/export', async (req: Request, res: Response) => {
+  const parsed = parseExportQuery(req.query)
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error })
+  }
+
+  const filename = `incidents-${new Date().toISOString().replace(/[:.]/g, '-')}.${parsed.format}`
+  res.setHeader('Content-Type', EXPORT_FORMATS[parsed.format])
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+  try {
+    for await (const chunk of exportService.export(parsed)) {
+      if (res.destroyed) return
+      if (!res.write(chunk)) await once(res, 'drain')
+    }
+    res.end()
+  } catch (error: any) {
+    console.error('Failed to export incidents:', error)
+    // Once the body has started the client can only tell from the connection dropping
+    if (res.headersSent) res.destroy()
+    else res.status(500).json({ error: 'Failed to export incidents' })
+  }
+})
+
 // GET /api/incidents/:dedupeKey - Get incident detail with timeline
-app.get('/api/incidents/:dedupeKey', (req: Request, res: Response) => {
+app.get('/api/incidents/:dedupeKey', async (req: Request, res: Response) => {
   try {
     const { dedupeKey } = req.params
     const namespace = req.query.namespace as string || 'default'
@@ -146,7 +404,7 @@ app.get('/api/incidents/:dedupeKey', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'service query parameter is required' })
     }
 
-    const incident = alertService.getIncidentDetail(dedupeKey, namespace, service)
+    const incident = await alertService.getIncidentDetail(dedupeKey, namespace, service)
 
     if (!incident) {
       return res.status(404).json({ error: 'Incident not found' })
@@ -159,10 +417,203 @@ app.get('/api/incidents/:dedupeKey', (req: Request, res: Response) => {
   }
 })
 
+// Maps service result statuses onto HTTP status codes
+type ServiceResult =
+  | IncidentActionResult
+  | NoteResult
+  | SilenceResult
+  | RoutingRuleResult
+  | OutboxResult
+
+const RESULT_STATUS_CODES: Record<ServiceResult['status'], number> = {
+  applied: 200,
+  created: 201,
+  updated: 200,
+  deleted: 200,
+  expired: 200,
+  not_found: 404,
+  invalid: 400,
+  conflict: 409,
+}
+
+function sendResult(res: Response, result: ServiceResult, data: Record<string, unknown>) {
+  const { success, message } = result
+  res
+    .status(RESULT_STATUS_CODES[result.status])
+    .json(success ? { success, message, ...data } : { success, error: message, ...data })
+}
+
+// POST /api/incidents/:dedupeKey/(acknowledge|assign|unassign|resolve|reopen)
+// Body: { actor, assignee? }; the incident is identified like the detail route
+app.post(
+  `/api/incidents/:dedupeKey/:action(${INCIDENT_ACTIONS.join('|')})`,
+  async (req: Request, res: Response) => {
+    try {
+      const { dedupeKey, action } = req.params
+      const namespace = req.query.namespace as string || 'default'
+      const service = req.query.service as string
+
+      if (!service) {
+        return res.status(400).json({ success: false, error: 'service query parameter is required' })
+      }
+
+      const result = await alertService.applyIncidentAction(
+        { dedupe_key: dedupeKey, namespace, service },
+        {
+          action: action as (typeof INCIDENT_ACTIONS)[number],
+          actor: req.body?.actor,
+          assignee: req.body?.assignee,
+        }
+      )
+      sendResult(res, result, { incident: result.incident })
+    } catch (error: any) {
+      console.error('Failed to update incident:', error)
+      res.status(500).json({ success: false, error: 'Failed to update incident' })
+    }
+  }
+)
+
+// GET /api/incidents/:dedupeKey/notes - Responder notes, oldest first
+app.get('/api/incidents/:dedupeKey/notes', async (req: Request, res: Response) => {
+  try {
+    const { dedupeKey } = req.params
+    const namespace = req.query.namespace as string || 'default'
+    const service = req.query.service as string
+
+    if (!service) {
+      return res.status(400).json({ error: 'service query parameter is required' })
+    }
+
+    const notes = await noteService.listNotes({ dedupe_key: dedupeKey, namespace, service })
+    res.json({ notes, total: notes.length })
+  } catch (error: any) {
+    console.error('Failed to list notes:', error)
+    res.status(500).json({ error: 'Failed to fetch notes' })
+  }
+})
+
+// POST /api/incidents/:dedupeKey/notes - Add a note
+// Body: { author, body, format?: 'text' | 'markdown', event_id? }
+app.post('/api/incidents/:dedupeKey/notes', async (req: Request, res: Response) => {
+  try {
+    const { dedupeKey } = req.params
+    const namespace = req.query.namespace as string || 'default'
+    const service = req.query.service as string
+
+    if (!service) {
+      return res.status(400).json({ success: false, error: 'service query parameter is required' })
+    }
+
+    const { author, body, format, event_id } = req.body ?? {}
+    const result = await noteService.createNote(
+      { dedupe_key: dedupeKey, namespace, service },
+      { author, body, format, event_id }
+    )
+    sendResult(res, result, { note: result.note })
+  } catch (error: any) {
+    console.error('Failed to create note:', error)
+    res.status(500).json({ success: false, error: 'Failed to create note' })
+  }
+})
+
+// GET /api/incidents/:dedupeKey/notifications - Notifications sent about the incident, newest first
+app.get('/api/incidents/:dedupeKey/notifications', async (req: Request, res: Response) => {
+  try {
+    const { dedupeKey } = req.params
+    const namespace = req.query.namespace as string || 'default'
+    const service = req.query.service as string
+
+    if (!service) {
+      return res.status(400).json({ error: 'service query parameter is required' })
+    }
+
+    const notifications = await outbox.list({ dedupe_key: dedupeKey, namespace, service })
+    res.json({ notifications, total: notifications.length })
+  } catch (error: any) {
+    console.error('Failed to list incident notifications:', error)
+    res.status(500).json({ error: 'Failed to fetch notifications' })
+  }
+})
+
+// PATCH /api/notes/:noteId - Edit a note. Body: { actor, body?, format?, event_id? }
+app.patch('/api/notes/:noteId', async (req: Request, res: Response) => {
+  try {
+    const { actor, body, format, event_id } = req.body ?? {}
+    const result = await noteService.updateNote(req.params.noteId, { actor, body, format, event_id })
+    sendResult(res, result, { note: result.note })
+  } catch (error: any) {
+    console.error('Failed to update note:', error)
+    res.status(500).json({ success: false, error: 'Failed to update note' })
+  }
+})
+
+// DELETE /api/notes/:noteId?actor=<name>
+app.delete('/api/notes/:noteId', async (req: Request, res: Response) => {
+  try {
+    const actor = req.body?.actor ?? req.query.actor
+    const result = await noteService.deleteNote(req.params.noteId, actor)
+    sendResult(res, result, {})
+  } catch (error: any) {
+    console.error('Failed to delete note:', error)
+    res.status(500).json({ success: false, error: 'Failed to delete note' })
+  }
+})
+
+// GET /api/silences?state=pending|active|expired - Silence rules, newest first
+app.get('/api/silences', async (req: Request, res: Response) => {
+  try {
+    const state = req.query.state as string | undefined
+    if (state && !SILENCE_STATES.includes(state as SilenceState)) {
+      return res
+        .status(400)
+        .json({ error: `state must be one of: ${SILENCE_STATES.join(', ')}` })
+    }
+
+    const silences = await silenceService.listSilences(state as SilenceState | undefined)
+    res.json({ silences, total: silences.length })
+  } catch (error: any) {
+    console.error('Failed to list silences:', error)
+    res.status(500).json({ error: 'Failed to fetch silences' })
+  }
+})
+
+// POST /api/silences - Create a silence rule (admin token required)
+// Body: { matchers: { namespace?, service?, alert_type?, severity?, dedupe_key? },
+//         starts_at?, ends_at | duration_minutes, reason, created_by }
+app.post('/api/silences', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { matchers, starts_at, ends_at, duration_minutes, reason, created_by } = req.body ?? {}
+    const result = await silenceService.createSilence({
+      matchers,
+      starts_at,
+      ends_at,
+      duration_minutes,
+      reason,
+      created_by,
+    })
+    sendResult(res, result, { silence: result.silence })
+  } catch (error: any) {
+    console.error('Failed to create silence:', error)
+    res.status(500).json({ success: false, error: 'Failed to create silence' })
+  }
+})
+
+// POST /api/silences/:silenceId/expire - End a silence early (admin token required).
+// Body: { actor }
+app.post('/api/silences/:silenceId/expire', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await silenceService.expireSilence(req.params.silenceId, req.body?.actor)
+    sendResult(res, result, { silence: result.silence })
+  } catch (error: any) {
+    console.error('Failed to expire silence:', error)
+    res.status(500).json({ success: false, error: 'Failed to expire silence' })
+  }
+})
+
 // GET /api/services - List services with incident rollup
-app.get('/api/services', (req: Request, res: Response) => {
+app.get('/api/services', async (req: Request, res: Response) => {
   try {
-    const services = alertService.getServices()
+    const services = await alertService.getServices()
     res.json({ services, total: services.length })
   } catch (error: any) {
     console.error('Failed to list services:', error)
@@ -171,10 +622,10 @@ app.get('/api/services', (req: Request, res: Response) => {
 })
 
 // GET /api/events/:eventId - Get specific event details
-app.get('/api/events/:eventId', (req: Request, res: Response) => {
+app.get('/api/events/:eventId', async (req: Request, res: Response) => {
   try {
     const { eventId } = req.params
-    const event = alertService.getEvent(eventId)
+    const event = await alertService.getEvent(eventId)
 
     if (!event) {
       return res.status(404).json({ error: 'Event not found' })
@@ -187,8 +638,140 @@ app.get('/api/events/:eventId', (req: Request, res: Response) => {
   }
 })
 
-// POST /api/notifications/sms - Send SMS notification
-app.post('/api/notifications/sms', async (req: Request, res: Response) => {
+// POST /api/events/:eventId/acknowledge - Acknowledge the incident an event belongs to
+app.post('/api/events/:eventId/acknowledge', async (req: Request, res: Response) => {
+  try {
+    const result = await alertService.acknowledgeEvent(req.params.eventId, req.body?.actor)
+    sendResult(res, result, { incident: result.incident })
+  } catch (error: any) {
+    console.error('Failed to acknowledge event:', error)
+    res.status(500).json({ success: false, error: 'Failed to acknowledge incident' })
+  }
+})
+
+// GET /api/notifications/channels - Configured channels with their health
+app.get('/api/notifications/channels', async (req: Request, res: Response) => {
+  try {
+    const health = await channels.health()
+    res.json({ channels: health, total: health.length })
+  } catch (error: any) {
+    console.error('Failed to check notification channels:', error)
+    res.status(500).json({ error: 'Failed to check notification channels' })
+  }
+})
+
+// POST /api/notifications/channels/:name/test - Send a test message (admin token required)
+// Body: { recipient?, text? }; the recipient must be one of the channel's defaults, and
+// without one the message goes to all of them
+app.post(
+  '/api/notifications/channels/:name/test',
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const channel = channels.get(req.params.name)
+      if (!channel) {
+        return res.status(404).json({ success: false, error: 'Notification channel not found' })
+      }
+
+      const { recipient, text } = req.body ?? {}
+      if (recipient && !channel.defaultRecipients.includes(recipient)) {
+        return res.status(400).json({
+          success: false,
+          error: "recipient must be one of the channel's configured recipients",
+        })
+      }
+
+      const results = await channel.send({
+        recipient: recipient || undefined,
+        subject: 'Test notification',
+        text:
+          typeof text === 'string' && text ? text : 'Test notification from the alerts dashboard',
+      })
+      const success = results.every((r) => r.success)
+      res.status(success ? 200 : 502).json({ success, results })
+    } catch (error: any) {
+      console.error('Failed to send test notification:', error)
+      res.status(500).json({ success: false, error: 'Internal server error' })
+    }
+  }
+)
+
+// GET /api/notifications/rules - Routing rules in evaluation order
+app.get('/api/notifications/rules', async (req: Request, res: Response) => {
+  try {
+    const rules = await routingService.listRules()
+    res.json({ rules, total: rules.length })
+  } catch (error: any) {
+    console.error('Failed to list routing rules:', error)
+    res.status(500).json({ error: 'Failed to fetch routing rules' })
+  }
+})
+
+// POST /api/notifications/rules - Create a routing rule (appended last unless position is given)
+// Body: { name, enabled?, position?, continue?,
+//         matchers?: { severities?, namespaces?, services?, priorities?, auto?, reason_codes? },
+//         targets?: [{ channel, recipients? }], escalations?: [{ after_minutes, targets }],
+//         quiet_hours?: { start, end, timezone?, override_severities? } | null, actor }
+// Changing rules needs the admin token. Webhook recipients must be configured webhook URLs.
+app.post('/api/notifications/rules', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await routingService.createRule(routingRuleInput(req.body))
+    sendResult(res, result, { rule: result.rule })
+  } catch (error: any) {
+    console.error('Failed to create routing rule:', error)
+    res.status(500).json({ success: false, error: 'Failed to create routing rule' })
+  }
+})
+
+// PATCH /api/notifications/rules/:ruleId - Change some fields of a rule. Body as for POST
+app.patch(
+  '/api/notifications/rules/:ruleId',
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await routingService.updateRule(req.params.ruleId, routingRuleInput(req.body))
+      sendResult(res, result, { rule: result.rule })
+    } catch (error: any) {
+      console.error('Failed to update routing rule:', error)
+      res.status(500).json({ success: false, error: 'Failed to update routing rule' })
+    }
+  }
+)
+
+// DELETE /api/notifications/rules/:ruleId?actor=<name>
+app.delete(
+  '/api/notifications/rules/:ruleId',
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const actor = req.body?.actor ?? req.query.actor
+      const result = await routingService.deleteRule(req.params.ruleId, actor)
+      sendResult(res, result, {})
+    } catch (error: any) {
+      console.error('Failed to delete routing rule:', error)
+      res.status(500).json({ success: false, error: 'Failed to delete routing rule' })
+    }
+  }
+)
+
+function routingRuleInput(body: Record<string, unknown> | undefined) {
+  const { name, enabled, position, matchers, targets, escalations, quiet_hours, actor } = body ?? {}
+  return {
+    name,
+    enabled,
+    position,
+    matchers,
+    targets,
+    escalations,
+    quiet_hours,
+    continue: body?.continue,
+    actor,
+  }
+}
+
+// POST /api/notifications/sms - Send SMS notification through the "sms" channel (admin token
+// required). The recipient must be one of the channel's configured recipients (SMS_RECIPIENT)
+app.post('/api/notifications/sms', requireAdmin, async (req: Request, res: Response) => {
   try {
     const { recipient, message, shouldSummarize } = req.body
 
@@ -196,16 +779,31 @@ app.post('/api/notifications/sms', async (req: Request, res: Response) => {
       return res.status(400).json({ success: false, error: 'Recipient and message are required' })
     }
 
-    const result = await smsService.sendSms({
+    const sms = channels.get('sms')
+    if (!sms) {
+      return res.status(503).json({ success: false, error: 'SMS channel is not configured' })
+    }
+    if (!sms.defaultRecipients.includes(recipient)) {
+      return res.status(400).json({
+        success: false,
+        error: "recipient must be one of the channel's configured recipients",
+      })
+    }
+
+    const text = shouldSummarize ?? true ? await templates.condense(message) : message
+    const notification = await outbox.dispatch(
+      sms,
       recipient,
-      message,
-      shouldSummarize: shouldSummarize ?? true
-    })
+      { subject: '', text },
+      { reason: 'manual' }
+    )
 
-    if (result.success) {
-      res.json({ success: true, data: result.data })
+    const { notification_id, provider_response } = notification
+    if (notification.status === 'sent') {
+      res.json({ success: true, notification_id, data: provider_response })
     } else {
-      res.status(502).json({ success: false, error: result.error })
+      // Retried in the background unless the failure was permanent
+      res.status(502).json({ success: false, notification_id, error: notification.last_error })
     }
   } catch (error: any) {
     console.error('Failed to send SMS:', error)
@@ -213,37 +811,175 @@ app.post('/api/notifications/sms', async (req: Request, res: Response) => {
   }
 })
 
+// GET /api/notifications/outbox?status=&channel=&limit= - Delivery log, newest first.
+// status=dead lists the dead-letter queue.
+app.get('/api/notifications/outbox', async (req: Request, res: Response) => {
+  try {
+    const { status, channel } = req.query as Record<string, string | undefined>
+    if (status && !NOTIFICATION_STATUSES.includes(status as NotificationStatus)) {
+      return res
+        .status(400)
+        .json({ error: `status must be one of: ${NOTIFICATION_STATUSES.join(', ')}` })
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 100, 500)
+    const notifications = await outbox.list({
+      status: status as NotificationStatus | undefined,
+      channel,
+      limit,
+    })
+    res.json({ notifications, total: notifications.length })
+  } catch (error: any) {
+    console.error('Failed to list notifications:', error)
+    res.status(500).json({ error: 'Failed to fetch notifications' })
+  }
+})
+
+// POST /api/notifications/outbox/:notificationId/retry - Send a failed notification again now
+// (admin token required). Body: { actor }
+app.post(
+  '/api/notifications/outbox/:notificationId/retry',
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await outbox.retry(req.params.notificationId, req.body?.actor)
+      sendResult(res, result, { notification: result.notification })
+    } catch (error: any) {
+      console.error('Failed to retry notification:', error)
+      res.status(500).json({ success: false, error: 'Failed to retry notification' })
+    }
+  }
+)
+
 // GET /api/stats - Connection and system stats
-app.get('/api/stats', (req: Request, res: Response) => {
-  const overview = alertService.getOverview()
-  res.json({
-    ws_connections: wss.clients.size,
-    ...overview,
-  })
+app.get('/api/stats', async (req: Request, res: Response) => {
+  try {
+    const overview = await alertService.getOverview()
+    res.json({
+      ws_connections: stream.clientCount('websocket'),
+      sse_connections: stream.clientCount('sse'),
+      webhook: webhookVerifier.stats(),
+      ...overview,
+    })
+  } catch (error: any) {
+    console.error('Failed to get stats:', error)
+    res.status(500).json({ error: 'Failed to fetch stats' })
+  }
 })
 
-// Start server
-server.listen(PORT, () => {
-  console.log(`Dashboard BFF server running on http://localhost:${PORT}`)
-  console.log(`WebSocket endpoint: ws://localhost:${PORT}/ws`)
-  console.log(`Webhook endpoint: http://localhost:${PORT}/ingest/webhook`)
+// Admin endpoints
+app.use('/api/admin', requireAdmin)
+
+// POST /api/admin/rebuild-projections - Recompute every incident from stored events
+app.post('/api/admin/rebuild-projections', async (req: Request, res: Response) => {
+  try {
+    const result = await alertService.rebuildProjections()
+    console.log(
+      `Rebuilt ${result.incidents} incidents from ${result.events} events in ${result.duration_ms}ms`
+    )
+    res.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error('Failed to rebuild projections:', error)
+    res.status(500).json({ success: false, error: 'Failed to rebuild projections' })
+  }
 })
 
-// Graceful shutdown
-process.on('SIGINT', () => {
-  console.log('\nShutting down gracefully...')
-  storage.close()
-  server.close(() => {
-    console.log('Server closed')
-    process.exit(0)
-  })
+// GET /api/admin/stream/clients - Connected stream clients with their subscriptions and
+// delivery counters
+app.get('/api/admin/stream/clients', (req: Request, res: Response) => {
+  res.json({ last_seq: stream.lastSeq, clients: stream.listClients() })
+})
+
+// POST /api/admin/replay - Replay an archive of events (NDJSON or a JSON array) through
+// ingestion, ?speed=instant, recorded (default) or a multiplier such as 60x; ?retime=true
+// moves the events' timestamps to when they are replayed
+app.post('/api/admin/replay', (req: Request, res: Response) => {
+  const speed = parseReplaySpeed(req.query.speed)
+  if (typeof speed === 'object') {
+    return res.status(400).json({ success: false, error: speed.error })
+  }
+  const retime = req.query.retime ?? 'false'
+  if (retime !== 'true' && retime !== 'false') {
+    return res.status(400).json({ success: false, error: 'retime must be true or false' })
+  }
+
+  let inputs: BatchInput[]
+  if (typeof req.body === 'string') {
+    inputs = parseNdjson(req.body)
+  } else if (Array.isArray(req.body)) {
+    inputs = req.body.map((payload: unknown) => ({ payload }))
+  } else {
+    return res
+      .status(400)
+      .json({ success: false, error: 'Expected a JSON array or an NDJSON body' })
+  }
+
+  const result = replayService.start(inputs, { speed, retime: retime === 'true' })
+  const status = result.success ? 202 : result.status === 'conflict' ? 409 : 400
+  res.status(status).json(replayResponse(result))
+})
+
+// GET /api/admin/replay - Progress of the running (or last) replay
+app.get('/api/admin/replay', (req: Request, res: Response) => {
+  const replay = replayService.status()
+  if (!replay) {
+    return res.status(404).json({ success: false, error: 'No replay has run' })
+  }
+  res.json({ success: true, replay })
+})
+
+// POST /api/admin/replay/cancel - Stop the running replay; ingested events stay
+app.post('/api/admin/replay/cancel', (req: Request, res: Response) => {
+  const result = replayService.cancel()
+  const status = result.success ? 200 : result.status === 'conflict' ? 409 : 404
+  res.status(status).json(replayResponse(result))
 })
 
-process.on('SIGTERM', () => {
+function replayResponse(result: ReplayResult) {
+  return result.success
+    ? { success: true, message: result.message, replay: result.replay }
+    : { success: false, error: result.message, replay: result.replay }
+}
+
+// Start server once storage is migrated
+storage
+  .init()
+  .then(() => stream.init())
+  .then(() => {
+    stream.start()
+    silenceService.start()
+    routingService.start()
+    outbox.start()
+    digestService?.start()
+    server.listen(PORT, () => {
+      console.log(`Dashboard BFF server running on http://localhost:${PORT}`)
+      console.log(`WebSocket endpoint: ws://localhost:${PORT}/ws`)
+      console.log(`SSE endpoint: http://localhost:${PORT}/sse`)
+      console.log(`Webhook endpoint: http://localhost:${PORT}/ingest/webhook`)
+    })
+  })
+  .catch((error) => {
+    console.error('Failed to initialize storage:', error)
+    process.exit(1)
+  })
+
+// Graceful shutdown
+function shutdown() {
   console.log('\nShutting down gracefully...')
-  storage.close()
+  stream.stop()
+  stream.disconnectAll()
+  silenceService.stop()
+  routingService.stop()
+  outbox.stop()
+  digestService?.stop()
+  replayService.stop()
   server.close(() => {
-    console.log('Server closed')
-    process.exit(0)
+    storage.close().finally(() => {
+      console.log('Server closed')
+      process.exit(0)
+    })
   })
-})
\ No newline at end of file
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
\ No newline at end of file
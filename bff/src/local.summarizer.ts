@@ -0,0 +1,37 @@
+import { Summarizer } from './summarizer'
+
+// Deterministic stand-in for the LLM step, for tests and offline development: keeps
+// the first lines of the rendered alert, shortens common words and joins the lines
+// until the limit is reached. The same input always gives the same summary.
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\bcritical\b/gi, 'CRIT'],
+  [/\bwarning\b/gi, 'WARN'],
+  [/\bnamespace\b/gi, 'ns'],
+  [/\bservice\b/gi, 'svc'],
+  [/\blatency\b/gi, 'lat'],
+  [/\bpriority\b/gi, 'prio'],
+  [/\bobserved\b/gi, 'at'],
+  [/\s+/g, ' '],
+]
+
+export class LocalSummarizer implements Summarizer {
+  readonly name = 'local'
+
+  async summarize(text: string, maxLength: number): Promise<string> {
+    const lines = text
+      .split('\n')
+      .map((line) => ABBREVIATIONS.reduce((s, [pattern, short]) => s.replace(pattern, short), line))
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+
+    let summary = ''
+    for (const line of lines) {
+      const next = summary ? `${summary} | ${line}` : line
+      if (next.length > maxLength) break
+      summary = next
+    }
+    if (!summary) throw new Error('Nothing fits the length limit')
+    return summary
+  }
+}
@@ -0,0 +1,583 @@
+import {
+  AlertEvent,
+  Incident,
+  IncidentAction,
+  IncidentNote,
+  SilenceRule,
+  RoutingRule,
+  NotificationRecord,
+  ServiceRollup,
+  Overview,
+  IncidentDetail,
+  SequencedMessage,
+  WSMessage,
+} from './types'
+import {
+  StorageBackend,
+  IncidentListFilter,
+  IncidentKey,
+  IncidentPageRequest,
+  NotificationListFilter,
+  EventBucketQuery,
+  EventBucketCount,
+  EventGroupBy,
+  QueuedDigestEntry,
+  JobRun,
+} from './storage'
+import {
+  DEFAULT_INCIDENT_PAGE,
+  compareIncidents,
+  isAfterCursor,
+  matchesText,
+} from './incidents.query'
+import { IncidentLocks } from './incident.lock'
+
+function eventGroup(event: AlertEvent, groupBy: EventGroupBy): string {
+  switch (groupBy) {
+    case 'severity':
+      return event.alert.severity
+    case 'namespace':
+      return event.service.namespace
+    case 'service':
+      return `${event.service.namespace}/${event.service.name}`
+    case 'alert_type':
+      return event.alert.type
+    case 'decision':
+      return event.decision.auto ? 'auto' : 'manual'
+  }
+}
+
+// In-memory storage implementation (used for tests and DB_PATH=:memory:)
+export class MemoryStorage implements StorageBackend {
+  private events: Map<string, AlertEvent> = new Map()
+  private incidents: Map<string, Incident> = new Map()
+  private actions: IncidentAction[] = []
+  private notes: Map<string, IncidentNote> = new Map()
+  private silences: Map<string, SilenceRule> = new Map()
+  private routingRules: Map<string, RoutingRule> = new Map()
+  private notifications: Map<string, NotificationRecord> = new Map()
+  // Until when each claimed notification is claimed
+  private notificationClaims: Map<string, string> = new Map()
+  private digestEntries: QueuedDigestEntry[] = []
+  // When each periodic job last ran
+  private jobRuns: Map<string, string> = new Map()
+  // Appended in seq order
+  private streamMessages: SequencedMessage[] = []
+  private streamListeners: ((seq: number) => void)[] = []
+  private locks = new IncidentLocks()
+
+  constructor() {
+    console.log('Using in-memory storage')
+  }
+
+  async init(): Promise<void> {
+    // Nothing to prepare for in-memory storage
+  }
+
+  // Event operations
+  async insertEvent(event: AlertEvent): Promise<boolean> {
+    if (this.events.has(event.event_id)) {
+      // Duplicate event_id - idempotency
+      return false
+    }
+
+    this.events.set(event.event_id, event)
+    return true
+  }
+
+  async getEvent(eventId: string): Promise<AlertEvent | null> {
+    return this.events.get(eventId) || null
+  }
+
+  async getEventsByDedupeKey(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<AlertEvent[]> {
+    const events: AlertEvent[] = []
+    
+    for (const event of this.events.values()) {
+      if (
+        event.dedupe_key === dedupeKey &&
+        event.service.namespace === namespace &&
+        event.service.name === service
+      ) {
+        events.push(event)
+      }
+    }
+
+    // Sort by observed_at DESC
+    return events.sort((a, b) => 
+      new Date(b.observed_at).getTime() - new Date(a.observed_at).getTime()
+    )
+  }
+
+  async getEventHistory(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<AlertEvent[]> {
+    // Map iteration follows insertion order
+    return Array.from(this.events.values()).filter(
+      (event) =>
+        event.dedupe_key === dedupeKey &&
+        event.service.namespace === namespace &&
+        event.service.name === service
+    )
+  }
+
+  async listIncidentKeys(): Promise<IncidentKey[]> {
+    const keys = new Map<string, IncidentKey>()
+
+    for (const event of this.events.values()) {
+      const key = this.getIncidentKey(event.dedupe_key, event.service.namespace, event.service.name)
+      if (!keys.has(key)) {
+        keys.set(key, {
+          dedupe_key: event.dedupe_key,
+          namespace: event.service.namespace,
+          service: event.service.name,
+        })
+      }
+    }
+
+    return Array.from(keys.values())
+  }
+
+  // Incident operations
+  async upsertIncident(incident: Incident): Promise<void> {
+    const key = this.getIncidentKey(incident.dedupe_key, incident.namespace, incident.service)
+    this.incidents.set(key, incident)
+  }
+
+  async getIncident(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<Incident | null> {
+    const key = this.getIncidentKey(dedupeKey, namespace, service)
+    return this.incidents.get(key) || null
+  }
+
+  async withIncidentLock<T>(
+    key: IncidentKey,
+    fn: (storage: StorageBackend) => Promise<T>
+  ): Promise<T> {
+    return this.locks.run(key, () => fn(this))
+  }
+
+  async listIncidents(
+    filter?: IncidentListFilter,
+    page: IncidentPageRequest = DEFAULT_INCIDENT_PAGE
+  ): Promise<Incident[]> {
+    const incidents = this.filterIncidents(filter)
+      .filter((i) => isAfterCursor(i, page))
+      .sort((a, b) => compareIncidents(a, b, page))
+    return page.limit !== undefined ? incidents.slice(0, page.limit) : incidents
+  }
+
+  async countIncidents(filter?: IncidentListFilter): Promise<number> {
+    return this.filterIncidents(filter).length
+  }
+
+  private filterIncidents(filter?: IncidentListFilter): Incident[] {
+    let incidents = Array.from(this.incidents.values())
+
+    if (filter) {
+      if (filter.status) {
+        incidents = incidents.filter((i) => i.status === filter.status!.toUpperCase())
+      }
+      if (filter.severity) {
+        incidents = incidents.filter((i) => filter.severity!.includes(i.current_severity))
+      }
+      if (filter.namespace) {
+        incidents = incidents.filter((i) => filter.namespace!.includes(i.namespace))
+      }
+      if (filter.service) {
+        incidents = incidents.filter((i) => filter.service!.includes(i.service))
+      }
+      if (filter.priority) {
+        incidents = incidents.filter((i) => filter.priority!.includes(i.current_priority))
+      }
+      if (filter.auto !== undefined) {
+        incidents = incidents.filter((i) => i.auto === filter.auto)
+      }
+      if (filter.silenced !== undefined) {
+        incidents = incidents.filter((i) => (i.silenced_by !== null) === filter.silenced)
+      }
+      if (filter.from) {
+        const from = new Date(filter.from).getTime()
+        incidents = incidents.filter((i) => new Date(i.last_observed_at).getTime() >= from)
+      }
+      if (filter.to) {
+        const to = new Date(filter.to).getTime()
+        incidents = incidents.filter((i) => new Date(i.last_observed_at).getTime() <= to)
+      }
+      if (filter.q) {
+        incidents = incidents.filter((i) => matchesText(i, filter.q!))
+      }
+    }
+
+    return incidents
+  }
+
+
+  async getIncidentDetail(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentDetail | null> {
+    const incident = await this.getIncident(dedupeKey, namespace, service)
+    if (!incident) return null
+
+    const events = await this.getEventsByDedupeKey(dedupeKey, namespace, service)
+    const actions = await this.getIncidentActions(dedupeKey, namespace, service)
+    const notes = await this.getIncidentNotes(dedupeKey, namespace, service)
+    return { ...incident, events, actions, notes }
+  }
+
+  // Operator actions
+  async insertIncidentAction(action: IncidentAction): Promise<void> {
+    this.actions.push(action)
+  }
+
+  async getIncidentActions(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentAction[]> {
+    return this.actions.filter(
+      (a) => a.dedupe_key === dedupeKey && a.namespace === namespace && a.service === service
+    )
+  }
+
+  // Incident notes
+  async insertNote(note: IncidentNote): Promise<void> {
+    this.notes.set(note.note_id, note)
+  }
+
+  async updateNote(note: IncidentNote): Promise<void> {
+    if (this.notes.has(note.note_id)) {
+      this.notes.set(note.note_id, note)
+    }
+  }
+
+  async deleteNote(noteId: string): Promise<boolean> {
+    return this.notes.delete(noteId)
+  }
+
+  async getNote(noteId: string): Promise<IncidentNote | null> {
+    return this.notes.get(noteId) || null
+  }
+
+  async getIncidentNotes(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentNote[]> {
+    // Map iteration follows insertion order, which is creation order
+    return Array.from(this.notes.values()).filter(
+      (n) => n.dedupe_key === dedupeKey && n.namespace === namespace && n.service === service
+    )
+  }
+
+  // Silence rules
+  async insertSilence(silence: SilenceRule): Promise<void> {
+    this.silences.set(silence.silence_id, silence)
+  }
+
+  async updateSilence(silence: SilenceRule): Promise<void> {
+    if (this.silences.has(silence.silence_id)) {
+      this.silences.set(silence.silence_id, silence)
+    }
+  }
+
+  async getSilence(silenceId: string): Promise<SilenceRule | null> {
+    return this.silences.get(silenceId) || null
+  }
+
+  async listSilences(): Promise<SilenceRule[]> {
+    return Array.from(this.silences.values()).reverse()
+  }
+
+  async deleteSilencesEndedBefore(cutoff: string): Promise<number> {
+    let deleted = 0
+    for (const silence of this.silences.values()) {
+      if (Date.parse(silence.ends_at) < Date.parse(cutoff)) {
+        this.silences.delete(silence.silence_id)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  // Notification routing rules
+  async insertRoutingRule(rule: RoutingRule): Promise<void> {
+    this.routingRules.set(rule.rule_id, rule)
+  }
+
+  async updateRoutingRule(rule: RoutingRule): Promise<void> {
+    if (this.routingRules.has(rule.rule_id)) {
+      this.routingRules.set(rule.rule_id, rule)
+    }
+  }
+
+  async deleteRoutingRule(ruleId: string): Promise<boolean> {
+    return this.routingRules.delete(ruleId)
+  }
+
+  async getRoutingRule(ruleId: string): Promise<RoutingRule | null> {
+    return this.routingRules.get(ruleId) || null
+  }
+
+  async listRoutingRules(): Promise<RoutingRule[]> {
+    // Map iteration is insertion order and the sort is stable
+    return Array.from(this.routingRules.values()).sort((a, b) => a.position - b.position)
+  }
+
+  // Notification outbox
+  async insertNotification(
+    notification: NotificationRecord,
+    claimedUntil?: string
+  ): Promise<void> {
+    this.notifications.set(notification.notification_id, notification)
+    if (claimedUntil) this.notificationClaims.set(notification.notification_id, claimedUntil)
+  }
+
+  async updateNotification(notification: NotificationRecord): Promise<void> {
+    if (this.notifications.has(notification.notification_id)) {
+      this.notifications.set(notification.notification_id, notification)
+      this.notificationClaims.delete(notification.notification_id)
+    }
+  }
+
+  async getNotification(notificationId: string): Promise<NotificationRecord | null> {
+    return this.notifications.get(notificationId) || null
+  }
+
+  async listNotifications(filter?: NotificationListFilter): Promise<NotificationRecord[]> {
+    const notifications = Array.from(this.notifications.values())
+      .reverse()
+      .filter(
+        (n) =>
+          (!filter?.dedupe_key || n.dedupe_key === filter.dedupe_key) &&
+          (!filter?.namespace || n.namespace === filter.namespace) &&
+          (!filter?.service || n.service === filter.service) &&
+          (!filter?.status || n.status === filter.status) &&
+          (!filter?.channel || n.channel === filter.channel)
+      )
+    return filter?.limit ? notifications.slice(0, filter.limit) : notifications
+  }
+
+  async claimNotification(
+    notificationId: string,
+    now: string,
+    until: string
+  ): Promise<NotificationRecord | null> {
+    const notification = this.notifications.get(notificationId)
+    if (!notification || notification.status === 'sent' || this.isClaimed(notificationId, now)) {
+      return null
+    }
+    this.notificationClaims.set(notificationId, until)
+    return notification
+  }
+
+  async claimDueNotifications(
+    now: string,
+    until: string,
+    limit: number
+  ): Promise<NotificationRecord[]> {
+    const due = Array.from(this.notifications.values())
+      .filter(
+        (n) =>
+          (n.status === 'pending' || n.status === 'retrying') &&
+          n.next_attempt_at !== null &&
+          Date.parse(n.next_attempt_at) <= Date.parse(now) &&
+          !this.isClaimed(n.notification_id, now)
+      )
+      .sort((a, b) => Date.parse(a.next_attempt_at!) - Date.parse(b.next_attempt_at!))
+      .slice(0, limit)
+    for (const n of due) this.notificationClaims.set(n.notification_id, until)
+    return due
+  }
+
+  // Digest queue
+  async insertDigestEntry(entry: QueuedDigestEntry): Promise<void> {
+    this.digestEntries.push(entry)
+  }
+
+  async takeDigestEntries(): Promise<QueuedDigestEntry[]> {
+    const taken = this.digestEntries
+    this.digestEntries = []
+    return taken
+  }
+
+  // Periodic jobs
+  async claimJobRun(job: string, at: string, notBefore: string): Promise<JobRun | null> {
+    const last = this.jobRuns.get(job)
+    if (last !== undefined && Date.parse(last) >= Date.parse(notBefore)) return null
+    this.jobRuns.set(job, at)
+    return { previous_run_at: last ?? null }
+  }
+
+  // Stream log
+  async appendStreamMessage(message: WSMessage): Promise<SequencedMessage> {
+    const last = this.streamMessages[this.streamMessages.length - 1]
+    const sequenced: SequencedMessage = { ...message, seq: (last?.seq ?? 0) + 1 }
+    this.streamMessages.push(sequenced)
+    this.streamListeners.forEach((listener) => listener(sequenced.seq))
+    return sequenced
+  }
+
+  async watchStream(listener: (seq: number) => void): Promise<void> {
+    this.streamListeners.push(listener)
+  }
+
+  async listStreamMessages(afterSeq: number, limit: number): Promise<SequencedMessage[]> {
+    return this.streamMessages.filter((m) => m.seq > afterSeq).slice(0, limit)
+  }
+
+  async getStreamBounds(): Promise<{ first: number; last: number } | null> {
+    const messages = this.streamMessages
+    if (messages.length === 0) return null
+    return { first: messages[0].seq, last: messages[messages.length - 1].seq }
+  }
+
+  async deleteStreamMessagesThrough(seq: number): Promise<number> {
+    const before = this.streamMessages.length
+    this.streamMessages = this.streamMessages.filter((m) => m.seq > seq)
+    return before - this.streamMessages.length
+  }
+
+  // Overview and stats
+  async getOverview(): Promise<Overview> {
+    const incidents = Array.from(this.incidents.values())
+
+    const openIncidents = incidents.filter((i) => i.status === 'OPEN')
+    const resolvedIncidents = incidents.filter((i) => i.status === 'RESOLVED')
+
+    const criticalCount = incidents.filter((i) => i.current_severity === 'critical').length
+    const highCount = incidents.filter((i) => i.current_severity === 'high').length
+    const mediumCount = incidents.filter((i) => i.current_severity === 'medium').length
+    const lowCount = incidents.filter((i) => i.current_severity === 'low').length
+
+    const autoActionsCount = incidents.filter((i) => i.auto === true).length
+    const manualActionsCount = incidents.filter((i) => i.auto === false).length
+
+    const servicesAffected = new Set(
+      incidents.map((i) => `${i.namespace}:${i.service}`)
+    ).size
+
+    const lastUpdatedAt =
+      incidents.length > 0
+        ? incidents.reduce((latest, i) =>
+            new Date(i.last_observed_at).getTime() > new Date(latest).getTime()
+              ? i.last_observed_at
+              : latest
+          , incidents[0].last_observed_at)
+        : new Date().toISOString()
+
+    return {
+      total_incidents: incidents.length,
+      open_incidents: openIncidents.length,
+      resolved_incidents: resolvedIncidents.length,
+      critical_count: criticalCount,
+      high_count: highCount,
+      medium_count: mediumCount,
+      low_count: lowCount,
+      auto_actions_count: autoActionsCount,
+      manual_actions_count: manualActionsCount,
+      services_affected: servicesAffected,
+      last_updated_at: lastUpdatedAt,
+    }
+  }
+
+  async getServices(): Promise<ServiceRollup[]> {
+    const serviceMap = new Map<string, ServiceRollup>()
+
+    for (const incident of this.incidents.values()) {
+      const key = `${incident.namespace}:${incident.service}`
+      
+      if (!serviceMap.has(key)) {
+        serviceMap.set(key, {
+          namespace: incident.namespace,
+          service: incident.service,
+          open_incidents: 0,
+          critical_count: 0,
+          high_count: 0,
+          medium_count: 0,
+          low_count: 0,
+          last_alert_at: incident.last_observed_at,
+        })
+      }
+
+      const rollup = serviceMap.get(key)!
+
+      if (incident.status === 'OPEN') {
+        rollup.open_incidents++
+
+        if (incident.current_severity === 'critical') rollup.critical_count++
+        else if (incident.current_severity === 'high') rollup.high_count++
+        else if (incident.current_severity === 'medium') rollup.medium_count++
+        else if (incident.current_severity === 'low') rollup.low_count++
+      }
+
+      // Update last_alert_at if this incident is more recent
+      if (new Date(incident.last_observed_at).getTime() > new Date(rollup.last_alert_at).getTime()) {
+        rollup.last_alert_at = incident.last_observed_at
+      }
+    }
+
+    // Sort by open_incidents DESC, then critical_count DESC
+    return Array.from(serviceMap.values()).sort((a, b) => {
+      if (b.open_incidents !== a.open_incidents) {
+        return b.open_incidents - a.open_incidents
+      }
+      return b.critical_count - a.critical_count
+    })
+  }
+
+  async countEventBuckets(query: EventBucketQuery): Promise<EventBucketCount[]> {
+    const from = new Date(query.from).getTime()
+    const to = new Date(query.to).getTime()
+    const counts = new Map<string, EventBucketCount & { keys: Set<string> }>()
+
+    for (const event of this.events.values()) {
+      const observed = new Date(event.observed_at).getTime()
+      if (observed < from || observed >= to) continue
+      if (query.namespace && !query.namespace.includes(event.service.namespace)) continue
+      if (query.service && !query.service.includes(event.service.name)) continue
+      if (query.severity && !query.severity.includes(event.alert.severity)) continue
+
+      const bucket = Math.floor(observed / query.bucket_ms) * query.bucket_ms
+      const group = eventGroup(event, query.group_by)
+      const key = `${bucket}\u0000${group}`
+      let count = counts.get(key)
+      if (!count) {
+        count = { bucket, group, events: 0, incidents: 0, keys: new Set() }
+        counts.set(key, count)
+      }
+      count.events++
+      count.keys.add(
+        this.getIncidentKey(event.dedupe_key, event.service.namespace, event.service.name)
+      )
+    }
+
+    return Array.from(counts.values())
+      .map(({ keys, ...count }) => ({ ...count, incidents: keys.size }))
+      .sort((a, b) => a.bucket - b.bucket || (a.group < b.group ? -1 : 1))
+  }
+
+  private isClaimed(notificationId: string, now: string): boolean {
+    const until = this.notificationClaims.get(notificationId)
+    return until !== undefined && Date.parse(until) > Date.parse(now)
+  }
+
+  private getIncidentKey(dedupeKey: string, namespace: string, service: string): string {
+    return `${dedupeKey}:${namespace}:${service}`
+  }
+
+  async close(): Promise<void> {
+    // No-op for in-memory storage
+  }
+}
+
@@ -0,0 +1,175 @@
+import crypto from 'crypto'
+import { IncidentNote, NoteFormat, WSMessage } from './types'
+import { StorageBackend, IncidentKey } from './storage'
+import { normalizeName } from './service'
+
+export const NOTE_FORMATS: readonly NoteFormat[] = ['text', 'markdown']
+const MAX_NOTE_LENGTH = 10000
+
+export interface CreateNoteInput {
+  author: unknown
+  body: unknown
+  format?: unknown
+  event_id?: unknown
+}
+
+// Omitted fields are left as they are; event_id null (or '') removes the link
+export interface UpdateNoteInput {
+  actor: unknown
+  body?: unknown
+  format?: unknown
+  event_id?: unknown
+}
+
+export interface NoteResult {
+  success: boolean
+  status: 'created' | 'updated' | 'deleted' | 'not_found' | 'invalid'
+  message: string
+  note?: IncidentNote
+}
+
+// Responder notes on incidents. Every change is pushed over /ws so everyone
+// viewing the incident sees it without reloading.
+export class NoteService {
+  constructor(
+    private storage: StorageBackend,
+    private broadcast: (msg: WSMessage) => void
+  ) { }
+
+  listNotes(key: IncidentKey) {
+    return this.storage.getIncidentNotes(key.dedupe_key, key.namespace, key.service)
+  }
+
+  async createNote(key: IncidentKey, input: CreateNoteInput): Promise<NoteResult> {
+    const author = normalizeName(input.author)
+    if (!author) return invalid('author is required')
+
+    const body = validateBody(input.body)
+    if (typeof body !== 'string') return body
+
+    const format = validateFormat(input.format ?? 'text')
+    if (!format) return invalid(`format must be one of: ${NOTE_FORMATS.join(', ')}`)
+
+    const incident = await this.storage.getIncident(key.dedupe_key, key.namespace, key.service)
+    if (!incident) {
+      return { success: false, status: 'not_found', message: 'Incident not found' }
+    }
+
+    const eventId = await this.validateEventLink(key, input.event_id)
+    if (typeof eventId === 'object') return eventId
+
+    const now = new Date().toISOString()
+    const note: IncidentNote = {
+      note_id: crypto.randomUUID(),
+      dedupe_key: key.dedupe_key,
+      namespace: key.namespace,
+      service: key.service,
+      author,
+      body,
+      format,
+      ...(eventId ? { event_id: eventId } : {}),
+      created_at: now,
+      updated_at: now,
+    }
+    await this.storage.insertNote(note)
+
+    this.broadcast({ type: 'note_created', data: note })
+    return { success: true, status: 'created', message: 'Note added', note }
+  }
+
+  async updateNote(noteId: string, input: UpdateNoteInput): Promise<NoteResult> {
+    const actor = normalizeName(input.actor)
+    if (!actor) return invalid('actor is required')
+
+    const existing = await this.storage.getNote(noteId)
+    if (!existing) {
+      return { success: false, status: 'not_found', message: 'Note not found' }
+    }
+
+    const note: IncidentNote = { ...existing }
+
+    if (input.body !== undefined) {
+      const body = validateBody(input.body)
+      if (typeof body !== 'string') return body
+      note.body = body
+    }
+
+    if (input.format !== undefined) {
+      const format = validateFormat(input.format)
+      if (!format) return invalid(`format must be one of: ${NOTE_FORMATS.join(', ')}`)
+      note.format = format
+    }
+
+    if (input.event_id !== undefined) {
+      const eventId = await this.validateEventLink(existing, input.event_id)
+      if (typeof eventId === 'object') return eventId
+      if (eventId) note.event_id = eventId
+      else delete note.event_id
+    }
+
+    note.updated_at = new Date().toISOString()
+    note.edited_by = actor
+    await this.storage.updateNote(note)
+
+    this.broadcast({ type: 'note_updated', data: note })
+    return { success: true, status: 'updated', message: 'Note updated', note }
+  }
+
+  async deleteNote(noteId: string, actorInput: unknown): Promise<NoteResult> {
+    const actor = normalizeName(actorInput)
+    if (!actor) return invalid('actor is required')
+
+    const note = await this.storage.getNote(noteId)
+    if (!note || !(await this.storage.deleteNote(noteId))) {
+      return { success: false, status: 'not_found', message: 'Note not found' }
+    }
+
+    this.broadcast({
+      type: 'note_deleted',
+      data: {
+        note_id: note.note_id,
+        dedupe_key: note.dedupe_key,
+        namespace: note.namespace,
+        service: note.service,
+        deleted_by: actor,
+      },
+    })
+    return { success: true, status: 'deleted', message: 'Note deleted', note }
+  }
+
+  // A linked event must be one of the incident's own events
+  private async validateEventLink(
+    key: IncidentKey,
+    value: unknown
+  ): Promise<string | undefined | NoteResult> {
+    if (value === undefined || value === null || value === '') return undefined
+    if (typeof value !== 'string') return invalid('event_id must be a string')
+
+    const event = await this.storage.getEvent(value)
+    if (
+      !event ||
+      event.dedupe_key !== key.dedupe_key ||
+      event.service.namespace !== key.namespace ||
+      event.service.name !== key.service
+    ) {
+      return invalid(`event ${value} does not belong to this incident`)
+    }
+    return value
+  }
+}
+
+function invalid(message: string): NoteResult {
+  return { success: false, status: 'invalid', message }
+}
+
+function validateBody(value: unknown): string | NoteResult {
+  if (typeof value !== 'string' || value.trim() === '') return invalid('body is required')
+  if (value.length > MAX_NOTE_LENGTH) {
+    return invalid(`body must be at most ${MAX_NOTE_LENGTH} characters`)
+  }
+  return value
+}
+
+function validateFormat(value: unknown): NoteFormat | undefined {
+  return NOTE_FORMATS.find((format) => format === value)
+}
@@ -0,0 +1,165 @@
+import { AlertEvent, IncidentTransition, NotificationRecord, RouteTarget } from './types'
+import {
+  ChannelKind,
+  ChannelRegistry,
+  DeliveryResult,
+  NotificationChannel,
+  NotificationMessage,
+} from './channel'
+import { FitSmsChannel, FitSmsOptions } from './fitsms.channel'
+import { WebhookChannel, WebhookChannelOptions } from './webhook.channel'
+import { SmtpChannel, SmtpChannelOptions } from './smtp.channel'
+import { FileChannel } from './file.channel'
+import { Digest, NotificationTemplates, RenderedMessage } from './templates'
+import { OutboxOrigin, OutboxService } from './outbox.service'
+
+export interface ChannelOptions {
+  fitSms?: FitSmsOptions
+  webhook?: WebhookChannelOptions
+  smtp?: SmtpChannelOptions
+  // A file path to append NDJSON to, or "console"
+  file?: string
+}
+
+// Registers every channel whose configuration is present
+export function createChannels(options: ChannelOptions): ChannelRegistry {
+  const registry = new ChannelRegistry()
+
+  if (options.fitSms?.apiKey) {
+    registry.register(new FitSmsChannel('sms', options.fitSms))
+  }
+  if (options.webhook && options.webhook.urls.length > 0) {
+    registry.register(new WebhookChannel('webhook', options.webhook))
+  }
+  if (options.smtp?.host) {
+    registry.register(new SmtpChannel('email', options.smtp))
+  }
+  if (options.file) {
+    registry.register(new FileChannel(options.file === 'console' ? 'console' : 'file', options.file))
+  }
+
+  const channels = registry.list()
+  if (channels.length === 0) {
+    console.warn('No notification channels are configured. Alerts will not be sent anywhere.')
+  } else {
+    console.log(`Notification channels: ${channels.map((c) => `${c.name} (${c.kind})`).join(', ')}`)
+  }
+  return registry
+}
+
+export interface ChannelDelivery extends DeliveryResult {
+  channel: string
+}
+
+// Delivers alert notifications to routed targets, or to every registered channel. Each
+// channel kind gets the event rendered through its own template, and every recipient's
+// copy goes through the outbox, which records it and retries failed deliveries.
+export class NotificationService {
+  constructor(
+    private channels: ChannelRegistry,
+    private templates: NotificationTemplates,
+    private outbox: OutboxService
+  ) { }
+
+  channelNames(): string[] {
+    return this.channels.list().map((channel) => channel.name)
+  }
+
+  channelList(): NotificationChannel[] {
+    return this.channels.list()
+  }
+
+  // Without targets every channel gets the notification at its default recipients
+  notifyEvent(
+    event: AlertEvent,
+    targets?: RouteTarget[],
+    transition?: IncidentTransition
+  ): Promise<ChannelDelivery[]> {
+    return this.deliver(
+      { reason: 'alert', event },
+      (kind) => this.templates.render(kind, event, { transition }),
+      targets
+    )
+  }
+
+  notifyEscalation(
+    event: AlertEvent,
+    afterMinutes: number,
+    targets: RouteTarget[]
+  ): Promise<ChannelDelivery[]> {
+    return this.deliver(
+      { reason: 'escalation', event },
+      (kind) => this.templates.render(kind, event, { escalation: { after_minutes: afterMinutes } }),
+      targets
+    )
+  }
+
+  notifyDigest(digest: Digest, targets: RouteTarget[]): Promise<ChannelDelivery[]> {
+    return this.deliver(
+      { reason: 'digest' },
+      async (kind) => this.templates.renderDigest(kind, digest),
+      targets
+    )
+  }
+
+  private async deliver(
+    origin: OutboxOrigin,
+    renderKind: (kind: ChannelKind) => Promise<RenderedMessage>,
+    targets: RouteTarget[] = this.channels.list().map((channel) => ({ channel: channel.name }))
+  ): Promise<ChannelDelivery[]> {
+    // Rendered at most once per kind, and only for kinds that are actually targeted
+    const rendered = new Map<ChannelKind, Promise<NotificationMessage>>()
+    const render = (kind: ChannelKind) => {
+      let message = rendered.get(kind)
+      if (!message) {
+        message = renderKind(kind).then((body) => ({ ...body, event: origin.event }))
+        rendered.set(kind, message)
+      }
+      return message
+    }
+
+    const sends: Promise<ChannelDelivery[]>[] = []
+    for (const target of targets) {
+      const channel = this.channels.get(target.channel)
+      if (!channel) {
+        sends.push(Promise.resolve([failure(target.channel, 'Notification channel not found')]))
+        continue
+      }
+
+      // A channel without any recipient still gets a record, which is dead-lettered at once
+      const recipients = target.recipients?.length ? target.recipients : channel.defaultRecipients
+      for (const recipient of recipients.length > 0 ? recipients : ['']) {
+        sends.push(
+          render(channel.kind).then(
+            async (message) => [
+              toDelivery(await this.outbox.dispatch(channel, recipient, message, origin)),
+            ],
+            (error: any) => [
+              failure(channel.name, `Rendering the notification failed: ${error.message}`, recipient),
+            ]
+          )
+        )
+      }
+    }
+
+    const deliveries = (await Promise.all(sends)).flat()
+    for (const failed of deliveries.filter((d) => !d.success)) {
+      console.error(`Notification via ${failed.channel} to ${failed.recipient} failed: ${failed.error}`)
+    }
+    return deliveries
+  }
+}
+
+function toDelivery(record: NotificationRecord): ChannelDelivery {
+  return {
+    success: record.status === 'sent',
+    channel: record.channel,
+    recipient: record.recipient,
+    provider_response: record.provider_response,
+    ...(record.last_error ? { error: record.last_error } : {}),
+  }
+}
+
+function failure(channel: string, error: string, recipient = ''): ChannelDelivery {
+  return { success: false, channel, recipient, error }
+}
@@ -0,0 +1,61 @@
+import axios from 'axios'
+import { Summarizer } from './summarizer'
+
+// Summaries from GPT-4o through the chat completions API. The URL can point at any
+// compatible server, including a local stand-in.
+
+const DEFAULT_OPENAI_URL = 'https://api.openai.com/v1/chat/completions'
+const REQUEST_TIMEOUT_MS = 10000
+
+interface OpenAIChatResponse {
+  choices: {
+    message: {
+      content: string
+    }
+  }[]
+}
+
+export class OpenAiSummarizer implements Summarizer {
+  readonly name = 'openai'
+  private url: string
+
+  constructor(
+    private apiKey: string,
+    url?: string
+  ) {
+    this.url = url || DEFAULT_OPENAI_URL
+  }
+
+  async summarize(text: string, maxLength: number): Promise<string> {
+    const response = await axios.post<OpenAIChatResponse>(
+      this.url,
+      {
+        model: 'gpt-4o',
+        messages: [
+          {
+            role: 'system',
+            content:
+              'Summarize technical alerts for SMS. Format: "[SEVERITY] Service: <Name> \nIssue: <Concise Issue> \nValue: <Key Metric>". ' +
+              `Keep it under ${maxLength} characters total. Use newlines for readability.`,
+          },
+          { role: 'user', content: `Summarize this alert: ${text}` },
+        ],
+        max_tokens: 60,
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      }
+    )
+
+    const summary = response.data.choices[0]?.message?.content?.trim()
+    if (!summary) throw new Error('OpenAI returned an empty summary')
+    if (summary.length > maxLength) {
+      throw new Error(`OpenAI summary is ${summary.length} characters (limit ${maxLength})`)
+    }
+    return summary
+  }
+}
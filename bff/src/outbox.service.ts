@@ -0,0 +1,252 @@
+import crypto from 'crypto'
+import {
+  AlertEvent,
+  NotificationReason,
+  NotificationRecord,
+  NotificationStatus,
+  WSMessage,
+} from './types'
+import { ChannelRegistry, DeliveryResult, NotificationChannel, NotificationMessage } from './channel'
+import { StorageBackend, NotificationListFilter } from './storage'
+import { normalizeName } from './service'
+import { RateLimiter } from './ratelimit'
+
+export const NOTIFICATION_STATUSES: readonly NotificationStatus[] = [
+  'pending',
+  'retrying',
+  'sent',
+  'dead',
+  'suppressed',
+]
+
+const SWEEP_INTERVAL_MS = 10 * 1000
+const SWEEP_BATCH_SIZE = 50
+// How long an attempt holds its claim on a record; longer than any channel takes to time out
+const CLAIM_MS = 5 * 60 * 1000
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_RETRY_BASE_SECONDS = 30
+
+export interface OutboxOptions {
+  // Attempts before a notification is dead-lettered, the first one included
+  maxAttempts?: number
+  // Delay before the first retry; it doubles with every further attempt
+  retryBaseSeconds?: number
+  // At most `limit` notifications per channel and recipient in any window; manual
+  // messages are exempt. Unlimited when unset or 0.
+  rateLimit?: { limit: number; windowMinutes: number }
+}
+
+export interface OutboxOrigin {
+  reason: NotificationReason
+  event?: AlertEvent
+}
+
+export interface OutboxResult {
+  success: boolean
+  status: 'applied' | 'not_found' | 'invalid' | 'conflict'
+  message: string
+  notification?: NotificationRecord
+}
+
+// Every notification is written to storage before it is sent, and every attempt updates
+// the record, so there is a lasting answer to "who was paged, and did it arrive".
+// Failed deliveries are retried with exponential backoff by a periodic sweep; after the
+// last attempt, or a failure the channel reports as permanent, the record is dead-lettered
+// and stays there until someone retries it by hand. Each attempt claims its record in
+// storage first, so replicas sweeping the same outbox never send a record twice at once.
+// Records left pending by a restart are picked up by a sweep once their claim lapses.
+export class OutboxService {
+  private sweepTimer?: NodeJS.Timeout
+  private maxAttempts: number
+  private retryBaseMs: number
+  private rateLimiter?: RateLimiter
+
+  constructor(
+    private storage: StorageBackend,
+    private channels: ChannelRegistry,
+    private broadcast: (msg: WSMessage) => void,
+    options: OutboxOptions = {}
+  ) {
+    this.maxAttempts = Math.max(1, options.maxAttempts || DEFAULT_MAX_ATTEMPTS)
+    this.retryBaseMs = (options.retryBaseSeconds || DEFAULT_RETRY_BASE_SECONDS) * 1000
+    if (options.rateLimit?.limit) {
+      this.rateLimiter = new RateLimiter(
+        options.rateLimit.limit,
+        options.rateLimit.windowMinutes * 60 * 1000
+      )
+    }
+  }
+
+  list(filter?: NotificationListFilter) {
+    return this.storage.listNotifications(filter)
+  }
+
+  // Records the message for one recipient and makes the first attempt right away, unless
+  // the recipient is over its rate limit: then it is only recorded, as suppressed
+  async dispatch(
+    channel: NotificationChannel,
+    recipient: string,
+    message: NotificationMessage,
+    origin: OutboxOrigin
+  ): Promise<NotificationRecord> {
+    const now = new Date().toISOString()
+    const { event } = origin
+    const record: NotificationRecord = {
+      notification_id: crypto.randomUUID(),
+      reason: origin.reason,
+      dedupe_key: event?.dedupe_key ?? null,
+      namespace: event?.service.namespace ?? null,
+      service: event?.service.name ?? null,
+      event_id: event?.event_id ?? null,
+      channel: channel.name,
+      recipient,
+      subject: message.subject,
+      body: message.text,
+      html: message.html ?? null,
+      payload: message.payload ?? null,
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      provider_response: null,
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now,
+      sent_at: null,
+    }
+
+    const limiter = this.rateLimiter
+    const limited =
+      limiter && origin.reason !== 'manual' && !limiter.take(`${channel.name}\u0000${recipient}`)
+    if (limited) {
+      const minutes = limiter.windowMs / 60000
+      record.status = 'suppressed'
+      record.next_attempt_at = null
+      record.last_error = `Rate limit of ${limiter.limit} per ${minutes} minutes reached`
+      console.warn(`Notification via ${channel.name} to ${recipient} suppressed (rate limit)`)
+    }
+
+    // Inserted already claimed, so no sweep picks it up while the first attempt is under way
+    await this.storage.insertNotification(record, limited ? undefined : claimUntil(new Date(now)))
+    this.broadcast({ type: 'notification_updated', data: record })
+
+    return record.status === 'suppressed' ? record : this.attempt(record, event)
+  }
+
+  // Sends a dead-lettered or waiting notification again now, outside its schedule
+  async retry(notificationId: string, actor: unknown): Promise<OutboxResult> {
+    const name = normalizeName(actor)
+    if (!name) {
+      return { success: false, status: 'invalid', message: 'actor is required' }
+    }
+
+    const record = await this.storage.getNotification(notificationId)
+    if (!record) {
+      return { success: false, status: 'not_found', message: 'Notification not found' }
+    }
+    if (record.status === 'sent') {
+      return { success: false, status: 'conflict', message: 'Notification was already delivered' }
+    }
+    const now = new Date()
+    const claimed = await this.storage.claimNotification(
+      notificationId,
+      now.toISOString(),
+      claimUntil(now)
+    )
+    if (!claimed) {
+      return { success: false, status: 'conflict', message: 'Notification is being sent' }
+    }
+
+    console.log(`Notification ${notificationId} retried by ${name}`)
+    const notification = await this.attempt(claimed)
+    return {
+      success: true,
+      status: 'applied',
+      message: notification.status === 'sent' ? 'Notification delivered' : 'Delivery failed again',
+      notification,
+    }
+  }
+
+  // Attempt every notification whose retry is due
+  async sweep(now = new Date()): Promise<void> {
+    this.rateLimiter?.prune(now.getTime())
+
+    const due = await this.storage.claimDueNotifications(
+      now.toISOString(),
+      claimUntil(now),
+      SWEEP_BATCH_SIZE
+    )
+    for (const record of due) await this.attempt(record)
+  }
+
+  start(intervalMs = SWEEP_INTERVAL_MS) {
+    this.stop()
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((err) => console.error('Notification outbox sweep failed:', err))
+    }, intervalMs)
+    this.sweepTimer.unref()
+  }
+
+  stop() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer)
+    this.sweepTimer = undefined
+  }
+
+  // Sends a record this replica holds the claim on; recording the outcome releases it
+  private async attempt(record: NotificationRecord, event?: AlertEvent) {
+    const channel = this.channels.get(record.channel)
+    const [result]: DeliveryResult[] = channel
+      ? await channel.send({
+          recipient: record.recipient,
+          subject: record.subject,
+          text: record.body,
+          html: record.html ?? undefined,
+          payload: record.payload ?? undefined,
+          event,
+        })
+      : [
+          {
+            success: false,
+            recipient: record.recipient,
+            error: 'Notification channel not found',
+            retryable: false,
+          },
+        ]
+
+    const now = new Date()
+    const attempts = record.attempts + 1
+    const giveUp = result.retryable === false || attempts >= this.maxAttempts
+    const updated: NotificationRecord = {
+      ...record,
+      attempts,
+      provider_response: result.provider_response ?? null,
+      last_error: result.success ? null : result.error ?? 'Delivery failed',
+      updated_at: now.toISOString(),
+    }
+
+    if (result.success) {
+      updated.status = 'sent'
+      updated.sent_at = updated.updated_at
+      updated.next_attempt_at = null
+    } else if (giveUp) {
+      updated.status = 'dead'
+      updated.next_attempt_at = null
+      console.error(
+        `Notification ${record.notification_id} via ${record.channel} to ${record.recipient} ` +
+          `dead-lettered after ${attempts} attempt(s): ${updated.last_error}`
+      )
+    } else {
+      updated.status = 'retrying'
+      updated.next_attempt_at = new Date(
+        now.getTime() + this.retryBaseMs * 2 ** (attempts - 1)
+      ).toISOString()
+    }
+
+    await this.storage.updateNotification(updated)
+    this.broadcast({ type: 'notification_updated', data: updated })
+    return updated
+  }
+}
+
+function claimUntil(now: Date): string {
+  return new Date(now.getTime() + CLAIM_MS).toISOString()
+}
@@ -0,0 +1,1256 @@
+import { Pool, PoolClient } from 'pg'
+import {
+  AlertEvent,
+  Incident,
+  IncidentAction,
+  IncidentNote,
+  SilenceRule,
+  RoutingRule,
+  NotificationRecord,
+  ServiceRollup,
+  Overview,
+  IncidentDetail,
+  SequencedMessage,
+  WSMessage,
+} from './types'
+import {
+  StorageBackend,
+  IncidentListFilter,
+  IncidentKey,
+  IncidentPageRequest,
+  IncidentSort,
+  NotificationListFilter,
+  EventBucketQuery,
+  EventBucketCount,
+  EventGroupBy,
+  QueuedDigestEntry,
+  JobRun,
+} from './storage'
+import {
+  DEFAULT_INCIDENT_PAGE,
+  SEVERITY_RANK_SQL,
+  afterCursorSql,
+  cursorValues,
+} from './incidents.query'
+import { incidentLockKey } from './incident.lock'
+
+interface Migration {
+  version: number
+  name: string
+  sql: string
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_events_and_incidents',
+    sql: `
+      CREATE TABLE events (
+        event_id TEXT PRIMARY KEY,
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        observed_at TEXT NOT NULL,
+        observed_ts TIMESTAMPTZ NOT NULL,
+        payload JSONB NOT NULL,
+        received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX idx_events_dedupe_key ON events (dedupe_key, namespace, service);
+      CREATE INDEX idx_events_service ON events (namespace, service);
+      CREATE INDEX idx_events_observed_at ON events (observed_ts);
+
+      CREATE TABLE incidents (
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        status TEXT NOT NULL,
+        current_severity TEXT NOT NULL,
+        current_priority TEXT NOT NULL,
+        current_action TEXT NOT NULL,
+        auto BOOLEAN NOT NULL,
+        risk_score DOUBLE PRECISION NOT NULL,
+        reason_codes JSONB NOT NULL,
+        first_observed_at TEXT NOT NULL,
+        last_observed_at TEXT NOT NULL,
+        last_observed_ts TIMESTAMPTZ NOT NULL,
+        latest_event_id TEXT NOT NULL,
+        event_count INTEGER NOT NULL,
+        quality_flags JSONB NOT NULL,
+        PRIMARY KEY (dedupe_key, namespace, service)
+      );
+      CREATE INDEX idx_incidents_namespace ON incidents (namespace);
+      CREATE INDEX idx_incidents_service ON incidents (service);
+      CREATE INDEX idx_incidents_status ON incidents (status);
+      CREATE INDEX idx_incidents_last_observed_at ON incidents (last_observed_ts);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add_events_arrival_seq',
+    // Existing rows are numbered in table order, which is the best arrival order left to recover
+    sql: `
+      ALTER TABLE events ADD COLUMN seq BIGSERIAL;
+      CREATE INDEX idx_events_history ON events (dedupe_key, namespace, service, seq);
+    `,
+  },
+  {
+    version: 3,
+    name: 'add_incident_workflow',
+    // Existing incidents start with an empty workflow; POST /api/admin/rebuild-projections
+    // backfills resolved_at from their events
+    sql: `
+      ALTER TABLE incidents
+        ADD COLUMN acknowledged_at TEXT,
+        ADD COLUMN acknowledged_by TEXT,
+        ADD COLUMN assignee TEXT,
+        ADD COLUMN assigned_at TEXT,
+        ADD COLUMN assigned_by TEXT,
+        ADD COLUMN resolved_at TEXT,
+        ADD COLUMN resolved_by TEXT;
+
+      CREATE TABLE incident_actions (
+        seq BIGSERIAL,
+        action_id TEXT PRIMARY KEY,
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        assignee TEXT,
+        at TEXT NOT NULL
+      );
+      CREATE INDEX idx_incident_actions_incident
+        ON incident_actions (dedupe_key, namespace, service, seq);
+    `,
+  },
+  {
+    version: 4,
+    name: 'create_incident_notes',
+    sql: `
+      CREATE TABLE incident_notes (
+        seq BIGSERIAL,
+        note_id TEXT PRIMARY KEY,
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        author TEXT NOT NULL,
+        body TEXT NOT NULL,
+        format TEXT NOT NULL,
+        event_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        edited_by TEXT
+      );
+      CREATE INDEX idx_incident_notes_incident
+        ON incident_notes (dedupe_key, namespace, service, seq);
+    `,
+  },
+  {
+    version: 5,
+    name: 'create_silences',
+    sql: `
+      ALTER TABLE incidents ADD COLUMN silenced_by TEXT;
+
+      CREATE TABLE silences (
+        seq BIGSERIAL,
+        silence_id TEXT PRIMARY KEY,
+        namespace TEXT,
+        service TEXT,
+        alert_type TEXT,
+        severity TEXT,
+        dedupe_key TEXT,
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expired_by TEXT
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: 'create_routing_rules',
+    sql: `
+      -- Incidents that reopened get their real episode start on the next projection rebuild
+      ALTER TABLE incidents ADD COLUMN opened_at TEXT;
+      UPDATE incidents SET opened_at = first_observed_at;
+
+      CREATE TABLE routing_rules (
+        seq BIGSERIAL,
+        rule_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        enabled BOOLEAN NOT NULL,
+        position INTEGER NOT NULL,
+        matchers JSONB NOT NULL,
+        targets JSONB NOT NULL,
+        escalations JSONB NOT NULL,
+        quiet_hours JSONB,
+        continue_matching BOOLEAN NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: 'create_notifications',
+    sql: `
+      CREATE TABLE notifications (
+        seq BIGSERIAL,
+        notification_id TEXT PRIMARY KEY,
+        reason TEXT NOT NULL,
+        dedupe_key TEXT,
+        namespace TEXT,
+        service TEXT,
+        event_id TEXT,
+        channel TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        html TEXT,
+        payload JSONB,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        provider_response JSONB,
+        next_attempt_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        sent_at TEXT
+      );
+      CREATE INDEX idx_notifications_incident ON notifications (dedupe_key, namespace, service);
+      CREATE INDEX idx_notifications_due ON notifications (status, next_attempt_at);
+    `,
+  },
+  {
+    version: 8,
+    name: 'create_stream_messages',
+    sql: `
+      CREATE TABLE stream_messages (
+        seq BIGINT PRIMARY KEY,
+        type TEXT NOT NULL,
+        data JSONB NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: 'create_reason_codes_match',
+    // Matches q against each reason code on its own, not the JSON text with its quotes and commas
+    sql: `
+      CREATE FUNCTION reason_codes_match(codes JSONB, q TEXT) RETURNS BOOLEAN
+        LANGUAGE sql IMMUTABLE
+        AS $$
+          SELECT EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(codes) c WHERE strpos(lower(c), q) > 0
+          )
+        $$;
+    `,
+  },
+  {
+    version: 10,
+    name: 'add_notification_claims',
+    sql: `
+      ALTER TABLE notifications ADD COLUMN claimed_until TEXT;
+    `,
+  },
+  {
+    version: 11,
+    name: 'create_digest_entries_and_job_runs',
+    sql: `
+      CREATE TABLE digest_entries (
+        seq BIGSERIAL PRIMARY KEY,
+        target JSONB NOT NULL,
+        entry JSONB NOT NULL
+      );
+
+      -- previous_run_at is what last_run_at was before the latest run
+      CREATE TABLE job_runs (
+        job TEXT PRIMARY KEY,
+        last_run_at TEXT NOT NULL,
+        previous_run_at TEXT
+      );
+    `,
+  },
+]
+
+interface IncidentActionRow extends Omit<IncidentAction, 'assignee'> {
+  assignee: string | null
+}
+
+interface IncidentNoteRow extends Omit<IncidentNote, 'event_id' | 'edited_by'> {
+  event_id: string | null
+  edited_by: string | null
+}
+
+interface SilenceRow {
+  silence_id: string
+  namespace: string | null
+  service: string | null
+  alert_type: string | null
+  severity: string | null
+  dedupe_key: string | null
+  starts_at: string
+  ends_at: string
+  reason: string
+  created_by: string
+  created_at: string
+  expired_by: string | null
+}
+
+const SILENCE_COLUMNS = `
+  silence_id, namespace, service, alert_type, severity, dedupe_key, starts_at, ends_at, reason,
+  created_by, created_at, expired_by
+`
+
+// Selected so that rows come back shaped like RoutingRule
+const ROUTING_RULE_COLUMNS = `
+  rule_id, name, enabled, position, matchers, targets, escalations, quiet_hours,
+  continue_matching AS "continue", created_by, created_at, updated_by, updated_at
+`
+
+const NOTIFICATION_COLUMNS = `
+  notification_id, reason, dedupe_key, namespace, service, event_id, channel, recipient, subject,
+  body, html, payload, status, attempts, last_error, provider_response, next_attempt_at,
+  created_at, updated_at, sent_at
+`
+
+const NOTE_COLUMNS = `
+  note_id, dedupe_key, namespace, service, author, body, format, event_id, created_at,
+  updated_at, edited_by
+`
+
+// Arbitrary key so concurrent replicas serialize their migration runs
+const MIGRATION_LOCK_ID = 4815162342
+
+// Serializes stream appends, so seqs are handed out and committed in order
+const STREAM_LOCK_ID = 2718281828
+
+// Each stream append is announced on this channel with its seq as the payload
+const STREAM_CHANNEL = 'stream_messages'
+
+const STREAM_RELISTEN_MS = 5000
+
+const INCIDENT_COLUMNS = `
+  dedupe_key, namespace, service, status, current_severity, current_priority, current_action,
+  auto, risk_score, reason_codes, first_observed_at, last_observed_at, latest_event_id,
+  event_count, quality_flags, acknowledged_at, acknowledged_by, assignee, assigned_at,
+  assigned_by, resolved_at, resolved_by, silenced_by, opened_at
+`
+
+// What each incident sort orders by. Cursors hold last_observed_at as epoch ms, which
+// listIncidents turns back into a timestamp.
+const SORT_EXPRESSIONS: Record<IncidentSort, string> = {
+  last_observed_at: 'last_observed_ts',
+  risk_score: 'risk_score',
+  severity: SEVERITY_RANK_SQL,
+  event_count: 'event_count',
+}
+
+// What event analytics group by, read from the stored payload where there is no column
+const EVENT_GROUP_EXPRESSIONS: Record<EventGroupBy, string> = {
+  severity: `payload->'alert'->>'severity'`,
+  namespace: 'namespace',
+  service: `namespace || '/' || service`,
+  alert_type: `payload->'alert'->>'type'`,
+  decision: `CASE WHEN (payload->'decision'->>'auto') = 'true' THEN 'auto' ELSE 'manual' END`,
+}
+
+// Postgres-backed storage; safe to share between several BFF replicas
+export class PostgresStorage implements StorageBackend {
+  private pool: Pool
+  // What queries run on: the pool, or the client holding an incident lock's transaction
+  private db: Pool | PoolClient
+  // Connection receiving stream notifications while the stream is watched
+  private streamListener?: PoolClient
+  private closed = false
+
+  // Accepts a Pool so tests can hand in an embedded stand-in instead of a real server
+  constructor(connection: string | Pool) {
+    this.pool =
+      typeof connection === 'string' ? new Pool({ connectionString: connection }) : connection
+    this.db = this.pool
+    console.log('Using Postgres storage')
+  }
+
+  async init(): Promise<void> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID])
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `)
+
+      const { rows } = await client.query<{ version: number }>(
+        'SELECT version FROM schema_migrations'
+      )
+      const applied = new Set(rows.map((row) => row.version))
+
+      for (const migration of MIGRATIONS) {
+        if (applied.has(migration.version)) continue
+
+        await client.query(migration.sql)
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ])
+        console.log(`Applied migration ${migration.version}_${migration.name}`)
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  // Event operations
+  async insertEvent(event: AlertEvent): Promise<boolean> {
+    const { rows } = await this.db.query(
+      `INSERT INTO events (event_id, dedupe_key, namespace, service, observed_at, observed_ts, payload)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT DO NOTHING
+       RETURNING event_id`,
+      [
+        event.event_id,
+        event.dedupe_key,
+        event.service.namespace,
+        event.service.name,
+        event.observed_at,
+        new Date(event.observed_at),
+        JSON.stringify(event),
+      ]
+    )
+
+    // Duplicate event_id - idempotency
+    return rows.length > 0
+  }
+
+  async getEvent(eventId: string): Promise<AlertEvent | null> {
+    const { rows } = await this.db.query<{ payload: AlertEvent }>(
+      'SELECT payload FROM events WHERE event_id = $1',
+      [eventId]
+    )
+    return rows[0]?.payload ?? null
+  }
+
+  async getEventsByDedupeKey(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<AlertEvent[]> {
+    const { rows } = await this.db.query<{ payload: AlertEvent }>(
+      `SELECT payload FROM events
+       WHERE dedupe_key = $1 AND namespace = $2 AND service = $3
+       ORDER BY observed_ts DESC`,
+      [dedupeKey, namespace, service]
+    )
+    return rows.map((row) => row.payload)
+  }
+
+  async getEventHistory(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<AlertEvent[]> {
+    const { rows } = await this.db.query<{ payload: AlertEvent }>(
+      `SELECT payload FROM events
+       WHERE dedupe_key = $1 AND namespace = $2 AND service = $3
+       ORDER BY seq`,
+      [dedupeKey, namespace, service]
+    )
+    return rows.map((row) => row.payload)
+  }
+
+  async listIncidentKeys(): Promise<IncidentKey[]> {
+    const { rows } = await this.db.query<IncidentKey>(
+      'SELECT DISTINCT dedupe_key, namespace, service FROM events'
+    )
+    return rows
+  }
+
+  // Incident operations
+  async upsertIncident(incident: Incident): Promise<void> {
+    await this.db.query(
+      `INSERT INTO incidents (
+        dedupe_key, namespace, service, status, current_severity, current_priority,
+        current_action, auto, risk_score, reason_codes, first_observed_at, last_observed_at,
+        last_observed_ts, latest_event_id, event_count, quality_flags, acknowledged_at,
+        acknowledged_by, assignee, assigned_at, assigned_by, resolved_at, resolved_by,
+        silenced_by, opened_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19,
+        $20, $21, $22, $23, $24, $25
+      )
+      ON CONFLICT (dedupe_key, namespace, service) DO UPDATE SET
+        status = EXCLUDED.status,
+        current_severity = EXCLUDED.current_severity,
+        current_priority = EXCLUDED.current_priority,
+        current_action = EXCLUDED.current_action,
+        auto = EXCLUDED.auto,
+        risk_score = EXCLUDED.risk_score,
+        reason_codes = EXCLUDED.reason_codes,
+        first_observed_at = EXCLUDED.first_observed_at,
+        last_observed_at = EXCLUDED.last_observed_at,
+        last_observed_ts = EXCLUDED.last_observed_ts,
+        latest_event_id = EXCLUDED.latest_event_id,
+        event_count = EXCLUDED.event_count,
+        quality_flags = EXCLUDED.quality_flags,
+        acknowledged_at = EXCLUDED.acknowledged_at,
+        acknowledged_by = EXCLUDED.acknowledged_by,
+        assignee = EXCLUDED.assignee,
+        assigned_at = EXCLUDED.assigned_at,
+        assigned_by = EXCLUDED.assigned_by,
+        resolved_at = EXCLUDED.resolved_at,
+        resolved_by = EXCLUDED.resolved_by,
+        silenced_by = EXCLUDED.silenced_by,
+        opened_at = EXCLUDED.opened_at`,
+      [
+        incident.dedupe_key,
+        incident.namespace,
+        incident.service,
+        incident.status,
+        incident.current_severity,
+        incident.current_priority,
+        incident.current_action,
+        incident.auto,
+        incident.risk_score,
+        JSON.stringify(incident.reason_codes),
+        incident.first_observed_at,
+        incident.last_observed_at,
+        new Date(incident.last_observed_at),
+        incident.latest_event_id,
+        incident.event_count,
+        JSON.stringify(incident.quality_flags),
+        incident.acknowledged_at,
+        incident.acknowledged_by,
+        incident.assignee,
+        incident.assigned_at,
+        incident.assigned_by,
+        incident.resolved_at,
+        incident.resolved_by,
+        incident.silenced_by,
+        incident.opened_at,
+      ]
+    )
+  }
+
+  async getIncident(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<Incident | null> {
+    const { rows } = await this.db.query<Incident>(
+      `SELECT ${INCIDENT_COLUMNS} FROM incidents
+       WHERE dedupe_key = $1 AND namespace = $2 AND service = $3`,
+      [dedupeKey, namespace, service]
+    )
+    return rows[0] ?? null
+  }
+
+  // A transaction-scoped advisory lock, so replicas serialize on the incident and the lock
+  // goes away with the transaction even if this process dies. Keys that hash alike only
+  // wait on each other.
+  async withIncidentLock<T>(
+    key: IncidentKey,
+    fn: (storage: StorageBackend) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [incidentLockKey(key)])
+      const locked: PostgresStorage = Object.create(this)
+      locked.db = client
+      const result = await fn(locked)
+      await client.query('COMMIT')
+      return result
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async listIncidents(
+    filter?: IncidentListFilter,
+    page: IncidentPageRequest = DEFAULT_INCIDENT_PAGE
+  ): Promise<Incident[]> {
+    const { clauses, params } = this.incidentClauses(filter)
+    const expressions = [SORT_EXPRESSIONS[page.sort], 'namespace', 'service', 'dedupe_key']
+
+    if (page.after) {
+      const values: unknown[] = cursorValues(page.after)
+      if (page.sort === 'last_observed_at') values[0] = new Date(page.after.value).toISOString()
+      const first = params.length + 1
+      params.push(...values)
+      clauses.push(afterCursorSql(expressions, page.order, (i) => `$${first + i}`))
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const orderBy = expressions.map((e) => `${e} ${page.order.toUpperCase()}`).join(', ')
+    let sql = `SELECT ${INCIDENT_COLUMNS} FROM incidents ${where} ORDER BY ${orderBy}`
+    if (page.limit !== undefined) {
+      params.push(page.limit)
+      sql += ` LIMIT $${params.length}`
+    }
+    const { rows } = await this.db.query<Incident>(sql, params)
+    return rows
+  }
+
+  async countIncidents(filter?: IncidentListFilter): Promise<number> {
+    const { clauses, params } = this.incidentClauses(filter)
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const { rows } = await this.db.query<{ count: number }>(
+      `SELECT COUNT(*)::int AS count FROM incidents ${where}`,
+      params
+    )
+    return rows[0].count
+  }
+
+  private incidentClauses(filter?: IncidentListFilter) {
+    const clauses: string[] = []
+    const params: unknown[] = []
+    const addClause = (column: string, value: unknown, op = '=') => {
+      params.push(value)
+      clauses.push(`${column} ${op} $${params.length}`)
+    }
+    const addIn = (column: string, values: string[]) => {
+      const placeholders = values.map((value) => {
+        params.push(value)
+        return `$${params.length}`
+      })
+      clauses.push(`${column} IN (${placeholders.join(', ')})`)
+    }
+
+    if (filter) {
+      if (filter.status) addClause('status', filter.status.toUpperCase())
+      if (filter.severity) addIn('current_severity', filter.severity)
+      if (filter.namespace) addIn('namespace', filter.namespace)
+      if (filter.service) addIn('service', filter.service)
+      if (filter.priority) addIn('current_priority', filter.priority)
+      if (filter.auto !== undefined) addClause('auto', filter.auto)
+      if (filter.silenced !== undefined) {
+        clauses.push(filter.silenced ? 'silenced_by IS NOT NULL' : 'silenced_by IS NULL')
+      }
+      if (filter.from) addClause('last_observed_ts', filter.from, '>=')
+      if (filter.to) addClause('last_observed_ts', filter.to, '<=')
+      if (filter.q) {
+        params.push(filter.q)
+        const q = `$${params.length}`
+        clauses.push(
+          `(strpos(lower(service), ${q}) > 0 OR strpos(lower(dedupe_key), ${q}) > 0` +
+            ` OR reason_codes_match(reason_codes, ${q}))`
+        )
+      }
+    }
+
+    return { clauses, params }
+  }
+
+  async getIncidentDetail(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentDetail | null> {
+    const incident = await this.getIncident(dedupeKey, namespace, service)
+    if (!incident) return null
+
+    const events = await this.getEventsByDedupeKey(dedupeKey, namespace, service)
+    const actions = await this.getIncidentActions(dedupeKey, namespace, service)
+    const notes = await this.getIncidentNotes(dedupeKey, namespace, service)
+    return { ...incident, events, actions, notes }
+  }
+
+  // Operator actions
+  async insertIncidentAction(action: IncidentAction): Promise<void> {
+    await this.db.query(
+      `INSERT INTO incident_actions
+        (action_id, dedupe_key, namespace, service, action, actor, assignee, at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        action.action_id,
+        action.dedupe_key,
+        action.namespace,
+        action.service,
+        action.action,
+        action.actor,
+        action.assignee ?? null,
+        action.at,
+      ]
+    )
+  }
+
+  async getIncidentActions(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentAction[]> {
+    const { rows } = await this.db.query<IncidentActionRow>(
+      `SELECT action_id, dedupe_key, namespace, service, action, actor, assignee, at
+       FROM incident_actions
+       WHERE dedupe_key = $1 AND namespace = $2 AND service = $3
+       ORDER BY seq`,
+      [dedupeKey, namespace, service]
+    )
+    return rows.map(({ assignee, ...action }) =>
+      assignee === null ? action : { ...action, assignee }
+    )
+  }
+
+  // Incident notes
+  async insertNote(note: IncidentNote): Promise<void> {
+    await this.db.query(
+      `INSERT INTO incident_notes (${NOTE_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        note.note_id,
+        note.dedupe_key,
+        note.namespace,
+        note.service,
+        note.author,
+        note.body,
+        note.format,
+        note.event_id ?? null,
+        note.created_at,
+        note.updated_at,
+        note.edited_by ?? null,
+      ]
+    )
+  }
+
+  async updateNote(note: IncidentNote): Promise<void> {
+    await this.db.query(
+      `UPDATE incident_notes
+       SET body = $2, format = $3, event_id = $4, updated_at = $5, edited_by = $6
+       WHERE note_id = $1`,
+      [
+        note.note_id,
+        note.body,
+        note.format,
+        note.event_id ?? null,
+        note.updated_at,
+        note.edited_by ?? null,
+      ]
+    )
+  }
+
+  async deleteNote(noteId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query('DELETE FROM incident_notes WHERE note_id = $1', [
+      noteId,
+    ])
+    return (rowCount ?? 0) > 0
+  }
+
+  async getNote(noteId: string): Promise<IncidentNote | null> {
+    const { rows } = await this.db.query<IncidentNoteRow>(
+      `SELECT ${NOTE_COLUMNS} FROM incident_notes WHERE note_id = $1`,
+      [noteId]
+    )
+    return rows[0] ? rowToNote(rows[0]) : null
+  }
+
+  async getIncidentNotes(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentNote[]> {
+    const { rows } = await this.db.query<IncidentNoteRow>(
+      `SELECT ${NOTE_COLUMNS} FROM incident_notes
+       WHERE dedupe_key = $1 AND namespace = $2 AND service = $3
+       ORDER BY seq`,
+      [dedupeKey, namespace, service]
+    )
+    return rows.map(rowToNote)
+  }
+
+  // Silence rules
+  async insertSilence(silence: SilenceRule): Promise<void> {
+    await this.db.query(
+      `INSERT INTO silences (${SILENCE_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      silenceParams(silence)
+    )
+  }
+
+  async updateSilence(silence: SilenceRule): Promise<void> {
+    await this.db.query(
+      `UPDATE silences
+       SET namespace = $2, service = $3, alert_type = $4, severity = $5, dedupe_key = $6,
+           starts_at = $7, ends_at = $8, reason = $9, expired_by = $10
+       WHERE silence_id = $1`,
+      [...silenceParams(silence).slice(0, 9), silence.expired_by ?? null]
+    )
+  }
+
+  async getSilence(silenceId: string): Promise<SilenceRule | null> {
+    const { rows } = await this.db.query<SilenceRow>(
+      `SELECT ${SILENCE_COLUMNS} FROM silences WHERE silence_id = $1`,
+      [silenceId]
+    )
+    return rows[0] ? rowToSilence(rows[0]) : null
+  }
+
+  async listSilences(): Promise<SilenceRule[]> {
+    const { rows } = await this.db.query<SilenceRow>(
+      `SELECT ${SILENCE_COLUMNS} FROM silences ORDER BY seq DESC`
+    )
+    return rows.map(rowToSilence)
+  }
+
+  async deleteSilencesEndedBefore(cutoff: string): Promise<number> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM silences WHERE ends_at::timestamptz < $1::timestamptz',
+      [cutoff]
+    )
+    return rowCount ?? 0
+  }
+
+  // Notification routing rules
+  async insertRoutingRule(rule: RoutingRule): Promise<void> {
+    await this.db.query(
+      `INSERT INTO routing_rules (
+        rule_id, name, enabled, position, matchers, targets, escalations, quiet_hours,
+        continue_matching, created_by, created_at, updated_by, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      routingRuleParams(rule)
+    )
+  }
+
+  async updateRoutingRule(rule: RoutingRule): Promise<void> {
+    const params = routingRuleParams(rule)
+    await this.db.query(
+      `UPDATE routing_rules
+       SET name = $2, enabled = $3, position = $4, matchers = $5, targets = $6,
+           escalations = $7, quiet_hours = $8, continue_matching = $9, updated_by = $10,
+           updated_at = $11
+       WHERE rule_id = $1`,
+      [...params.slice(0, 9), ...params.slice(11)]
+    )
+  }
+
+  async deleteRoutingRule(ruleId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query('DELETE FROM routing_rules WHERE rule_id = $1', [
+      ruleId,
+    ])
+    return (rowCount ?? 0) > 0
+  }
+
+  async getRoutingRule(ruleId: string): Promise<RoutingRule | null> {
+    const { rows } = await this.db.query<RoutingRule>(
+      `SELECT ${ROUTING_RULE_COLUMNS} FROM routing_rules WHERE rule_id = $1`,
+      [ruleId]
+    )
+    return rows[0] ?? null
+  }
+
+  async listRoutingRules(): Promise<RoutingRule[]> {
+    const { rows } = await this.db.query<RoutingRule>(
+      `SELECT ${ROUTING_RULE_COLUMNS} FROM routing_rules ORDER BY position, seq`
+    )
+    return rows
+  }
+
+  // Notification outbox
+  async insertNotification(
+    notification: NotificationRecord,
+    claimedUntil?: string
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO notifications (${NOTIFICATION_COLUMNS}, claimed_until)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18,
+               $19, $20, $21)`,
+      [...notificationParams(notification), claimedUntil ?? null]
+    )
+  }
+
+  async updateNotification(notification: NotificationRecord): Promise<void> {
+    // Only the delivery state changes; the message itself is immutable
+    const params = notificationParams(notification)
+    await this.db.query(
+      `UPDATE notifications
+       SET status = $2, attempts = $3, last_error = $4, provider_response = $5,
+           next_attempt_at = $6, updated_at = $7, sent_at = $8, claimed_until = NULL
+       WHERE notification_id = $1`,
+      [params[0], ...params.slice(12, 17), ...params.slice(18)]
+    )
+  }
+
+  async getNotification(notificationId: string): Promise<NotificationRecord | null> {
+    const { rows } = await this.db.query<NotificationRecord>(
+      `SELECT ${NOTIFICATION_COLUMNS} FROM notifications WHERE notification_id = $1`,
+      [notificationId]
+    )
+    return rows[0] ?? null
+  }
+
+  async listNotifications(filter?: NotificationListFilter): Promise<NotificationRecord[]> {
+    const conditions: string[] = []
+    const params: unknown[] = []
+
+    for (const column of ['dedupe_key', 'namespace', 'service', 'status', 'channel'] as const) {
+      const value = filter?.[column]
+      if (value) {
+        params.push(value)
+        conditions.push(`${column} = $${params.length}`)
+      }
+    }
+
+    let query = `SELECT ${NOTIFICATION_COLUMNS} FROM notifications`
+    if (conditions.length > 0) query += ` WHERE ${conditions.join(' AND ')}`
+    query += ' ORDER BY seq DESC'
+    if (filter?.limit) {
+      params.push(filter.limit)
+      query += ` LIMIT $${params.length}`
+    }
+
+    const { rows } = await this.db.query<NotificationRecord>(query, params)
+    return rows
+  }
+
+  async claimNotification(
+    notificationId: string,
+    now: string,
+    until: string
+  ): Promise<NotificationRecord | null> {
+    const { rows } = await this.db.query<NotificationRecord>(
+      `UPDATE notifications SET claimed_until = $3
+       WHERE notification_id = $1 AND status <> 'sent'
+         AND (claimed_until IS NULL OR claimed_until::timestamptz <= $2::timestamptz)
+       RETURNING ${NOTIFICATION_COLUMNS}`,
+      [notificationId, now, until]
+    )
+    return rows[0] ?? null
+  }
+
+  // The conditions are repeated outside the subquery on purpose: when a row was claimed by
+  // a concurrent sweep, Postgres re-checks them once that sweep commits and skips the row
+  async claimDueNotifications(
+    now: string,
+    until: string,
+    limit: number
+  ): Promise<NotificationRecord[]> {
+    const claimable = `status IN ('pending', 'retrying')
+      AND next_attempt_at::timestamptz <= $1::timestamptz
+      AND (claimed_until IS NULL OR claimed_until::timestamptz <= $1::timestamptz)`
+    const { rows } = await this.db.query<NotificationRecord>(
+      `UPDATE notifications SET claimed_until = $2
+       WHERE notification_id IN (
+         SELECT notification_id FROM notifications WHERE ${claimable}
+         ORDER BY next_attempt_at::timestamptz
+         LIMIT $3
+       ) AND ${claimable}
+       RETURNING ${NOTIFICATION_COLUMNS}`,
+      [now, until, limit]
+    )
+    return rows.sort(
+      (a, b) => Date.parse(a.next_attempt_at ?? now) - Date.parse(b.next_attempt_at ?? now)
+    )
+  }
+
+  // Digest queue
+  async insertDigestEntry({ target, entry }: QueuedDigestEntry): Promise<void> {
+    await this.db.query('INSERT INTO digest_entries (target, entry) VALUES ($1, $2)', [
+      JSON.stringify(target),
+      JSON.stringify(entry),
+    ])
+  }
+
+  // A replica that deletes the same rows concurrently waits and then gets none of them
+  async takeDigestEntries(): Promise<QueuedDigestEntry[]> {
+    const { rows } = await this.db.query<QueuedDigestEntry & { seq: string }>(
+      'DELETE FROM digest_entries RETURNING seq, target, entry'
+    )
+    return rows
+      .sort((a, b) => Number(a.seq) - Number(b.seq))
+      .map(({ target, entry }) => ({ target, entry }))
+  }
+
+  // Periodic jobs. Both statements are atomic on their own: concurrent claims of the same
+  // run wait for each other's row lock and only one of them passes the WHERE
+  async claimJobRun(job: string, at: string, notBefore: string): Promise<JobRun | null> {
+    const first = await this.db.query(
+      `INSERT INTO job_runs (job, last_run_at) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING
+       RETURNING job`,
+      [job, at]
+    )
+    if (first.rows.length > 0) return { previous_run_at: null }
+
+    const { rows } = await this.db.query<JobRun>(
+      `UPDATE job_runs SET previous_run_at = last_run_at, last_run_at = $2
+       WHERE job = $1 AND last_run_at::timestamptz < $3::timestamptz
+       RETURNING previous_run_at`,
+      [job, at, notBefore]
+    )
+    return rows[0] ?? null
+  }
+
+  // Stream log; BIGINT columns come back as strings, hence the casts to double precision
+  async appendStreamMessage(message: WSMessage): Promise<SequencedMessage> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query('SELECT pg_advisory_xact_lock($1)', [STREAM_LOCK_ID])
+      const { rows } = await client.query<{ seq: number }>(
+        `INSERT INTO stream_messages (seq, type, data, created_at)
+         SELECT COALESCE(MAX(seq), 0) + 1, $1, $2::jsonb, $3 FROM stream_messages
+         RETURNING seq::double precision AS seq`,
+        [message.type, JSON.stringify(message.data), new Date().toISOString()]
+      )
+      const { seq } = rows[0]
+      // Delivered to listeners on commit, in commit order
+      await client.query('SELECT pg_notify($1, $2)', [STREAM_CHANNEL, String(seq)])
+      await client.query('COMMIT')
+      return { ...message, seq }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  // Holds a connection of its own for LISTEN, and takes another one when that is lost
+  async watchStream(listener: (seq: number) => void): Promise<void> {
+    const client = await this.pool.connect()
+    let lost = false
+    client.on('notification', ({ channel, payload }) => {
+      if (channel === STREAM_CHANNEL) listener(Number(payload))
+    })
+    client.on('error', (err) => {
+      if (lost) return
+      lost = true
+      console.error('Lost the stream notification connection:', err.message)
+      client.release(err)
+      // Before LISTEN went through, the caller gets the error instead
+      if (this.streamListener !== client) return
+      this.streamListener = undefined
+      this.relisten(listener)
+    })
+    try {
+      await client.query(`LISTEN ${STREAM_CHANNEL}`)
+    } catch (error) {
+      if (!lost) client.release(true)
+      lost = true
+      throw error
+    }
+    this.streamListener = client
+  }
+
+  // Listens again after a delay, then reports the newest seq for whatever was missed meanwhile
+  private relisten(listener: (seq: number) => void) {
+    if (this.closed) return
+    setTimeout(() => {
+      this.watchStream(listener)
+        .then(() => this.getStreamBounds())
+        .then((bounds) => bounds && listener(bounds.last))
+        .catch((err) => {
+          console.error('Could not listen for stream messages:', err.message)
+          this.relisten(listener)
+        })
+    }, STREAM_RELISTEN_MS).unref()
+  }
+
+  async listStreamMessages(afterSeq: number, limit: number): Promise<SequencedMessage[]> {
+    const { rows } = await this.db.query<SequencedMessage>(
+      `SELECT seq::double precision AS seq, type, data FROM stream_messages
+       WHERE seq > $1
+       ORDER BY seq
+       LIMIT $2`,
+      [afterSeq, limit]
+    )
+    return rows
+  }
+
+  async getStreamBounds(): Promise<{ first: number; last: number } | null> {
+    const { rows } = await this.db.query<{ first: number | null; last: number | null }>(
+      `SELECT MIN(seq)::double precision AS first, MAX(seq)::double precision AS last
+       FROM stream_messages`
+    )
+    const { first, last } = rows[0]
+    return first === null || last === null ? null : { first, last }
+  }
+
+  async deleteStreamMessagesThrough(seq: number): Promise<number> {
+    const { rowCount } = await this.db.query('DELETE FROM stream_messages WHERE seq <= $1', [seq])
+    return rowCount ?? 0
+  }
+
+  // Overview and stats
+  async getOverview(): Promise<Overview> {
+    const { rows } = await this.db.query<
+      Omit<Overview, 'last_updated_at'> & {
+        last_updated_at: string | null
+      }
+    >(
+      `SELECT
+        COUNT(*)::int AS total_incidents,
+        SUM(CASE WHEN status = 'OPEN' THEN 1 ELSE 0 END)::int AS open_incidents,
+        SUM(CASE WHEN status = 'RESOLVED' THEN 1 ELSE 0 END)::int AS resolved_incidents,
+        SUM(CASE WHEN current_severity = 'critical' THEN 1 ELSE 0 END)::int AS critical_count,
+        SUM(CASE WHEN current_severity = 'high' THEN 1 ELSE 0 END)::int AS high_count,
+        SUM(CASE WHEN current_severity = 'medium' THEN 1 ELSE 0 END)::int AS medium_count,
+        SUM(CASE WHEN current_severity = 'low' THEN 1 ELSE 0 END)::int AS low_count,
+        SUM(CASE WHEN auto THEN 1 ELSE 0 END)::int AS auto_actions_count,
+        SUM(CASE WHEN NOT auto THEN 1 ELSE 0 END)::int AS manual_actions_count,
+        COUNT(DISTINCT (namespace, service))::int AS services_affected,
+        (ARRAY_AGG(last_observed_at ORDER BY last_observed_ts DESC))[1] AS last_updated_at
+      FROM incidents`
+    )
+    return { ...rows[0], last_updated_at: rows[0].last_updated_at ?? new Date().toISOString() }
+  }
+
+  async getServices(): Promise<ServiceRollup[]> {
+    const { rows } = await this.db.query<ServiceRollup>(
+      `SELECT
+        namespace,
+        service,
+        SUM(CASE WHEN status = 'OPEN' THEN 1 ELSE 0 END)::int AS open_incidents,
+        SUM(CASE WHEN status = 'OPEN' AND current_severity = 'critical' THEN 1 ELSE 0 END)::int AS critical_count,
+        SUM(CASE WHEN status = 'OPEN' AND current_severity = 'high' THEN 1 ELSE 0 END)::int AS high_count,
+        SUM(CASE WHEN status = 'OPEN' AND current_severity = 'medium' THEN 1 ELSE 0 END)::int AS medium_count,
+        SUM(CASE WHEN status = 'OPEN' AND current_severity = 'low' THEN 1 ELSE 0 END)::int AS low_count,
+        (ARRAY_AGG(last_observed_at ORDER BY last_observed_ts DESC))[1] AS last_alert_at
+      FROM incidents
+      GROUP BY namespace, service
+      ORDER BY open_incidents DESC, critical_count DESC`
+    )
+    return rows
+  }
+
+  async countEventBuckets(query: EventBucketQuery): Promise<EventBucketCount[]> {
+    const params: unknown[] = [query.bucket_ms, query.from, query.to]
+    const clauses = ['observed_ts >= $2', 'observed_ts < $3']
+    const addIn = (column: string, values?: string[]) => {
+      if (!values) return
+      const placeholders = values.map((value) => {
+        params.push(value)
+        return `$${params.length}`
+      })
+      clauses.push(`${column} IN (${placeholders.join(', ')})`)
+    }
+    addIn('namespace', query.namespace)
+    addIn('service', query.service)
+    addIn(EVENT_GROUP_EXPRESSIONS.severity, query.severity)
+
+    const bucket = '(FLOOR(EXTRACT(EPOCH FROM observed_ts) * 1000 / $1) * $1)::double precision'
+    const group = EVENT_GROUP_EXPRESSIONS[query.group_by]
+    // Counted per incident first, so that incidents can be counted without DISTINCT
+    const { rows } = await this.db.query<EventBucketCount>(
+      `SELECT bucket, grp AS "group", SUM(n)::int AS events, COUNT(*)::int AS incidents
+      FROM (
+        SELECT ${bucket} AS bucket, ${group} AS grp, COUNT(*) AS n
+        FROM events
+        WHERE ${clauses.join(' AND ')}
+        GROUP BY ${bucket}, ${group}, dedupe_key, namespace, service
+      ) per_incident
+      GROUP BY bucket, grp
+      ORDER BY bucket, grp`,
+      params
+    )
+    return rows
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    this.streamListener?.release(true)
+    await this.pool.end()
+  }
+}
+
+function rowToNote({ event_id, edited_by, ...note }: IncidentNoteRow): IncidentNote {
+  return {
+    ...note,
+    ...(event_id !== null ? { event_id } : {}),
+    ...(edited_by !== null ? { edited_by } : {}),
+  }
+}
+
+// Positional parameters in SILENCE_COLUMNS order
+function silenceParams(silence: SilenceRule): unknown[] {
+  const { matchers } = silence
+  return [
+    silence.silence_id,
+    matchers.namespace ?? null,
+    matchers.service ?? null,
+    matchers.alert_type ?? null,
+    matchers.severity ?? null,
+    matchers.dedupe_key ?? null,
+    silence.starts_at,
+    silence.ends_at,
+    silence.reason,
+    silence.created_by,
+    silence.created_at,
+    silence.expired_by ?? null,
+  ]
+}
+
+function rowToSilence(row: SilenceRow): SilenceRule {
+  const { namespace, service, alert_type, severity, dedupe_key, expired_by, ...silence } = row
+  const matchers = Object.fromEntries(
+    Object.entries({ namespace, service, alert_type, severity, dedupe_key }).filter(
+      ([, value]) => value !== null
+    )
+  )
+  return { ...silence, matchers, ...(expired_by !== null ? { expired_by } : {}) }
+}
+
+// Positional parameters in insert column order; JSONB values are passed as JSON text
+function routingRuleParams(rule: RoutingRule): unknown[] {
+  return [
+    rule.rule_id,
+    rule.name,
+    rule.enabled,
+    rule.position,
+    JSON.stringify(rule.matchers),
+    JSON.stringify(rule.targets),
+    JSON.stringify(rule.escalations),
+    rule.quiet_hours ? JSON.stringify(rule.quiet_hours) : null,
+    rule.continue,
+    rule.created_by,
+    rule.created_at,
+    rule.updated_by,
+    rule.updated_at,
+  ]
+}
+
+// Positional parameters in NOTIFICATION_COLUMNS order; JSONB values are passed as JSON text
+function notificationParams(notification: NotificationRecord): unknown[] {
+  return [
+    notification.notification_id,
+    notification.reason,
+    notification.dedupe_key,
+    notification.namespace,
+    notification.service,
+    notification.event_id,
+    notification.channel,
+    notification.recipient,
+    notification.subject,
+    notification.body,
+    notification.html,
+    notification.payload ? JSON.stringify(notification.payload) : null,
+    notification.status,
+    notification.attempts,
+    notification.last_error,
+    notification.provider_response !== undefined && notification.provider_response !== null
+      ? JSON.stringify(notification.provider_response)
+      : null,
+    notification.next_attempt_at,
+    notification.created_at,
+    notification.updated_at,
+    notification.sent_at,
+  ]
+}
@@ -0,0 +1,253 @@
+import { AlertEvent, Incident, IncidentAction, IncidentTransition } from './types'
+import { SEVERITIES } from './validation'
+
+// Incident projection as a pure fold over an incident's stored events and operator actions.
+//
+// `events` must be in arrival order (the order they were stored). Current fields
+// come from the event latest by observed_at, so an event that arrives late can never
+// roll back status, severity or last_observed_at; arrival order is only used to
+// detect those late arrivals. `actions` (acknowledge, assign, manual resolve, ...) are
+// in the order they were recorded. Projecting the same history always yields the same
+// incident, which is what lets projections be rebuilt from the event store.
+
+export function projectIncident(events: AlertEvent[], actions: IncidentAction[] = []): Incident {
+  if (events.length === 0) {
+    throw new Error('Cannot project an incident without events')
+  }
+
+  const history = orderByObservedAt(events)
+  const earliest = history[0]
+  const latest = history[history.length - 1]
+
+  const qualityFlags = computeQualityFlagsForIncident(events)
+  if (hasLateArrival(events)) {
+    qualityFlags.push('late_arrival')
+  }
+
+  const { status, ...workflow } = foldWorkflow(history, actions)
+
+  return {
+    dedupe_key: latest.dedupe_key,
+    namespace: latest.service.namespace,
+    service: latest.service.name,
+    status,
+    current_severity: latest.alert.severity,
+    current_priority: latest.decision.priority,
+    current_action: latest.decision.action,
+    auto: latest.decision.auto,
+    risk_score: latest.decision.risk_score || 0,
+    reason_codes: latest.decision.reason_codes,
+    first_observed_at: earliest.observed_at,
+    last_observed_at: latest.observed_at,
+    latest_event_id: latest.event_id,
+    event_count: events.length,
+    quality_flags: qualityFlags,
+    silenced_by: latest.silenced_by ?? null,
+    ...workflow,
+  }
+}
+
+// What changed between the stored projection and the new one that is worth telling
+// someone about. An incident nobody heard about because it was silenced counts as opening
+// when its first unsilenced event arrives, and its resolution is not announced.
+// Operator actions never notify; only events go through here.
+export function incidentTransition(
+  previous: Incident | null,
+  current: Incident
+): IncidentTransition | null {
+  if (current.status === 'RESOLVED') {
+    return previous?.status === 'OPEN' && !previous.silenced_by ? { kind: 'resolved' } : null
+  }
+  if (!previous || previous.status === 'RESOLVED' || previous.silenced_by) {
+    return { kind: 'opened' }
+  }
+  if (severityRank(current.current_severity) > severityRank(previous.current_severity)) {
+    return { kind: 'escalated', previous_severity: previous.current_severity }
+  }
+  return null
+}
+
+export function severityRank(severity: string): number {
+  return (SEVERITIES as readonly string[]).indexOf(severity)
+}
+
+type Workflow = Pick<
+  Incident,
+  | 'status'
+  | 'acknowledged_at'
+  | 'acknowledged_by'
+  | 'assignee'
+  | 'assigned_at'
+  | 'assigned_by'
+  | 'resolved_at'
+  | 'resolved_by'
+  | 'opened_at'
+>
+
+// One stretch of an incident from opening (or reopening) to resolution
+export interface IncidentEpisode {
+  opened_at: string
+  // First acknowledgement within the episode
+  acknowledged_at: string | null
+  resolved_at: string | null
+  // Opened by a reopen rather than by the incident's first event
+  reopened: boolean
+}
+
+// Every episode of an incident, oldest first, by the same rules as projectIncident
+export function incidentEpisodes(
+  events: AlertEvent[],
+  actions: IncidentAction[] = []
+): IncidentEpisode[] {
+  if (events.length === 0) return []
+  const episodes: IncidentEpisode[] = []
+  foldWorkflow(orderByObservedAt(events), actions, episodes)
+  return episodes
+}
+
+type TimelineEntry = { at: number; event: AlertEvent } | { at: number; action: IncidentAction }
+
+// Replays events and operator actions in time order. A firing event observed after the
+// incident was resolved (by an event or by hand) starts a new episode, which reopens it
+// and clears the acknowledgement; assignment carries over. Episodes are appended to
+// `episodes` as they are found.
+function foldWorkflow(
+  history: AlertEvent[],
+  actions: IncidentAction[],
+  episodes: IncidentEpisode[] = []
+): Workflow {
+  const timeline: TimelineEntry[] = [
+    ...history.map((event) => ({ at: Date.parse(event.observed_at), event })),
+    ...actions.map((action) => ({ at: Date.parse(action.at), action })),
+  ]
+  // Stable sort: events keep their observed_at order, actions their recorded order
+  timeline.sort((a, b) => a.at - b.at)
+
+  const state: Workflow = {
+    status: 'OPEN',
+    acknowledged_at: null,
+    acknowledged_by: null,
+    assignee: null,
+    assigned_at: null,
+    assigned_by: null,
+    resolved_at: null,
+    resolved_by: null,
+    opened_at: history[0].observed_at,
+  }
+
+  episodes.push({
+    opened_at: state.opened_at,
+    acknowledged_at: null,
+    resolved_at: null,
+    reopened: false,
+  })
+  const episode = () => episodes[episodes.length - 1]
+
+  const reopen = (at: string) => {
+    state.status = 'OPEN'
+    state.opened_at = at
+    state.resolved_at = null
+    state.resolved_by = null
+    state.acknowledged_at = null
+    state.acknowledged_by = null
+    episodes.push({ opened_at: at, acknowledged_at: null, resolved_at: null, reopened: true })
+  }
+  const resolve = (at: string, by: string | null) => {
+    state.status = 'RESOLVED'
+    state.resolved_at = at
+    state.resolved_by = by
+    episode().resolved_at = at
+  }
+
+  for (const entry of timeline) {
+    if ('event' in entry) {
+      const { event } = entry
+      if (event.alert.state === 'resolved') {
+        if (state.status === 'OPEN') resolve(event.observed_at, null)
+      } else if (state.status === 'RESOLVED') {
+        reopen(event.observed_at)
+      }
+      continue
+    }
+
+    const { action } = entry
+    switch (action.action) {
+      case 'acknowledge':
+        if (!state.acknowledged_at) {
+          state.acknowledged_at = action.at
+          state.acknowledged_by = action.actor
+          episode().acknowledged_at = action.at
+        }
+        break
+      case 'assign':
+        state.assignee = action.assignee ?? null
+        state.assigned_at = action.at
+        state.assigned_by = action.actor
+        break
+      case 'unassign':
+        state.assignee = null
+        state.assigned_at = null
+        state.assigned_by = null
+        break
+      case 'resolve':
+        if (state.status === 'OPEN') resolve(action.at, action.actor)
+        break
+      case 'reopen':
+        if (state.status === 'RESOLVED') reopen(action.at)
+        break
+    }
+  }
+
+  return state
+}
+
+// Oldest first; event_id breaks ties so equal timestamps always project the same way
+export function orderByObservedAt(events: AlertEvent[]): AlertEvent[] {
+  return [...events].sort((a, b) => {
+    const diff = Date.parse(a.observed_at) - Date.parse(b.observed_at)
+    return diff !== 0 ? diff : a.event_id.localeCompare(b.event_id)
+  })
+}
+
+// Late: observed before something this incident had already seen when it arrived
+function hasLateArrival(events: AlertEvent[]): boolean {
+  let lastObserved = -Infinity
+  for (const event of events) {
+    const observed = Date.parse(event.observed_at)
+    if (observed < lastObserved) return true
+    lastObserved = Math.max(lastObserved, observed)
+  }
+  return false
+}
+
+// Compute quality flags for an incident based on ALL its events
+// A flag is only raised if ALL events are missing that data
+function computeQualityFlagsForIncident(events: AlertEvent[]): string[] {
+  const flags: string[] = []
+
+  // Check if ALL events are missing evidence
+  const allMissingEvidence = events.every(
+    e => !e.evidence || Object.keys(e.evidence).length === 0
+  )
+  if (allMissingEvidence) {
+    flags.push('missing_evidence')
+  }
+
+  // Check if ALL events are missing context
+  const allMissingContext = events.every(
+    e => !e.context || Object.keys(e.context).length === 0
+  )
+  if (allMissingContext) {
+    flags.push('missing_context')
+  }
+
+  // Check if ALL events are missing links
+  const allMissingLinks = events.every(
+    e => !e.links || (!e.links.details_ref && !e.links.runbook && !e.links.dashboard)
+  )
+  if (allMissingLinks) {
+    flags.push('missing_links')
+  }
+
+  return flags
+}
@@ -0,0 +1,29 @@
+// Sliding-window counter per key: at most `limit` takes in any `windowMs`. Kept in memory,
+// so a restart starts every window afresh.
+export class RateLimiter {
+  private hits: Map<string, number[]> = new Map()
+
+  constructor(
+    readonly limit: number,
+    readonly windowMs: number
+  ) { }
+
+  // Counts a hit and returns true, or returns false without counting when the key is over
+  take(key: string, now = Date.now()): boolean {
+    const recent = (this.hits.get(key) ?? []).filter((at) => at > now - this.windowMs)
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent)
+      return false
+    }
+    recent.push(now)
+    this.hits.set(key, recent)
+    return true
+  }
+
+  // Forget keys with no hits left in the window
+  prune(now = Date.now()) {
+    for (const [key, hits] of this.hits) {
+      if (hits.every((at) => at <= now - this.windowMs)) this.hits.delete(key)
+    }
+  }
+}
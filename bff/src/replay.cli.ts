@@ -0,0 +1,148 @@
+import fs from 'fs'
+import type { ReplayStatus } from './replay.service'
+
+// Replays an NDJSON archive of AlertEvents into a running BFF through
+// POST /api/admin/replay and follows its progress until it finishes.
+//
+//   npm run replay -- <archive.ndjson> [--speed instant|recorded|<n>x] [--retime]
+//                     [--url http://localhost:3001] [--detach]
+//
+// ADMIN_TOKEN is sent as the bearer token when set; BFF_URL is the default for --url.
+// Ctrl-C cancels a timed replay; events ingested so far stay.
+
+const POLL_INTERVAL_MS = 2000
+
+const USAGE = `Usage: npm run replay -- <archive.ndjson> [options]
+
+Options:
+  --speed <speed>  instant, recorded (default) or a multiplier such as 60x
+  --retime         Move event timestamps to when they are replayed
+  --url <url>      BFF base URL (default: $BFF_URL or http://localhost:3001)
+  --detach         Start the replay and exit without following it`
+
+interface CliOptions {
+  archive: string
+  speed: string
+  retime: boolean
+  url: string
+  detach: boolean
+}
+
+function parseArgs(args: string[]): CliOptions | string {
+  const options: Partial<CliOptions> = {
+    speed: 'recorded',
+    retime: false,
+    url: process.env.BFF_URL || 'http://localhost:3001',
+    detach: false,
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--retime') options.retime = true
+    else if (arg === '--detach') options.detach = true
+    else if (arg === '--speed' || arg === '--url') {
+      const value = args[++i]
+      if (!value) return `${arg} needs a value`
+      options[arg === '--speed' ? 'speed' : 'url'] = value
+    } else if (arg.startsWith('--')) return `Unknown option ${arg}`
+    else if (options.archive) return 'Give a single archive'
+    else options.archive = arg
+  }
+  if (!options.archive) return 'An archive is required'
+  return options as CliOptions
+}
+
+async function request(
+  options: CliOptions,
+  method: 'GET' | 'POST',
+  path: string,
+  body?: string
+): Promise<{ replay?: ReplayStatus; error?: string; ok: boolean }> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-ndjson' }
+  if (process.env.ADMIN_TOKEN) headers.Authorization = `Bearer ${process.env.ADMIN_TOKEN}`
+  const response = await fetch(`${options.url.replace(/\/$/, '')}${path}`, {
+    method,
+    headers,
+    body,
+  })
+  const text = await response.text()
+  try {
+    return { ...JSON.parse(text), ok: response.ok }
+  } catch {
+    return { error: `${response.status} ${response.statusText}`, ok: false }
+  }
+}
+
+function progress(replay: ReplayStatus): string {
+  const { ingested, duplicate, rejected } = replay.summary
+  return (
+    `${replay.processed}/${replay.total} processed ` +
+    `(${ingested} ingested, ${duplicate} duplicate, ${rejected} rejected)`
+  )
+}
+
+function report(replay: ReplayStatus) {
+  console.log(`Replay ${replay.state}: ${progress(replay)}`)
+  replay.rejected.slice(0, 10).forEach((entry) => {
+    const details = entry.errors?.map((e) => `${e.path} ${e.message}`).join('; ')
+    console.log(`  #${entry.index + 1}`, [entry.event_id, entry.reason].filter(Boolean).join(': '))
+    if (details) console.log(`    ${details}`)
+  })
+  if (replay.rejected.length > 10) {
+    console.log(`  ... ${replay.summary.rejected - 10} more rejected`)
+  }
+  if (replay.error) console.log(`  ${replay.error}`)
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  if (typeof options === 'string') {
+    console.error(`${options}\n\n${USAGE}`)
+    return 2
+  }
+
+  const archive = fs.readFileSync(options.archive, 'utf8')
+  const query = new URLSearchParams({ speed: options.speed, retime: String(options.retime) })
+  const started = await request(options, 'POST', `/api/admin/replay?${query}`, archive)
+  if (!started.ok || !started.replay) {
+    console.error(`Could not start the replay: ${started.error ?? 'unknown error'}`)
+    return 1
+  }
+
+  const replay = started.replay
+  console.log(
+    `Replaying ${options.archive} (${replay.archive_from ?? '?'} to ${replay.archive_to ?? '?'})` +
+      ` at ${replay.speed === 'instant' ? 'once' : `${replay.speed}x`}`
+  )
+  if (replay.expected_end_at) {
+    console.log(`Expected to finish at ${new Date(replay.expected_end_at).toLocaleString()}`)
+  }
+  if (options.detach) return 0
+
+  process.once('SIGINT', () => {
+    console.log('\nCancelling...')
+    request(options, 'POST', '/api/admin/replay/cancel').then((result) => {
+      if (!result.ok) console.error(`Could not cancel: ${result.error}`)
+    })
+  })
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+    const current = await request(options, 'GET', '/api/admin/replay')
+    if (!current.replay || current.replay.replay_id !== replay.replay_id) {
+      console.error('The replay is no longer known to the BFF')
+      return 1
+    }
+    if (current.replay.state !== 'running') {
+      report(current.replay)
+      return current.replay.state === 'failed' ? 1 : 0
+    }
+    console.log(progress(current.replay))
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
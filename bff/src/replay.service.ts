@@ -0,0 +1,280 @@
+import crypto from 'crypto'
+import { AlertEvent } from './types'
+import { alertSchemas } from './validation'
+import { AlertService, BatchEventResult, BatchInput, IngestStatus } from './service'
+
+// 'instant' ingests the whole archive as one batch; a number replays at that multiple of the
+// recorded pace (1 = as recorded), one event at a time as if it had just arrived
+export type ReplaySpeed = 'instant' | number
+
+export type ReplayState = 'running' | 'completed' | 'cancelled' | 'failed'
+
+export const MAX_REPLAY_EVENTS = 50000
+const MAX_SPEED = 100000
+// Rejections kept on the status; the summary still counts every one
+const MAX_REPORTED_REJECTIONS = 100
+
+export interface ReplayOptions {
+  speed: ReplaySpeed
+  // Move observed_at (and sent_at with it) to when each event is replayed, so the archive
+  // shows up as recent activity; otherwise events keep their recorded timestamps
+  retime: boolean
+}
+
+export interface ReplayStatus extends ReplayOptions {
+  replay_id: string
+  state: ReplayState
+  // Lines in the archive, and how many have been ingested or rejected so far
+  total: number
+  processed: number
+  summary: Record<IngestStatus, number>
+  rejected: BatchEventResult[]
+  // Recorded observed_at of the first and last valid events
+  archive_from: string | null
+  archive_to: string | null
+  started_at: string
+  // When the last event is due; null once finished
+  expected_end_at: string | null
+  finished_at: string | null
+  error?: string
+}
+
+export interface ReplayResult {
+  success: boolean
+  status: 'started' | 'cancelled' | 'not_found' | 'invalid' | 'conflict'
+  message: string
+  replay?: ReplayStatus
+}
+
+interface ScheduledEvent {
+  index: number
+  observedAt: number
+  event: AlertEvent
+}
+
+interface Replay {
+  status: ReplayStatus
+  cancelled: boolean
+  timer?: NodeJS.Timeout
+  wake?: () => void
+}
+
+// The `speed` query parameter: instant, recorded, or a multiplier such as 10 or 10x
+export function parseReplaySpeed(value: unknown): ReplaySpeed | { error: string } {
+  if (value === undefined || value === '' || value === 'recorded') return 1
+  if (value === 'instant') return 'instant'
+  const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)x?$/.exec(value) : null
+  const speed = match ? Number(match[1]) : NaN
+  if (!(speed > 0 && speed <= MAX_SPEED)) {
+    return { error: `speed must be instant, recorded or a multiplier up to ${MAX_SPEED}x` }
+  }
+  return speed
+}
+
+// Replays an archive of AlertEvents through the normal ingestion path, so that projections,
+// silences, notifications and the live stream all see it as they would see producers.
+// One replay runs at a time; its status stays readable after it finishes.
+export class ReplayService {
+  private current?: Replay
+
+  constructor(private alerts: AlertService) { }
+
+  status(): ReplayStatus | undefined {
+    return this.current && snapshot(this.current.status)
+  }
+
+  start(inputs: BatchInput[], options: ReplayOptions): ReplayResult {
+    if (this.current?.status.state === 'running') {
+      return {
+        success: false,
+        status: 'conflict',
+        message: 'A replay is already running',
+        replay: this.status(),
+      }
+    }
+    if (inputs.length === 0) {
+      return { success: false, status: 'invalid', message: 'The archive holds no events' }
+    }
+    if (inputs.length > MAX_REPLAY_EVENTS) {
+      return {
+        success: false,
+        status: 'invalid',
+        message: `The archive exceeds ${MAX_REPLAY_EVENTS} events`,
+      }
+    }
+
+    const rejected: BatchEventResult[] = []
+    const scheduled: ScheduledEvent[] = []
+    inputs.forEach((input, index) => {
+      if ('parseError' in input) {
+        rejected.push({ index, status: 'rejected', reason: input.parseError })
+        return
+      }
+      const validation = alertSchemas.validate(input.payload)
+      if (!validation.valid) {
+        rejected.push({
+          index,
+          status: 'rejected',
+          reason: 'Invalid alert event',
+          errors: validation.errors,
+        })
+        return
+      }
+      const event = validation.event
+      scheduled.push({ index, observedAt: Date.parse(event.observed_at), event })
+    })
+    // Stable, so events observed at the same instant keep their archive order
+    scheduled.sort((a, b) => a.observedAt - b.observedAt)
+
+    const now = Date.now()
+    const first = scheduled[0]?.observedAt
+    const last = scheduled[scheduled.length - 1]?.observedAt
+    const replay: Replay = {
+      cancelled: false,
+      status: {
+        replay_id: crypto.randomUUID(),
+        state: 'running',
+        ...options,
+        total: inputs.length,
+        processed: rejected.length,
+        summary: { ingested: 0, duplicate: 0, rejected: rejected.length },
+        rejected: rejected.slice(0, MAX_REPORTED_REJECTIONS),
+        archive_from: first === undefined ? null : new Date(first).toISOString(),
+        archive_to: last === undefined ? null : new Date(last).toISOString(),
+        started_at: new Date(now).toISOString(),
+        expected_end_at:
+          options.speed === 'instant' || first === undefined
+            ? null
+            : new Date(now + (last - first) / options.speed).toISOString(),
+        finished_at: null,
+      },
+    }
+    this.current = replay
+
+    const run =
+      options.speed === 'instant'
+        ? this.runInstant(replay, scheduled, options.retime ? now - last : 0)
+        : this.runTimed(replay, scheduled, options.speed, now)
+    run
+      .then(() => this.finish(replay, replay.cancelled ? 'cancelled' : 'completed'))
+      .catch((error) => {
+        console.error('Replay failed:', error)
+        this.finish(replay, 'failed', error instanceof Error ? error.message : String(error))
+      })
+
+    console.log(
+      `Replaying ${scheduled.length} events (${rejected.length} rejected) at ${
+        options.speed === 'instant' ? 'once' : `${options.speed}x`
+      }`
+    )
+    return {
+      success: true,
+      status: 'started',
+      message: 'Replay started',
+      replay: snapshot(replay.status),
+    }
+  }
+
+  cancel(): ReplayResult {
+    const replay = this.current
+    if (!replay || replay.status.state !== 'running') {
+      return { success: false, status: 'not_found', message: 'No replay is running' }
+    }
+    if (replay.status.speed === 'instant') {
+      return {
+        success: false,
+        status: 'conflict',
+        message: 'An instant replay runs as one batch and cannot be cancelled',
+      }
+    }
+    replay.cancelled = true
+    clearTimeout(replay.timer)
+    replay.wake?.()
+    return {
+      success: true,
+      status: 'cancelled',
+      message: 'Replay cancelled',
+      replay: snapshot(replay.status),
+    }
+  }
+
+  // Cancel whatever is running, on shutdown
+  stop() {
+    if (this.current?.status.state === 'running') this.cancel()
+  }
+
+  // One batch, broadcast as a single update like POST /ingest/webhook/batch. Retimed events
+  // keep their spacing and end now.
+  private async runInstant(replay: Replay, scheduled: ScheduledEvent[], shiftMs: number) {
+    const result = await this.alerts.ingestBatch(
+      scheduled.map(({ event }) => ({ payload: shiftEvent(event, shiftMs) }))
+    )
+    result.results.forEach((entry, position) => {
+      this.record(replay, { ...entry, index: scheduled[position].index })
+    })
+  }
+
+  // Each event waits for its recorded offset from the first one, divided by the speed
+  private async runTimed(
+    replay: Replay,
+    scheduled: ScheduledEvent[],
+    speed: number,
+    startedAt: number
+  ) {
+    const first = scheduled[0]?.observedAt
+    for (const { index, observedAt, event } of scheduled) {
+      const dueAt = startedAt + (observedAt - first) / speed
+      await this.sleep(replay, dueAt - Date.now())
+      if (replay.cancelled) return
+
+      const payload = replay.status.retime ? shiftEvent(event, dueAt - observedAt) : event
+      const result = await this.alerts.ingestAlertEvent(payload)
+      this.record(replay, {
+        index,
+        event_id: event.event_id,
+        status: result.status,
+        reason: result.status === 'ingested' ? undefined : result.message,
+        errors: result.errors,
+      })
+    }
+  }
+
+  private sleep(replay: Replay, ms: number): Promise<void> {
+    if (ms <= 0 || replay.cancelled) return Promise.resolve()
+    return new Promise((resolve) => {
+      replay.wake = resolve
+      replay.timer = setTimeout(resolve, ms)
+    })
+  }
+
+  private record(replay: Replay, result: BatchEventResult) {
+    const status = replay.status
+    status.processed++
+    status.summary[result.status]++
+    if (result.status === 'rejected' && status.rejected.length < MAX_REPORTED_REJECTIONS) {
+      status.rejected.push(result)
+    }
+  }
+
+  private finish(replay: Replay, state: ReplayState, error?: string) {
+    const status = replay.status
+    status.state = state
+    status.finished_at = new Date().toISOString()
+    status.expected_end_at = null
+    if (error) status.error = error
+    console.log(
+      `Replay ${state}: ${status.summary.ingested} ingested, ${status.summary.duplicate} ` +
+        `duplicate, ${status.summary.rejected} rejected`
+    )
+  }
+}
+
+function shiftEvent(event: AlertEvent, shiftMs: number): AlertEvent {
+  if (shiftMs === 0) return event
+  const shift = (timestamp: string) => new Date(Date.parse(timestamp) + shiftMs).toISOString()
+  return { ...event, observed_at: shift(event.observed_at), sent_at: shift(event.sent_at) }
+}
+
+function snapshot(status: ReplayStatus): ReplayStatus {
+  return { ...status, summary: { ...status.summary }, rejected: [...status.rejected] }
+}
@@ -0,0 +1,203 @@
+import { StorageBackend } from './storage'
+import { incidentEpisodes } from './projection'
+import { parseListParam } from './incidents.query'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_WINDOW_DAYS = 7
+const MAX_WINDOW_DAYS = 366
+
+export interface ReportQuery {
+  from: string
+  to: string
+  namespace?: string[]
+  service?: string[]
+}
+
+// One episode of an incident that opened within the window
+export interface ReportEpisode {
+  dedupe_key: string
+  namespace: string
+  service: string
+  current_severity: string
+  status: 'OPEN' | 'RESOLVED'
+  opened_at: string
+  acknowledged_at: string | null
+  resolved_at: string | null
+  reopened: boolean
+  time_to_acknowledge_seconds: number | null
+  time_to_resolve_seconds: number | null
+}
+
+export interface DurationStats {
+  // Episodes the duration is known for
+  count: number
+  mean_seconds: number
+  p90_seconds: number
+}
+
+export interface ReliabilityMetrics {
+  // Incidents with at least one episode opened in the window
+  incidents: number
+  episodes: number
+  // Incidents reopened at least once in the window, and their share of `incidents`
+  reopened: number
+  reopen_rate: number
+  // Null when no episode was acknowledged (or resolved)
+  time_to_acknowledge: DurationStats | null
+  time_to_resolve: DurationStats | null
+}
+
+export interface ReliabilityReport {
+  from: string
+  to: string
+  summary: ReliabilityMetrics
+  // Most incidents first
+  namespaces: (ReliabilityMetrics & { namespace: string })[]
+  services: (ReliabilityMetrics & { namespace: string; service: string })[]
+}
+
+// From the query parameters of the /api/reports/reliability routes: `from` and `to` bound
+// when episodes opened (default: the last 7 days), namespace and service narrow them
+export function parseReportQuery(query: Record<string, unknown>): ReportQuery | { error: string } {
+  const bounds: { from?: number; to?: number } = {}
+  for (const bound of ['from', 'to'] as const) {
+    const value = query[bound]
+    if (value === undefined || value === '') continue
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      return { error: `${bound} must be an ISO-8601 timestamp` }
+    }
+    bounds[bound] = Date.parse(value)
+  }
+  const to = bounds.to ?? Date.now()
+  const from = bounds.from ?? to - DEFAULT_WINDOW_DAYS * DAY_MS
+  if (from >= to) {
+    return { error: 'from must be before to' }
+  }
+  if (to - from > MAX_WINDOW_DAYS * DAY_MS) {
+    return { error: `The window may span at most ${MAX_WINDOW_DAYS} days` }
+  }
+
+  const parsed: ReportQuery = { from: new Date(from).toISOString(), to: new Date(to).toISOString() }
+  for (const field of ['namespace', 'service'] as const) {
+    const list = parseListParam(query, field)
+    if ('error' in list) return list
+    if (list.values) parsed[field] = list.values
+  }
+  return parsed
+}
+
+// Reliability figures per service and namespace, from incident episodes replayed out of the
+// event store. An episode counts towards the window it opened in, wherever it ended; time to
+// acknowledge and resolve run from its opening. Only incidents observed since the start of
+// the window are considered, so an incident reopened by hand with no event since is missed.
+export class ReportService {
+  constructor(private storage: StorageBackend) { }
+
+  async reliability(query: ReportQuery): Promise<ReliabilityReport> {
+    const episodes = await this.episodes(query)
+
+    const byNamespace = groupBy(episodes, (episode) => episode.namespace)
+    const byService = groupBy(episodes, (episode) => `${episode.namespace}\u0000${episode.service}`)
+
+    return {
+      from: query.from,
+      to: query.to,
+      summary: summarize(episodes),
+      namespaces: Array.from(byNamespace.values(), (group) => ({
+        namespace: group[0].namespace,
+        ...summarize(group),
+      })).sort(byIncidents),
+      services: Array.from(byService.values(), (group) => ({
+        namespace: group[0].namespace,
+        service: group[0].service,
+        ...summarize(group),
+      })).sort(byIncidents),
+    }
+  }
+
+  // The episodes behind a report, most recently opened first
+  async episodes(query: ReportQuery): Promise<ReportEpisode[]> {
+    const from = Date.parse(query.from)
+    const to = Date.parse(query.to)
+    const incidents = await this.storage.listIncidents({
+      namespace: query.namespace,
+      service: query.service,
+      from: query.from,
+    })
+
+    const episodes: ReportEpisode[] = []
+    for (const incident of incidents) {
+      const { dedupe_key, namespace, service } = incident
+      const [events, actions] = await Promise.all([
+        this.storage.getEventHistory(dedupe_key, namespace, service),
+        this.storage.getIncidentActions(dedupe_key, namespace, service),
+      ])
+      for (const episode of incidentEpisodes(events, actions)) {
+        const opened = Date.parse(episode.opened_at)
+        if (opened < from || opened >= to) continue
+        episodes.push({
+          dedupe_key,
+          namespace,
+          service,
+          current_severity: incident.current_severity,
+          status: episode.resolved_at ? 'RESOLVED' : 'OPEN',
+          ...episode,
+          time_to_acknowledge_seconds: secondsBetween(episode.opened_at, episode.acknowledged_at),
+          time_to_resolve_seconds: secondsBetween(episode.opened_at, episode.resolved_at),
+        })
+      }
+    }
+
+    return episodes.sort((a, b) => Date.parse(b.opened_at) - Date.parse(a.opened_at))
+  }
+}
+
+function summarize(episodes: ReportEpisode[]): ReliabilityMetrics {
+  const incidents = new Set<string>()
+  const reopened = new Set<string>()
+  episodes.forEach((episode) => {
+    const key = `${episode.namespace}\u0000${episode.service}\u0000${episode.dedupe_key}`
+    incidents.add(key)
+    if (episode.reopened) reopened.add(key)
+  })
+
+  return {
+    incidents: incidents.size,
+    episodes: episodes.length,
+    reopened: reopened.size,
+    reopen_rate: incidents.size > 0 ? reopened.size / incidents.size : 0,
+    time_to_acknowledge: durationStats(episodes.map((e) => e.time_to_acknowledge_seconds)),
+    time_to_resolve: durationStats(episodes.map((e) => e.time_to_resolve_seconds)),
+  }
+}
+
+// Mean and nearest-rank 90th percentile of the known durations
+function durationStats(durations: (number | null)[]): DurationStats | null {
+  const known = durations.filter((d): d is number => d !== null).sort((a, b) => a - b)
+  if (known.length === 0) return null
+  const mean = known.reduce((sum, d) => sum + d, 0) / known.length
+  return {
+    count: known.length,
+    mean_seconds: Math.round(mean),
+    p90_seconds: known[Math.ceil(known.length * 0.9) - 1],
+  }
+}
+
+function secondsBetween(start: string, end: string | null): number | null {
+  return end ? Math.round((Date.parse(end) - Date.parse(start)) / 1000) : null
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  items.forEach((item) => {
+    const k = key(item)
+    const group = groups.get(k)
+    if (group) group.push(item)
+    else groups.set(k, [item])
+  })
+  return groups
+}
+
+function byIncidents(a: ReliabilityMetrics, b: ReliabilityMetrics): number {
+  return b.incidents - a.incidents || b.episodes - a.episodes
+}
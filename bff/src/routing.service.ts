@@ -0,0 +1,552 @@
+import crypto from 'crypto'
+import {
+  AlertEvent,
+  EscalationTier,
+  Incident,
+  QuietHours,
+  RouteMatchers,
+  RouteTarget,
+  RoutingRule,
+  WSMessage,
+} from './types'
+import { StorageBackend } from './storage'
+import { NotificationService } from './notifications.service'
+import { NotificationChannel } from './channel'
+import { SEVERITIES } from './validation'
+import { normalizeName } from './service'
+
+export const ROUTE_MATCHERS: readonly (keyof RouteMatchers)[] = [
+  'severities',
+  'namespaces',
+  'services',
+  'priorities',
+  'auto',
+  'reason_codes',
+]
+
+const MAX_RULE_NAME_LENGTH = 100
+const MAX_LIST_LENGTH = 50
+const MAX_VALUE_LENGTH = 200
+const MAX_TARGETS = 20
+const MAX_ESCALATION_TIERS = 5
+const MAX_ESCALATION_MINUTES = 7 * 24 * 60
+const SWEEP_INTERVAL_MS = 30 * 1000
+// A previous sweep longer ago than this means no BFF was running in between
+const MAX_SWEEP_GAP_MS = 3 * SWEEP_INTERVAL_MS
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// Fields that are left out keep their current value on update and their default on create
+export interface RoutingRuleInput {
+  name?: unknown
+  enabled?: unknown
+  position?: unknown
+  matchers?: unknown
+  targets?: unknown
+  escalations?: unknown
+  quiet_hours?: unknown
+  continue?: unknown
+  actor: unknown
+}
+
+export interface RoutingRuleResult {
+  success: boolean
+  status: 'created' | 'updated' | 'deleted' | 'not_found' | 'invalid'
+  message: string
+  rule?: RoutingRule
+}
+
+export interface RoutePlan {
+  // Undefined when no rules are configured, in which case every channel is notified
+  targets?: RouteTarget[]
+  // Rules that matched, and those of them that stayed quiet because of quiet hours
+  matched: string[]
+  quieted: string[]
+}
+
+// The fields rules match on, taken from an event or from an incident's current state
+interface RouteSubject {
+  severity: string
+  namespace: string
+  service: string
+  priority: string
+  auto: boolean
+  reason_codes: string[]
+}
+
+export function matchesRoute(matchers: RouteMatchers, subject: RouteSubject): boolean {
+  const lists: [string[] | undefined, string][] = [
+    [matchers.severities, subject.severity],
+    [matchers.namespaces, subject.namespace],
+    [matchers.services, subject.service],
+    [matchers.priorities, subject.priority],
+  ]
+  if (lists.some(([values, value]) => values && values.length > 0 && !values.includes(value))) {
+    return false
+  }
+  if (matchers.auto !== undefined && matchers.auto !== subject.auto) {
+    return false
+  }
+  if (matchers.reason_codes && matchers.reason_codes.length > 0) {
+    return matchers.reason_codes.some((code) => subject.reason_codes.includes(code))
+  }
+  return true
+}
+
+export function inQuietHours(quiet: QuietHours, at: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: quiet.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at)
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+  const minutes = part('hour') * 60 + part('minute')
+
+  const start = minutesOfDay(quiet.start)
+  const end = minutesOfDay(quiet.end)
+  // A window like 22:00-07:00 wraps midnight
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+// Routing rules decide which channels and recipients hear about an event. Enabled rules
+// are evaluated in position order and evaluation stops at the first match unless that
+// rule says to continue. With no rules at all, every channel is notified as before.
+// Escalation tiers are checked by a periodic sweep: a tier fires once, when the sweep
+// sees its deadline (opened_at + after_minutes) pass while the incident is still open
+// and unacknowledged. Replicas take turns, each sweep covering the time since the previous
+// one wherever it ran. Deadlines that pass while no BFF is running are not caught up.
+export class RoutingService {
+  private sweepTimer?: NodeJS.Timeout
+
+  constructor(
+    private storage: StorageBackend,
+    private notifications: NotificationService,
+    private broadcast: (msg: WSMessage) => void
+  ) { }
+
+  listRules(): Promise<RoutingRule[]> {
+    return this.storage.listRoutingRules()
+  }
+
+  async createRule(input: RoutingRuleInput): Promise<RoutingRuleResult> {
+    const actor = normalizeName(input.actor)
+    if (!actor) return invalid('actor is required')
+
+    const rules = await this.storage.listRoutingRules()
+    const now = new Date().toISOString()
+    const rule = this.validateRule(input, {
+      rule_id: crypto.randomUUID(),
+      name: '',
+      enabled: true,
+      position: rules.length > 0 ? rules[rules.length - 1].position + 1 : 0,
+      matchers: {},
+      targets: [],
+      escalations: [],
+      quiet_hours: null,
+      continue: false,
+      created_by: actor,
+      created_at: now,
+      updated_by: actor,
+      updated_at: now,
+    })
+    if (typeof rule === 'string') return invalid(rule)
+
+    await this.storage.insertRoutingRule(rule)
+    this.broadcast({ type: 'routing_rule_created', data: rule })
+    return { success: true, status: 'created', message: 'Routing rule created', rule }
+  }
+
+  async updateRule(ruleId: string, input: RoutingRuleInput): Promise<RoutingRuleResult> {
+    const actor = normalizeName(input.actor)
+    if (!actor) return invalid('actor is required')
+
+    const existing = await this.storage.getRoutingRule(ruleId)
+    if (!existing) {
+      return { success: false, status: 'not_found', message: 'Routing rule not found' }
+    }
+
+    const rule = this.validateRule(input, {
+      ...existing,
+      updated_by: actor,
+      updated_at: new Date().toISOString(),
+    })
+    if (typeof rule === 'string') return invalid(rule)
+
+    await this.storage.updateRoutingRule(rule)
+    this.broadcast({ type: 'routing_rule_updated', data: rule })
+    return { success: true, status: 'updated', message: 'Routing rule updated', rule }
+  }
+
+  async deleteRule(ruleId: string, actorInput: unknown): Promise<RoutingRuleResult> {
+    const actor = normalizeName(actorInput)
+    if (!actor) return invalid('actor is required')
+
+    if (!(await this.storage.deleteRoutingRule(ruleId))) {
+      return { success: false, status: 'not_found', message: 'Routing rule not found' }
+    }
+
+    this.broadcast({ type: 'routing_rule_deleted', data: { rule_id: ruleId, actor } })
+    return { success: true, status: 'deleted', message: 'Routing rule deleted' }
+  }
+
+  // Where a freshly ingested event should be notified
+  async planEvent(event: AlertEvent, now = new Date()): Promise<RoutePlan> {
+    const rules = await this.storage.listRoutingRules()
+    if (rules.length === 0) {
+      return { matched: [], quieted: [] }
+    }
+
+    const subject: RouteSubject = {
+      severity: event.alert.severity,
+      namespace: event.service.namespace,
+      service: event.service.name,
+      priority: event.decision.priority,
+      auto: event.decision.auto,
+      reason_codes: event.decision.reason_codes,
+    }
+
+    const targets: RouteTarget[] = []
+    const matched: string[] = []
+    const quieted: string[] = []
+    for (const rule of matchingRules(rules, subject)) {
+      matched.push(rule.rule_id)
+      if (isQuiet(rule, subject, now)) {
+        quieted.push(rule.rule_id)
+      } else {
+        targets.push(...rule.targets)
+      }
+    }
+    return { targets: mergeTargets(targets), matched, quieted }
+  }
+
+  // Fire the escalation tiers whose deadline passed since the previous sweep
+  async sweep(now = Date.now()): Promise<void> {
+    const at = new Date(now).toISOString()
+    const run = await this.storage.claimJobRun('escalations', at, at)
+    if (!run) return
+    const previous = run.previous_run_at ? Date.parse(run.previous_run_at) : now
+    const since = now - previous > MAX_SWEEP_GAP_MS ? now : previous
+
+    const rules = (await this.storage.listRoutingRules()).filter(
+      (rule) => rule.enabled && rule.escalations.length > 0
+    )
+    if (rules.length === 0) return
+
+    const incidents = await this.storage.listIncidents({ status: 'open', silenced: false })
+    for (const incident of incidents) {
+      if (incident.acknowledged_at) continue
+
+      const due = dueEscalations(rules, incident, since, now)
+      if (due.length === 0) continue
+
+      const event = await this.storage.getEvent(incident.latest_event_id)
+      if (!event) continue
+
+      // Tiers of several rules that come due together go out as one escalation
+      const afterMinutes = Math.max(...due.map((tier) => tier.after_minutes))
+      const targets = mergeTargets(due.flatMap((tier) => tier.targets))
+      console.log(
+        `Escalating ${incident.namespace}/${incident.service}/${incident.dedupe_key} ` +
+          `after ${afterMinutes} minutes unacknowledged`
+      )
+      await this.notifications.notifyEscalation(event, afterMinutes, targets)
+    }
+  }
+
+  start(intervalMs = SWEEP_INTERVAL_MS) {
+    this.stop()
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((err) => console.error('Escalation sweep failed:', err))
+    }, intervalMs)
+    this.sweepTimer.unref()
+  }
+
+  stop() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer)
+    this.sweepTimer = undefined
+  }
+
+  // Applies the given fields over `base` and checks the result as a whole
+  private validateRule(input: RoutingRuleInput, base: RoutingRule): RoutingRule | string {
+    const rule: RoutingRule = { ...base }
+
+    if (input.name !== undefined) {
+      if (typeof input.name !== 'string' || input.name.trim() === '') return 'name is required'
+      rule.name = input.name.trim()
+    }
+    if (!rule.name) return 'name is required'
+    if (rule.name.length > MAX_RULE_NAME_LENGTH) {
+      return `name must be at most ${MAX_RULE_NAME_LENGTH} characters`
+    }
+
+    if (input.enabled !== undefined) {
+      if (typeof input.enabled !== 'boolean') return 'enabled must be a boolean'
+      rule.enabled = input.enabled
+    }
+    if (input.continue !== undefined) {
+      if (typeof input.continue !== 'boolean') return 'continue must be a boolean'
+      rule.continue = input.continue
+    }
+    if (input.position !== undefined) {
+      if (!Number.isInteger(input.position) || (input.position as number) < 0) {
+        return 'position must be a non-negative integer'
+      }
+      rule.position = input.position as number
+    }
+
+    if (input.matchers !== undefined) {
+      const matchers = validateMatchers(input.matchers)
+      if (typeof matchers === 'string') return matchers
+      rule.matchers = matchers
+    }
+
+    const channels = this.notifications.channelList()
+    if (input.targets !== undefined) {
+      const targets = validateTargets(input.targets, channels, 'targets')
+      if (typeof targets === 'string') return targets
+      rule.targets = targets
+    }
+    if (input.escalations !== undefined) {
+      const escalations = validateEscalations(input.escalations, channels)
+      if (typeof escalations === 'string') return escalations
+      rule.escalations = escalations
+    }
+    if (rule.targets.length === 0 && rule.escalations.length === 0) {
+      return 'a rule needs targets, escalations or both'
+    }
+
+    if (input.quiet_hours !== undefined) {
+      const quietHours = validateQuietHours(input.quiet_hours)
+      if (typeof quietHours === 'string') return quietHours
+      rule.quiet_hours = quietHours
+    }
+    return rule
+  }
+}
+
+function invalid(message: string): RoutingRuleResult {
+  return { success: false, status: 'invalid', message }
+}
+
+// Enabled rules in evaluation order, up to and including the first one that doesn't continue
+function matchingRules(rules: RoutingRule[], subject: RouteSubject): RoutingRule[] {
+  const matched: RoutingRule[] = []
+  for (const rule of rules) {
+    if (!rule.enabled || !matchesRoute(rule.matchers, subject)) continue
+    matched.push(rule)
+    if (!rule.continue) break
+  }
+  return matched
+}
+
+function isQuiet(rule: RoutingRule, subject: RouteSubject, at: Date): boolean {
+  const quiet = rule.quiet_hours
+  if (!quiet || quiet.override_severities?.includes(subject.severity)) return false
+  return inQuietHours(quiet, at)
+}
+
+function dueEscalations(
+  rules: RoutingRule[],
+  incident: Incident,
+  since: number,
+  now: number
+): EscalationTier[] {
+  const subject: RouteSubject = {
+    severity: incident.current_severity,
+    namespace: incident.namespace,
+    service: incident.service,
+    priority: incident.current_priority,
+    auto: incident.auto,
+    reason_codes: incident.reason_codes,
+  }
+  const openedAt = Date.parse(incident.opened_at)
+
+  return matchingRules(rules, subject)
+    .filter((rule) => !isQuiet(rule, subject, new Date(now)))
+    .flatMap((rule) =>
+      rule.escalations.filter((tier) => {
+        const deadline = openedAt + tier.after_minutes * 60 * 1000
+        return deadline > since && deadline <= now
+      })
+    )
+}
+
+// One target per channel and recipient, so overlapping rules don't notify anyone twice
+function mergeTargets(targets: RouteTarget[]): RouteTarget[] {
+  const merged = new Map<string, RouteTarget>()
+  for (const target of targets) {
+    const recipients = target.recipients?.length ? target.recipients : [undefined]
+    for (const recipient of recipients) {
+      merged.set(`${target.channel}\u0000${recipient ?? ''}`, {
+        channel: target.channel,
+        ...(recipient ? { recipients: [recipient] } : {}),
+      })
+    }
+  }
+  return Array.from(merged.values())
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function validateStringList(value: unknown, field: string): string[] | string {
+  if (!Array.isArray(value)) return `${field} must be an array of strings`
+  if (value.length > MAX_LIST_LENGTH) return `${field} can have at most ${MAX_LIST_LENGTH} entries`
+
+  const values: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string' || item.trim() === '' || item.length > MAX_VALUE_LENGTH) {
+      return `${field} must be an array of non-empty strings`
+    }
+    if (!values.includes(item.trim())) values.push(item.trim())
+  }
+  return values
+}
+
+// Empty matchers are allowed and make a catch-all rule
+function validateMatchers(value: unknown): RouteMatchers | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'matchers must be an object'
+  }
+
+  const matchers: RouteMatchers = {}
+  for (const [name, raw] of Object.entries(value)) {
+    if (!ROUTE_MATCHERS.includes(name as keyof RouteMatchers)) {
+      return `unknown matcher "${name}" (expected one of: ${ROUTE_MATCHERS.join(', ')})`
+    }
+    if (raw === undefined || raw === null) continue
+
+    if (name === 'auto') {
+      if (typeof raw !== 'boolean') return 'matchers.auto must be a boolean'
+      matchers.auto = raw
+      continue
+    }
+
+    const values = validateStringList(raw, `matchers.${name}`)
+    if (typeof values === 'string') return values
+    if (values.length > 0) {
+      matchers[name as Exclude<keyof RouteMatchers, 'auto'>] = values
+    }
+  }
+
+  const unknownSeverity = matchers.severities?.find(
+    (severity) => !(SEVERITIES as readonly string[]).includes(severity)
+  )
+  if (unknownSeverity) {
+    return `matchers.severities must only contain: ${SEVERITIES.join(', ')}`
+  }
+  return matchers
+}
+
+// Webhook recipients are URLs the BFF signs requests to, so they must be among the channel's
+// configured URLs (NOTIFY_WEBHOOK_URLS); other channels take any recipient
+function validateTargets(
+  value: unknown,
+  channels: NotificationChannel[],
+  field: string
+): RouteTarget[] | string {
+  if (!Array.isArray(value)) return `${field} must be an array`
+  if (value.length > MAX_TARGETS) return `${field} can have at most ${MAX_TARGETS} entries`
+
+  const targets: RouteTarget[] = []
+  for (const [index, raw] of value.entries()) {
+    const target = raw as { channel?: unknown; recipients?: unknown } | null
+    if (typeof target !== 'object' || target === null || typeof target.channel !== 'string') {
+      return `${field}[${index}].channel is required`
+    }
+    const channel = channels.find((c) => c.name === target.channel)
+    if (!channel) {
+      return `${field}[${index}].channel "${target.channel}" is not configured (available: ${
+        channels.map((c) => c.name).join(', ') || 'none'
+      })`
+    }
+
+    let recipients: string[] = []
+    if (target.recipients !== undefined && target.recipients !== null) {
+      const list = validateStringList(target.recipients, `${field}[${index}].recipients`)
+      if (typeof list === 'string') return list
+      recipients = list
+    }
+    const unknown = recipients.find((r) => !channel.defaultRecipients.includes(r))
+    if (channel.kind === 'webhook' && unknown) {
+      return `${field}[${index}].recipients: "${unknown}" is not a configured webhook URL`
+    }
+    targets.push({ channel: target.channel, ...(recipients.length > 0 ? { recipients } : {}) })
+  }
+  return targets
+}
+
+// Tiers are kept in ascending order of after_minutes
+function validateEscalations(
+  value: unknown,
+  channels: NotificationChannel[]
+): EscalationTier[] | string {
+  if (!Array.isArray(value)) return 'escalations must be an array'
+  if (value.length > MAX_ESCALATION_TIERS) {
+    return `a rule can have at most ${MAX_ESCALATION_TIERS} escalation tiers`
+  }
+
+  const tiers: EscalationTier[] = []
+  for (const [index, raw] of value.entries()) {
+    const tier = raw as { after_minutes?: unknown; targets?: unknown } | null
+    const minutes = Number(tier?.after_minutes)
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_ESCALATION_MINUTES) {
+      return (
+        `escalations[${index}].after_minutes must be greater than 0 and at most ` +
+        `${MAX_ESCALATION_MINUTES}`
+      )
+    }
+
+    const targets = validateTargets(tier?.targets, channels, `escalations[${index}].targets`)
+    if (typeof targets === 'string') return targets
+    if (targets.length === 0) return `escalations[${index}].targets must not be empty`
+
+    tiers.push({ after_minutes: minutes, targets })
+  }
+
+  tiers.sort((a, b) => a.after_minutes - b.after_minutes)
+  if (tiers.some((tier, i) => i > 0 && tier.after_minutes === tiers[i - 1].after_minutes)) {
+    return 'escalation tiers must have distinct after_minutes'
+  }
+  return tiers
+}
+
+function validateQuietHours(value: unknown): QuietHours | null | string {
+  if (value === null) return null
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'quiet_hours must be an object or null'
+  }
+
+  const raw = value as Record<string, unknown>
+  if (typeof raw.start !== 'string' || !TIME_OF_DAY.test(raw.start)) {
+    return 'quiet_hours.start must be HH:MM'
+  }
+  if (typeof raw.end !== 'string' || !TIME_OF_DAY.test(raw.end)) {
+    return 'quiet_hours.end must be HH:MM'
+  }
+  if (raw.start === raw.end) return 'quiet_hours.start and end must differ'
+
+  const quiet: QuietHours = { start: raw.start, end: raw.end }
+
+  if (raw.timezone !== undefined && raw.timezone !== null && raw.timezone !== '') {
+    if (typeof raw.timezone !== 'string') return 'quiet_hours.timezone must be a string'
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: raw.timezone })
+    } catch {
+      return `quiet_hours.timezone "${raw.timezone}" is not a known time zone`
+    }
+    quiet.timezone = raw.timezone
+  }
+
+  if (raw.override_severities !== undefined && raw.override_severities !== null) {
+    const severities = validateStringList(raw.override_severities, 'quiet_hours.override_severities')
+    if (typeof severities === 'string') return severities
+    if (severities.some((s) => !(SEVERITIES as readonly string[]).includes(s))) {
+      return `quiet_hours.override_severities must only contain: ${SEVERITIES.join(', ')}`
+    }
+    if (severities.length > 0) quiet.override_severities = severities
+  }
+  return quiet
+}
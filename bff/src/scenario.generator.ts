@@ -0,0 +1,611 @@
+import { AlertEvent } from './types'
+import { SEVERITIES } from './validation'
+
+type Severity = (typeof SEVERITIES)[number]
+
+// Declarative scenarios for synthetic alerts.v1 streams. A scenario is a list of patterns
+// laid out on a shared timeline; services are "namespace/name", "@<n>" for the n-th service
+// from the predictive engine's /services (0-based), or "@random".
+
+export interface CascadePattern {
+  type: 'cascade'
+  // In failure order: the first service fails first and its callers follow. "topology"
+  // walks the /services dependency edges from a random service instead
+  chain: string[] | 'topology'
+  // Services in a topology chain (default 4)
+  length?: number
+  severity?: Severity
+  alert_type?: string
+  start_minute?: number
+  duration_minutes?: number
+  // Delay before each next service in the chain fails, and recovers after the one before
+  step_seconds?: number
+  // Repeat alerts while a service stays down
+  interval_seconds?: number
+}
+
+export interface FlappingPattern {
+  type: 'flapping'
+  service: string
+  severity?: Severity
+  alert_type?: string
+  start_minute?: number
+  cycles?: number
+  period_seconds?: number
+  // Share of each period spent firing
+  duty?: number
+}
+
+export interface SlowBurnPattern {
+  type: 'slow_burn'
+  service: string
+  alert_type?: string
+  start_minute?: number
+  duration_minutes?: number
+  interval_seconds?: number
+  // Evidence field that climbs from baseline to peak; severity follows its progress
+  metric?: string
+  baseline?: number
+  peak?: number
+  // Send a resolved event once the burn is over (default true)
+  resolve?: boolean
+}
+
+export interface StormPattern {
+  type: 'storm'
+  // "*" for every service from /services
+  services: string[] | '*'
+  events_per_minute: number
+  start_minute?: number
+  duration_minutes?: number
+  // Distinct incidents the events are spread over
+  incidents?: number
+  alert_types?: string[]
+}
+
+export type ScenarioPattern = CascadePattern | FlappingPattern | SlowBurnPattern | StormPattern
+
+export interface Scenario {
+  name: string
+  description?: string
+  seed?: number
+  patterns: ScenarioPattern[]
+}
+
+export interface ServiceRef {
+  namespace: string
+  name: string
+}
+
+// Services and dependency edges (caller -> callee) from the predictive engine's /services
+export interface Topology {
+  services: ServiceRef[]
+  edges: [number, number][]
+}
+
+export interface GenerateOptions {
+  // Epoch ms of minute 0
+  start: number
+  // Overrides the scenario's seed
+  seed?: number
+  // Compresses the timeline: 10 plays a 10-minute scenario within one minute
+  speed?: number
+  topology?: Topology
+}
+
+const PATTERN_TYPES = ['cascade', 'flapping', 'slow_burn', 'storm']
+
+const MAX_EVENTS = 1000000
+
+const DEFAULT_ALERT_TYPES = ['latency', 'error_rate', 'saturation', 'health_check', 'pod_restart']
+
+const ACTIONS: Record<string, string> = {
+  latency: 'scale_up',
+  saturation: 'scale_up',
+  error_rate: 'rollback',
+  dependency_failure: 'circuit_break',
+  health_check: 'restart_pod',
+  pod_restart: 'investigate',
+}
+
+const REASON_CODES: Record<string, string[]> = {
+  latency: ['latency_breach'],
+  saturation: ['cpu_saturation', 'high_traffic'],
+  error_rate: ['error_spike'],
+  dependency_failure: ['dependency_failure', 'error_spike'],
+  health_check: ['health_check_failed'],
+  pod_restart: ['crash_loop'],
+}
+
+// Weighted towards the middle, as real storms are
+const STORM_SEVERITIES: readonly Severity[] = [
+  'critical',
+  'high',
+  'high',
+  'medium',
+  'medium',
+  'low',
+  'warning',
+]
+
+const PRIORITIES: Partial<Record<Severity, string>> = { critical: 'P1', high: 'P2', medium: 'P3' }
+
+const RISK_SCORES: Record<Severity, number> = {
+  info: 10,
+  warning: 25,
+  low: 35,
+  medium: 55,
+  high: 75,
+  critical: 90,
+}
+
+// One alert on the scenario timeline, before it is dressed up as an AlertEvent
+interface Signal {
+  at: number
+  service: ServiceRef
+  alert_type: string
+  // Defaults to "<alert_type>-<service>"
+  dedupe_key?: string
+  state: 'firing' | 'resolved'
+  severity: Severity
+  evidence: Record<string, number>
+  downstream_count?: number
+  reason_codes?: string[]
+}
+
+// Validates a parsed scenario file
+export function parseScenario(input: unknown): Scenario | { error: string } {
+  if (!isObject(input)) return { error: 'A scenario must be a JSON object' }
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    return { error: 'name is required' }
+  }
+  if (input.seed !== undefined && !Number.isInteger(input.seed)) {
+    return { error: 'seed must be an integer' }
+  }
+  if (!Array.isArray(input.patterns) || input.patterns.length === 0) {
+    return { error: 'patterns must be a non-empty array' }
+  }
+
+  for (const [index, pattern] of input.patterns.entries()) {
+    const error = patternError(pattern)
+    if (error) return { error: `patterns[${index}]: ${error}` }
+  }
+  return input as unknown as Scenario
+}
+
+// Whether generating the scenario needs the service list from /services
+export function needsTopology(scenario: Scenario): boolean {
+  const refs = scenario.patterns.flatMap((pattern): (string | string[])[] => {
+    switch (pattern.type) {
+      case 'cascade':
+        return [pattern.chain]
+      case 'storm':
+        return [pattern.services]
+      default:
+        return [pattern.service]
+    }
+  })
+  return refs.flat().some((ref) => ref.startsWith('@') || ref === '*' || ref === 'topology')
+}
+
+// The services and edges of a /services response; edge ends may be service IDs
+// ("namespace:name") or bare names
+export function topologyFromServices(response: unknown): Topology | { error: string } {
+  const body = response as {
+    services?: { name?: unknown; namespace?: unknown; serviceId?: unknown }[]
+    edges?: { source?: unknown; target?: unknown }[]
+  }
+  if (!Array.isArray(body?.services)) return { error: 'Expected a services array' }
+
+  const services: ServiceRef[] = []
+  const ids = new Map<string, number>()
+  body.services.forEach((service) => {
+    if (typeof service.name !== 'string') return
+    const namespace = typeof service.namespace === 'string' ? service.namespace : 'default'
+    const index = services.push({ namespace, name: service.name }) - 1
+    ids.set(`${namespace}:${service.name}`, index)
+    if (typeof service.serviceId === 'string') ids.set(service.serviceId, index)
+    if (!ids.has(service.name)) ids.set(service.name, index)
+  })
+
+  const edges: [number, number][] = []
+  for (const edge of body.edges ?? []) {
+    const source = ids.get(String(edge.source))
+    const target = ids.get(String(edge.target))
+    if (source !== undefined && target !== undefined && source !== target) {
+      edges.push([source, target])
+    }
+  }
+  return { services, edges }
+}
+
+// Every event of the scenario in observed_at order. The same seed and start give the same
+// events; event IDs also depend on the start, so that reruns are not taken for duplicates.
+export function generateScenario(scenario: Scenario, options: GenerateOptions): AlertEvent[] {
+  const seed = options.seed ?? scenario.seed ?? 1
+  const random = seededRandom(seed)
+  const ids = seededRandom(seed ^ Math.floor(options.start / 1000))
+  const speed = options.speed ?? 1
+  const services = new ServiceResolver(random, options.topology)
+
+  const expected = scenario.patterns.reduce((sum, pattern) => {
+    if (pattern.type !== 'storm') return sum
+    return sum + pattern.events_per_minute * (pattern.duration_minutes ?? 5)
+  }, 0)
+  if (expected > MAX_EVENTS) {
+    throw new Error(`The scenario would generate more than ${MAX_EVENTS} events`)
+  }
+
+  const signals = scenario.patterns.flatMap((pattern) => {
+    const offset = (pattern.start_minute ?? 0) * 60 * 1000
+    const generated = patternSignals(pattern, services, random)
+    generated.forEach((signal) => (signal.at += offset))
+    return generated
+  })
+  // Stable, so each pattern's own order survives ties
+  signals.sort((a, b) => a.at - b.at)
+
+  return signals.map((signal) => {
+    const observedAt = options.start + Math.round(signal.at / speed)
+    return toEvent(signal, scenario.name, observedAt, random, ids)
+  })
+}
+
+function patternSignals(
+  pattern: ScenarioPattern,
+  services: ServiceResolver,
+  random: () => number
+): Signal[] {
+  switch (pattern.type) {
+    case 'cascade':
+      return cascadeSignals(pattern, services, random)
+    case 'flapping':
+      return flappingSignals(pattern, services.resolve(pattern.service), random)
+    case 'slow_burn':
+      return slowBurnSignals(pattern, services.resolve(pattern.service), random)
+    case 'storm':
+      return stormSignals(pattern, services, random)
+  }
+}
+
+// The first service fails and every caller up the chain follows, one step later each,
+// one severity lower each; they recover in the same order once the first one does
+function cascadeSignals(
+  pattern: CascadePattern,
+  services: ServiceResolver,
+  random: () => number
+): Signal[] {
+  const chain =
+    pattern.chain === 'topology'
+      ? services.dependencyChain(pattern.length ?? 4)
+      : pattern.chain.map((ref) => services.resolve(ref))
+  const step = (pattern.step_seconds ?? 60) * 1000
+  const interval = (pattern.interval_seconds ?? 30) * 1000
+  const duration = (pattern.duration_minutes ?? 15) * 60 * 1000
+  const rootSeverity = SEVERITIES.indexOf(pattern.severity ?? 'critical')
+  const rootType = pattern.alert_type ?? 'error_rate'
+
+  return chain.flatMap((service, hop) => {
+    const severity = SEVERITIES[Math.max(rootSeverity - hop, SEVERITIES.indexOf('medium'))]
+    const alertType = hop === 0 ? rootType : 'dependency_failure'
+    const down = hop * step
+    const up = duration + hop * step
+    const signal = (at: number, state: Signal['state']): Signal => ({
+      at,
+      service,
+      alert_type: alertType,
+      state,
+      severity,
+      evidence:
+        state === 'firing'
+          ? { http_errors: Math.round(40 + random() * 60), latency_p99: jitter(2500, random) }
+          : { http_errors: 0, latency_p99: jitter(180, random) },
+      downstream_count: chain.length - hop - 1,
+      reason_codes: hop === 0 ? [...(REASON_CODES[alertType] ?? []), 'root_cause'] : undefined,
+    })
+
+    const signals: Signal[] = []
+    for (let at = down; at < up; at += interval) signals.push(signal(at, 'firing'))
+    signals.push(signal(up, 'resolved'))
+    return signals
+  })
+}
+
+function flappingSignals(
+  pattern: FlappingPattern,
+  service: ServiceRef,
+  random: () => number
+): Signal[] {
+  const period = (pattern.period_seconds ?? 120) * 1000
+  const duty = pattern.duty ?? 0.5
+  const base = {
+    service,
+    alert_type: pattern.alert_type ?? 'health_check',
+    severity: pattern.severity ?? 'high',
+  }
+  const signals: Signal[] = []
+  for (let cycle = 0; cycle < (pattern.cycles ?? 10); cycle++) {
+    signals.push({
+      ...base,
+      at: cycle * period,
+      state: 'firing',
+      evidence: { availability_percent: jitter(60, random), http_errors: jitter(30, random) },
+    })
+    signals.push({
+      ...base,
+      at: cycle * period + Math.round(period * duty),
+      state: 'resolved',
+      evidence: { availability_percent: 100, http_errors: 0 },
+    })
+  }
+  return signals
+}
+
+// The metric climbs towards its peak, slowly at first; severity rises with it
+function slowBurnSignals(
+  pattern: SlowBurnPattern,
+  service: ServiceRef,
+  random: () => number
+): Signal[] {
+  const interval = (pattern.interval_seconds ?? 60) * 1000
+  const steps = Math.max(2, Math.floor(((pattern.duration_minutes ?? 60) * 60 * 1000) / interval))
+  const metric = pattern.metric ?? 'latency_p99'
+  const baseline = pattern.baseline ?? 200
+  const peak = pattern.peak ?? 3000
+  const alertType = pattern.alert_type ?? 'latency'
+
+  const signals: Signal[] = []
+  for (let step = 0; step < steps; step++) {
+    const progress = (step / (steps - 1)) ** 2
+    signals.push({
+      at: step * interval,
+      service,
+      alert_type: alertType,
+      state: 'firing',
+      severity: burnSeverity(progress),
+      evidence: { [metric]: jitter(baseline + (peak - baseline) * progress, random) },
+    })
+  }
+  if (pattern.resolve ?? true) {
+    signals.push({
+      at: steps * interval,
+      service,
+      alert_type: alertType,
+      state: 'resolved',
+      severity: burnSeverity(1),
+      evidence: { [metric]: jitter(baseline, random) },
+    })
+  }
+  return signals
+}
+
+function burnSeverity(progress: number): Severity {
+  if (progress >= 0.9) return 'critical'
+  if (progress >= 0.6) return 'high'
+  if (progress >= 0.35) return 'medium'
+  if (progress >= 0.15) return 'warning'
+  return 'info'
+}
+
+// Events at random instants over a pool of incidents, mostly firing, with the odd resolution
+function stormSignals(
+  pattern: StormPattern,
+  services: ServiceResolver,
+  random: () => number
+): Signal[] {
+  const pool =
+    pattern.services === '*'
+      ? services.all()
+      : pattern.services.map((ref) => services.resolve(ref))
+  const alertTypes = pattern.alert_types ?? DEFAULT_ALERT_TYPES
+  const incidents = Array.from({ length: pattern.incidents ?? 100 }, (_, index) => {
+    const service = pick(pool, random)
+    const alertType = pick(alertTypes, random)
+    return {
+      service,
+      alert_type: alertType,
+      dedupe_key: `${alertType}-${service.name}-${index + 1}`,
+      severity: pick(STORM_SEVERITIES, random),
+    }
+  })
+
+  const duration = (pattern.duration_minutes ?? 5) * 60 * 1000
+  const total = Math.round(pattern.events_per_minute * (duration / 60000))
+  return Array.from({ length: total }, (): Signal => {
+    const incident = pick(incidents, random)
+    const resolved = random() < 0.05
+    return {
+      ...incident,
+      at: Math.floor(random() * duration),
+      state: resolved ? 'resolved' : 'firing',
+      evidence: resolved
+        ? { http_errors: 0 }
+        : { http_errors: Math.round(random() * 100), cpu_percent: jitter(85, random) },
+    }
+  })
+}
+
+function toEvent(
+  signal: Signal,
+  scenario: string,
+  observedAt: number,
+  random: () => number,
+  ids: () => number
+): AlertEvent {
+  const { service, alert_type: alertType, severity } = signal
+  return {
+    schema_version: 'alerts.v1',
+    event_id: uuid(ids),
+    dedupe_key: signal.dedupe_key ?? `${alertType}-${service.name}`,
+    observed_at: new Date(observedAt).toISOString(),
+    sent_at: new Date(observedAt + 200 + Math.floor(random() * 1300)).toISOString(),
+    service: { name: service.name, namespace: service.namespace },
+    alert: { type: alertType, state: signal.state, severity },
+    decision: {
+      action: signal.state === 'resolved' ? 'none' : ACTIONS[alertType] ?? 'investigate',
+      auto: severity !== 'critical',
+      priority: PRIORITIES[severity] ?? 'P4',
+      risk_score:
+        signal.state === 'resolved' ? 0 : RISK_SCORES[severity] + Math.floor(random() * 10),
+      reason_codes:
+        signal.state === 'resolved'
+          ? ['recovered']
+          : signal.reason_codes ?? REASON_CODES[alertType] ?? [alertType],
+    },
+    evidence: signal.evidence,
+    ...(signal.downstream_count !== undefined
+      ? { impact: { downstream_count: signal.downstream_count } }
+      : {}),
+    context: {
+      pod_name: `${service.name}-${Math.floor(random() * 0xfffff).toString(16)}`,
+      environment: 'synthetic',
+    },
+    meta: { producer: 'scenario-generator', scenario },
+  }
+}
+
+class ServiceResolver {
+  constructor(
+    private random: () => number,
+    private topology?: Topology
+  ) { }
+
+  resolve(ref: string): ServiceRef {
+    if (!ref.startsWith('@')) {
+      const slash = ref.indexOf('/')
+      return slash < 0
+        ? { namespace: 'default', name: ref }
+        : { namespace: ref.slice(0, slash), name: ref.slice(slash + 1) }
+    }
+    const services = this.all()
+    if (ref === '@random') return pick(services, this.random)
+    const service = services[Number(ref.slice(1))]
+    if (!service) throw new Error(`${ref} is beyond the ${services.length} known services`)
+    return service
+  }
+
+  all(): ServiceRef[] {
+    if (!this.topology || this.topology.services.length === 0) {
+      throw new Error('The scenario refers to services from /services, but none are known')
+    }
+    return this.topology.services
+  }
+
+  // A path down the dependency edges from a random caller, in failure order: the deepest
+  // dependency first. Shorter than asked when the graph runs out.
+  dependencyChain(length: number): ServiceRef[] {
+    const services = this.all()
+    const edges = this.topology?.edges ?? []
+    const callers = Array.from(new Set(edges.map(([source]) => source)))
+    if (callers.length === 0) {
+      throw new Error('/services returned no dependency edges to build a cascade from')
+    }
+
+    const path = [pick(callers, this.random)]
+    while (path.length < length) {
+      const next = edges
+        .filter(([source, target]) => source === path[path.length - 1] && !path.includes(target))
+        .map(([, target]) => target)
+      if (next.length === 0) break
+      path.push(pick(next, this.random))
+    }
+    return path.reverse().map((index) => services[index])
+  }
+}
+
+function patternError(pattern: unknown): string | undefined {
+  if (!isObject(pattern)) return 'must be an object'
+  if (!PATTERN_TYPES.includes(pattern.type as string)) {
+    return `type must be one of: ${PATTERN_TYPES.join(', ')}`
+  }
+
+  const numbers = [
+    'start_minute',
+    'duration_minutes',
+    'step_seconds',
+    'interval_seconds',
+    'period_seconds',
+    'cycles',
+    'length',
+    'incidents',
+    'events_per_minute',
+  ]
+  for (const name of numbers) {
+    const value = pattern[name]
+    const min = name === 'start_minute' ? 0 : Number.MIN_VALUE
+    if (value !== undefined && !(typeof value === 'number' && value >= min)) {
+      return `${name} must be a ${min === 0 ? 'non-negative' : 'positive'} number`
+    }
+  }
+  if (pattern.severity !== undefined && !SEVERITIES.includes(pattern.severity as Severity)) {
+    return `severity must be one of: ${SEVERITIES.join(', ')}`
+  }
+  const duty = pattern.duty
+  if (duty !== undefined && !(typeof duty === 'number' && duty > 0 && duty < 1)) {
+    return 'duty must be between 0 and 1'
+  }
+
+  switch (pattern.type) {
+    case 'cascade':
+      if (pattern.chain !== 'topology' && !isRefList(pattern.chain)) {
+        return 'chain must be "topology" or a non-empty list of services'
+      }
+      return undefined
+    case 'storm':
+      if (pattern.services !== '*' && !isRefList(pattern.services)) {
+        return 'services must be "*" or a non-empty list of services'
+      }
+      if (pattern.events_per_minute === undefined) return 'events_per_minute is required'
+      if (pattern.alert_types !== undefined && !isRefList(pattern.alert_types)) {
+        return 'alert_types must be a non-empty list'
+      }
+      return undefined
+    default:
+      if (typeof pattern.service !== 'string' || pattern.service === '') {
+        return 'service is required'
+      }
+      return undefined
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isRefList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === 'string' && item !== '')
+  )
+}
+
+// mulberry32: small, fast and good enough to make scenarios reproducible
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+// Within 10% either way
+function jitter(value: number, random: () => number): number {
+  return Math.round(value * (0.9 + random() * 0.2))
+}
+
+// A version 4 UUID drawn from the seeded generator
+function uuid(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16))
+  hex[12] = '4'
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+  const s = hex.join('')
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`
+}
@@ -1,160 +1,406 @@
-import { AlertEvent, Incident, WSMessage } from './types'
-import { Storage } from './storage'
+import crypto from 'crypto'
+import {
+  AlertEvent,
+  Incident,
+  IncidentAction,
+  IncidentActionType,
+  IncidentTransition,
+  WSMessage,
+} from './types'
+import { StorageBackend, IncidentListFilter, IncidentKey, IncidentPageRequest } from './storage'
 
-import { SmsService } from './sms.service'
+import { NotificationService } from './notifications.service'
+import { SilenceService } from './silences.service'
+import { RoutingService } from './routing.service'
+import { DigestService } from './digest.service'
+import { alertSchemas, ValidationError } from './validation'
+import { projectIncident, incidentTransition } from './projection'
+import { encodeCursor } from './incidents.query'
+
+export type IngestStatus = 'ingested' | 'duplicate' | 'rejected'
+
+export interface IngestResult {
+  success: boolean
+  status: IngestStatus
+  message: string
+  event?: AlertEvent
+  // The incident as projected after the event, when it was ingested
+  incident?: Incident
+  errors?: ValidationError[]
+}
+
+export interface IngestOptions {
+  // Batch ingestion suppresses per-event WebSocket messages and sends one summary instead
+  broadcast?: boolean
+}
+
+// A batch entry is either a decoded payload or a line that failed to parse
+export type BatchInput = { payload: unknown } | { parseError: string }
+
+export interface BatchEventResult {
+  index: number
+  event_id?: string
+  status: IngestStatus
+  reason?: string
+  errors?: ValidationError[]
+}
+
+interface BatchIncidentRef {
+  dedupe_key: string
+  namespace: string
+  service: string
+  severity: string
+  state: string
+}
+
+export interface BatchResult {
+  summary: Record<IngestStatus, number>
+  results: BatchEventResult[]
+}
+
+export interface RebuildResult {
+  incidents: number
+  events: number
+  duration_ms: number
+}
+
+export interface IncidentPage {
+  incidents: Incident[]
+  // Incidents matching the filter, on every page
+  total: number
+  // Pass as ?cursor= for the next page; null on the last one
+  next_cursor: string | null
+}
+
+export const INCIDENT_ACTIONS: readonly IncidentActionType[] = [
+  'acknowledge',
+  'assign',
+  'unassign',
+  'resolve',
+  'reopen',
+]
+
+export interface IncidentActionRequest {
+  action: IncidentActionType
+  actor: unknown
+  assignee?: unknown
+}
+
+export interface IncidentActionResult {
+  success: boolean
+  status: 'applied' | 'not_found' | 'invalid' | 'conflict'
+  message: string
+  incident?: Incident
+}
+
+const MAX_NAME_LENGTH = 100
+
+const ACTION_MESSAGES: Record<IncidentActionType, string> = {
+  acknowledge: 'Incident acknowledged',
+  assign: 'Incident assigned',
+  unassign: 'Incident unassigned',
+  resolve: 'Incident resolved',
+  reopen: 'Incident reopened',
+}
 
 export class AlertService {
   constructor(
-    private storage: Storage,
+    private storage: StorageBackend,
     private broadcast: (msg: WSMessage) => void,
-    private smsService?: SmsService
+    private notifications?: NotificationService,
+    private silenceService?: SilenceService,
+    private routing?: RoutingService,
+    private digest?: DigestService
   ) { }
 
   // Ingest webhook event (source of truth)
-  ingestAlertEvent(event: AlertEvent): { success: boolean; message: string } {
-    try {
-      // Validate required fields
-      if (!event.event_id || !event.dedupe_key || !event.service?.name || !event.service?.namespace) {
-        return { success: false, message: 'Missing required fields' }
-      }
+  // Validation failures are reported in the result; storage errors propagate to the caller
+  async ingestAlertEvent(payload: unknown, options: IngestOptions = {}): Promise<IngestResult> {
+    const { broadcast = true } = options
 
-      // Store event (idempotent)
-      const inserted = this.storage.insertEvent(event)
-      if (!inserted) {
-        return { success: true, message: 'Event already exists (idempotent)' }
+    // Validate against the schema named by schema_version (upgrading to alerts.v1 if needed)
+    const validation = alertSchemas.validate(payload)
+    if (!validation.valid) {
+      return {
+        success: false,
+        status: 'rejected',
+        message: 'Invalid alert event',
+        errors: validation.errors,
       }
+    }
+    const event = validation.event
+
+    // Silenced events are stored like any other, only marked; producers cannot set the mark
+    delete event.silenced_by
+    const silence = await this.silenceService?.findSilence(event)
+    if (silence) {
+      event.silenced_by = silence.silence_id
+    }
 
-      // Update incident projection
-      this.updateIncidentProjection(event)
+    // Store the event (idempotent) and update the incident projection under the incident's
+    // lock, so that concurrent ingests see each other's projection and each transition is
+    // reported once
+    const key = {
+      dedupe_key: event.dedupe_key,
+      namespace: event.service.namespace,
+      service: event.service.name,
+    }
+    const projected = await this.storage.withIncidentLock(key, async (storage) => {
+      if (!(await storage.insertEvent(event))) return null
+      const previous = await storage.getIncident(key.dedupe_key, key.namespace, key.service)
+      const incident = await this.reproject(storage, key)
+      return { incident, transition: incidentTransition(previous, incident) }
+    })
+    if (!projected) {
+      return {
+        success: true,
+        status: 'duplicate',
+        message: 'Event already exists (idempotent)',
+        event,
+      }
+    }
+    const { incident, transition } = projected
 
-      // Broadcast to connected clients
+    // Broadcast to connected clients. Severity and state are the incident's, which a late
+    // event does not change
+    if (broadcast) {
+      this.broadcast({
+        type: 'incident_updated',
+        data: { ...incidentRef(incident), silenced: Boolean(event.silenced_by) },
+      })
       this.broadcast({
         type: 'event_received',
-        data: { event_id: event.event_id, dedupe_key: event.dedupe_key },
+        data: {
+          event_id: event.event_id,
+          dedupe_key: event.dedupe_key,
+          namespace: event.service.namespace,
+          service: event.service.name,
+          severity: event.alert.severity,
+        },
       })
+    }
+
+    // Notify whoever the routing rules pick, only when the incident opened, escalated or
+    // resolved (never for silenced events)
+    if (this.notifications && !event.silenced_by && transition) {
+      // fail-safe: don't block response on notification delivery
+      this.notifyEvent(event, transition).catch(err =>
+        console.error('Failed to send notifications for webhook:', err)
+      )
+    }
+
+    return {
+      success: true,
+      status: 'ingested',
+      message: 'Event ingested successfully',
+      event,
+      incident,
+    }
+  }
+
+  // Ingest many events in observed_at order and broadcast a single coalesced update
+  async ingestBatch(inputs: BatchInput[]): Promise<BatchResult> {
+    const results: BatchEventResult[] = new Array(inputs.length)
+    const pending: { index: number; observedAt: number; payload: unknown }[] = []
+
+    inputs.forEach((input, index) => {
+      if ('parseError' in input) {
+        results[index] = { index, status: 'rejected', reason: input.parseError }
+        return
+      }
 
-      // Send SMS notification
-      if (this.smsService) {
-        // fail-safe: don't block response on SMS sending
-        this.smsService.sendAlertSms(event).catch(err =>
-          console.error('Failed to trigger SMS for webhook:', err)
-        )
+      const validation = alertSchemas.validate(input.payload)
+      if (!validation.valid) {
+        results[index] = {
+          index,
+          event_id: eventIdOf(input.payload),
+          status: 'rejected',
+          reason: 'Invalid alert event',
+          errors: validation.errors,
+        }
+        return
       }
 
-      return { success: true, message: 'Event ingested successfully' }
-    } catch (error: any) {
-      console.error('Failed to ingest event:', error)
-      return { success: false, message: error.message }
-    }
-  }
-
-  private updateIncidentProjection(event: AlertEvent): void {
-    // Check if incident already exists
-    const existing = this.storage.getIncident(event.dedupe_key, event.service.namespace, event.service.name)
-
-    if (existing) {
-      // Get all events for this incident to compute accurate quality flags
-      const allEvents = this.storage.getEventsByDedupeKey(event.dedupe_key, event.service.namespace, event.service.name)
-
-      // Update existing incident
-      const incident: Incident = {
-        ...existing,
-        current_severity: event.alert.severity,
-        current_priority: event.decision.priority,
-        current_action: event.decision.action,
-        auto: event.decision.auto,
-        risk_score: event.decision.risk_score || 0,
-        reason_codes: event.decision.reason_codes,
-        last_observed_at: event.observed_at,
-        latest_event_id: event.event_id,
-        status: event.alert.state === 'resolved' ? 'RESOLVED' : 'OPEN',
-        event_count: existing.event_count + 1,
-        quality_flags: this.computeQualityFlagsForIncident(allEvents),
+      pending.push({
+        index,
+        observedAt: Date.parse(validation.event.observed_at),
+        payload: input.payload,
+      })
+    })
+
+    // Array.prototype.sort is stable, so ties keep their submission order
+    pending.sort((a, b) => a.observedAt - b.observedAt)
+
+    const touched = new Map<string, BatchIncidentRef>()
+
+    for (const { index, payload } of pending) {
+      const result = await this.ingestAlertEvent(payload, { broadcast: false })
+      results[index] = {
+        index,
+        event_id: result.event?.event_id ?? eventIdOf(payload),
+        status: result.status,
+        reason: result.status === 'ingested' ? undefined : result.message,
+        errors: result.errors,
       }
 
-      this.storage.upsertIncident(incident)
-    } else {
-      // Create new incident - pass array with single event
-      const incident: Incident = {
-        dedupe_key: event.dedupe_key,
-        namespace: event.service.namespace,
-        service: event.service.name,
-        status: event.alert.state === 'resolved' ? 'RESOLVED' : 'OPEN',
-        current_severity: event.alert.severity,
-        current_priority: event.decision.priority,
-        current_action: event.decision.action,
-        auto: event.decision.auto,
-        risk_score: event.decision.risk_score || 0,
-        reason_codes: event.decision.reason_codes,
-        first_observed_at: event.observed_at,
-        last_observed_at: event.observed_at,
-        latest_event_id: event.event_id,
-        event_count: 1,
-        quality_flags: this.computeQualityFlagsForIncident([event]),
+      if (result.status === 'ingested' && result.incident) {
+        const { dedupe_key, namespace, service } = result.incident
+        touched.set(`${dedupe_key}:${namespace}:${service}`, incidentRef(result.incident))
       }
+    }
 
-      this.storage.upsertIncident(incident)
+    const summary: Record<IngestStatus, number> = { ingested: 0, duplicate: 0, rejected: 0 }
+    for (const result of results) summary[result.status]++
+
+    if (summary.ingested > 0) {
+      this.broadcast({
+        type: 'batch_ingested',
+        data: { ...summary, incidents: Array.from(touched.values()) },
+      })
     }
 
-    // Broadcast incident update
-    this.broadcast({
-      type: 'incident_updated',
-      data: {
-        dedupe_key: event.dedupe_key,
-        namespace: event.service.namespace,
-        service: event.service.name,
-        state: event.alert.state,
-      },
-    })
+    return { summary, results }
   }
 
-  private computeQualityFlags(event: AlertEvent): string[] {
-    const flags: string[] = []
+  // Record an operator action (acknowledge, assign, ...) and re-project the incident
+  async applyIncidentAction(
+    key: IncidentKey,
+    request: IncidentActionRequest
+  ): Promise<IncidentActionResult> {
+    const { dedupe_key: dedupeKey, namespace, service } = key
 
-    // Check for missing evidence
-    if (!event.evidence || Object.keys(event.evidence).length === 0) {
-      flags.push('missing_evidence')
+    const actor = normalizeName(request.actor)
+    if (!actor) {
+      return { success: false, status: 'invalid', message: 'actor is required' }
+    }
+    const assignee = request.action === 'assign' ? normalizeName(request.assignee) : undefined
+    if (request.action === 'assign' && !assignee) {
+      return { success: false, status: 'invalid', message: 'assignee is required' }
     }
 
-    // Check for missing context
-    if (!event.context || Object.keys(event.context).length === 0) {
-      flags.push('missing_context')
+    // The conflict check and the action it allows happen under one hold of the lock
+    const result = await this.storage.withIncidentLock(
+      key,
+      async (storage): Promise<IncidentActionResult> => {
+        const incident = await storage.getIncident(dedupeKey, namespace, service)
+        if (!incident) {
+          return { success: false, status: 'not_found', message: 'Incident not found' }
+        }
+
+        const conflict = actionConflict(incident, request.action)
+        if (conflict) {
+          return { success: false, status: 'conflict', message: conflict, incident }
+        }
+
+        const action: IncidentAction = {
+          action_id: crypto.randomUUID(),
+          dedupe_key: dedupeKey,
+          namespace,
+          service,
+          action: request.action,
+          actor,
+          ...(assignee ? { assignee } : {}),
+          at: new Date().toISOString(),
+        }
+        await storage.insertIncidentAction(action)
+        return {
+          success: true,
+          status: 'applied',
+          message: ACTION_MESSAGES[action.action],
+          incident: await this.reproject(storage, key),
+        }
+      }
+    )
+
+    if (result.success && result.incident) {
+      this.broadcast({
+        type: 'incident_updated',
+        data: { ...incidentRef(result.incident), action: request.action, actor },
+      })
+    }
+    return result
+  }
+
+  // Acknowledge the incident an event belongs to (used by the event-centric alerts views)
+  async acknowledgeEvent(eventId: string, actor: unknown): Promise<IncidentActionResult> {
+    const event = await this.storage.getEvent(eventId)
+    if (!event) {
+      return { success: false, status: 'not_found', message: 'Event not found' }
     }
 
-    // Check for missing links
-    if (!event.links || (!event.links.details_ref && !event.links.runbook)) {
-      flags.push('missing_links')
+    const key = {
+      dedupe_key: event.dedupe_key,
+      namespace: event.service.namespace,
+      service: event.service.name,
     }
+    return this.applyIncidentAction(key, { action: 'acknowledge', actor })
+  }
 
-    return flags
+  // Without routing rules every channel is notified; in digest mode low-severity
+  // transitions wait for the next digest
+  private async notifyEvent(event: AlertEvent, transition: IncidentTransition): Promise<void> {
+    if (!this.notifications) return
+
+    const plan = await this.routing?.planEvent(event)
+    if (plan?.quieted.length) {
+      console.log(`Quiet hours held back notifications from ${plan.quieted.length} routing rule(s)`)
+    }
+    if (plan?.targets && plan.targets.length === 0) return
+
+    if (this.digest?.accepts(event)) {
+      await this.digest.add(event, transition, plan?.targets)
+      return
+    }
+    await this.notifications.notifyEvent(event, plan?.targets, transition)
   }
 
-  // Compute quality flags for an incident based on ALL its events
-  // A flag is only raised if ALL events are missing that data
-  private computeQualityFlagsForIncident(events: AlertEvent[]): string[] {
+  // Re-fold the incident from its stored history instead of patching the previous projection.
+  // Called with the storage withIncidentLock hands out, so nothing folds the same incident
+  // in between.
+  private async reproject(storage: StorageBackend, key: IncidentKey): Promise<Incident> {
+    const { dedupe_key: dedupeKey, namespace, service } = key
+    const [history, actions] = await Promise.all([
+      storage.getEventHistory(dedupeKey, namespace, service),
+      storage.getIncidentActions(dedupeKey, namespace, service),
+    ])
+    const incident = projectIncident(history, actions)
+    await storage.upsertIncident(incident)
+    return incident
+  }
+
+  // Recompute every incident from the event store, replacing whatever projection is stored
+  async rebuildProjections(): Promise<RebuildResult> {
+    const startedAt = Date.now()
+    const keys = await this.storage.listIncidentKeys()
+    let events = 0
+
+    for (const key of keys) {
+      const incident = await this.storage.withIncidentLock(key, (storage) =>
+        this.reproject(storage, key)
+      )
+      events += incident.event_count
+    }
+
+    const result = { incidents: keys.length, events, duration_ms: Date.now() - startedAt }
+    this.broadcast({ type: 'projections_rebuilt', data: result })
+    return result
+  }
+
+  private computeQualityFlags(event: AlertEvent): string[] {
     const flags: string[] = []
 
-    // Check if ALL events are missing evidence
-    const allMissingEvidence = events.every(
-      e => !e.evidence || Object.keys(e.evidence).length === 0
-    )
-    if (allMissingEvidence) {
+    // Check for missing evidence
+    if (!event.evidence || Object.keys(event.evidence).length === 0) {
       flags.push('missing_evidence')
     }
 
-    // Check if ALL events are missing context
-    const allMissingContext = events.every(
-      e => !e.context || Object.keys(e.context).length === 0
-    )
-    if (allMissingContext) {
+    // Check for missing context
+    if (!event.context || Object.keys(event.context).length === 0) {
       flags.push('missing_context')
     }
 
-    // Check if ALL events are missing links
-    const allMissingLinks = events.every(
-      e => !e.links || (!e.links.details_ref && !e.links.runbook && !e.links.dashboard)
-    )
-    if (allMissingLinks) {
+    // Check for missing links
+    if (!event.links || (!event.links.details_ref && !event.links.runbook)) {
       flags.push('missing_links')
     }
 
@@ -166,10 +412,26 @@ export class AlertService {
     return this.storage.getOverview()
   }
 
-  listIncidents(filter?: any) {
+  listIncidents(filter?: IncidentListFilter) {
     return this.storage.listIncidents(filter)
   }
 
+  async listIncidentPage(
+    filter: IncidentListFilter,
+    page: IncidentPageRequest
+  ): Promise<IncidentPage> {
+    // One extra incident tells whether there is a next page
+    const [incidents, total] = await Promise.all([
+      this.storage.listIncidents(filter, page.limit ? { ...page, limit: page.limit + 1 } : page),
+      this.storage.countIncidents(filter),
+    ])
+    if (page.limit === undefined || incidents.length <= page.limit) {
+      return { incidents, total, next_cursor: null }
+    }
+    incidents.length = page.limit
+    return { incidents, total, next_cursor: encodeCursor(incidents[page.limit - 1], page) }
+  }
+
   getIncidentDetail(dedupeKey: string, namespace: string, service: string) {
     return this.storage.getIncidentDetail(dedupeKey, namespace, service)
   }
@@ -182,3 +444,44 @@ export class AlertService {
     return this.storage.getEvent(eventId)
   }
 }
+
+// Trimmed actor/assignee name, or undefined when missing, blank or too long
+export function normalizeName(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const trimmed = value.trim()
+  return trimmed && trimmed.length <= MAX_NAME_LENGTH ? trimmed : undefined
+}
+
+// Why an action does not apply to the incident's current state, if it doesn't
+function actionConflict(incident: Incident, action: IncidentActionType): string | undefined {
+  switch (action) {
+    case 'acknowledge':
+      if (incident.status === 'RESOLVED') return 'Incident is resolved'
+      if (incident.acknowledged_at) return `Already acknowledged by ${incident.acknowledged_by}`
+      return undefined
+    case 'unassign':
+      return incident.assignee ? undefined : 'Incident is not assigned'
+    case 'resolve':
+      return incident.status === 'RESOLVED' ? 'Incident is already resolved' : undefined
+    case 'reopen':
+      return incident.status === 'OPEN' ? 'Incident is already open' : undefined
+    default:
+      return undefined
+  }
+}
+
+function eventIdOf(payload: unknown): string | undefined {
+  const id = (payload as { event_id?: unknown } | null)?.event_id
+  return typeof id === 'string' ? id : undefined
+}
+
+// What stream messages say about an incident, taken from its projection
+function incidentRef(incident: Incident): BatchIncidentRef {
+  return {
+    dedupe_key: incident.dedupe_key,
+    namespace: incident.namespace,
+    service: incident.service,
+    severity: incident.current_severity,
+    state: incident.status === 'RESOLVED' ? 'resolved' : 'firing',
+  }
+}
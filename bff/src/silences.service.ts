@@ -0,0 +1,257 @@
+import crypto from 'crypto'
+import { AlertEvent, SilenceMatchers, SilenceRule, SilenceState, WSMessage } from './types'
+import { StorageBackend } from './storage'
+import { SEVERITIES } from './validation'
+import { normalizeName } from './service'
+
+export const SILENCE_MATCHERS: readonly (keyof SilenceMatchers)[] = [
+  'namespace',
+  'service',
+  'alert_type',
+  'severity',
+  'dedupe_key',
+]
+export const SILENCE_STATES: readonly SilenceState[] = ['pending', 'active', 'expired']
+
+const MAX_REASON_LENGTH = 500
+const MAX_MATCHER_LENGTH = 200
+const MAX_DURATION_MS = 30 * 24 * 60 * 60 * 1000
+// Expired rules stay listed for a week so responders can see what was muted
+const EXPIRED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = 30 * 1000
+
+export interface SilenceView extends SilenceRule {
+  state: SilenceState
+}
+
+// Give either ends_at or duration_minutes; starts_at defaults to now
+export interface CreateSilenceInput {
+  matchers: unknown
+  starts_at?: unknown
+  ends_at?: unknown
+  duration_minutes?: unknown
+  reason: unknown
+  created_by: unknown
+}
+
+export interface SilenceResult {
+  success: boolean
+  status: 'created' | 'expired' | 'not_found' | 'invalid' | 'conflict'
+  message: string
+  silence?: SilenceView
+}
+
+export function silenceState(silence: SilenceRule, now = Date.now()): SilenceState {
+  if (Date.parse(silence.ends_at) <= now) return 'expired'
+  return Date.parse(silence.starts_at) > now ? 'pending' : 'active'
+}
+
+export function matchesSilence(silence: SilenceRule, event: AlertEvent): boolean {
+  const values: Record<keyof SilenceMatchers, string> = {
+    namespace: event.service.namespace,
+    service: event.service.name,
+    alert_type: event.alert.type,
+    severity: event.alert.severity,
+    dedupe_key: event.dedupe_key,
+  }
+  return SILENCE_MATCHERS.every((name) => {
+    const expected = silence.matchers[name]
+    return expected === undefined || expected === values[name]
+  })
+}
+
+// Silence rules mute matching events at ingestion. Silenced events are still stored;
+// they are only marked so that notifications skip them and views hide them by default.
+// Rules stop matching at ends_at on their own; the sweep just tells /ws clients and
+// removes rules that expired longer ago than the retention window.
+export class SilenceService {
+  private lastSweep = Date.now()
+  private sweepTimer?: NodeJS.Timeout
+
+  constructor(
+    private storage: StorageBackend,
+    private broadcast: (msg: WSMessage) => void
+  ) { }
+
+  async listSilences(state?: SilenceState): Promise<SilenceView[]> {
+    const now = Date.now()
+    const silences = (await this.storage.listSilences()).map((silence) => withState(silence, now))
+    return state ? silences.filter((silence) => silence.state === state) : silences
+  }
+
+  // First active rule that matches the event, if any
+  async findSilence(event: AlertEvent, now = Date.now()): Promise<SilenceRule | undefined> {
+    const silences = await this.storage.listSilences()
+    return silences.find(
+      (silence) => silenceState(silence, now) === 'active' && matchesSilence(silence, event)
+    )
+  }
+
+  async createSilence(input: CreateSilenceInput): Promise<SilenceResult> {
+    const createdBy = normalizeName(input.created_by)
+    if (!createdBy) return invalid('created_by is required')
+
+    const matchers = validateMatchers(input.matchers)
+    if (typeof matchers === 'string') return invalid(matchers)
+
+    if (typeof input.reason !== 'string' || input.reason.trim() === '') {
+      return invalid('reason is required')
+    }
+    const reason = input.reason.trim()
+    if (reason.length > MAX_REASON_LENGTH) {
+      return invalid(`reason must be at most ${MAX_REASON_LENGTH} characters`)
+    }
+
+    const window = validateWindow(input)
+    if (typeof window === 'string') return invalid(window)
+
+    const silence: SilenceRule = {
+      silence_id: crypto.randomUUID(),
+      matchers,
+      starts_at: window.startsAt.toISOString(),
+      ends_at: window.endsAt.toISOString(),
+      reason,
+      created_by: createdBy,
+      created_at: new Date().toISOString(),
+    }
+    await this.storage.insertSilence(silence)
+
+    const view = withState(silence)
+    this.broadcast({ type: 'silence_created', data: view })
+    return { success: true, status: 'created', message: 'Silence created', silence: view }
+  }
+
+  // End a pending or active rule now
+  async expireSilence(silenceId: string, actorInput: unknown): Promise<SilenceResult> {
+    const actor = normalizeName(actorInput)
+    if (!actor) return invalid('actor is required')
+
+    const existing = await this.storage.getSilence(silenceId)
+    if (!existing) {
+      return { success: false, status: 'not_found', message: 'Silence not found' }
+    }
+    if (silenceState(existing) === 'expired') {
+      return {
+        success: false,
+        status: 'conflict',
+        message: 'Silence has already expired',
+        silence: withState(existing),
+      }
+    }
+
+    const silence: SilenceRule = { ...existing, ends_at: new Date().toISOString(), expired_by: actor }
+    await this.storage.updateSilence(silence)
+
+    const view = withState(silence)
+    this.broadcast({ type: 'silence_expired', data: view })
+    return { success: true, status: 'expired', message: 'Silence expired', silence: view }
+  }
+
+  // Announce rules that ran out since the previous sweep and drop long-expired ones
+  async sweep(now = Date.now()): Promise<void> {
+    const since = this.lastSweep
+    this.lastSweep = now
+
+    for (const silence of await this.storage.listSilences()) {
+      const endsAt = Date.parse(silence.ends_at)
+      // Rules expired by hand were announced when that happened
+      if (!silence.expired_by && endsAt > since && endsAt <= now) {
+        this.broadcast({ type: 'silence_expired', data: withState(silence, now) })
+      }
+    }
+
+    const removed = await this.storage.deleteSilencesEndedBefore(
+      new Date(now - EXPIRED_RETENTION_MS).toISOString()
+    )
+    if (removed > 0) {
+      console.log(`Removed ${removed} expired silence rules`)
+    }
+  }
+
+  start(intervalMs = SWEEP_INTERVAL_MS) {
+    this.stop()
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((err) => console.error('Silence sweep failed:', err))
+    }, intervalMs)
+    this.sweepTimer.unref()
+  }
+
+  stop() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer)
+    this.sweepTimer = undefined
+  }
+}
+
+function withState(silence: SilenceRule, now = Date.now()): SilenceView {
+  return { ...silence, state: silenceState(silence, now) }
+}
+
+function invalid(message: string): SilenceResult {
+  return { success: false, status: 'invalid', message }
+}
+
+// At least one matcher is required so a rule can never mute everything
+function validateMatchers(value: unknown): SilenceMatchers | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'matchers must be an object'
+  }
+
+  const matchers: SilenceMatchers = {}
+  for (const [name, raw] of Object.entries(value)) {
+    if (!SILENCE_MATCHERS.includes(name as keyof SilenceMatchers)) {
+      return `unknown matcher "${name}" (expected one of: ${SILENCE_MATCHERS.join(', ')})`
+    }
+    if (raw === undefined || raw === null || raw === '') continue
+    if (typeof raw !== 'string' || raw.trim() === '' || raw.length > MAX_MATCHER_LENGTH) {
+      return `matchers.${name} must be a non-empty string`
+    }
+    matchers[name as keyof SilenceMatchers] = raw.trim()
+  }
+
+  if (matchers.severity && !(SEVERITIES as readonly string[]).includes(matchers.severity)) {
+    return `matchers.severity must be one of: ${SEVERITIES.join(', ')}`
+  }
+  if (Object.keys(matchers).length === 0) {
+    return 'at least one matcher is required'
+  }
+  return matchers
+}
+
+function validateWindow(input: CreateSilenceInput): { startsAt: Date; endsAt: Date } | string {
+  const now = Date.now()
+
+  let startsAt = new Date(now)
+  if (input.starts_at !== undefined && input.starts_at !== null && input.starts_at !== '') {
+    if (typeof input.starts_at !== 'string' || Number.isNaN(Date.parse(input.starts_at))) {
+      return 'starts_at must be an ISO-8601 timestamp'
+    }
+    startsAt = new Date(input.starts_at)
+  }
+
+  const hasEndsAt = input.ends_at !== undefined && input.ends_at !== null && input.ends_at !== ''
+  const hasDuration = input.duration_minutes !== undefined && input.duration_minutes !== null
+  if (hasEndsAt === hasDuration) {
+    return 'give either ends_at or duration_minutes'
+  }
+
+  let endsAt: Date
+  if (hasEndsAt) {
+    if (typeof input.ends_at !== 'string' || Number.isNaN(Date.parse(input.ends_at))) {
+      return 'ends_at must be an ISO-8601 timestamp'
+    }
+    endsAt = new Date(input.ends_at)
+  } else {
+    const minutes = Number(input.duration_minutes)
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      return 'duration_minutes must be a positive number'
+    }
+    endsAt = new Date(startsAt.getTime() + minutes * 60 * 1000)
+  }
+
+  if (endsAt.getTime() <= startsAt.getTime()) return 'ends_at must be after starts_at'
+  if (endsAt.getTime() <= now) return 'ends_at must be in the future'
+  if (endsAt.getTime() - startsAt.getTime() > MAX_DURATION_MS) {
+    return 'a silence can last at most 30 days'
+  }
+  return { startsAt, endsAt }
+}
@@ -0,0 +1,73 @@
+import nodemailer, { Transporter } from 'nodemailer'
+import { BaseChannel, DeliveryResult, NotificationMessage } from './channel'
+
+// Email over SMTP. Any server works, including a local stand-in (e.g. MailHog on :1025).
+
+export interface SmtpChannelOptions {
+  host: string
+  port?: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure?: boolean
+  user?: string
+  password?: string
+  from?: string
+  recipients: string[]
+}
+
+const CONNECTION_TIMEOUT_MS = 10000
+
+export class SmtpChannel extends BaseChannel {
+  readonly kind = 'email' as const
+  private transporter: Transporter
+  private from: string
+
+  constructor(name: string, options: SmtpChannelOptions) {
+    super(name, options.recipients)
+    this.from = options.from || 'alerts@localhost'
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port ?? (options.secure ? 465 : 587),
+      secure: options.secure ?? false,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+      connectionTimeout: CONNECTION_TIMEOUT_MS,
+      greetingTimeout: CONNECTION_TIMEOUT_MS,
+      socketTimeout: CONNECTION_TIMEOUT_MS,
+    })
+  }
+
+  protected async deliver(recipient: string, message: NotificationMessage): Promise<DeliveryResult> {
+    let info
+    try {
+      info = await this.transporter.sendMail({
+        from: this.from,
+        to: recipient,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+    } catch (error: any) {
+      // 5xx replies are permanent; 4xx and connection errors may clear up
+      const permanent = error?.responseCode >= 500
+      return {
+        success: false,
+        recipient,
+        provider_response: error?.response,
+        error: error.message,
+        retryable: !permanent,
+      }
+    }
+
+    const rejected = info.rejected.length > 0
+    return {
+      success: !rejected,
+      recipient,
+      provider_response: { message_id: info.messageId, response: info.response },
+      ...(rejected ? { error: `Rejected by server: ${info.response}`, retryable: false } : {}),
+    }
+  }
+
+  // Connects, greets and authenticates without sending anything
+  protected async probe(): Promise<void> {
+    await this.transporter.verify()
+  }
+}
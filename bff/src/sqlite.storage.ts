@@ -0,0 +1,1199 @@
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import {
+  AlertEvent,
+  Incident,
+  IncidentAction,
+  IncidentNote,
+  SilenceRule,
+  RoutingRule,
+  NotificationRecord,
+  ServiceRollup,
+  Overview,
+  IncidentDetail,
+  SequencedMessage,
+  WSMessage,
+} from './types'
+import {
+  StorageBackend,
+  IncidentListFilter,
+  IncidentKey,
+  IncidentPageRequest,
+  IncidentSort,
+  NotificationListFilter,
+  EventBucketQuery,
+  EventBucketCount,
+  EventGroupBy,
+  QueuedDigestEntry,
+  JobRun,
+} from './storage'
+import {
+  DEFAULT_INCIDENT_PAGE,
+  SEVERITY_RANK_SQL,
+  afterCursorSql,
+  cursorValues,
+} from './incidents.query'
+import { IncidentLocks } from './incident.lock'
+
+interface Migration {
+  version: number
+  name: string
+  sql: string
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_events_and_incidents',
+    sql: `
+      CREATE TABLE events (
+        event_id TEXT PRIMARY KEY,
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        observed_at TEXT NOT NULL,
+        observed_ms INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        received_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_events_dedupe_key ON events (dedupe_key, namespace, service);
+      CREATE INDEX idx_events_service ON events (namespace, service);
+      CREATE INDEX idx_events_observed_at ON events (observed_ms);
+
+      CREATE TABLE incidents (
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        status TEXT NOT NULL,
+        current_severity TEXT NOT NULL,
+        current_priority TEXT NOT NULL,
+        current_action TEXT NOT NULL,
+        auto INTEGER NOT NULL,
+        risk_score REAL NOT NULL,
+        reason_codes TEXT NOT NULL,
+        first_observed_at TEXT NOT NULL,
+        last_observed_at TEXT NOT NULL,
+        last_observed_ms INTEGER NOT NULL,
+        latest_event_id TEXT NOT NULL,
+        event_count INTEGER NOT NULL,
+        quality_flags TEXT NOT NULL,
+        PRIMARY KEY (dedupe_key, namespace, service)
+      );
+      CREATE INDEX idx_incidents_namespace ON incidents (namespace);
+      CREATE INDEX idx_incidents_service ON incidents (service);
+      CREATE INDEX idx_incidents_status ON incidents (status);
+      CREATE INDEX idx_incidents_last_observed_at ON incidents (last_observed_ms);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add_incident_workflow',
+    // Existing incidents start with an empty workflow; POST /api/admin/rebuild-projections
+    // backfills resolved_at from their events
+    sql: `
+      ALTER TABLE incidents ADD COLUMN acknowledged_at TEXT;
+      ALTER TABLE incidents ADD COLUMN acknowledged_by TEXT;
+      ALTER TABLE incidents ADD COLUMN assignee TEXT;
+      ALTER TABLE incidents ADD COLUMN assigned_at TEXT;
+      ALTER TABLE incidents ADD COLUMN assigned_by TEXT;
+      ALTER TABLE incidents ADD COLUMN resolved_at TEXT;
+      ALTER TABLE incidents ADD COLUMN resolved_by TEXT;
+
+      CREATE TABLE incident_actions (
+        action_id TEXT PRIMARY KEY,
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        assignee TEXT,
+        at TEXT NOT NULL
+      );
+      CREATE INDEX idx_incident_actions_incident ON incident_actions (dedupe_key, namespace, service);
+    `,
+  },
+  {
+    version: 3,
+    name: 'create_incident_notes',
+    sql: `
+      CREATE TABLE incident_notes (
+        note_id TEXT PRIMARY KEY,
+        dedupe_key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        service TEXT NOT NULL,
+        author TEXT NOT NULL,
+        body TEXT NOT NULL,
+        format TEXT NOT NULL,
+        event_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        edited_by TEXT
+      );
+      CREATE INDEX idx_incident_notes_incident ON incident_notes (dedupe_key, namespace, service);
+    `,
+  },
+  {
+    version: 4,
+    name: 'create_silences',
+    sql: `
+      ALTER TABLE incidents ADD COLUMN silenced_by TEXT;
+
+      CREATE TABLE silences (
+        silence_id TEXT PRIMARY KEY,
+        namespace TEXT,
+        service TEXT,
+        alert_type TEXT,
+        severity TEXT,
+        dedupe_key TEXT,
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expired_by TEXT
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'create_routing_rules',
+    sql: `
+      -- Incidents that reopened get their real episode start on the next projection rebuild
+      ALTER TABLE incidents ADD COLUMN opened_at TEXT;
+      UPDATE incidents SET opened_at = first_observed_at;
+
+      CREATE TABLE routing_rules (
+        rule_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        enabled INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        matchers TEXT NOT NULL,
+        targets TEXT NOT NULL,
+        escalations TEXT NOT NULL,
+        quiet_hours TEXT,
+        continue_matching INTEGER NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: 'create_notifications',
+    sql: `
+      CREATE TABLE notifications (
+        notification_id TEXT PRIMARY KEY,
+        reason TEXT NOT NULL,
+        dedupe_key TEXT,
+        namespace TEXT,
+        service TEXT,
+        event_id TEXT,
+        channel TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        html TEXT,
+        payload TEXT,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        provider_response TEXT,
+        next_attempt_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        sent_at TEXT
+      );
+      CREATE INDEX idx_notifications_incident ON notifications (dedupe_key, namespace, service);
+      CREATE INDEX idx_notifications_due ON notifications (status, next_attempt_at);
+    `,
+  },
+  {
+    version: 7,
+    name: 'create_stream_messages',
+    sql: `
+      CREATE TABLE stream_messages (
+        seq INTEGER PRIMARY KEY,
+        type TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: 'add_notification_claims',
+    sql: `
+      ALTER TABLE notifications ADD COLUMN claimed_until TEXT;
+    `,
+  },
+  {
+    version: 9,
+    name: 'create_digest_entries_and_job_runs',
+    sql: `
+      CREATE TABLE digest_entries (
+        target TEXT NOT NULL,
+        entry TEXT NOT NULL
+      );
+
+      CREATE TABLE job_runs (
+        job TEXT PRIMARY KEY,
+        last_run_at TEXT NOT NULL
+      );
+    `,
+  },
+]
+
+interface IncidentRow {
+  dedupe_key: string
+  namespace: string
+  service: string
+  status: 'OPEN' | 'RESOLVED'
+  current_severity: string
+  current_priority: string
+  current_action: string
+  auto: number
+  risk_score: number
+  reason_codes: string
+  first_observed_at: string
+  last_observed_at: string
+  latest_event_id: string
+  event_count: number
+  quality_flags: string
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  assignee: string | null
+  assigned_at: string | null
+  assigned_by: string | null
+  resolved_at: string | null
+  resolved_by: string | null
+  silenced_by: string | null
+  opened_at: string
+}
+
+interface IncidentActionRow extends Omit<IncidentAction, 'assignee'> {
+  assignee: string | null
+}
+
+interface IncidentNoteRow extends Omit<IncidentNote, 'event_id' | 'edited_by'> {
+  event_id: string | null
+  edited_by: string | null
+}
+
+interface SilenceRow {
+  silence_id: string
+  namespace: string | null
+  service: string | null
+  alert_type: string | null
+  severity: string | null
+  dedupe_key: string | null
+  starts_at: string
+  ends_at: string
+  reason: string
+  created_by: string
+  created_at: string
+  expired_by: string | null
+}
+
+interface RoutingRuleRow {
+  rule_id: string
+  name: string
+  enabled: number
+  position: number
+  matchers: string
+  targets: string
+  escalations: string
+  quiet_hours: string | null
+  continue_matching: number
+  created_by: string
+  created_at: string
+  updated_by: string
+  updated_at: string
+}
+
+interface NotificationRow
+  extends Omit<NotificationRecord, 'payload' | 'provider_response'> {
+  payload: string | null
+  provider_response: string | null
+}
+
+// Everything but the claim, which is not part of the record
+const NOTIFICATION_COLUMNS = `
+  notification_id, reason, dedupe_key, namespace, service, event_id, channel, recipient, subject,
+  body, html, payload, status, attempts, last_error, provider_response, next_attempt_at,
+  created_at, updated_at, sent_at
+`
+
+// What each incident sort orders by; last_observed_at as epoch ms, like cursors
+const SORT_EXPRESSIONS: Record<IncidentSort, string> = {
+  last_observed_at: 'last_observed_ms',
+  risk_score: 'risk_score',
+  severity: SEVERITY_RANK_SQL,
+  event_count: 'event_count',
+}
+
+// What event analytics group by, read from the stored payload where there is no column
+const EVENT_GROUP_EXPRESSIONS: Record<EventGroupBy, string> = {
+  severity: `json_extract(payload, '$.alert.severity')`,
+  namespace: 'namespace',
+  service: `namespace || '/' || service`,
+  alert_type: `json_extract(payload, '$.alert.type')`,
+  decision: `CASE WHEN json_extract(payload, '$.decision.auto') THEN 'auto' ELSE 'manual' END`,
+}
+
+// SQLite-backed storage persisted at DB_PATH
+export class SqliteStorage implements StorageBackend {
+  private db: Database.Database
+  private locks = new IncidentLocks()
+  private streamListeners: ((seq: number) => void)[] = []
+
+  constructor(dbPath: string) {
+    const resolved = path.resolve(dbPath)
+    fs.mkdirSync(path.dirname(resolved), { recursive: true })
+
+    this.db = new Database(resolved)
+    this.db.pragma('journal_mode = WAL')
+    this.db.pragma('synchronous = NORMAL')
+
+    console.log(`Using SQLite storage at ${resolved}`)
+  }
+
+  // better-sqlite3 is synchronous; migrations still run here so every backend
+  // is prepared through the same init() call
+  async init(): Promise<void> {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `)
+
+    const applied = new Set(
+      (this.db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(
+        (row) => row.version
+      )
+    )
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.version)) continue
+
+      this.db.transaction(() => {
+        this.db.exec(migration.sql)
+        this.db
+          .prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString())
+      })()
+      console.log(`Applied migration ${migration.version}_${migration.name}`)
+    }
+  }
+
+  // Event operations
+  async insertEvent(event: AlertEvent): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO events
+          (event_id, dedupe_key, namespace, service, observed_at, observed_ms, payload, received_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.event_id,
+        event.dedupe_key,
+        event.service.namespace,
+        event.service.name,
+        event.observed_at,
+        new Date(event.observed_at).getTime(),
+        JSON.stringify(event),
+        new Date().toISOString()
+      )
+
+    // Duplicate event_id - idempotency
+    return result.changes > 0
+  }
+
+  async getEvent(eventId: string): Promise<AlertEvent | null> {
+    const row = this.db.prepare('SELECT payload FROM events WHERE event_id = ?').get(eventId) as
+      | { payload: string }
+      | undefined
+    return row ? JSON.parse(row.payload) : null
+  }
+
+  async getEventsByDedupeKey(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<AlertEvent[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT payload FROM events
+         WHERE dedupe_key = ? AND namespace = ? AND service = ?
+         ORDER BY observed_ms DESC`
+      )
+      .all(dedupeKey, namespace, service) as { payload: string }[]
+
+    return rows.map((row) => JSON.parse(row.payload))
+  }
+
+  async getEventHistory(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<AlertEvent[]> {
+    // Events are never deleted, so rowid increases with insertion order
+    const rows = this.db
+      .prepare(
+        `SELECT payload FROM events
+         WHERE dedupe_key = ? AND namespace = ? AND service = ?
+         ORDER BY rowid`
+      )
+      .all(dedupeKey, namespace, service) as { payload: string }[]
+
+    return rows.map((row) => JSON.parse(row.payload))
+  }
+
+  async listIncidentKeys(): Promise<IncidentKey[]> {
+    return this.db
+      .prepare('SELECT DISTINCT dedupe_key, namespace, service FROM events')
+      .all() as IncidentKey[]
+  }
+
+  // Incident operations
+  async upsertIncident(incident: Incident): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO incidents (
+          dedupe_key, namespace, service, status, current_severity, current_priority,
+          current_action, auto, risk_score, reason_codes, first_observed_at, last_observed_at,
+          last_observed_ms, latest_event_id, event_count, quality_flags, acknowledged_at,
+          acknowledged_by, assignee, assigned_at, assigned_by, resolved_at, resolved_by,
+          silenced_by, opened_at
+        ) VALUES (
+          @dedupe_key, @namespace, @service, @status, @current_severity, @current_priority,
+          @current_action, @auto, @risk_score, @reason_codes, @first_observed_at, @last_observed_at,
+          @last_observed_ms, @latest_event_id, @event_count, @quality_flags, @acknowledged_at,
+          @acknowledged_by, @assignee, @assigned_at, @assigned_by, @resolved_at, @resolved_by,
+          @silenced_by, @opened_at
+        )
+        ON CONFLICT (dedupe_key, namespace, service) DO UPDATE SET
+          status = excluded.status,
+          current_severity = excluded.current_severity,
+          current_priority = excluded.current_priority,
+          current_action = excluded.current_action,
+          auto = excluded.auto,
+          risk_score = excluded.risk_score,
+          reason_codes = excluded.reason_codes,
+          first_observed_at = excluded.first_observed_at,
+          last_observed_at = excluded.last_observed_at,
+          last_observed_ms = excluded.last_observed_ms,
+          latest_event_id = excluded.latest_event_id,
+          event_count = excluded.event_count,
+          quality_flags = excluded.quality_flags,
+          acknowledged_at = excluded.acknowledged_at,
+          acknowledged_by = excluded.acknowledged_by,
+          assignee = excluded.assignee,
+          assigned_at = excluded.assigned_at,
+          assigned_by = excluded.assigned_by,
+          resolved_at = excluded.resolved_at,
+          resolved_by = excluded.resolved_by,
+          silenced_by = excluded.silenced_by,
+          opened_at = excluded.opened_at`
+      )
+      .run({
+        ...incident,
+        auto: incident.auto ? 1 : 0,
+        reason_codes: JSON.stringify(incident.reason_codes),
+        quality_flags: JSON.stringify(incident.quality_flags),
+        last_observed_ms: new Date(incident.last_observed_at).getTime(),
+      })
+  }
+
+  async getIncident(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<Incident | null> {
+    const row = this.db
+      .prepare('SELECT * FROM incidents WHERE dedupe_key = ? AND namespace = ? AND service = ?')
+      .get(dedupeKey, namespace, service) as IncidentRow | undefined
+    return row ? this.rowToIncident(row) : null
+  }
+
+  // One process owns the database file, so an in-process lock is enough
+  async withIncidentLock<T>(
+    key: IncidentKey,
+    fn: (storage: StorageBackend) => Promise<T>
+  ): Promise<T> {
+    return this.locks.run(key, () => fn(this))
+  }
+
+  async listIncidents(
+    filter?: IncidentListFilter,
+    page: IncidentPageRequest = DEFAULT_INCIDENT_PAGE
+  ): Promise<Incident[]> {
+    const { clauses, params } = this.incidentClauses(filter)
+    const expressions = [SORT_EXPRESSIONS[page.sort], 'namespace', 'service', 'dedupe_key']
+
+    if (page.after) {
+      const values = cursorValues(page.after)
+      clauses.push(
+        afterCursorSql(expressions, page.order, (i) => {
+          params.push(values[i])
+          return '?'
+        })
+      )
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const orderBy = expressions.map((e) => `${e} ${page.order.toUpperCase()}`).join(', ')
+    let sql = `SELECT * FROM incidents ${where} ORDER BY ${orderBy}`
+    if (page.limit !== undefined) {
+      sql += ' LIMIT ?'
+      params.push(page.limit)
+    }
+    const rows = this.db.prepare(sql).all(...params) as IncidentRow[]
+
+    return rows.map((row) => this.rowToIncident(row))
+  }
+
+  async countIncidents(filter?: IncidentListFilter): Promise<number> {
+    const { clauses, params } = this.incidentClauses(filter)
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM incidents ${where}`).get(
+      ...params
+    ) as { count: number }
+    return row.count
+  }
+
+  private incidentClauses(filter?: IncidentListFilter) {
+    const clauses: string[] = []
+    const params: unknown[] = []
+    const addIn = (column: string, values: string[]) => {
+      clauses.push(`${column} IN (${values.map(() => '?').join(', ')})`)
+      params.push(...values)
+    }
+
+    if (filter) {
+      if (filter.status) {
+        clauses.push('status = ?')
+        params.push(filter.status.toUpperCase())
+      }
+      if (filter.severity) addIn('current_severity', filter.severity)
+      if (filter.namespace) addIn('namespace', filter.namespace)
+      if (filter.service) addIn('service', filter.service)
+      if (filter.priority) addIn('current_priority', filter.priority)
+      if (filter.auto !== undefined) {
+        clauses.push('auto = ?')
+        params.push(filter.auto ? 1 : 0)
+      }
+      if (filter.silenced !== undefined) {
+        clauses.push(filter.silenced ? 'silenced_by IS NOT NULL' : 'silenced_by IS NULL')
+      }
+      if (filter.from) {
+        clauses.push('last_observed_ms >= ?')
+        params.push(new Date(filter.from).getTime())
+      }
+      if (filter.to) {
+        clauses.push('last_observed_ms <= ?')
+        params.push(new Date(filter.to).getTime())
+      }
+      if (filter.q) {
+        // Each reason code is matched on its own, not the stored JSON text with its quotes
+        // and commas
+        clauses.push(
+          '(instr(lower(service), ?) > 0 OR instr(lower(dedupe_key), ?) > 0' +
+            ' OR EXISTS (SELECT 1 FROM json_each(reason_codes) WHERE instr(lower(value), ?) > 0))'
+        )
+        params.push(filter.q, filter.q, filter.q)
+      }
+    }
+
+    return { clauses, params }
+  }
+
+  async getIncidentDetail(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentDetail | null> {
+    const incident = await this.getIncident(dedupeKey, namespace, service)
+    if (!incident) return null
+
+    const events = await this.getEventsByDedupeKey(dedupeKey, namespace, service)
+    const actions = await this.getIncidentActions(dedupeKey, namespace, service)
+    const notes = await this.getIncidentNotes(dedupeKey, namespace, service)
+    return { ...incident, events, actions, notes }
+  }
+
+  // Operator actions
+  async insertIncidentAction(action: IncidentAction): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO incident_actions
+          (action_id, dedupe_key, namespace, service, action, actor, assignee, at)
+         VALUES (@action_id, @dedupe_key, @namespace, @service, @action, @actor, @assignee, @at)`
+      )
+      .run({ ...action, assignee: action.assignee ?? null })
+  }
+
+  async getIncidentActions(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentAction[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM incident_actions
+         WHERE dedupe_key = ? AND namespace = ? AND service = ?
+         ORDER BY rowid`
+      )
+      .all(dedupeKey, namespace, service) as IncidentActionRow[]
+
+    return rows.map(({ assignee, ...action }) =>
+      assignee === null ? action : { ...action, assignee }
+    )
+  }
+
+  // Incident notes
+  async insertNote(note: IncidentNote): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO incident_notes (
+          note_id, dedupe_key, namespace, service, author, body, format, event_id,
+          created_at, updated_at, edited_by
+        ) VALUES (
+          @note_id, @dedupe_key, @namespace, @service, @author, @body, @format, @event_id,
+          @created_at, @updated_at, @edited_by
+        )`
+      )
+      .run({ ...note, event_id: note.event_id ?? null, edited_by: note.edited_by ?? null })
+  }
+
+  async updateNote(note: IncidentNote): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE incident_notes
+         SET body = @body, format = @format, event_id = @event_id, updated_at = @updated_at,
+             edited_by = @edited_by
+         WHERE note_id = @note_id`
+      )
+      .run({
+        note_id: note.note_id,
+        body: note.body,
+        format: note.format,
+        event_id: note.event_id ?? null,
+        updated_at: note.updated_at,
+        edited_by: note.edited_by ?? null,
+      })
+  }
+
+  async deleteNote(noteId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM incident_notes WHERE note_id = ?').run(noteId)
+    return result.changes > 0
+  }
+
+  async getNote(noteId: string): Promise<IncidentNote | null> {
+    const row = this.db.prepare('SELECT * FROM incident_notes WHERE note_id = ?').get(noteId) as
+      | IncidentNoteRow
+      | undefined
+    return row ? this.rowToNote(row) : null
+  }
+
+  async getIncidentNotes(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentNote[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM incident_notes
+         WHERE dedupe_key = ? AND namespace = ? AND service = ?
+         ORDER BY rowid`
+      )
+      .all(dedupeKey, namespace, service) as IncidentNoteRow[]
+
+    return rows.map((row) => this.rowToNote(row))
+  }
+
+  // Silence rules
+  async insertSilence(silence: SilenceRule): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO silences (
+          silence_id, namespace, service, alert_type, severity, dedupe_key, starts_at, ends_at,
+          reason, created_by, created_at, expired_by
+        ) VALUES (
+          @silence_id, @namespace, @service, @alert_type, @severity, @dedupe_key, @starts_at,
+          @ends_at, @reason, @created_by, @created_at, @expired_by
+        )`
+      )
+      .run(this.silenceToRow(silence))
+  }
+
+  async updateSilence(silence: SilenceRule): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE silences
+         SET namespace = @namespace, service = @service, alert_type = @alert_type,
+             severity = @severity, dedupe_key = @dedupe_key, starts_at = @starts_at,
+             ends_at = @ends_at, reason = @reason, expired_by = @expired_by
+         WHERE silence_id = @silence_id`
+      )
+      .run(this.silenceToRow(silence))
+  }
+
+  async getSilence(silenceId: string): Promise<SilenceRule | null> {
+    const row = this.db.prepare('SELECT * FROM silences WHERE silence_id = ?').get(silenceId) as
+      | SilenceRow
+      | undefined
+    return row ? this.rowToSilence(row) : null
+  }
+
+  async listSilences(): Promise<SilenceRule[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM silences ORDER BY rowid DESC')
+      .all() as SilenceRow[]
+    return rows.map((row) => this.rowToSilence(row))
+  }
+
+  async deleteSilencesEndedBefore(cutoff: string): Promise<number> {
+    // Timestamps are stored as toISOString() output, so they compare as strings
+    const result = this.db.prepare('DELETE FROM silences WHERE ends_at < ?').run(cutoff)
+    return result.changes
+  }
+
+  // Notification routing rules
+  async insertRoutingRule(rule: RoutingRule): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO routing_rules (
+          rule_id, name, enabled, position, matchers, targets, escalations, quiet_hours,
+          continue_matching, created_by, created_at, updated_by, updated_at
+        ) VALUES (
+          @rule_id, @name, @enabled, @position, @matchers, @targets, @escalations, @quiet_hours,
+          @continue_matching, @created_by, @created_at, @updated_by, @updated_at
+        )`
+      )
+      .run(this.routingRuleToRow(rule))
+  }
+
+  async updateRoutingRule(rule: RoutingRule): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE routing_rules
+         SET name = @name, enabled = @enabled, position = @position, matchers = @matchers,
+             targets = @targets, escalations = @escalations, quiet_hours = @quiet_hours,
+             continue_matching = @continue_matching, updated_by = @updated_by,
+             updated_at = @updated_at
+         WHERE rule_id = @rule_id`
+      )
+      .run(this.routingRuleToRow(rule))
+  }
+
+  async deleteRoutingRule(ruleId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM routing_rules WHERE rule_id = ?').run(ruleId)
+    return result.changes > 0
+  }
+
+  async getRoutingRule(ruleId: string): Promise<RoutingRule | null> {
+    const row = this.db.prepare('SELECT * FROM routing_rules WHERE rule_id = ?').get(ruleId) as
+      | RoutingRuleRow
+      | undefined
+    return row ? this.rowToRoutingRule(row) : null
+  }
+
+  async listRoutingRules(): Promise<RoutingRule[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM routing_rules ORDER BY position, rowid')
+      .all() as RoutingRuleRow[]
+    return rows.map((row) => this.rowToRoutingRule(row))
+  }
+
+  // Notification outbox
+  async insertNotification(
+    notification: NotificationRecord,
+    claimedUntil?: string
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO notifications (
+          notification_id, reason, dedupe_key, namespace, service, event_id, channel, recipient,
+          subject, body, html, payload, status, attempts, last_error, provider_response,
+          next_attempt_at, created_at, updated_at, sent_at, claimed_until
+        ) VALUES (
+          @notification_id, @reason, @dedupe_key, @namespace, @service, @event_id, @channel,
+          @recipient, @subject, @body, @html, @payload, @status, @attempts, @last_error,
+          @provider_response, @next_attempt_at, @created_at, @updated_at, @sent_at, @claimed_until
+        )`
+      )
+      .run({ ...this.notificationToRow(notification), claimed_until: claimedUntil ?? null })
+  }
+
+  async updateNotification(notification: NotificationRecord): Promise<void> {
+    // Only the delivery state changes; the message itself is immutable
+    this.db
+      .prepare(
+        `UPDATE notifications
+         SET status = @status, attempts = @attempts, last_error = @last_error,
+             provider_response = @provider_response, next_attempt_at = @next_attempt_at,
+             updated_at = @updated_at, sent_at = @sent_at, claimed_until = NULL
+         WHERE notification_id = @notification_id`
+      )
+      .run(this.notificationToRow(notification))
+  }
+
+  async getNotification(notificationId: string): Promise<NotificationRecord | null> {
+    const row = this.db
+      .prepare(`SELECT ${NOTIFICATION_COLUMNS} FROM notifications WHERE notification_id = ?`)
+      .get(notificationId) as NotificationRow | undefined
+    return row ? this.rowToNotification(row) : null
+  }
+
+  async listNotifications(filter?: NotificationListFilter): Promise<NotificationRecord[]> {
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+
+    for (const column of ['dedupe_key', 'namespace', 'service', 'status', 'channel'] as const) {
+      const value = filter?.[column]
+      if (value) {
+        conditions.push(`${column} = ?`)
+        params.push(value)
+      }
+    }
+
+    let query = `SELECT ${NOTIFICATION_COLUMNS} FROM notifications`
+    if (conditions.length > 0) query += ` WHERE ${conditions.join(' AND ')}`
+    query += ' ORDER BY rowid DESC'
+    if (filter?.limit) {
+      query += ' LIMIT ?'
+      params.push(filter.limit)
+    }
+
+    const rows = this.db.prepare(query).all(...params) as NotificationRow[]
+    return rows.map((row) => this.rowToNotification(row))
+  }
+
+  async claimNotification(
+    notificationId: string,
+    now: string,
+    until: string
+  ): Promise<NotificationRecord | null> {
+    const claimed = this.db
+      .prepare(
+        `UPDATE notifications SET claimed_until = ?
+         WHERE notification_id = ? AND status <> 'sent'
+           AND (claimed_until IS NULL OR claimed_until <= ?)`
+      )
+      .run(until, notificationId, now)
+    return claimed.changes > 0 ? this.getNotification(notificationId) : null
+  }
+
+  async claimDueNotifications(
+    now: string,
+    until: string,
+    limit: number
+  ): Promise<NotificationRecord[]> {
+    return this.db.transaction(() => {
+      const rows = this.db
+        .prepare(
+          `SELECT ${NOTIFICATION_COLUMNS} FROM notifications
+           WHERE status IN ('pending', 'retrying') AND next_attempt_at <= ?
+             AND (claimed_until IS NULL OR claimed_until <= ?)
+           ORDER BY next_attempt_at
+           LIMIT ?`
+        )
+        .all(now, now, limit) as NotificationRow[]
+      const claim = this.db.prepare(
+        'UPDATE notifications SET claimed_until = ? WHERE notification_id = ?'
+      )
+      for (const row of rows) claim.run(until, row.notification_id)
+      return rows.map((row) => this.rowToNotification(row))
+    })()
+  }
+
+  // Digest queue
+  async insertDigestEntry({ target, entry }: QueuedDigestEntry): Promise<void> {
+    this.db
+      .prepare('INSERT INTO digest_entries (target, entry) VALUES (?, ?)')
+      .run(JSON.stringify(target), JSON.stringify(entry))
+  }
+
+  async takeDigestEntries(): Promise<QueuedDigestEntry[]> {
+    return this.db.transaction(() => {
+      const rows = this.db
+        .prepare('SELECT target, entry FROM digest_entries ORDER BY rowid')
+        .all() as { target: string; entry: string }[]
+      this.db.prepare('DELETE FROM digest_entries').run()
+      return rows.map((row) => ({ target: JSON.parse(row.target), entry: JSON.parse(row.entry) }))
+    })()
+  }
+
+  // Periodic jobs
+  async claimJobRun(job: string, at: string, notBefore: string): Promise<JobRun | null> {
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT last_run_at FROM job_runs WHERE job = ?').get(job) as
+        | { last_run_at: string }
+        | undefined
+      if (row && Date.parse(row.last_run_at) >= Date.parse(notBefore)) return null
+      this.db
+        .prepare(
+          `INSERT INTO job_runs (job, last_run_at) VALUES (?, ?)
+           ON CONFLICT (job) DO UPDATE SET last_run_at = excluded.last_run_at`
+        )
+        .run(job, at)
+      return { previous_run_at: row?.last_run_at ?? null }
+    })()
+  }
+
+  // Stream log
+  async appendStreamMessage(message: WSMessage): Promise<SequencedMessage> {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO stream_messages (seq, type, data, created_at)
+         SELECT COALESCE(MAX(seq), 0) + 1, ?, ?, ? FROM stream_messages`
+      )
+      .run(message.type, JSON.stringify(message.data), new Date().toISOString())
+    const sequenced: SequencedMessage = { ...message, seq: Number(lastInsertRowid) }
+    this.streamListeners.forEach((listener) => listener(sequenced.seq))
+    return sequenced
+  }
+
+  async watchStream(listener: (seq: number) => void): Promise<void> {
+    this.streamListeners.push(listener)
+  }
+
+  async listStreamMessages(afterSeq: number, limit: number): Promise<SequencedMessage[]> {
+    const rows = this.db
+      .prepare('SELECT seq, type, data FROM stream_messages WHERE seq > ? ORDER BY seq LIMIT ?')
+      .all(afterSeq, limit) as { seq: number; type: SequencedMessage['type']; data: string }[]
+    return rows.map((row) => ({ seq: row.seq, type: row.type, data: JSON.parse(row.data) }))
+  }
+
+  async getStreamBounds(): Promise<{ first: number; last: number } | null> {
+    const row = this.db
+      .prepare('SELECT MIN(seq) AS first, MAX(seq) AS last FROM stream_messages')
+      .get() as { first: number | null; last: number | null }
+    return row.first === null || row.last === null ? null : { first: row.first, last: row.last }
+  }
+
+  async deleteStreamMessagesThrough(seq: number): Promise<number> {
+    return this.db.prepare('DELETE FROM stream_messages WHERE seq <= ?').run(seq).changes
+  }
+
+  // Overview and stats
+  async getOverview(): Promise<Overview> {
+    const counts = this.db
+      .prepare(
+        `SELECT
+          COUNT(*) AS total_incidents,
+          COALESCE(SUM(status = 'OPEN'), 0) AS open_incidents,
+          COALESCE(SUM(status = 'RESOLVED'), 0) AS resolved_incidents,
+          COALESCE(SUM(current_severity = 'critical'), 0) AS critical_count,
+          COALESCE(SUM(current_severity = 'high'), 0) AS high_count,
+          COALESCE(SUM(current_severity = 'medium'), 0) AS medium_count,
+          COALESCE(SUM(current_severity = 'low'), 0) AS low_count,
+          COALESCE(SUM(auto = 1), 0) AS auto_actions_count,
+          COALESCE(SUM(auto = 0), 0) AS manual_actions_count,
+          COUNT(DISTINCT namespace || ':' || service) AS services_affected
+        FROM incidents`
+      )
+      .get() as Omit<Overview, 'last_updated_at'>
+
+    const latest = this.db
+      .prepare('SELECT last_observed_at FROM incidents ORDER BY last_observed_ms DESC LIMIT 1')
+      .get() as { last_observed_at: string } | undefined
+
+    return {
+      ...counts,
+      last_updated_at: latest ? latest.last_observed_at : new Date().toISOString(),
+    }
+  }
+
+  async getServices(): Promise<ServiceRollup[]> {
+    // SQLite returns the bare last_observed_at column from the row holding MAX(last_observed_ms)
+    return this.db
+      .prepare(
+        `SELECT
+          namespace,
+          service,
+          SUM(status = 'OPEN') AS open_incidents,
+          SUM(status = 'OPEN' AND current_severity = 'critical') AS critical_count,
+          SUM(status = 'OPEN' AND current_severity = 'high') AS high_count,
+          SUM(status = 'OPEN' AND current_severity = 'medium') AS medium_count,
+          SUM(status = 'OPEN' AND current_severity = 'low') AS low_count,
+          last_observed_at AS last_alert_at,
+          MAX(last_observed_ms) AS last_observed_ms
+        FROM incidents
+        GROUP BY namespace, service
+        ORDER BY open_incidents DESC, critical_count DESC`
+      )
+      .all()
+      .map((row) => {
+        const rollup = row as ServiceRollup
+        return {
+          namespace: rollup.namespace,
+          service: rollup.service,
+          open_incidents: rollup.open_incidents,
+          critical_count: rollup.critical_count,
+          high_count: rollup.high_count,
+          medium_count: rollup.medium_count,
+          low_count: rollup.low_count,
+          last_alert_at: rollup.last_alert_at,
+        }
+      })
+  }
+
+  async countEventBuckets(query: EventBucketQuery): Promise<EventBucketCount[]> {
+    const clauses = ['observed_ms >= ?', 'observed_ms < ?']
+    const params: unknown[] = [
+      query.bucket_ms,
+      new Date(query.from).getTime(),
+      new Date(query.to).getTime(),
+    ]
+    const addIn = (column: string, values?: string[]) => {
+      if (!values) return
+      clauses.push(`${column} IN (${values.map(() => '?').join(', ')})`)
+      params.push(...values)
+    }
+    addIn('namespace', query.namespace)
+    addIn('service', query.service)
+    addIn(EVENT_GROUP_EXPRESSIONS.severity, query.severity)
+
+    // Counted per incident first, so that incidents can be counted without DISTINCT
+    return this.db
+      .prepare(
+        `SELECT bucket, grp AS "group", SUM(n) AS events, COUNT(*) AS incidents
+        FROM (
+          SELECT observed_ms - observed_ms % ? AS bucket,
+            ${EVENT_GROUP_EXPRESSIONS[query.group_by]} AS grp,
+            COUNT(*) AS n
+          FROM events
+          WHERE ${clauses.join(' AND ')}
+          GROUP BY bucket, grp, dedupe_key, namespace, service
+        )
+        GROUP BY bucket, grp
+        ORDER BY bucket, grp`
+      )
+      .all(...params) as EventBucketCount[]
+  }
+
+  private rowToIncident(row: IncidentRow): Incident {
+    return {
+      dedupe_key: row.dedupe_key,
+      namespace: row.namespace,
+      service: row.service,
+      status: row.status,
+      current_severity: row.current_severity,
+      current_priority: row.current_priority,
+      current_action: row.current_action,
+      auto: row.auto === 1,
+      risk_score: row.risk_score,
+      reason_codes: JSON.parse(row.reason_codes),
+      first_observed_at: row.first_observed_at,
+      last_observed_at: row.last_observed_at,
+      latest_event_id: row.latest_event_id,
+      event_count: row.event_count,
+      quality_flags: JSON.parse(row.quality_flags),
+      acknowledged_at: row.acknowledged_at,
+      acknowledged_by: row.acknowledged_by,
+      assignee: row.assignee,
+      assigned_at: row.assigned_at,
+      assigned_by: row.assigned_by,
+      resolved_at: row.resolved_at,
+      resolved_by: row.resolved_by,
+      silenced_by: row.silenced_by,
+      opened_at: row.opened_at,
+    }
+  }
+
+  private rowToNote({ event_id, edited_by, ...note }: IncidentNoteRow): IncidentNote {
+    return {
+      ...note,
+      ...(event_id !== null ? { event_id } : {}),
+      ...(edited_by !== null ? { edited_by } : {}),
+    }
+  }
+
+  private silenceToRow({ matchers, expired_by, ...silence }: SilenceRule): SilenceRow {
+    return {
+      ...silence,
+      namespace: matchers.namespace ?? null,
+      service: matchers.service ?? null,
+      alert_type: matchers.alert_type ?? null,
+      severity: matchers.severity ?? null,
+      dedupe_key: matchers.dedupe_key ?? null,
+      expired_by: expired_by ?? null,
+    }
+  }
+
+  private rowToSilence(row: SilenceRow): SilenceRule {
+    const { namespace, service, alert_type, severity, dedupe_key, expired_by, ...silence } = row
+    const matchers = Object.fromEntries(
+      Object.entries({ namespace, service, alert_type, severity, dedupe_key }).filter(
+        ([, value]) => value !== null
+      )
+    )
+    return { ...silence, matchers, ...(expired_by !== null ? { expired_by } : {}) }
+  }
+
+  private routingRuleToRow(rule: RoutingRule): RoutingRuleRow {
+    return {
+      rule_id: rule.rule_id,
+      name: rule.name,
+      enabled: rule.enabled ? 1 : 0,
+      position: rule.position,
+      matchers: JSON.stringify(rule.matchers),
+      targets: JSON.stringify(rule.targets),
+      escalations: JSON.stringify(rule.escalations),
+      quiet_hours: rule.quiet_hours ? JSON.stringify(rule.quiet_hours) : null,
+      continue_matching: rule.continue ? 1 : 0,
+      created_by: rule.created_by,
+      created_at: rule.created_at,
+      updated_by: rule.updated_by,
+      updated_at: rule.updated_at,
+    }
+  }
+
+  private rowToRoutingRule(row: RoutingRuleRow): RoutingRule {
+    return {
+      rule_id: row.rule_id,
+      name: row.name,
+      enabled: row.enabled === 1,
+      position: row.position,
+      matchers: JSON.parse(row.matchers),
+      targets: JSON.parse(row.targets),
+      escalations: JSON.parse(row.escalations),
+      quiet_hours: row.quiet_hours ? JSON.parse(row.quiet_hours) : null,
+      continue: row.continue_matching === 1,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      updated_by: row.updated_by,
+      updated_at: row.updated_at,
+    }
+  }
+
+  private notificationToRow(notification: NotificationRecord): NotificationRow {
+    return {
+      ...notification,
+      payload: notification.payload ? JSON.stringify(notification.payload) : null,
+      provider_response:
+        notification.provider_response !== undefined && notification.provider_response !== null
+          ? JSON.stringify(notification.provider_response)
+          : null,
+    }
+  }
+
+  private rowToNotification(row: NotificationRow): NotificationRecord {
+    return {
+      ...row,
+      payload: row.payload ? JSON.parse(row.payload) : null,
+      provider_response: row.provider_response ? JSON.parse(row.provider_response) : null,
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db.close()
+  }
+}
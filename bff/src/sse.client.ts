@@ -0,0 +1,54 @@
+import http from 'http'
+import { WSMessage } from './types'
+import { StreamClient, StreamClientOptions } from './stream.client'
+
+// Alert stream as Server-Sent Events, for clients behind proxies that break WebSocket
+// upgrades. Every event carries a WSMessage as JSON in its data. Its id is the seq (for
+// connection and resync_required, the seq to resume from), so EventSource reconnects with
+// Last-Event-ID and gets what it missed. The stream is one-way: the subscription is fixed
+// when the request is made. Heartbeats are comment lines, which also keep proxies from
+// timing the response out; a closed connection is noticed when the request closes.
+export class SseClient extends StreamClient {
+  readonly transport = 'sse' as const
+
+  constructor(
+    request: http.IncomingMessage,
+    private res: http.ServerResponse,
+    options: StreamClientOptions
+  ) {
+    super(request.socket.remoteAddress ?? null, request.headers['user-agent'] ?? null, options)
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Tells nginx not to buffer the response
+      'X-Accel-Buffering': 'no',
+    })
+    res.write('retry: 2000\n\n')
+    res.on('drain', () => this.drain())
+  }
+
+  isOpen(): boolean {
+    return !this.res.writableEnded && !this.res.destroyed
+  }
+
+  heartbeat(): boolean {
+    if (!this.isOpen()) return false
+    this.res.write(': heartbeat\n\n')
+    return true
+  }
+
+  close() {
+    this.res.end()
+  }
+
+  protected write(payload: string, message: WSMessage) {
+    const id = message.seq ?? message.data?.last_seq
+    this.res.write(`${id !== undefined ? `id: ${id}\n` : ''}data: ${payload}\n\n`)
+  }
+
+  protected bufferedBytes(): number {
+    return this.res.writableLength
+  }
+}
@@ -1,210 +1,256 @@
-import { AlertEvent, Incident, ServiceRollup, Overview, IncidentDetail } from './types'
-
-// In-memory storage implementation (production should use SQLite/Postgres)
-export class Storage {
-  private events: Map<string, AlertEvent> = new Map()
-  private incidents: Map<string, Incident> = new Map()
+import {
+  AlertEvent,
+  Incident,
+  IncidentAction,
+  IncidentNote,
+  SilenceRule,
+  RoutingRule,
+  NotificationRecord,
+  NotificationStatus,
+  ServiceRollup,
+  Overview,
+  IncidentDetail,
+  SequencedMessage,
+  RouteTarget,
+  WSMessage,
+} from './types'
+import { DigestEntry } from './templates'
+import { MemoryStorage } from './memory.storage'
+import { SqliteStorage } from './sqlite.storage'
+import { PostgresStorage } from './postgres.storage'
+
+export interface IncidentListFilter {
+  status?: string
+  // Each list matches incidents with any of its values
+  severity?: string[]
+  namespace?: string[]
+  service?: string[]
+  priority?: string[]
+  auto?: boolean
+  // false: only incidents that are not silenced, true: only silenced ones
+  silenced?: boolean
+  // Inclusive bounds on last_observed_at (ISO-8601)
+  from?: string
+  to?: string
+  // Case-insensitive substring of the service, the dedupe key or one of the reason codes
+  q?: string
+}
 
-  constructor(_dbPath?: string) {
-    // In-memory implementation - dbPath ignored for now
-    console.log('Using in-memory storage')
-  }
+export type IncidentSort = 'last_observed_at' | 'risk_score' | 'severity' | 'event_count'
 
-  // Event operations
-  insertEvent(event: AlertEvent): boolean {
-    if (this.events.has(event.event_id)) {
-      // Duplicate event_id - idempotency
-      return false
-    }
-
-    this.events.set(event.event_id, event)
-    return true
-  }
+export type SortOrder = 'asc' | 'desc'
 
-  getEvent(eventId: string): AlertEvent | null {
-    return this.events.get(eventId) || null
-  }
+// Position of the last incident of a page: its sort value (epoch ms for last_observed_at,
+// the severity rank for severity) and its key, which breaks ties
+export interface IncidentCursor {
+  value: number
+  namespace: string
+  service: string
+  dedupe_key: string
+}
 
-  getEventsByDedupeKey(dedupeKey: string, namespace: string, service: string): AlertEvent[] {
-    const events: AlertEvent[] = []
-    
-    for (const event of this.events.values()) {
-      if (
-        event.dedupe_key === dedupeKey &&
-        event.service.namespace === namespace &&
-        event.service.name === service
-      ) {
-        events.push(event)
-      }
-    }
+export interface IncidentPageRequest {
+  sort: IncidentSort
+  order: SortOrder
+  // Everything when unset
+  limit?: number
+  // Start after this incident
+  after?: IncidentCursor
+}
 
-    // Sort by observed_at DESC
-    return events.sort((a, b) => 
-      new Date(b.observed_at).getTime() - new Date(a.observed_at).getTime()
-    )
-  }
+// What event analytics are split by; decision is "auto" or "manual"
+export type EventGroupBy = 'severity' | 'namespace' | 'service' | 'alert_type' | 'decision'
+
+export interface EventBucketQuery {
+  // observed_at in [from, to)
+  from: string
+  to: string
+  // Buckets start at multiples of this since the epoch
+  bucket_ms: number
+  group_by: EventGroupBy
+  namespace?: string[]
+  service?: string[]
+  severity?: string[]
+}
 
-  // Incident operations
-  upsertIncident(incident: Incident): void {
-    const key = this.getIncidentKey(incident.dedupe_key, incident.namespace, incident.service)
-    const existing = this.incidents.get(key)
-
-    if (existing) {
-      // Update existing incident
-      this.incidents.set(key, {
-        ...incident,
-        event_count: existing.event_count + 1,
-      })
-    } else {
-      // Insert new incident
-      this.incidents.set(key, incident)
-    }
-  }
+export interface EventBucketCount {
+  // Epoch ms the bucket starts at
+  bucket: number
+  // Services are grouped as "namespace/service"
+  group: string
+  events: number
+  // Distinct incidents with at least one of those events
+  incidents: number
+}
 
-  getIncident(dedupeKey: string, namespace: string, service: string): Incident | null {
-    const key = this.getIncidentKey(dedupeKey, namespace, service)
-    return this.incidents.get(key) || null
-  }
+export interface NotificationListFilter {
+  dedupe_key?: string
+  namespace?: string
+  service?: string
+  status?: NotificationStatus
+  channel?: string
+  limit?: number
+}
 
-  listIncidents(filter?: {
-    status?: string
-    severity?: string
-    namespace?: string
-    service?: string
-    priority?: string
-    auto?: boolean
-  }): Incident[] {
-    let incidents = Array.from(this.incidents.values())
-
-    if (filter) {
-      if (filter.status) {
-        incidents = incidents.filter((i) => i.status === filter.status!.toUpperCase())
-      }
-      if (filter.severity) {
-        incidents = incidents.filter((i) => i.current_severity === filter.severity)
-      }
-      if (filter.namespace) {
-        incidents = incidents.filter((i) => i.namespace === filter.namespace)
-      }
-      if (filter.service) {
-        incidents = incidents.filter((i) => i.service === filter.service)
-      }
-      if (filter.priority) {
-        incidents = incidents.filter((i) => i.current_priority === filter.priority)
-      }
-      if (filter.auto !== undefined) {
-        incidents = incidents.filter((i) => i.auto === filter.auto)
-      }
-    }
+export interface IncidentKey {
+  dedupe_key: string
+  namespace: string
+  service: string
+}
 
-    // Sort by last_observed_at DESC
-    return incidents.sort((a, b) => 
-      new Date(b.last_observed_at).getTime() - new Date(a.last_observed_at).getTime()
-    )
-  }
+export interface QueuedDigestEntry {
+  target: RouteTarget
+  // With the one transition it was queued for
+  entry: DigestEntry
+}
 
-  getIncidentDetail(dedupeKey: string, namespace: string, service: string): IncidentDetail | null {
-    const incident = this.getIncident(dedupeKey, namespace, service)
-    if (!incident) return null
+export interface JobRun {
+  // When the run before this one was recorded; null for the first run
+  previous_run_at: string | null
+}
 
-    const events = this.getEventsByDedupeKey(dedupeKey, namespace, service)
-    return { ...incident, events }
-  }
+// Contract every storage backend implements. Methods are async so that
+// network-backed stores (Postgres) and embedded ones (SQLite, memory) are interchangeable.
+export interface StorageBackend {
+  // Create tables / run migrations; called once before the server starts listening
+  init(): Promise<void>
 
-  // Overview and stats
-  getOverview(): Overview {
-    const incidents = Array.from(this.incidents.values())
-
-    const openIncidents = incidents.filter((i) => i.status === 'OPEN')
-    const resolvedIncidents = incidents.filter((i) => i.status === 'RESOLVED')
-
-    const criticalCount = incidents.filter((i) => i.current_severity === 'critical').length
-    const highCount = incidents.filter((i) => i.current_severity === 'high').length
-    const mediumCount = incidents.filter((i) => i.current_severity === 'medium').length
-    const lowCount = incidents.filter((i) => i.current_severity === 'low').length
-
-    const autoActionsCount = incidents.filter((i) => i.auto === true).length
-    const manualActionsCount = incidents.filter((i) => i.auto === false).length
-
-    const servicesAffected = new Set(
-      incidents.map((i) => `${i.namespace}:${i.service}`)
-    ).size
-
-    const lastUpdatedAt =
-      incidents.length > 0
-        ? incidents.reduce((latest, i) =>
-            new Date(i.last_observed_at).getTime() > new Date(latest).getTime()
-              ? i.last_observed_at
-              : latest
-          , incidents[0].last_observed_at)
-        : new Date().toISOString()
-
-    return {
-      total_incidents: incidents.length,
-      open_incidents: openIncidents.length,
-      resolved_incidents: resolvedIncidents.length,
-      critical_count: criticalCount,
-      high_count: highCount,
-      medium_count: mediumCount,
-      low_count: lowCount,
-      auto_actions_count: autoActionsCount,
-      manual_actions_count: manualActionsCount,
-      services_affected: servicesAffected,
-      last_updated_at: lastUpdatedAt,
-    }
-  }
+  // Event operations
+  insertEvent(event: AlertEvent): Promise<boolean>
+  getEvent(eventId: string): Promise<AlertEvent | null>
+  getEventsByDedupeKey(dedupeKey: string, namespace: string, service: string): Promise<AlertEvent[]>
+  // Same events in the order they were stored, which is what projections fold over
+  getEventHistory(dedupeKey: string, namespace: string, service: string): Promise<AlertEvent[]>
+  // Every incident key that has at least one stored event
+  listIncidentKeys(): Promise<IncidentKey[]>
 
-  getServices(): ServiceRollup[] {
-    const serviceMap = new Map<string, ServiceRollup>()
-
-    for (const incident of this.incidents.values()) {
-      const key = `${incident.namespace}:${incident.service}`
-      
-      if (!serviceMap.has(key)) {
-        serviceMap.set(key, {
-          namespace: incident.namespace,
-          service: incident.service,
-          open_incidents: 0,
-          critical_count: 0,
-          high_count: 0,
-          medium_count: 0,
-          low_count: 0,
-          last_alert_at: incident.last_observed_at,
-        })
-      }
+  // Incident operations
+  // Stores the projection as given, replacing any previous one
+  upsertIncident(incident: Incident): Promise<void>
+  getIncident(dedupeKey: string, namespace: string, service: string): Promise<Incident | null>
+  // Runs fn while holding the incident's lock, which callers in other replicas wait for too;
+  // fn must read and write through the storage it is handed
+  withIncidentLock<T>(key: IncidentKey, fn: (storage: StorageBackend) => Promise<T>): Promise<T>
+  // Most recently observed first unless a page says otherwise. Ties on the sort value are
+  // ordered by namespace, service and dedupe key in the same direction.
+  listIncidents(filter?: IncidentListFilter, page?: IncidentPageRequest): Promise<Incident[]>
+  countIncidents(filter?: IncidentListFilter): Promise<number>
+  getIncidentDetail(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<IncidentDetail | null>
+
+  // Operator actions (acknowledge, assign, ...), append-only
+  insertIncidentAction(action: IncidentAction): Promise<void>
+  // Oldest first, in the order they were recorded
+  getIncidentActions(dedupeKey: string, namespace: string, service: string): Promise<IncidentAction[]>
+
+  // Incident notes
+  insertNote(note: IncidentNote): Promise<void>
+  updateNote(note: IncidentNote): Promise<void>
+  // Returns false when the note did not exist
+  deleteNote(noteId: string): Promise<boolean>
+  getNote(noteId: string): Promise<IncidentNote | null>
+  // Oldest first
+  getIncidentNotes(dedupeKey: string, namespace: string, service: string): Promise<IncidentNote[]>
+
+  // Silence rules
+  insertSilence(silence: SilenceRule): Promise<void>
+  updateSilence(silence: SilenceRule): Promise<void>
+  getSilence(silenceId: string): Promise<SilenceRule | null>
+  // Newest first
+  listSilences(): Promise<SilenceRule[]>
+  // Returns how many rules ended before the cutoff and were removed
+  deleteSilencesEndedBefore(cutoff: string): Promise<number>
+
+  // Notification routing rules
+  insertRoutingRule(rule: RoutingRule): Promise<void>
+  updateRoutingRule(rule: RoutingRule): Promise<void>
+  // Returns false when the rule did not exist
+  deleteRoutingRule(ruleId: string): Promise<boolean>
+  getRoutingRule(ruleId: string): Promise<RoutingRule | null>
+  // Ascending position, oldest first among equal positions
+  listRoutingRules(): Promise<RoutingRule[]>
+
+  // Notification outbox. Whoever attempts a delivery claims the record first, so that no
+  // other replica sends it at the same time; a claim lapses at its end if the attempt
+  // never records an outcome.
+  // Pass claimedUntil to insert the record already claimed
+  insertNotification(notification: NotificationRecord, claimedUntil?: string): Promise<void>
+  // Records the outcome of an attempt and releases the claim
+  updateNotification(notification: NotificationRecord): Promise<void>
+  getNotification(notificationId: string): Promise<NotificationRecord | null>
+  // Newest first
+  listNotifications(filter?: NotificationListFilter): Promise<NotificationRecord[]>
+  // Claims the notification until the given time unless it was delivered or someone else
+  // holds a claim; null when it was not claimed
+  claimNotification(
+    notificationId: string,
+    now: string,
+    until: string
+  ): Promise<NotificationRecord | null>
+  // Claims up to `limit` unclaimed pending and retrying notifications whose next attempt is
+  // due and returns them, most overdue first
+  claimDueNotifications(now: string, until: string, limit: number): Promise<NotificationRecord[]>
+
+  // Digest mode: transitions waiting for the next digest, one entry per transition and target
+  insertDigestEntry(entry: QueuedDigestEntry): Promise<void>
+  // Removes every waiting entry and returns them, oldest first
+  takeDigestEntries(): Promise<QueuedDigestEntry[]>
+
+  // Periodic jobs that replicas take turns at. Records a run of the job at `at` unless a run
+  // was already recorded at or after `notBefore`; null when it was not recorded
+  claimJobRun(job: string, at: string, notBefore: string): Promise<JobRun | null>
+
+  // Stream log: every broadcast message, kept so reconnecting clients can catch up.
+  // Appending numbers the message with the next seq; replicas sharing the log get
+  // consecutive seqs in the order their appends complete
+  appendStreamMessage(message: WSMessage): Promise<SequencedMessage>
+  // Calls listener with the seq of every message appended from now on, by this process or
+  // another one sharing the log, in seq order. A seq may be skipped when a later one is
+  // reported, and after a lost connection only the newest seq is
+  watchStream(listener: (seq: number) => void): Promise<void>
+  // Messages after the given seq, oldest first
+  listStreamMessages(afterSeq: number, limit: number): Promise<SequencedMessage[]>
+  // Lowest and highest seq still stored; null when the log is empty
+  getStreamBounds(): Promise<{ first: number; last: number } | null>
+  // Returns how many messages up to and including the seq were removed
+  deleteStreamMessagesThrough(seq: number): Promise<number>
 
-      const rollup = serviceMap.get(key)!
+  // Overview and stats
+  getOverview(): Promise<Overview>
+  getServices(): Promise<ServiceRollup[]>
+  // Event counts per bucket and group, oldest bucket first; empty buckets are left out
+  countEventBuckets(query: EventBucketQuery): Promise<EventBucketCount[]>
 
-      if (incident.status === 'OPEN') {
-        rollup.open_incidents++
+  close(): Promise<void>
+}
 
-        if (incident.current_severity === 'critical') rollup.critical_count++
-        else if (incident.current_severity === 'high') rollup.high_count++
-        else if (incident.current_severity === 'medium') rollup.medium_count++
-        else if (incident.current_severity === 'low') rollup.low_count++
-      }
+export type StorageBackendKind = 'memory' | 'sqlite' | 'postgres'
 
-      // Update last_alert_at if this incident is more recent
-      if (new Date(incident.last_observed_at).getTime() > new Date(rollup.last_alert_at).getTime()) {
-        rollup.last_alert_at = incident.last_observed_at
-      }
-    }
+export interface StorageOptions {
+  backend?: string
+  dbPath: string
+  databaseUrl?: string
+}
 
-    // Sort by open_incidents DESC, then critical_count DESC
-    return Array.from(serviceMap.values()).sort((a, b) => {
-      if (b.open_incidents !== a.open_incidents) {
-        return b.open_incidents - a.open_incidents
+// STORAGE_BACKEND picks the implementation; without it DB_PATH=:memory: selects
+// the in-memory store and anything else a SQLite file.
+export function createStorage(options: StorageOptions): StorageBackend {
+  const backend = options.backend || (options.dbPath === ':memory:' ? 'memory' : 'sqlite')
+
+  switch (backend as StorageBackendKind) {
+    case 'memory':
+      return new MemoryStorage()
+    case 'sqlite':
+      return new SqliteStorage(options.dbPath)
+    case 'postgres':
+      if (!options.databaseUrl) {
+        throw new Error('DATABASE_URL is required when STORAGE_BACKEND=postgres')
       }
-      return b.critical_count - a.critical_count
-    })
-  }
-
-  private getIncidentKey(dedupeKey: string, namespace: string, service: string): string {
-    return `${dedupeKey}:${namespace}:${service}`
-  }
-
-  close() {
-    // No-op for in-memory storage
+      return new PostgresStorage(options.databaseUrl)
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected memory, sqlite or postgres)`)
   }
 }
-
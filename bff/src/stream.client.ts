@@ -0,0 +1,169 @@
+import crypto from 'crypto'
+import { SequencedMessage, StreamSubscription, WSMessage } from './types'
+import { scopeMessage } from './subscriptions'
+
+export type StreamTransport = 'websocket' | 'sse'
+
+export interface StreamClientOptions {
+  // Bytes the transport may have queued before further messages wait in the backlog
+  maxBufferedBytes: number
+  // Messages a slow client may have waiting; beyond this the oldest are dropped
+  maxBacklog: number
+}
+
+export interface StreamClientInfo {
+  client_id: string
+  transport: StreamTransport
+  remote_address: string | null
+  user_agent: string | null
+  connected_at: string
+  subscription: StreamSubscription | null
+  // Seq of the last broadcast message sent to the client
+  last_seq: number | null
+  messages_sent: number
+  // Replaced by a newer message about the same thing before they could be sent
+  messages_coalesced: number
+  messages_dropped: number
+  buffered_bytes: number
+  backlog: number
+}
+
+// Messages under the same key describe the current state of the same thing, so a waiting
+// one can be replaced by a newer one; everything else is sent as is
+function coalesceKey(message: WSMessage): string | undefined {
+  const data = message.data
+  switch (message.type) {
+    case 'incident_updated':
+      return `incident\u0000${data.namespace}\u0000${data.service}\u0000${data.dedupe_key}`
+    case 'notification_updated':
+      return `notification\u0000${data.notification_id}`
+    case 'note_updated':
+      return `note\u0000${data.note_id}`
+    case 'routing_rule_updated':
+      return `routing_rule\u0000${data.rule_id}`
+    default:
+      return undefined
+  }
+}
+
+// One consumer of the alert stream, whatever the transport. Messages go straight to the
+// transport while it keeps up; once it has more than maxBufferedBytes queued they wait in
+// a backlog, where a newer state of the same incident, notification, note or rule replaces
+// the older one. A backlog that still overflows loses its oldest messages, and the client
+// is then sent resync_required before anything else.
+export abstract class StreamClient {
+  abstract readonly transport: StreamTransport
+  readonly client_id = crypto.randomUUID()
+  readonly connected_at = new Date().toISOString()
+  subscription?: StreamSubscription
+  // Live messages held back while the client is sent what it missed on resume
+  held?: SequencedMessage[]
+  private backlog: { key?: string; message: WSMessage }[] = []
+  // Seq of the newest dropped message, until the client has been told to resync
+  private droppedThrough?: number
+  private lastSeq: number | null = null
+  private sent = 0
+  private coalesced = 0
+  private dropped = 0
+
+  constructor(
+    readonly remote_address: string | null,
+    readonly user_agent: string | null,
+    private options: StreamClientOptions
+  ) { }
+
+  // payload is the serialized message
+  protected abstract write(payload: string, message: WSMessage): void
+  // Bytes written but not yet handed to the network
+  protected abstract bufferedBytes(): number
+  abstract isOpen(): boolean
+  // Called periodically; returns false when the connection turned out to be dead
+  abstract heartbeat(): boolean
+  abstract close(): void
+
+  // A broadcast message: held back during a resume, otherwise scoped to the subscription
+  publish(message: SequencedMessage) {
+    if (this.held) {
+      this.held.push(message)
+    } else {
+      this.deliver(message)
+    }
+  }
+
+  // Sends a broadcast message if the subscription wants it
+  deliver(message: SequencedMessage) {
+    const scoped = this.subscription ? scopeMessage(message, this.subscription) : message
+    if (scoped) this.send(scoped)
+  }
+
+  send(message: WSMessage) {
+    if (!this.isOpen()) return
+    const waiting = this.backlog.length > 0 || this.droppedThrough !== undefined
+    if (!waiting && this.bufferedBytes() < this.options.maxBufferedBytes) {
+      this.transmit(message)
+      return
+    }
+    this.enqueue(message)
+    this.drain()
+  }
+
+  info(): StreamClientInfo {
+    return {
+      client_id: this.client_id,
+      transport: this.transport,
+      remote_address: this.remote_address,
+      user_agent: this.user_agent,
+      connected_at: this.connected_at,
+      subscription: this.subscription ?? null,
+      last_seq: this.lastSeq,
+      messages_sent: this.sent,
+      messages_coalesced: this.coalesced,
+      messages_dropped: this.dropped,
+      buffered_bytes: this.isOpen() ? this.bufferedBytes() : 0,
+      backlog: this.backlog.length,
+    }
+  }
+
+  // Transports call this whenever they may have room again
+  protected drain() {
+    while (this.isOpen() && this.bufferedBytes() < this.options.maxBufferedBytes) {
+      if (this.droppedThrough !== undefined) {
+        this.transmit({
+          type: 'resync_required',
+          data: { reason: 'slow_consumer', last_seq: this.droppedThrough },
+        })
+        this.droppedThrough = undefined
+        continue
+      }
+      const next = this.backlog.shift()
+      if (!next) return
+      this.transmit(next.message)
+    }
+  }
+
+  private enqueue(message: WSMessage) {
+    const key = coalesceKey(message)
+    if (key) {
+      const index = this.backlog.findIndex((waiting) => waiting.key === key)
+      if (index >= 0) {
+        this.backlog.splice(index, 1)
+        this.coalesced++
+      }
+    }
+    this.backlog.push({ key, message })
+
+    if (this.backlog.length > this.options.maxBacklog) {
+      const [oldest] = this.backlog.splice(0, 1)
+      this.dropped++
+      if (oldest.message.seq !== undefined) {
+        this.droppedThrough = Math.max(this.droppedThrough ?? 0, oldest.message.seq)
+      }
+    }
+  }
+
+  private transmit(message: WSMessage) {
+    this.write(JSON.stringify(message), message)
+    this.sent++
+    if (message.seq !== undefined) this.lastSeq = message.seq
+  }
+}
@@ -0,0 +1,216 @@
+import { SequencedMessage, WSMessage } from './types'
+import { StorageBackend } from './storage'
+import { StreamClient, StreamClientInfo, StreamTransport } from './stream.client'
+
+const DEFAULT_RETENTION = 10000
+const DEFAULT_HEARTBEAT_SECONDS = 30
+const PRUNE_INTERVAL_MS = 60 * 1000
+// Messages read from the log at a time when delivering
+const DELIVERY_BATCH = 500
+
+export interface StreamOptions {
+  // Messages kept for catch-up; a client that missed more than this has to resync
+  retention?: number
+  // How often connections are checked; a dead one is noticed within two heartbeats
+  heartbeatSeconds?: number
+}
+
+// Appends every broadcast message to the stream log, which numbers it, and hands each
+// message in the log to every connected client, in seq order. The log is shared between
+// replicas, so clients get what any of them published. A client that reconnects with the
+// last seq it saw is sent what it missed. The in-memory backend starts again from 1 after a
+// restart, which clients notice because the seq they resume from is ahead of the stream,
+// and they resync.
+export class StreamService {
+  // Last seq handed to clients
+  private delivered = 0
+  // Deliveries are chained so clients get the log in seq order and a replay can wait for them
+  private deliveries: Promise<void> = Promise.resolve()
+  // Appends are chained so messages published here are numbered in the order published
+  private appends: Promise<unknown> = Promise.resolve()
+  private clients = new Set<StreamClient>()
+  private pruneTimer?: NodeJS.Timeout
+  private heartbeatTimer?: NodeJS.Timeout
+  private retention: number
+  private heartbeatMs: number
+
+  constructor(
+    private storage: StorageBackend,
+    options: StreamOptions = {}
+  ) {
+    this.retention = Math.max(1, options.retention || DEFAULT_RETENTION)
+    this.heartbeatMs = (options.heartbeatSeconds || DEFAULT_HEARTBEAT_SECONDS) * 1000
+  }
+
+  // Starts delivering what is appended after the end of the stored log; call once storage
+  // is initialized
+  async init() {
+    const bounds = await this.storage.getStreamBounds()
+    this.delivered = bounds?.last ?? 0
+    await this.storage.watchStream((seq) => {
+      this.catchUp(seq)
+    })
+  }
+
+  get lastSeq(): number {
+    return this.delivered
+  }
+
+  // Registers a connected client and confirms the connection with the seq to resume from,
+  // should it drop before anything arrives: the current one, or where a resume starts
+  attach(client: StreamClient, resumeFrom?: number) {
+    this.clients.add(client)
+    client.send({
+      type: 'connection',
+      data: {
+        status: 'connected',
+        timestamp: new Date().toISOString(),
+        client_id: client.client_id,
+        transport: client.transport,
+        last_seq: resumeFrom ?? this.delivered,
+      },
+    })
+  }
+
+  detach(client: StreamClient) {
+    this.clients.delete(client)
+  }
+
+  listClients(): StreamClientInfo[] {
+    return Array.from(this.clients, (client) => client.info())
+  }
+
+  clientCount(transport?: StreamTransport): number {
+    let count = 0
+    this.clients.forEach((client) => {
+      if (!transport || client.transport === transport) count++
+    })
+    return count
+  }
+
+  // Resolves with the message as numbered once it is in the log; clients get it from there
+  publish(message: WSMessage): Promise<SequencedMessage> {
+    const appended = this.appends.then(() => this.storage.appendStreamMessage(message))
+    this.appends = appended.catch(() => undefined)
+    return appended
+  }
+
+  // Delivers what is in the log after the last delivered message, through `through` or else
+  // through the end of the log
+  private catchUp(through?: number): Promise<void> {
+    this.deliveries = this.deliveries
+      .then(() => this.deliverThrough(through))
+      .catch((err) => console.error('Failed to deliver stream messages:', err))
+    return this.deliveries
+  }
+
+  private async deliverThrough(through?: number) {
+    const last = through ?? (await this.storage.getStreamBounds())?.last ?? 0
+    while (this.delivered < last) {
+      const batch = await this.storage.listStreamMessages(
+        this.delivered,
+        Math.min(last - this.delivered, DELIVERY_BATCH)
+      )
+      // Pruned before it could be read; clients that resume from before it resync
+      if (batch.length === 0) {
+        this.delivered = last
+        break
+      }
+      for (const message of batch) {
+        this.delivered = message.seq
+        this.clients.forEach((client) => client.publish(message))
+      }
+    }
+  }
+
+  // Sends the client what it missed after `since`, then whatever was broadcast meanwhile,
+  // so it sees every seq in order; or resync_required when that cannot be replayed
+  async resume(client: StreamClient, since: number): Promise<void> {
+    client.held = []
+    try {
+      const missed = await this.replay(since)
+      if (!missed) {
+        client.send({
+          type: 'resync_required',
+          data: { reason: 'replay_unavailable', since, last_seq: this.delivered },
+        })
+      }
+      let sent = since
+      for (const message of [...(missed ?? []), ...client.held]) {
+        if (message.seq <= sent) continue
+        sent = message.seq
+        client.deliver(message)
+      }
+    } catch (err) {
+      console.error('Failed to replay stream:', err)
+      client.send({
+        type: 'resync_required',
+        data: { reason: 'replay_unavailable', since, last_seq: this.delivered },
+      })
+      client.held?.forEach((message) => client.deliver(message))
+    } finally {
+      client.held = undefined
+    }
+  }
+
+  // Everything in the log after `since` up to now, or undefined when part of it is no longer
+  // there (pruned, or `since` belongs to a stream that was reset). What was appended up to
+  // now is delivered first, since the client may have seen it through another replica.
+  // Messages appended while this runs reach clients as usual and are not included.
+  async replay(since: number): Promise<SequencedMessage[] | undefined> {
+    await this.catchUp()
+    const last = this.delivered
+    if (since > last) return undefined
+    if (since === last) return []
+
+    const messages = (await this.storage.listStreamMessages(since, last - since)).filter(
+      (message) => message.seq <= last
+    )
+    const complete =
+      messages.length === last - since && messages.every((m, i) => m.seq === since + i + 1)
+    return complete ? messages : undefined
+  }
+
+  // Drop what is beyond retention, counted back from the newest message in the log
+  async prune(): Promise<number> {
+    const bounds = await this.storage.getStreamBounds()
+    const cutoff = (bounds?.last ?? 0) - this.retention
+    return cutoff > 0 ? this.storage.deleteStreamMessagesThrough(cutoff) : 0
+  }
+
+  // On shutdown: open SSE responses would otherwise keep the HTTP server from closing
+  disconnectAll() {
+    this.clients.forEach((client) => client.close())
+    this.clients.clear()
+  }
+
+  // Closes connections that failed their heartbeat
+  reap(): number {
+    let reaped = 0
+    this.clients.forEach((client) => {
+      if (client.heartbeat()) return
+      client.close()
+      this.clients.delete(client)
+      reaped++
+    })
+    if (reaped > 0) console.log(`Closed ${reaped} unresponsive stream connection(s)`)
+    return reaped
+  }
+
+  start() {
+    this.stop()
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch((err) => console.error('Stream log pruning failed:', err))
+    }, PRUNE_INTERVAL_MS)
+    this.pruneTimer.unref()
+    this.heartbeatTimer = setInterval(() => this.reap(), this.heartbeatMs)
+    this.heartbeatTimer.unref()
+  }
+
+  stop() {
+    if (this.pruneTimer) clearInterval(this.pruneTimer)
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    this.pruneTimer = undefined
+    this.heartbeatTimer = undefined
+  }
+}
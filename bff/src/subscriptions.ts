@@ -0,0 +1,118 @@
+import { StreamSubscription, WSMessage } from './types'
+
+export const SUBSCRIPTION_FIELDS: readonly (keyof StreamSubscription)[] = [
+  'namespaces',
+  'services',
+  'severities',
+  'dedupe_keys',
+]
+
+const MAX_LIST_LENGTH = 100
+const MAX_VALUE_LENGTH = 200
+
+// The scope fields a message carries, singular as they appear on incidents and events
+interface MessageScope {
+  namespace?: string | null
+  service?: string | null
+  severity?: string | null
+  dedupe_key?: string | null
+}
+
+const SCOPE_FIELDS: Record<keyof StreamSubscription, keyof MessageScope> = {
+  namespaces: 'namespace',
+  services: 'service',
+  severities: 'severity',
+  dedupe_keys: 'dedupe_key',
+}
+
+// Parses the fields of a client's subscribe message. Leaving every field out (or sending
+// empty lists) subscribes to everything again.
+export function parseSubscription(
+  input: Record<string, unknown>
+): { subscription: StreamSubscription } | { error: string } {
+  const subscription: StreamSubscription = {}
+  for (const field of SUBSCRIPTION_FIELDS) {
+    const value = input[field]
+    if (value === undefined || value === null) continue
+    if (!Array.isArray(value)) return { error: `${field} must be an array of strings` }
+    if (value.length > MAX_LIST_LENGTH) {
+      return { error: `${field} can have at most ${MAX_LIST_LENGTH} entries` }
+    }
+    const invalid = (v: unknown) =>
+      typeof v !== 'string' || v.trim() === '' || v.length > MAX_VALUE_LENGTH
+    if (value.some(invalid)) {
+      return { error: `${field} must be an array of non-empty strings` }
+    }
+    if (value.length > 0) subscription[field] = Array.from(new Set(value.map((v) => v.trim())))
+  }
+  return { subscription }
+}
+
+// Same, from query parameters: each field as a comma-separated list, or repeated
+export function parseSubscriptionQuery(
+  query: Record<string, unknown>
+): { subscription: StreamSubscription } | { error: string } {
+  const input: Record<string, unknown> = {}
+  for (const field of SUBSCRIPTION_FIELDS) {
+    const value = query[field]
+    if (value === undefined) continue
+    const values = Array.isArray(value) ? value : [value]
+    if (values.some((v) => typeof v !== 'string')) {
+      return { error: `${field} must be a comma-separated list` }
+    }
+    input[field] = (values as string[]).flatMap((v) => v.split(',')).filter((v) => v !== '')
+  }
+  return parseSubscription(input)
+}
+
+export function isCatchAll(subscription: StreamSubscription): boolean {
+  return SUBSCRIPTION_FIELDS.every((field) => !subscription[field])
+}
+
+function matchesScope(subscription: StreamSubscription, scope: MessageScope): boolean {
+  return SUBSCRIPTION_FIELDS.every((field) => {
+    const values = subscription[field]
+    const value = scope[SCOPE_FIELDS[field]]
+    return !values || typeof value !== 'string' || values.includes(value)
+  })
+}
+
+// Where a message's scope fields live; undefined for messages every client gets
+function scopeOf(message: WSMessage): MessageScope | undefined {
+  switch (message.type) {
+    case 'silence_created':
+    case 'silence_expired':
+      return message.data?.matchers
+    case 'routing_rule_created':
+    case 'routing_rule_updated':
+    case 'routing_rule_deleted':
+    case 'projections_rebuilt':
+    case 'stats':
+    case 'connection':
+    case 'subscribed':
+    case 'error':
+      return undefined
+    default:
+      return message.data
+  }
+}
+
+// The message as this subscriber should see it, or undefined when it should not see it.
+// A batch is cut down to the incidents the subscriber follows; its counts stay those of
+// the whole batch.
+export function scopeMessage(
+  message: WSMessage,
+  subscription: StreamSubscription
+): WSMessage | undefined {
+  if (isCatchAll(subscription)) return message
+
+  if (message.type === 'batch_ingested') {
+    const incidents = (message.data.incidents as MessageScope[]).filter((incident) =>
+      matchesScope(subscription, incident)
+    )
+    return incidents.length > 0 ? { ...message, data: { ...message.data, incidents } } : undefined
+  }
+
+  const scope = scopeOf(message)
+  return !scope || matchesScope(subscription, scope) ? message : undefined
+}
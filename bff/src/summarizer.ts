@@ -0,0 +1,39 @@
+import { OpenAiSummarizer } from './openai.summarizer'
+import { LocalSummarizer } from './local.summarizer'
+
+// Optional step that condenses a rendered alert into a short message (one SMS). It is
+// only ever a nicety: when it fails or returns something unusable, the template's own
+// rendering is sent instead.
+
+export interface Summarizer {
+  readonly name: string
+  // Resolves to at most maxLength characters, or rejects
+  summarize(text: string, maxLength: number): Promise<string>
+}
+
+export type SummarizerKind = 'off' | 'openai' | 'local'
+
+export interface SummarizerOptions {
+  // Defaults to openai when an API key is set, otherwise off
+  kind?: string
+  openaiApiKey?: string
+  openaiUrl?: string
+}
+
+export function createSummarizer(options: SummarizerOptions): Summarizer | undefined {
+  const kind = options.kind || (options.openaiApiKey ? 'openai' : 'off')
+
+  switch (kind as SummarizerKind) {
+    case 'off':
+      return undefined
+    case 'local':
+      return new LocalSummarizer()
+    case 'openai':
+      if (!options.openaiApiKey) {
+        throw new Error('OPENAI_API_KEY is required when NOTIFY_SUMMARIZER=openai')
+      }
+      return new OpenAiSummarizer(options.openaiApiKey, options.openaiUrl)
+    default:
+      throw new Error(`Unknown NOTIFY_SUMMARIZER "${kind}" (expected off, openai or local)`)
+  }
+}
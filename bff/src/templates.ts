@@ -0,0 +1,411 @@
+import fs from 'fs'
+import path from 'path'
+import { AlertEvent, Evidence, IncidentTransition, ServiceRollup } from './types'
+import { ChannelKind, NotificationMessage } from './channel'
+import { Summarizer } from './summarizer'
+
+// Notification bodies rendered from alert events with small logic-less templates:
+//
+//   {{path}}            a value from the event; dots reach into objects (evidence.latency_p99)
+//   {{path|filter}}     the value formatted by upper, lower, ms, pct, list or json
+//   {{#path}}..{{/path}} the enclosed text, only when the value is present and non-empty
+//
+// Besides the AlertEvent fields, templates can use `mode` (auto/manual), `metrics` (the
+// known evidence values in one line), `title` (the rendered title template), `escalation`
+// (set for escalations, with after_minutes), `transition` (kind, and previous_severity when
+// the severity went up) and `incident_url` (when DASHBOARD_URL is set).
+// Each channel kind gets its own template and length limit. Every default below can be
+// replaced by a file of the same name in NOTIFY_TEMPLATE_DIR.
+
+export const SMS_LENGTH = 160
+const TITLE_LENGTH = 200
+
+export type TemplateName = 'title.txt' | 'sms.txt' | 'email.txt' | 'email.html' | 'webhook.json'
+
+export const TEMPLATE_NAMES: readonly TemplateName[] = [
+  'title.txt',
+  'sms.txt',
+  'email.txt',
+  'email.html',
+  'webhook.json',
+]
+
+// SMS lines are in order of importance: lines are dropped from the end until the message
+// fits. Stick to the GSM-7 alphabet; a single character outside it (an ellipsis, a middle
+// dot, ...) makes carriers send the message as UCS-2, which cuts it to 70 characters.
+export const DEFAULT_TEMPLATES: Record<TemplateName, string> = {
+  'title.txt':
+    '{{#escalation}}[ESCALATION] {{/escalation}}[{{alert.severity|upper}}] {{service.name}}: {{alert.type}} {{alert.state}}',
+
+  'sms.txt': `{{#escalation}}ESCALATED {{escalation.after_minutes}}m unacked: {{/escalation}}{{alert.severity|upper}}{{#transition.previous_severity}} (was {{transition.previous_severity|upper}}){{/transition.previous_severity}} {{service.name}} ({{service.namespace}}) {{alert.type}} {{alert.state}}
+{{decision.action}} ({{mode}}) {{decision.priority}}
+{{#metrics}}{{metrics}}
+{{/metrics}}{{#links.runbook}}{{links.runbook}}
+{{/links.runbook}}{{#incident_url}}{{incident_url}}{{/incident_url}}`,
+
+  'email.txt': `{{#escalation}}Still unacknowledged {{escalation.after_minutes}} minutes after it opened.
+
+{{/escalation}}{{alert.severity|upper}} {{alert.type}} alert on {{service.name}} (namespace {{service.namespace}}) is {{alert.state}}.
+{{#transition.previous_severity}}Severity raised from {{transition.previous_severity}}.
+{{/transition.previous_severity}}
+Priority:  {{decision.priority}}
+Action:    {{decision.action}} ({{mode}})
+{{#decision.risk_score}}Risk:      {{decision.risk_score}}
+{{/decision.risk_score}}{{#decision.reason_codes}}Reasons:   {{decision.reason_codes|list}}
+{{/decision.reason_codes}}Observed:  {{observed_at}}
+{{#metrics}}Evidence:  {{metrics}}
+{{/metrics}}{{#impact.downstream_count}}Impact:    {{impact.downstream_count}} downstream services
+{{/impact.downstream_count}}{{#context.pod_name}}Pod:       {{context.pod_name}}
+{{/context.pod_name}}{{#context.cluster}}Cluster:   {{context.cluster}}
+{{/context.cluster}}
+{{#incident_url}}Incident:  {{incident_url}}
+{{/incident_url}}{{#links.runbook}}Runbook:   {{links.runbook}}
+{{/links.runbook}}{{#links.dashboard}}Dashboard: {{links.dashboard}}
+{{/links.dashboard}}{{#links.details_ref}}Details:   {{links.details_ref}}
+{{/links.details_ref}}
+Dedupe key {{dedupe_key}}, event {{event_id}}`,
+
+  'email.html': `<div style="font-family: sans-serif; font-size: 14px; color: #1f2937">
+{{#escalation}}<p style="color: #b45309"><strong>Still unacknowledged {{escalation.after_minutes}} minutes after it opened.</strong></p>
+{{/escalation}}<h2 style="margin: 0 0 8px">{{alert.severity|upper}}: {{service.name}} {{alert.type}} {{alert.state}}</h2>
+<p style="margin: 0 0 16px; color: #6b7280">Namespace {{service.namespace}}, observed {{observed_at}}{{#transition.previous_severity}}, severity raised from {{transition.previous_severity}}{{/transition.previous_severity}}</p>
+<table cellpadding="4" style="border-collapse: collapse">
+<tr><td><strong>Priority</strong></td><td>{{decision.priority}}</td></tr>
+<tr><td><strong>Action</strong></td><td>{{decision.action}} ({{mode}})</td></tr>
+{{#decision.risk_score}}<tr><td><strong>Risk</strong></td><td>{{decision.risk_score}}</td></tr>
+{{/decision.risk_score}}{{#decision.reason_codes}}<tr><td><strong>Reasons</strong></td><td>{{decision.reason_codes|list}}</td></tr>
+{{/decision.reason_codes}}{{#metrics}}<tr><td><strong>Evidence</strong></td><td>{{metrics}}</td></tr>
+{{/metrics}}{{#impact.downstream_count}}<tr><td><strong>Impact</strong></td><td>{{impact.downstream_count}} downstream services</td></tr>
+{{/impact.downstream_count}}{{#context.pod_name}}<tr><td><strong>Pod</strong></td><td>{{context.pod_name}}</td></tr>
+{{/context.pod_name}}</table>
+<p>
+{{#incident_url}}<a href="{{incident_url}}">Open incident</a>
+{{/incident_url}}{{#links.runbook}}<a href="{{links.runbook}}">Runbook</a>
+{{/links.runbook}}{{#links.dashboard}}<a href="{{links.dashboard}}">Dashboard</a>
+{{/links.dashboard}}</p>
+<p style="color: #9ca3af; font-size: 12px">Dedupe key {{dedupe_key}}, event {{event_id}}</p>
+</div>`,
+
+  'webhook.json': `{
+  "title": {{title|json}},
+  "severity": {{alert.severity|json}},
+  "state": {{alert.state|json}},
+  "alert_type": {{alert.type|json}},
+  "service": {{service.name|json}},
+  "namespace": {{service.namespace|json}},
+  "dedupe_key": {{dedupe_key|json}},
+  "event_id": {{event_id|json}},
+  "observed_at": {{observed_at|json}},
+  "decision": {{decision|json}},
+  "evidence": {{evidence|json}},
+  "links": {{links|json}},
+  "incident_url": {{incident_url|json}},
+  "transition": {{transition|json}},
+  "escalation": {{escalation|json}}
+}`,
+}
+
+export interface RenderOptions {
+  escalation?: { after_minutes: number }
+  transition?: IncidentTransition
+}
+
+export interface DigestEntry {
+  dedupe_key: string
+  namespace: string
+  service: string
+  severity: string
+  alert_type: string
+  // Every transition in the period, oldest first (e.g. opened, resolved)
+  transitions: IncidentTransition['kind'][]
+  last_observed_at: string
+}
+
+export interface Digest {
+  since: string
+  until: string
+  entries: DigestEntry[]
+  // Current rollups of the services that appear in entries
+  services: ServiceRollup[]
+}
+
+export type RenderedMessage = Pick<NotificationMessage, 'subject' | 'text' | 'html' | 'payload'>
+
+export interface TemplateOptions {
+  // Directory with replacements for any of TEMPLATE_NAMES
+  dir?: string
+  summarizer?: Summarizer
+  // Dashboard base URL used to build incident_url
+  dashboardUrl?: string
+}
+
+const FILTERS: Record<string, (value: unknown) => string> = {
+  upper: (value) => String(value).toUpperCase(),
+  lower: (value) => String(value).toLowerCase(),
+  ms: (value) => `${Math.round(Number(value))}ms`,
+  pct: (value) => `${Math.round(Number(value))}%`,
+  list: (value) => (Array.isArray(value) ? value.join(', ') : String(value)),
+  json: (value) => JSON.stringify(value ?? null),
+}
+
+const SECTION = /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g
+const VALUE = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g
+
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+  escape: (text: string) => string = (text) => text
+): string {
+  // Sections may nest, so keep resolving until none are left
+  let text = template
+  let previous: string
+  do {
+    previous = text
+    text = text.replace(SECTION, (_, key: string, inner: string) =>
+      isPresent(lookup(context, key)) ? inner : ''
+    )
+  } while (text !== previous)
+
+  return text.replace(VALUE, (_, key: string, filter: string | undefined) => {
+    const value = lookup(context, key)
+    if (filter === 'json') return FILTERS.json(value)
+    if (filter && !FILTERS[filter]) throw new Error(`Unknown template filter "${filter}"`)
+    if (!isPresent(value)) return ''
+    return escape(filter ? FILTERS[filter](value) : FILTERS.list(value))
+  })
+}
+
+// Keeps whole lines from the top while they fit, then cuts the last one if it must
+export function fitToLength(text: string, maxLength: number): string {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+
+  while (lines.length > 1 && lines.join('\n').length > maxLength) {
+    lines.pop()
+  }
+  const fitted = lines.join('\n')
+  return fitted.length > maxLength ? fitted.substring(0, maxLength - 3) + '...' : fitted
+}
+
+export class NotificationTemplates {
+  private templates: Record<TemplateName, string>
+
+  constructor(private options: TemplateOptions = {}) {
+    this.templates = { ...DEFAULT_TEMPLATES }
+
+    if (options.dir) {
+      for (const name of TEMPLATE_NAMES) {
+        const file = path.resolve(options.dir, name)
+        if (fs.existsSync(file)) {
+          this.templates[name] = fs.readFileSync(file, 'utf8')
+          console.log(`Using notification template ${file}`)
+        }
+      }
+    }
+
+    // Fail at startup rather than on the first alert
+    this.renderAll(SAMPLE_EVENT)
+    if (options.summarizer) {
+      console.log(`Alert SMS are summarized with ${options.summarizer.name}`)
+    }
+  }
+
+  // Subject and body shaped for one kind of channel
+  async render(
+    kind: ChannelKind,
+    event: AlertEvent,
+    options: RenderOptions = {}
+  ): Promise<RenderedMessage> {
+    const rendered = this.renderAll(event, options)
+    switch (kind) {
+      case 'sms':
+        return { subject: rendered.title, text: await this.smsText(rendered) }
+      case 'email':
+        return { subject: rendered.title, text: rendered.text, html: rendered.html }
+      case 'webhook':
+        return { subject: rendered.title, text: rendered.text, payload: rendered.payload }
+      case 'file':
+        return { subject: rendered.title, text: rendered.text }
+    }
+  }
+
+  // Digests are laid out in code rather than by templates, since they are lists
+  renderDigest(kind: ChannelKind, digest: Digest): RenderedMessage {
+    const count = digest.entries.length
+    const updates = `${count} incident update${count === 1 ? '' : 's'}`
+    const subject = `Digest: ${updates} since ${digest.since}`
+    const alertsUrl = this.options.dashboardUrl
+      ? `${this.options.dashboardUrl.replace(/\/$/, '')}/alerts`
+      : undefined
+
+    if (kind === 'sms') {
+      const services = digest.services.map((s) => `${s.service} ${s.open_incidents} open`)
+      const text = [`DIGEST ${updates}`, ...services, alertsUrl]
+        .filter(Boolean)
+        .join('\n')
+      return { subject, text: fitToLength(text, SMS_LENGTH) }
+    }
+
+    const lines = [`${updates} between ${digest.since} and ${digest.until}.`]
+    for (const rollup of digest.services) {
+      lines.push(
+        '',
+        `${rollup.service} (${rollup.namespace}): ${openBreakdown(rollup)}, ` +
+          `last alert ${rollup.last_alert_at}`
+      )
+      for (const entry of digest.entries) {
+        if (entry.namespace !== rollup.namespace || entry.service !== rollup.service) continue
+        lines.push(
+          `  [${entry.severity}] ${entry.alert_type} ${entry.dedupe_key}: ` +
+            entry.transitions.join(', ')
+        )
+      }
+    }
+    if (alertsUrl) lines.push('', `Alerts: ${alertsUrl}`)
+    const text = lines.join('\n')
+
+    return {
+      subject,
+      text,
+      ...(kind === 'email' ? { html: `<pre>${escapeHtml(text)}</pre>` } : {}),
+      ...(kind === 'webhook' ? { payload: { title: subject, digest } } : {}),
+    }
+  }
+
+  // Shortens free text (not an alert) to one SMS, with the summarizer when there is one
+  async condense(text: string, maxLength = SMS_LENGTH): Promise<string> {
+    if (text.length <= maxLength) return text
+    if (this.options.summarizer) {
+      try {
+        return await this.options.summarizer.summarize(text, maxLength)
+      } catch (error: any) {
+        console.error(`Summarizer ${this.options.summarizer.name} failed:`, error.message)
+      }
+    }
+    return fitToLength(text, maxLength)
+  }
+
+  private async smsText(rendered: ReturnType<NotificationTemplates['renderAll']>) {
+    if (this.options.summarizer) {
+      try {
+        // The summarizer gets the full text, so it can pick what matters most
+        return await this.options.summarizer.summarize(rendered.text, SMS_LENGTH)
+      } catch (error: any) {
+        console.error(`Summarizer ${this.options.summarizer.name} failed:`, error.message)
+      }
+    }
+    return rendered.sms
+  }
+
+  private renderAll(event: AlertEvent, options: RenderOptions = {}) {
+    const context = this.context(event, options)
+    const title = fitToLength(renderTemplate(this.templates['title.txt'], context), TITLE_LENGTH)
+    context.title = title
+
+    const payload = renderTemplate(this.templates['webhook.json'], context)
+    let parsed: Record<string, unknown>
+    try {
+      parsed = JSON.parse(payload)
+    } catch (error: any) {
+      throw new Error(`webhook.json does not render valid JSON: ${error.message}`)
+    }
+
+    return {
+      title,
+      sms: fitToLength(renderTemplate(this.templates['sms.txt'], context), SMS_LENGTH),
+      text: tidy(renderTemplate(this.templates['email.txt'], context)),
+      html: renderTemplate(this.templates['email.html'], context, escapeHtml),
+      payload: parsed,
+    }
+  }
+
+  private context(event: AlertEvent, options: RenderOptions): Record<string, unknown> {
+    const { dashboardUrl } = this.options
+    const incidentUrl = dashboardUrl
+      ? `${dashboardUrl.replace(/\/$/, '')}/alerts/${encodeURIComponent(event.dedupe_key)}?${new URLSearchParams(
+          { namespace: event.service.namespace, service: event.service.name }
+        )}`
+      : undefined
+
+    return {
+      ...event,
+      mode: event.decision.auto ? 'auto' : 'manual',
+      metrics: metricsSummary(event.evidence),
+      escalation: options.escalation,
+      transition: options.transition,
+      incident_url: incidentUrl,
+    }
+  }
+}
+
+function lookup(context: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, part) => {
+    return value !== null && typeof value === 'object'
+      ? (value as Record<string, unknown>)[part]
+      : undefined
+  }, context)
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === '' || value === false) return false
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'object') return Object.keys(value).length > 0
+  return true
+}
+
+// The evidence fields alerts.v1 defines, in one line
+function metricsSummary(evidence: Evidence | undefined): string {
+  if (!evidence) return ''
+  const parts: string[] = []
+  if (evidence.latency_p99 !== undefined) parts.push(`p99 ${FILTERS.ms(evidence.latency_p99)}`)
+  if (evidence.http_errors !== undefined) parts.push(`${evidence.http_errors} HTTP errors`)
+  if (evidence.cpu_percent !== undefined) parts.push(`CPU ${FILTERS.pct(evidence.cpu_percent)}`)
+  if (evidence.memory_percent !== undefined) {
+    parts.push(`memory ${FILTERS.pct(evidence.memory_percent)}`)
+  }
+  return parts.join(', ')
+}
+
+function openBreakdown(rollup: ServiceRollup): string {
+  const counts = [
+    [rollup.critical_count, 'critical'],
+    [rollup.high_count, 'high'],
+    [rollup.medium_count, 'medium'],
+    [rollup.low_count, 'low'],
+  ].filter(([count]) => count)
+  const detail = counts.map(([count, severity]) => `${count} ${severity}`).join(', ')
+  return `${rollup.open_incidents} open${detail ? ` (${detail})` : ''}`
+}
+
+// Drops trailing spaces and runs of blank lines that skipped sections leave behind
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Rendered once at startup to check the templates
+const SAMPLE_EVENT: AlertEvent = {
+  schema_version: 'alerts.v1',
+  event_id: 'sample',
+  dedupe_key: 'sample',
+  observed_at: '2024-01-01T00:00:00Z',
+  sent_at: '2024-01-01T00:00:00Z',
+  service: { name: 'sample-service', namespace: 'default' },
+  alert: { type: 'latency', state: 'firing', severity: 'critical' },
+  decision: { action: 'scale_up', auto: true, priority: 'P1', reason_codes: ['sample'] },
+  evidence: { latency_p99: 1200, http_errors: 3 },
+  links: { runbook: 'https://example.com/runbook' },
+}
@@ -14,6 +14,8 @@ export interface AlertEvent {
   context?: Context
   links?: Links
   meta?: Meta
+  // Set by the BFF, never by producers: the silence rule that matched when the event arrived
+  silenced_by?: string
 }
 
 export interface ServiceInfo {
@@ -86,6 +88,32 @@ export interface Incident {
   latest_event_id: string
   event_count: number
   quality_flags: string[]
+  // Operator workflow; null until the corresponding action happens
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  assignee: string | null
+  assigned_at: string | null
+  assigned_by: string | null
+  // Set whenever the incident is resolved; resolved_by is null when an event resolved it
+  resolved_at: string | null
+  resolved_by: string | null
+  // Silence rule that matched the latest event; silenced incidents are hidden by default
+  silenced_by: string | null
+  // Start of the current episode: the first event, or whatever last reopened the incident
+  opened_at: string
+}
+
+export type IncidentActionType = 'acknowledge' | 'assign' | 'unassign' | 'resolve' | 'reopen'
+
+export interface IncidentAction {
+  action_id: string
+  dedupe_key: string
+  namespace: string
+  service: string
+  action: IncidentActionType
+  actor: string
+  assignee?: string
+  at: string
 }
 
 export interface ServiceRollup {
@@ -113,13 +141,182 @@ export interface Overview {
   last_updated_at: string
 }
 
+export type NoteFormat = 'text' | 'markdown'
+
+export interface IncidentNote {
+  note_id: string
+  dedupe_key: string
+  namespace: string
+  service: string
+  author: string
+  body: string
+  format: NoteFormat
+  // Optional link to the event the note is about
+  event_id?: string
+  created_at: string
+  updated_at: string
+  // Set when someone edits the note after it was created
+  edited_by?: string
+}
+
+// Every matcher that is set must equal the event's value; unset matchers match anything
+export interface SilenceMatchers {
+  namespace?: string
+  service?: string
+  alert_type?: string
+  severity?: string
+  dedupe_key?: string
+}
+
+export interface SilenceRule {
+  silence_id: string
+  matchers: SilenceMatchers
+  starts_at: string
+  ends_at: string
+  reason: string
+  created_by: string
+  created_at: string
+  // Set when someone expired the rule before its original ends_at
+  expired_by?: string
+}
+
+export type SilenceState = 'pending' | 'active' | 'expired'
+
+// Every matcher that is set must match; list matchers match when the event's value is
+// one of the listed ones, reason_codes when the event carries any of them
+export interface RouteMatchers {
+  severities?: string[]
+  namespaces?: string[]
+  services?: string[]
+  priorities?: string[]
+  auto?: boolean
+  reason_codes?: string[]
+}
+
+// A channel by name; without recipients the channel's default recipients are used
+export interface RouteTarget {
+  channel: string
+  recipients?: string[]
+}
+
+// Notified when the incident is still unacknowledged after_minutes after it opened
+export interface EscalationTier {
+  after_minutes: number
+  targets: RouteTarget[]
+}
+
+// Daily window (HH:MM, may wrap midnight) in which the rule sends nothing, except for
+// override_severities. timezone is an IANA name; the server's zone when unset.
+export interface QuietHours {
+  start: string
+  end: string
+  timezone?: string
+  override_severities?: string[]
+}
+
+export interface RoutingRule {
+  rule_id: string
+  name: string
+  enabled: boolean
+  // Rules are evaluated in ascending position
+  position: number
+  matchers: RouteMatchers
+  targets: RouteTarget[]
+  escalations: EscalationTier[]
+  quiet_hours: QuietHours | null
+  // Keep evaluating later rules after this one matched
+  continue: boolean
+  created_by: string
+  created_at: string
+  updated_by: string
+  updated_at: string
+}
+
+// The incident state changes that notify: a new (or reopened) incident, a higher severity,
+// and resolution. Events that change nothing of that kind notify no one.
+export interface IncidentTransition {
+  kind: 'opened' | 'escalated' | 'resolved'
+  // Set for escalations
+  previous_severity?: string
+}
+
+// pending: not attempted yet (or interrupted mid-attempt); retrying: failed, next attempt
+// scheduled; sent: delivered; dead: gave up after the last attempt or a permanent failure;
+// suppressed: never sent because the recipient's rate limit was reached
+export type NotificationStatus = 'pending' | 'retrying' | 'sent' | 'dead' | 'suppressed'
+
+// alert: an incident transition; escalation: an escalation tier; digest: a periodic batch
+// of low-severity transitions; manual: sent through the API
+export type NotificationReason = 'alert' | 'escalation' | 'digest' | 'manual'
+
+// One message to one recipient through one channel, kept with its delivery history
+export interface NotificationRecord {
+  notification_id: string
+  reason: NotificationReason
+  // The incident and event the notification is about; null for manual messages
+  dedupe_key: string | null
+  namespace: string | null
+  service: string | null
+  event_id: string | null
+  channel: string
+  recipient: string
+  // The rendered message, exactly as it is (re)sent
+  subject: string
+  body: string
+  html: string | null
+  payload: Record<string, unknown> | null
+  status: NotificationStatus
+  attempts: number
+  last_error: string | null
+  // Whatever the provider answered on the last attempt
+  provider_response: unknown
+  next_attempt_at: string | null
+  created_at: string
+  updated_at: string
+  sent_at: string | null
+}
+
 export interface IncidentDetail extends Incident {
   events: AlertEvent[]
+  actions: IncidentAction[]
+  notes: IncidentNote[]
 }
 
 export interface WSMessage {
-  type: 'incident_updated' | 'event_received' | 'stats' | 'connection'
+  type:
+    | 'incident_updated'
+    | 'event_received'
+    | 'batch_ingested'
+    | 'projections_rebuilt'
+    | 'note_created'
+    | 'note_updated'
+    | 'note_deleted'
+    | 'silence_created'
+    | 'silence_expired'
+    | 'routing_rule_created'
+    | 'routing_rule_updated'
+    | 'routing_rule_deleted'
+    | 'notification_updated'
+    | 'stats'
+    | 'connection'
+    | 'subscribed'
+    | 'resync_required'
+    | 'error'
   data: any
+  // Position in the stream, on every broadcast message; replies to one client have none
+  seq?: number
+}
+
+export type SequencedMessage = WSMessage & { seq: number }
+
+// What a WebSocket client asked to receive. Every list that is set must contain the
+// message's value; a field the message does not carry (notes have no severity, routing
+// rules have no service) does not exclude it. Empty means everything.
+export interface StreamSubscription {
+  namespaces?: string[]
+  services?: string[]
+  severities?: string[]
+  dedupe_keys?: string[]
 }
 
 export interface IncidentFilter {
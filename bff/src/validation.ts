@@ -0,0 +1,244 @@
+import { AlertEvent } from './types'
+
+// Validation for incoming alert payloads, keyed on schema_version.
+// Every registered major version validates its own shape and, if it is not the
+// canonical alerts.v1 shape, upgrades the payload to an AlertEvent.
+
+export interface ValidationError {
+  path: string
+  message: string
+}
+
+export type ValidationResult =
+  | { valid: true; event: AlertEvent; version: string }
+  | { valid: false; errors: ValidationError[] }
+
+export interface AlertSchema {
+  major: number
+  validate(payload: Record<string, unknown>): ValidationError[]
+  // Omitted for alerts.v1, which already is the AlertEvent shape
+  upgrade?(payload: Record<string, unknown>): AlertEvent
+}
+
+// ===== Field validators =====
+
+type Validator = ((value: unknown, path: string, errors: ValidationError[]) => void) & {
+  optional?: boolean
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export const field = {
+  string(options: { allowEmpty?: boolean } = {}): Validator {
+    return (value, path, errors) => {
+      if (typeof value !== 'string') {
+        errors.push({ path, message: 'must be a string' })
+      } else if (!options.allowEmpty && value.trim() === '') {
+        errors.push({ path, message: 'must not be empty' })
+      }
+    }
+  },
+
+  timestamp(): Validator {
+    return (value, path, errors) => {
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        errors.push({ path, message: 'must be an ISO-8601 timestamp' })
+      }
+    }
+  },
+
+  boolean(): Validator {
+    return (value, path, errors) => {
+      if (typeof value !== 'boolean') {
+        errors.push({ path, message: 'must be a boolean' })
+      }
+    }
+  },
+
+  number(): Validator {
+    return (value, path, errors) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path, message: 'must be a finite number' })
+      }
+    }
+  },
+
+  oneOf(values: readonly string[]): Validator {
+    return (value, path, errors) => {
+      if (typeof value !== 'string' || !values.includes(value)) {
+        errors.push({ path, message: `must be one of: ${values.join(', ')}` })
+      }
+    }
+  },
+
+  array(item: Validator): Validator {
+    return (value, path, errors) => {
+      if (!Array.isArray(value)) {
+        errors.push({ path, message: 'must be an array' })
+        return
+      }
+      value.forEach((entry, idx) => item(entry, `${path}[${idx}]`, errors))
+    }
+  },
+
+  // Free-form map; optionally checks every value
+  record(value?: Validator): Validator {
+    return (input, path, errors) => {
+      if (!isPlainObject(input)) {
+        errors.push({ path, message: 'must be an object' })
+        return
+      }
+      if (value) {
+        for (const [key, entry] of Object.entries(input)) {
+          if (entry !== undefined) value(entry, `${path}.${key}`, errors)
+        }
+      }
+    }
+  },
+
+  object(shape: Record<string, Validator>): Validator {
+    return (input, path, errors) => {
+      if (!isPlainObject(input)) {
+        errors.push({ path: path || '$', message: 'must be an object' })
+        return
+      }
+      for (const [key, validator] of Object.entries(shape)) {
+        const childPath = path ? `${path}.${key}` : key
+        const value = input[key]
+        if (value === undefined || value === null) {
+          if (!validator.optional) errors.push({ path: childPath, message: 'is required' })
+          continue
+        }
+        validator(value, childPath, errors)
+      }
+    }
+  },
+
+  optional(validator: Validator): Validator {
+    const wrapped: Validator = (value, path, errors) => validator(value, path, errors)
+    wrapped.optional = true
+    return wrapped
+  },
+}
+
+// ===== alerts.v1 =====
+
+export const SEVERITIES = ['info', 'warning', 'low', 'medium', 'high', 'critical'] as const
+export const ALERT_STATES = ['firing', 'resolved'] as const
+
+const alertsV1Shape = field.object({
+  schema_version: field.string(),
+  event_id: field.string(),
+  dedupe_key: field.string(),
+  observed_at: field.timestamp(),
+  sent_at: field.timestamp(),
+  service: field.object({
+    name: field.string(),
+    namespace: field.string(),
+  }),
+  alert: field.object({
+    type: field.string(),
+    state: field.oneOf(ALERT_STATES),
+    severity: field.oneOf(SEVERITIES),
+  }),
+  decision: field.object({
+    action: field.string(),
+    auto: field.boolean(),
+    priority: field.string(),
+    risk_score: field.optional(field.number()),
+    reason_codes: field.array(field.string()),
+  }),
+  evidence: field.optional(field.record()),
+  impact: field.optional(field.record()),
+  context: field.optional(field.record()),
+  links: field.optional(field.record(field.string({ allowEmpty: true }))),
+  meta: field.optional(field.record()),
+})
+
+export const alertsV1: AlertSchema = {
+  major: 1,
+  validate(payload) {
+    const errors: ValidationError[] = []
+    alertsV1Shape(payload, '', errors)
+    return errors
+  },
+}
+
+// ===== Registry =====
+
+// Accepts "alerts.v1" as well as minor revisions such as "alerts.v1.2"
+const SCHEMA_VERSION_PATTERN = /^alerts\.v(\d+)(?:\.\d+)?$/
+
+export class SchemaRegistry {
+  private schemas: Map<number, AlertSchema> = new Map()
+
+  register(schema: AlertSchema): this {
+    if (schema.major !== 1 && !schema.upgrade) {
+      throw new Error(`alerts.v${schema.major} must provide an upgrade to alerts.v1`)
+    }
+    this.schemas.set(schema.major, schema)
+    return this
+  }
+
+  supportedVersions(): string[] {
+    return Array.from(this.schemas.keys())
+      .sort((a, b) => a - b)
+      .map((major) => `alerts.v${major}`)
+  }
+
+  validate(payload: unknown): ValidationResult {
+    if (!isPlainObject(payload)) {
+      return { valid: false, errors: [{ path: '$', message: 'must be a JSON object' }] }
+    }
+
+    const version = payload.schema_version
+    if (typeof version !== 'string') {
+      return { valid: false, errors: [{ path: 'schema_version', message: 'is required' }] }
+    }
+
+    const match = SCHEMA_VERSION_PATTERN.exec(version)
+    if (!match) {
+      return {
+        valid: false,
+        errors: [{ path: 'schema_version', message: 'must look like alerts.v<major>' }],
+      }
+    }
+
+    const schema = this.schemas.get(Number(match[1]))
+    if (!schema) {
+      return {
+        valid: false,
+        errors: [
+          {
+            path: 'schema_version',
+            message: `unsupported major version ${version} (supported: ${this.supportedVersions().join(', ')})`,
+          },
+        ],
+      }
+    }
+
+    const errors = schema.validate(payload)
+    if (errors.length > 0) {
+      return { valid: false, errors }
+    }
+
+    if (!schema.upgrade) {
+      return { valid: true, event: payload as unknown as AlertEvent, version }
+    }
+
+    // Upgraded payloads must still satisfy the canonical shape
+    const event = schema.upgrade(payload)
+    const upgradeErrors = alertsV1.validate(event as unknown as Record<string, unknown>)
+    if (upgradeErrors.length > 0) {
+      return {
+        valid: false,
+        errors: upgradeErrors.map((e) => ({ ...e, message: `${e.message} (after upgrade)` })),
+      }
+    }
+    return { valid: true, event, version }
+  }
+}
+
+export const alertSchemas = new SchemaRegistry().register(alertsV1)
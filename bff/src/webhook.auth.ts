@@ -0,0 +1,140 @@
+import crypto from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+
+// HMAC-SHA256 verification for webhook ingestion.
+//
+// Senders compute hex(HMAC_SHA256(secret, `${timestamp}.${rawBody}`)) and send:
+//   X-Signature-Timestamp: <unix seconds>
+//   X-Signature: sha256=<hex digest>
+// Several secrets may be active at once so keys can be rotated without downtime.
+
+export const SIGNATURE_HEADER = 'x-signature'
+export const TIMESTAMP_HEADER = 'x-signature-timestamp'
+
+export type RejectionReason =
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'replayed'
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer
+}
+
+export interface WebhookVerifierOptions {
+  secrets: string[]
+  toleranceSeconds?: number
+}
+
+export function signPayload(secret: string, timestamp: number, body: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex')
+}
+
+export class WebhookVerifier {
+  private secrets: string[]
+  private toleranceSeconds: number
+  // Signatures already accepted, with the time they fall out of the tolerance window
+  private seen: Map<string, number> = new Map()
+  private rejections: Record<RejectionReason, number> = {
+    missing_signature: 0,
+    malformed_signature: 0,
+    invalid_signature: 0,
+    stale_timestamp: 0,
+    replayed: 0,
+  }
+
+  constructor(options: WebhookVerifierOptions) {
+    this.secrets = options.secrets.filter((s) => s.length > 0)
+    this.toleranceSeconds = options.toleranceSeconds ?? 300
+
+    if (this.secrets.length === 0) {
+      console.warn('WEBHOOK_SECRETS is not set. Webhook signatures will not be verified.')
+    }
+  }
+
+  get enabled(): boolean {
+    return this.secrets.length > 0
+  }
+
+  verify(
+    rawBody: Buffer,
+    signatureHeader: string | undefined,
+    timestampHeader: string | undefined,
+    now = Date.now()
+  ): { ok: true } | { ok: false; reason: RejectionReason } {
+    if (!signatureHeader || !timestampHeader) {
+      return this.reject('missing_signature')
+    }
+
+    const match = /^sha256=([0-9a-f]{64})$/i.exec(signatureHeader.trim())
+    const timestamp = Number(timestampHeader)
+    if (!match || !Number.isInteger(timestamp)) {
+      return this.reject('malformed_signature')
+    }
+
+    if (Math.abs(now / 1000 - timestamp) > this.toleranceSeconds) {
+      return this.reject('stale_timestamp')
+    }
+
+    const provided = Buffer.from(match[1].toLowerCase(), 'hex')
+    const valid = this.secrets.some((secret) => {
+      const expected = Buffer.from(signPayload(secret, timestamp, rawBody), 'hex')
+      return crypto.timingSafeEqual(expected, provided)
+    })
+    if (!valid) {
+      return this.reject('invalid_signature')
+    }
+
+    this.pruneSeen(now)
+    const key = match[1].toLowerCase()
+    if (this.seen.has(key)) {
+      return this.reject('replayed')
+    }
+    this.seen.set(key, (timestamp + this.toleranceSeconds) * 1000)
+
+    return { ok: true }
+  }
+
+  // Express middleware guarding ingestion routes; a no-op when no secrets are configured
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.enabled) return next()
+
+      const result = this.verify(
+        (req as RawBodyRequest).rawBody ?? Buffer.alloc(0),
+        req.header(SIGNATURE_HEADER),
+        req.header(TIMESTAMP_HEADER)
+      )
+
+      if (!result.ok) {
+        console.warn(`Rejected webhook from ${req.ip}: ${result.reason}`)
+        return res
+          .status(401)
+          .json({ success: false, error: 'Invalid webhook signature', reason: result.reason })
+      }
+      next()
+    }
+  }
+
+  stats() {
+    const total = Object.values(this.rejections).reduce((sum, count) => sum + count, 0)
+    return { enabled: this.enabled, rejected_total: total, rejected: { ...this.rejections } }
+  }
+
+  private reject(reason: RejectionReason): { ok: false; reason: RejectionReason } {
+    this.rejections[reason]++
+    return { ok: false, reason }
+  }
+
+  private pruneSeen(now: number) {
+    for (const [key, expiresAt] of this.seen) {
+      if (expiresAt < now) this.seen.delete(key)
+    }
+  }
+}
+
+// Body-parser hook that keeps the exact bytes the signature was computed over
+export function captureRawBody(req: Request, _res: Response, buf: Buffer) {
+  ;(req as RawBodyRequest).rawBody = buf
+}
@@ -0,0 +1,69 @@
+import axios from 'axios'
+import { BaseChannel, DeliveryResult, NotificationMessage, isRetryableStatus } from './channel'
+import { signPayload } from './webhook.auth'
+
+// Generic outbound webhook: POSTs the notification as JSON to each configured URL, either
+// the rendered webhook.json template or, for plain messages, the subject and text.
+// With a secret, requests are signed the same way /ingest expects inbound webhooks
+// to be signed (X-Signature-Timestamp and X-Signature: sha256=<hex>). Only the configured
+// URLs are ever posted to, whatever a routing rule or caller names as the recipient.
+
+const REQUEST_TIMEOUT_MS = 10000
+
+export interface WebhookChannelOptions {
+  urls: string[]
+  secret?: string
+}
+
+export class WebhookChannel extends BaseChannel {
+  readonly kind = 'webhook' as const
+
+  constructor(
+    name: string,
+    private options: WebhookChannelOptions
+  ) {
+    super(name, options.urls)
+  }
+
+  protected async deliver(url: string, message: NotificationMessage): Promise<DeliveryResult> {
+    if (!this.options.urls.includes(url)) {
+      return {
+        success: false,
+        recipient: url,
+        error: `${url} is not a configured webhook URL`,
+        retryable: false,
+      }
+    }
+
+    const body = JSON.stringify({
+      ...(message.payload ?? { subject: message.subject, text: message.text }),
+      sent_at: new Date().toISOString(),
+    })
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.options.secret) {
+      const timestamp = Math.floor(Date.now() / 1000)
+      headers['X-Signature-Timestamp'] = String(timestamp)
+      headers['X-Signature'] = `sha256=${signPayload(this.options.secret, timestamp, body)}`
+    }
+
+    try {
+      const response = await axios.post(url, body, { headers, timeout: REQUEST_TIMEOUT_MS })
+      return {
+        success: true,
+        recipient: url,
+        provider_response: { status: response.status, data: response.data },
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        recipient: url,
+        provider_response: error?.response
+          ? { status: error.response.status, data: error.response.data }
+          : undefined,
+        error: error?.response ? `HTTP ${error.response.status}` : error.message,
+        retryable: isRetryableStatus(error?.response?.status),
+      }
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import http from 'http'
+import WebSocket from 'ws'
+import { StreamClient, StreamClientOptions } from './stream.client'
+import { StreamService } from './stream.service'
+import { parseSubscription } from './subscriptions'
+
+// Alert stream over the /ws WebSocket. Clients narrow the stream with
+// {"type":"subscribe", "namespaces": [...], "services": [...], "severities": [...],
+// "dedupe_keys": [...]}, each subscribe replacing the previous one, and after a reconnect
+// send {"type":"resume", "since": <last seq seen>} to get what they missed.
+// Liveness is checked with ping/pong: a client that has not answered the previous ping by
+// the next heartbeat is considered gone.
+export class WebSocketClient extends StreamClient {
+  readonly transport = 'websocket' as const
+  private alive = true
+
+  constructor(
+    private ws: WebSocket,
+    request: http.IncomingMessage,
+    private stream: StreamService,
+    options: StreamClientOptions
+  ) {
+    super(request.socket.remoteAddress ?? null, request.headers['user-agent'] ?? null, options)
+
+    ws.on('pong', () => {
+      this.alive = true
+    })
+    ws.on('message', (raw) => this.receive(raw.toString()))
+    ws.on('close', () => {
+      console.log('Client disconnected from WebSocket')
+      stream.detach(this)
+    })
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error)
+    })
+  }
+
+  isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN
+  }
+
+  heartbeat(): boolean {
+    if (!this.alive) return false
+    this.alive = false
+    this.ws.ping()
+    return true
+  }
+
+  close() {
+    this.ws.terminate()
+  }
+
+  protected write(payload: string) {
+    this.ws.send(payload, () => this.drain())
+  }
+
+  protected bufferedBytes(): number {
+    return this.ws.bufferedAmount
+  }
+
+  private receive(raw: string) {
+    let request: Record<string, unknown> | null
+    try {
+      request = JSON.parse(raw)
+    } catch {
+      this.send({ type: 'error', data: { error: 'Messages must be JSON' } })
+      return
+    }
+
+    if (request?.type === 'subscribe') {
+      const parsed = parseSubscription(request)
+      if ('error' in parsed) {
+        this.send({ type: 'error', data: { error: parsed.error } })
+        return
+      }
+      this.subscription = parsed.subscription
+      this.send({ type: 'subscribed', data: parsed.subscription })
+    } else if (request?.type === 'resume') {
+      const since = Number(request.since)
+      if (!Number.isInteger(since) || since < 0) {
+        this.send({ type: 'error', data: { error: 'since must be a non-negative integer' } })
+        return
+      }
+      if (this.held) {
+        this.send({ type: 'error', data: { error: 'A resume is already in progress' } })
+        return
+      }
+      this.stream.resume(this, since)
+    } else {
+      this.send({ type: 'error', data: { error: `Unknown message type: ${request?.type}` } })
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import net from 'node:net'
+import { AddressInfo } from 'node:net'
+import { WebhookChannel } from '../src/webhook.channel'
+import { FitSmsChannel } from '../src/fitsms.channel'
+import { SmtpChannel } from '../src/smtp.channel'
+import { signPayload } from '../src/webhook.auth'
+
+// The notification channels against local stand-ins for the services they talk to: an HTTP
+// server for webhooks and FitSMS, and a minimal SMTP server for email.
+
+interface HttpRequest {
+  url: string
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+interface StandIn<T> {
+  url: string
+  received: T[]
+  close(): Promise<void>
+}
+
+// Answers every request with the status and JSON body `reply` gives for it
+function startHttpServer(
+  reply: (request: HttpRequest) => [number, unknown] = () => [200, { ok: true }]
+): Promise<StandIn<HttpRequest>> {
+  const received: HttpRequest[] = []
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk) => chunks.push(chunk))
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString()
+      const request = { url: req.url ?? '', headers: req.headers, body }
+      received.push(request)
+      const [status, response] = reply(request)
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(response))
+    })
+  })
+  return listen(server, 'http', received, () => server.closeAllConnections())
+}
+
+interface SmtpMessage {
+  from: string
+  to: string[]
+  data: string
+}
+
+// Just enough SMTP for nodemailer: no TLS, no auth, no pipelining. RCPT TO for any address
+// in `rejected` is refused with 550.
+function startSmtpServer(rejected: string[] = []): Promise<StandIn<SmtpMessage>> {
+  const received: SmtpMessage[] = []
+  const sockets = new Set<net.Socket>()
+  const server = net.createServer((socket) => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+    let buffer = ''
+    let data: string | null = null
+    let message: SmtpMessage = { from: '', to: [], data: '' }
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+
+    reply('220 stand-in ESMTP')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      let end: number
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        if (data !== null) {
+          if (line !== '.') {
+            data += `${line}\n`
+            continue
+          }
+          received.push({ ...message, data })
+          message = { from: '', to: [], data: '' }
+          data = null
+          reply('250 OK queued as stand-in')
+          continue
+        }
+
+        const address = /<(.*)>/.exec(line)?.[1] ?? ''
+        switch (line.slice(0, 4).toUpperCase()) {
+          case 'EHLO':
+          case 'HELO':
+            reply('250 stand-in')
+            break
+          case 'MAIL':
+            message.from = address
+            reply('250 OK')
+            break
+          case 'RCPT':
+            if (rejected.includes(address)) {
+              reply('550 No such user')
+            } else {
+              message.to.push(address)
+              reply('250 OK')
+            }
+            break
+          case 'DATA':
+            data = ''
+            reply('354 End data with <CR><LF>.<CR><LF>')
+            break
+          case 'QUIT':
+            socket.end('221 Bye\r\n')
+            break
+          default:
+            reply('250 OK')
+        }
+      }
+    })
+  })
+  return listen(server, 'smtp', received, () => sockets.forEach((socket) => socket.destroy()))
+}
+
+function listen<T>(
+  server: net.Server,
+  scheme: string,
+  received: T[],
+  dropConnections: () => void
+): Promise<StandIn<T>> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        url: `${scheme}://127.0.0.1:${port}`,
+        received,
+        close: () =>
+          new Promise((done) => {
+            dropConnections()
+            server.close(() => done())
+          }),
+      })
+    })
+  })
+}
+
+const message = { subject: 'Checkout latency', text: 'p99 is 2.4s on shop/checkout' }
+
+describe('WebhookChannel', () => {
+  let standIn: StandIn<HttpRequest>
+  before(async () => {
+    standIn = await startHttpServer((request) =>
+      request.url === '/broken' ? [503, { error: 'down' }] : [200, { ok: true }]
+    )
+  })
+  after(() => standIn.close())
+
+  it('posts the message as signed JSON to each configured URL', async () => {
+    const urls = [`${standIn.url}/a`, `${standIn.url}/b`]
+    const channel = new WebhookChannel('webhook', { urls, secret: 'shh' })
+    const results = await channel.send(message)
+
+    assert.deepEqual(
+      results.map((r) => [r.recipient, r.success]),
+      urls.map((url) => [url, true])
+    )
+    const request = standIn.received.find((r) => r.url === '/a')
+    assert.ok(request)
+    assert.equal(JSON.parse(request.body).subject, message.subject)
+    const timestamp = Number(request.headers['x-signature-timestamp'])
+    const signature = signPayload('shh', timestamp, request.body)
+    assert.equal(request.headers['x-signature'], `sha256=${signature}`)
+  })
+
+  it('refuses recipients that are not configured URLs without sending anything', async () => {
+    const channel = new WebhookChannel('webhook', { urls: [`${standIn.url}/a`] })
+    const sent = standIn.received.length
+    const [result] = await channel.send({ ...message, recipient: `${standIn.url}/elsewhere` })
+
+    assert.equal(result.success, false)
+    assert.equal(result.retryable, false)
+    assert.equal(standIn.received.length, sent)
+  })
+
+  it('reports server errors as retryable', async () => {
+    const channel = new WebhookChannel('webhook', { urls: [`${standIn.url}/broken`] })
+    const [result] = await channel.send(message)
+
+    assert.equal(result.success, false)
+    assert.equal(result.error, 'HTTP 503')
+    assert.equal(result.retryable, true)
+    assert.equal((await channel.health()).status, 'degraded')
+  })
+})
+
+describe('FitSmsChannel', () => {
+  let standIn: StandIn<HttpRequest>
+  before(async () => {
+    standIn = await startHttpServer((request) =>
+      JSON.parse(request.body).recipient === '000'
+        ? [422, { message: 'Invalid recipient' }]
+        : [200, { status: 'success' }]
+    )
+  })
+  after(() => standIn.close())
+
+  const channel = () =>
+    new FitSmsChannel('sms', {
+      url: `${standIn.url}/api/v3/sms/send`,
+      apiKey: 'key',
+      senderId: 'Alerts',
+      recipients: ['94770000000'],
+    })
+
+  it('sends the text to the default recipients with the API key', async () => {
+    const [result] = await channel().send(message)
+
+    assert.equal(result.success, true)
+    const request = standIn.received[standIn.received.length - 1]
+    assert.equal(request.url, '/api/v3/sms/send')
+    assert.equal(request.headers.authorization, 'Bearer key')
+    assert.deepEqual(JSON.parse(request.body), {
+      recipient: '94770000000',
+      sender_id: 'Alerts',
+      type: 'plain',
+      message: message.text,
+    })
+  })
+
+  it('does not retry a rejected recipient', async () => {
+    const [result] = await channel().send({ ...message, recipient: '000' })
+
+    assert.equal(result.success, false)
+    assert.equal(result.error, 'Invalid recipient')
+    assert.equal(result.retryable, false)
+  })
+})
+
+describe('SmtpChannel', () => {
+  let standIn: StandIn<SmtpMessage>
+  before(async () => {
+    standIn = await startSmtpServer(['nobody@example.com'])
+  })
+  after(() => standIn.close())
+
+  const channel = () =>
+    new SmtpChannel('email', {
+      host: '127.0.0.1',
+      port: Number(new URL(standIn.url).port),
+      from: 'alerts@example.com',
+      recipients: ['oncall@example.com'],
+    })
+
+  it('mails the message to the default recipients', async () => {
+    const [result] = await channel().send(message)
+
+    assert.equal(result.success, true)
+    const mail = standIn.received[standIn.received.length - 1]
+    assert.equal(mail.from, 'alerts@example.com')
+    assert.deepEqual(mail.to, ['oncall@example.com'])
+    assert.match(mail.data, /^Subject: Checkout latency$/m)
+    assert.match(mail.data, /p99 is 2\.4s on shop\/checkout/)
+  })
+
+  it('does not retry a recipient the server refuses', async () => {
+    const [result] = await channel().send({ ...message, recipient: 'nobody@example.com' })
+
+    assert.equal(result.success, false)
+    assert.equal(result.retryable, false)
+  })
+
+  it('reports the server reachable in its health', async () => {
+    assert.equal((await channel().health()).status, 'ok')
+  })
+})
@@ -0,0 +1,365 @@
+import { before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { DataType, IMemoryDb, newDb } from 'pg-mem'
+import { PostgresStorage } from '../src/postgres.storage'
+import { projectIncident } from '../src/projection'
+import { AlertEvent, NotificationRecord } from '../src/types'
+import { DigestEntry } from '../src/templates'
+
+// PostgresStorage against pg-mem, an in-process Postgres handed in through the Pool overload.
+// pg-mem implements few built-in functions and no SQL-language ones, so the ones the storage
+// relies on are given JavaScript equivalents below.
+
+// JavaScript bodies for the functions the migrations create with LANGUAGE sql
+const SQL_FUNCTIONS: Record<string, (...args: any[]) => boolean> = {
+  reason_codes_match: (codes: string[], q: string) =>
+    codes.some((code) => code.toLowerCase().includes(q)),
+}
+
+function standInDb(): IMemoryDb {
+  const db = newDb({ noAstCoverageCheck: true })
+  db.public.registerFunction({
+    name: 'pg_advisory_xact_lock',
+    args: [DataType.bigint],
+    returns: DataType.text,
+    implementation: () => '',
+    impure: true,
+  })
+  db.public.registerFunction({
+    name: 'pg_notify',
+    args: [DataType.text, DataType.text],
+    returns: DataType.text,
+    implementation: () => '',
+    impure: true,
+  })
+  db.public.registerFunction({
+    name: 'hashtext',
+    args: [DataType.text],
+    returns: DataType.integer,
+    implementation: (text: string) => text.length,
+  })
+  db.public.registerFunction({
+    name: 'strpos',
+    args: [DataType.text, DataType.text],
+    returns: DataType.integer,
+    implementation: (text: string, search: string) => text.indexOf(search) + 1,
+  })
+  db.registerLanguage('sql', ({ functionName }) => {
+    const implementation = functionName && SQL_FUNCTIONS[functionName]
+    if (!implementation) throw new Error(`No stand-in for SQL function ${functionName}`)
+    return implementation
+  })
+  return db
+}
+
+function makeEvent(
+  id: string,
+  service: string,
+  observedAt: string,
+  overrides: { severity?: AlertEvent['alert']['severity']; state?: 'firing' | 'resolved' } = {},
+  reasonCodes: string[] = ['latency_breach'],
+  auto = false
+): AlertEvent {
+  return {
+    schema_version: 'alerts.v1',
+    event_id: id,
+    dedupe_key: `latency-${service}`,
+    observed_at: observedAt,
+    sent_at: observedAt,
+    service: { name: service, namespace: 'shop' },
+    alert: {
+      type: 'latency',
+      state: overrides.state ?? 'firing',
+      severity: overrides.severity ?? 'high',
+    },
+    decision: { action: 'investigate', auto, priority: 'P2', reason_codes: reasonCodes },
+  }
+}
+
+describe('PostgresStorage', () => {
+  const db = standInDb()
+  const storage = new PostgresStorage(new (db.adapters.createPg().Pool)())
+
+  const events = [
+    makeEvent('evt-1', 'checkout', '2026-01-01T00:00:00.000Z', { severity: 'high' }),
+    makeEvent('evt-2', 'cart', '2026-01-01T00:01:00.000Z', { severity: 'high' }, [
+      'error_spike',
+      'saturation',
+    ]),
+    makeEvent('evt-3', 'checkout', '2026-01-01T00:02:00.000Z', { severity: 'critical' }),
+    makeEvent('evt-4', 'search', '2026-01-01T00:03:00.000Z', {}, ['error_spike'], true),
+    makeEvent('evt-5', 'search', '2026-01-01T00:04:00.000Z', { state: 'resolved' }, ['error_spike'], true),
+  ]
+
+  const reproject = async (event: AlertEvent) => {
+    const history = await storage.getEventHistory(
+      event.dedupe_key,
+      event.service.namespace,
+      event.service.name
+    )
+    await storage.upsertIncident(projectIncident(history))
+  }
+
+  before(() => storage.init())
+
+  it('applies every migration once', async () => {
+    const versions = () =>
+      db.public.many('SELECT version FROM schema_migrations ORDER BY version').map((r) => r.version)
+    const applied = versions()
+    assert.deepEqual(
+      applied,
+      applied.map((_, i) => i + 1)
+    )
+
+    await storage.init()
+    assert.deepEqual(versions(), applied)
+  })
+
+  it('stores each event once and keeps arrival order in the history', async () => {
+    for (const event of events) assert.equal(await storage.insertEvent(event), true)
+    assert.equal(await storage.insertEvent(events[0]), false)
+
+    const history = await storage.getEventHistory('latency-checkout', 'shop', 'checkout')
+    assert.deepEqual(
+      history.map((event) => event.event_id),
+      ['evt-1', 'evt-3']
+    )
+  })
+
+  it('upserts incidents in place', async () => {
+    await reproject(events[0])
+    for (const event of events) await reproject(event)
+
+    assert.equal(await storage.countIncidents(), 3)
+    const checkout = await storage.getIncident('latency-checkout', 'shop', 'checkout')
+    assert.equal(checkout?.current_severity, 'critical')
+    assert.equal(checkout?.event_count, 2)
+    assert.equal(checkout?.latest_event_id, 'evt-3')
+    const search = await storage.getIncident('latency-search', 'shop', 'search')
+    assert.equal(search?.status, 'RESOLVED')
+  })
+
+  it('runs work under an incident lock on one transaction and passes errors on', async () => {
+    const key = { dedupe_key: 'latency-checkout', namespace: 'shop', service: 'checkout' }
+
+    // pg-mem does not undo a ROLLBACK, so only the error itself is checked here
+    await assert.rejects(
+      storage.withIncidentLock(key, async () => {
+        throw new Error('fold failed')
+      }),
+      /fold failed/
+    )
+
+    const late = makeEvent('evt-6', 'checkout', '2026-01-01T00:01:30.000Z')
+    const seen = await storage.withIncidentLock(key, async (locked) => {
+      await locked.insertEvent(late)
+      return (await locked.getEventHistory(key.dedupe_key, key.namespace, key.service)).length
+    })
+    assert.equal(seen, 3)
+    assert.ok(await storage.getEvent('evt-6'))
+  })
+
+  it('sums incidents into the overview', async () => {
+    // pg-mem ignores ORDER BY inside aggregates, so it cannot say which time is the latest
+    const { last_updated_at, ...overview } = await storage.getOverview()
+    assert.ok(last_updated_at)
+    assert.deepEqual(overview, {
+      total_incidents: 3,
+      open_incidents: 2,
+      resolved_incidents: 1,
+      critical_count: 1,
+      high_count: 2,
+      medium_count: 0,
+      low_count: 0,
+      auto_actions_count: 1,
+      manual_actions_count: 2,
+      services_affected: 3,
+    })
+  })
+
+  it('rolls open incidents up per service', async () => {
+    assert.deepEqual(await storage.getServices(), [
+      {
+        namespace: 'shop',
+        service: 'checkout',
+        open_incidents: 1,
+        critical_count: 1,
+        high_count: 0,
+        medium_count: 0,
+        low_count: 0,
+        last_alert_at: '2026-01-01T00:02:00.000Z',
+      },
+      {
+        namespace: 'shop',
+        service: 'cart',
+        open_incidents: 1,
+        critical_count: 0,
+        high_count: 1,
+        medium_count: 0,
+        low_count: 0,
+        last_alert_at: '2026-01-01T00:01:00.000Z',
+      },
+      {
+        namespace: 'shop',
+        service: 'search',
+        open_incidents: 0,
+        critical_count: 0,
+        high_count: 0,
+        medium_count: 0,
+        low_count: 0,
+        last_alert_at: '2026-01-01T00:04:00.000Z',
+      },
+    ])
+  })
+
+  it('claims each due notification once until the claim lapses or is released', async () => {
+    const at = (minute: number) => `2026-01-01T01:0${minute}:00.000Z`
+    const notification = (id: string, nextAttemptAt: string): NotificationRecord => ({
+      notification_id: id,
+      reason: 'alert',
+      dedupe_key: null,
+      namespace: null,
+      service: null,
+      event_id: null,
+      channel: 'webhook',
+      recipient: 'https://hooks.example.com',
+      subject: 'Checkout latency',
+      body: 'p99 is 2.4s',
+      html: null,
+      payload: null,
+      status: 'retrying',
+      attempts: 1,
+      last_error: 'HTTP 503',
+      provider_response: null,
+      next_attempt_at: nextAttemptAt,
+      created_at: at(0),
+      updated_at: at(0),
+      sent_at: null,
+    })
+    await storage.insertNotification(notification('n-later', at(2)))
+    await storage.insertNotification(notification('n-due', at(1)))
+    await storage.insertNotification(notification('n-sending', at(1)), at(5))
+
+    const ids = (records: NotificationRecord[]) => records.map((n) => n.notification_id)
+    assert.deepEqual(ids(await storage.claimDueNotifications(at(3), at(4), 10)), [
+      'n-due',
+      'n-later',
+    ])
+    assert.deepEqual(ids(await storage.claimDueNotifications(at(3), at(4), 10)), [])
+    assert.equal(await storage.claimNotification('n-due', at(3), at(4)), null)
+
+    // Released by recording the outcome, lapsed at its end
+    await storage.updateNotification({ ...notification('n-due', at(6)), attempts: 2 })
+    assert.deepEqual(ids(await storage.claimDueNotifications(at(6), at(7), 10)), [
+      'n-sending',
+      'n-later',
+      'n-due',
+    ])
+  })
+
+  it('lets one run of a periodic job through per window', async () => {
+    const at = (minute: number) => `2026-01-01T02:0${minute}:00.000Z`
+
+    assert.deepEqual(await storage.claimJobRun('digest', at(1), at(0)), { previous_run_at: null })
+    assert.equal(await storage.claimJobRun('digest', at(2), at(1)), null)
+    assert.deepEqual(await storage.claimJobRun('digest', at(3), at(2)), {
+      previous_run_at: at(1),
+    })
+    assert.deepEqual(await storage.claimJobRun('escalations', at(3), at(3)), {
+      previous_run_at: null,
+    })
+  })
+
+  it('hands out queued digest entries once, oldest first', async () => {
+    const entry = (kind: 'opened' | 'resolved'): DigestEntry => ({
+      dedupe_key: 'latency-cart',
+      namespace: 'shop',
+      service: 'cart',
+      severity: 'low',
+      alert_type: 'latency',
+      transitions: [kind],
+      last_observed_at: '2026-01-01T00:01:00.000Z',
+    })
+    const queued = [
+      { target: { channel: 'email', recipients: ['oncall@example.com'] }, entry: entry('opened') },
+      { target: { channel: 'webhook' }, entry: entry('opened') },
+      { target: { channel: 'webhook' }, entry: entry('resolved') },
+    ]
+    for (const item of queued) await storage.insertDigestEntry(item)
+
+    assert.deepEqual(await storage.takeDigestEntries(), queued)
+    assert.deepEqual(await storage.takeDigestEntries(), [])
+  })
+
+  it('numbers stream messages on from the newest one in the log', async () => {
+    const message = (id: string) => ({ type: 'note_deleted' as const, data: { note_id: id } })
+
+    assert.equal((await storage.appendStreamMessage(message('a'))).seq, 1)
+    assert.equal((await storage.appendStreamMessage(message('b'))).seq, 2)
+    assert.equal(await storage.deleteStreamMessagesThrough(1), 1)
+    assert.deepEqual(await storage.appendStreamMessage(message('c')), { ...message('c'), seq: 3 })
+
+    assert.deepEqual(await storage.getStreamBounds(), { first: 2, last: 3 })
+    assert.deepEqual(
+      (await storage.listStreamMessages(0, 10)).map((m) => [m.seq, m.data]),
+      [
+        [2, { note_id: 'b' }],
+        [3, { note_id: 'c' }],
+      ]
+    )
+  })
+
+  it('matches q against the service, the dedupe key and each reason code', async () => {
+    const services = async (q: string) =>
+      (await storage.listIncidents({ q })).map((incident) => incident.service)
+
+    assert.deepEqual(await services('check'), ['checkout'])
+    assert.deepEqual(await services('latency-c'), ['checkout', 'cart'])
+    assert.deepEqual(await services('spike'), ['search', 'cart'])
+    assert.deepEqual(await services('satur'), ['cart'])
+    // Only in the JSON text of the array, never in a code
+    assert.deepEqual(await services('","'), [])
+    assert.equal(await storage.countIncidents({ q: 'breach' }), 1)
+  })
+
+  it('pages from a cursor, breaking ties on the incident key', async () => {
+    const first = await storage.listIncidents(undefined, {
+      sort: 'last_observed_at',
+      order: 'desc',
+      limit: 2,
+    })
+    assert.deepEqual(
+      first.map((incident) => incident.service),
+      ['search', 'checkout']
+    )
+
+    const last = first[first.length - 1]
+    const next = await storage.listIncidents(undefined, {
+      sort: 'last_observed_at',
+      order: 'desc',
+      limit: 2,
+      after: {
+        value: Date.parse(last.last_observed_at),
+        namespace: last.namespace,
+        service: last.service,
+        dedupe_key: last.dedupe_key,
+      },
+    })
+    assert.deepEqual(
+      next.map((incident) => incident.service),
+      ['cart']
+    )
+
+    // search and cart are both high, so the key orders them
+    const high = 4
+    const bySeverity = await storage.listIncidents(undefined, {
+      sort: 'severity',
+      order: 'desc',
+      after: { value: high, namespace: 'shop', service: 'search', dedupe_key: 'latency-search' },
+    })
+    assert.deepEqual(
+      bySeverity.map((incident) => incident.service),
+      ['cart']
+    )
+  })
+})
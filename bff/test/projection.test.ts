@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { projectIncident } from '../src/projection'
+import { AlertEvent, IncidentAction } from '../src/types'
+
+// Property tests for projectIncident: whatever order a history arrives in, it projects to
+// the same incident; only the late_arrival quality flag depends on arrival order.
+
+const HISTORIES = 200
+const SHUFFLES = 10
+const BASE = Date.parse('2025-01-01T00:00:00Z')
+
+const SEVERITIES: AlertEvent['alert']['severity'][] = ['warning', 'medium', 'high', 'critical']
+
+// mulberry32, so a failure can be reproduced from its seed
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function shuffle<T>(random: () => number, items: T[]): T[] {
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = copy[i]
+    copy[i] = copy[j]
+    copy[j] = swap
+  }
+  return copy
+}
+
+function makeEvent(random: () => number, index: number): AlertEvent {
+  // Coarse minutes so that some events share an observed_at
+  const observedAt = new Date(BASE + Math.floor(random() * 20) * 60000).toISOString()
+  const severity = pick(random, SEVERITIES)
+  return {
+    schema_version: 'alerts.v1',
+    event_id: `evt-${index}`,
+    dedupe_key: 'latency-checkout',
+    observed_at: observedAt,
+    sent_at: observedAt,
+    service: { name: 'checkout', namespace: 'shop' },
+    alert: { type: 'latency', state: random() < 0.3 ? 'resolved' : 'firing', severity },
+    decision: {
+      action: pick(random, ['scale_up', 'rollback', 'investigate']),
+      auto: random() < 0.5,
+      priority: pick(random, ['P1', 'P2', 'P3']),
+      risk_score: Math.round(random() * 100),
+      reason_codes: [pick(random, ['latency_breach', 'error_spike'])],
+    },
+    ...(random() < 0.5 ? { evidence: { latency_p99: Math.round(random() * 2000) } } : {}),
+  }
+}
+
+function makeActions(random: () => number): IncidentAction[] {
+  const actions: IncidentAction[] = []
+  const count = Math.floor(random() * 4)
+  for (let i = 0; i < count; i++) {
+    const at = new Date(BASE + Math.floor(random() * 20) * 60000 + 30000).toISOString()
+    const action = pick(random, ['acknowledge', 'assign', 'resolve', 'reopen'] as const)
+    actions.push({
+      action_id: `act-${i}`,
+      dedupe_key: 'latency-checkout',
+      namespace: 'shop',
+      service: 'checkout',
+      action,
+      actor: 'oncall',
+      at,
+      ...(action === 'assign' ? { assignee: 'alice' } : {}),
+    })
+  }
+  return actions.sort((a, b) => Date.parse(a.at) - Date.parse(b.at))
+}
+
+function makeHistory(seed: number): { events: AlertEvent[]; actions: IncidentAction[] } {
+  const random = seededRandom(seed)
+  const length = 1 + Math.floor(random() * 8)
+  const events = Array.from({ length }, (_, index) => makeEvent(random, index))
+  return { events, actions: makeActions(random) }
+}
+
+function withoutQualityFlags(events: AlertEvent[], actions: IncidentAction[]) {
+  const { quality_flags: _flags, ...incident } = projectIncident(events, actions)
+  return incident
+}
+
+function arrivedOutOfOrder(events: AlertEvent[]): boolean {
+  return events.some(
+    (event, i) => i > 0 && Date.parse(event.observed_at) < Date.parse(events[i - 1].observed_at)
+  )
+}
+
+describe('projectIncident', () => {
+  it('projects every arrival order of a history to the same incident', () => {
+    for (let seed = 1; seed <= HISTORIES; seed++) {
+      const { events, actions } = makeHistory(seed)
+      const expected = withoutQualityFlags(events, actions)
+      const random = seededRandom(seed * 7919)
+      for (let i = 0; i < SHUFFLES; i++) {
+        const shuffled = shuffle(random, events)
+        assert.deepEqual(
+          withoutQualityFlags(shuffled, actions),
+          expected,
+          `history ${seed}, arrival order ${shuffled.map((e) => e.event_id).join(',')}`
+        )
+      }
+    }
+  })
+
+  it('flags late_arrival only when arrival order differs from observed_at order', () => {
+    for (let seed = 1; seed <= HISTORIES; seed++) {
+      const { events, actions } = makeHistory(seed)
+      const random = seededRandom(seed * 7919)
+      for (let i = 0; i < SHUFFLES; i++) {
+        const shuffled = shuffle(random, events)
+        const { quality_flags } = projectIncident(shuffled, actions)
+        assert.equal(
+          quality_flags.includes('late_arrival'),
+          arrivedOutOfOrder(shuffled),
+          `history ${seed}, arrival order ${shuffled.map((e) => e.event_id).join(',')}`
+        )
+      }
+    }
+  })
+
+  it('keeps the other quality flags independent of arrival order', () => {
+    for (let seed = 1; seed <= HISTORIES; seed++) {
+      const { events, actions } = makeHistory(seed)
+      const expected = projectIncident(events, actions).quality_flags.filter(
+        (flag) => flag !== 'late_arrival'
+      )
+      const shuffled = shuffle(seededRandom(seed), events)
+      const flags = projectIncident(shuffled, actions).quality_flags
+      assert.deepEqual(
+        flags.filter((flag) => flag !== 'late_arrival'),
+        expected
+      )
+    }
+  })
+})
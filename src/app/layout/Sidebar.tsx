@@ -1,13 +1,24 @@
 import { NavLink } from 'react-router'
-import { LayoutDashboard, LineChart, Beaker, History, AlertCircle, GitBranch } from 'lucide-react'
+import {
+  LayoutDashboard,
+  LineChart,
+  Beaker,
+  History,
+  AlertCircle,
+  GitBranch,
+  Bell,
+  BarChart3,
+} from 'lucide-react'
 
 const navItems = [
   { path: '/overview', label: 'Overview', icon: LayoutDashboard },
   { path: '/metrics', label: 'Metrics', icon: LineChart },
   { path: '/simulations', label: 'Simulations', icon: Beaker },
   { path: '/alerts', label: 'Alerts', icon: AlertCircle },
+  { path: '/reports', label: 'Reports', icon: BarChart3 },
   { path: '/history', label: 'History', icon: History },
   { path: '/decisions/scheduler', label: 'Scheduler', icon: GitBranch },
+  { path: '/settings/notifications', label: 'Notifications', icon: Bell },
 ]
 
 export default function Sidebar() {
@@ -9,7 +9,10 @@ import History from '@/pages/history/History'
 import DecisionDetail from '@/pages/history/DecisionDetail'
 import AlertsPlaceholder from '@/pages/alerts/AlertsPlaceholder'
 import IncidentDetail from '@/pages/alerts/IncidentDetail'
+import Silences from '@/pages/alerts/Silences'
 import SchedulerDecisions from '@/pages/decisions/SchedulerDecisions'
+import NotificationSettings from '@/pages/settings/NotificationSettings'
+import Reports from '@/pages/reports/Reports'
 
 export const router = createBrowserRouter([
   {
@@ -65,14 +68,26 @@ export const router = createBrowserRouter([
         path: 'alerts',
         element: <AlertsPlaceholder />,
       },
+      {
+        path: 'alerts/silences',
+        element: <Silences />,
+      },
       {
         path: 'alerts/:dedupeKey',
         element: <IncidentDetail />,
       },
+      {
+        path: 'reports',
+        element: <Reports />,
+      },
       {
         path: 'decisions/scheduler',
         element: <SchedulerDecisions />,
       },
+      {
+        path: 'settings/notifications',
+        element: <NotificationSettings />,
+      },
     ],
   },
 ])
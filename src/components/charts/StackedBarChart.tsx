@@ -0,0 +1,110 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+
+interface DataPoint {
+  timestamp: string
+  [series: string]: number | string
+}
+
+interface Series {
+  key: string
+  color: string
+  name?: string
+}
+
+interface StackedBarChartProps {
+  data: DataPoint[]
+  series: Series[]
+  height?: number
+  // Defaults to hours and minutes
+  formatTimestamp?: (timestamp: string) => string
+  yAxisLabel?: string
+}
+
+export default function StackedBarChart({
+  data,
+  series,
+  height = 240,
+  formatTimestamp,
+  yAxisLabel,
+}: Readonly<StackedBarChartProps>) {
+  const formatXAxis =
+    formatTimestamp ??
+    ((timestamp: string) =>
+      new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }))
+
+  const CustomTooltip = ({
+    active,
+    payload,
+  }: {
+    active?: boolean
+    payload?: Array<{ name: string; value: number; payload: DataPoint; color?: string }>
+  }) => {
+    if (active && payload && payload.length) {
+      const total = payload.reduce((sum, entry) => sum + entry.value, 0)
+      return (
+        <div className="bg-firebase-card border border-firebase-border rounded-lg p-3 shadow-lg">
+          <p className="text-xs text-firebase-text-secondary mb-2">
+            {new Date(payload[0].payload.timestamp).toLocaleString()}
+          </p>
+          {payload
+            .filter((entry) => entry.value > 0)
+            .reverse()
+            .map((entry) => (
+              <p key={entry.name} className="text-sm font-medium" style={{ color: entry.color }}>
+                {entry.name}: {entry.value}
+              </p>
+            ))}
+          <p className="text-xs text-firebase-text-secondary mt-1">Total: {total}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <BarChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#2c2c2c" />
+        <XAxis
+          dataKey="timestamp"
+          tickFormatter={formatXAxis}
+          stroke="#5f6368"
+          tick={{ fill: '#9aa0a6', fontSize: 12 }}
+          minTickGap={20}
+        />
+        <YAxis
+          allowDecimals={false}
+          stroke="#5f6368"
+          tick={{ fill: '#9aa0a6', fontSize: 12 }}
+          label={
+            yAxisLabel
+              ? {
+                  value: yAxisLabel,
+                  angle: -90,
+                  position: 'insideLeft',
+                  fill: '#9aa0a6',
+                  fontSize: 12,
+                  style: { textAnchor: 'middle' },
+                }
+              : undefined
+          }
+        />
+        <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(255,255,255,0.04)' }} />
+        <Legend wrapperStyle={{ fontSize: '12px', color: '#9aa0a6' }} />
+        {/* Drawn bottom up, so the first series sits at the base of each stack */}
+        {series.map((s) => (
+          <Bar key={s.key} dataKey={s.key} name={s.name ?? s.key} stackId="stack" fill={s.color} />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,216 @@
+/**
+ * Markdown — Renders the small markdown subset used in incident notes.
+ *
+ * Supports headings, paragraphs, bullet and numbered lists, block quotes, fenced code,
+ * inline code, bold, italic and http(s)/mailto links. Underscore emphasis only applies at word
+ * boundaries so identifiers like late_arrival stay intact. Output is built from React
+ * elements only (no innerHTML), so note content can never inject markup.
+ */
+
+import type { ReactNode } from 'react'
+
+interface MarkdownProps {
+  readonly source: string
+  readonly className?: string
+}
+
+type Block =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'quote'; lines: string[] }
+  | { kind: 'code'; text: string }
+
+const HEADING_CLASSES = {
+  1: 'text-lg font-semibold text-white',
+  2: 'text-base font-semibold text-white',
+  3: 'text-sm font-semibold text-white',
+}
+
+export default function Markdown({ source, className = '' }: MarkdownProps) {
+  return (
+    <div className={`space-y-2 text-sm text-gray-200 ${className}`.trim()}>
+      {parseBlocks(source).map((block, idx) => renderBlock(block, idx))}
+    </div>
+  )
+}
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: Block[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    if (line.trimStart().startsWith('```')) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !lines[i].trimStart().startsWith('```')) {
+        code.push(lines[i])
+        i++
+      }
+      i++ // closing fence
+      blocks.push({ kind: 'code', text: code.join('\n') })
+      continue
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line)
+    if (heading) {
+      blocks.push({
+        kind: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        text: heading[2],
+      })
+      i++
+      continue
+    }
+
+    const listItem = /^\s*([-*]|\d+\.)\s+(.*)$/
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d+\./.test(line)
+      const items: string[] = []
+      while (i < lines.length) {
+        const match = listItem.exec(lines[i])
+        if (!match || /^\d+\.$/.test(match[1]) !== ordered) break
+        items.push(match[2])
+        i++
+      }
+      blocks.push({ kind: 'list', ordered, items })
+      continue
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = []
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quote.push(lines[i].replace(/^>\s?/, ''))
+        i++
+      }
+      blocks.push({ kind: 'quote', lines: quote })
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !/^(#{1,3}\s|>|```|\s*([-*]|\d+\.)\s)/.test(lines[i])
+    ) {
+      paragraph.push(lines[i])
+      i++
+    }
+    blocks.push({ kind: 'paragraph', lines: paragraph })
+  }
+
+  return blocks
+}
+
+function renderBlock(block: Block, key: number): ReactNode {
+  switch (block.kind) {
+    case 'heading':
+      return (
+        <div key={key} className={HEADING_CLASSES[block.level]}>
+          {renderInline(block.text)}
+        </div>
+      )
+    case 'list': {
+      const ListTag = block.ordered ? 'ol' : 'ul'
+      return (
+        <ListTag
+          key={key}
+          className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-0.5`}
+        >
+          {block.items.map((item, idx) => (
+            <li key={idx}>{renderInline(item)}</li>
+          ))}
+        </ListTag>
+      )
+    }
+    case 'quote':
+      return (
+        <blockquote key={key} className="border-l-2 border-gray-600 pl-3 text-gray-400">
+          {renderLines(block.lines)}
+        </blockquote>
+      )
+    case 'code':
+      return (
+        <pre
+          key={key}
+          className="bg-gray-900/70 border border-gray-700/50 rounded-lg p-3 text-xs font-mono overflow-x-auto"
+        >
+          {block.text}
+        </pre>
+      )
+    case 'paragraph':
+      return <p key={key}>{renderLines(block.lines)}</p>
+  }
+}
+
+function renderLines(lines: string[]): ReactNode[] {
+  return lines.flatMap((line, idx) =>
+    idx === 0 ? [renderInline(line)] : [<br key={`br-${idx}`} />, renderInline(line)]
+  )
+}
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b|\[([^\]]+)\]\(([^)\s]+)\)/
+
+function renderInline(text: string): ReactNode {
+  const nodes: ReactNode[] = []
+  let rest = text
+  let key = 0
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      nodes.push(rest)
+      break
+    }
+
+    if (match.index > 0) nodes.push(rest.slice(0, match.index))
+    const [whole, code, bold, italic, underscoreItalic, linkText, href] = match
+
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key++} className="px-1 py-0.5 bg-gray-900/70 rounded text-xs font-mono">
+          {code}
+        </code>
+      )
+    } else if (bold !== undefined) {
+      nodes.push(
+        <strong key={key++} className="font-semibold text-white">
+          {renderInline(bold)}
+        </strong>
+      )
+    } else if (italic !== undefined || underscoreItalic !== undefined) {
+      nodes.push(<em key={key++}>{renderInline(italic ?? underscoreItalic)}</em>)
+    } else if (isSafeHref(href)) {
+      nodes.push(
+        <a
+          key={key++}
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-400 hover:text-blue-300 underline"
+        >
+          {linkText}
+        </a>
+      )
+    } else {
+      nodes.push(whole)
+    }
+
+    rest = rest.slice(match.index + whole.length)
+  }
+
+  return nodes
+}
+
+function isSafeHref(href: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(href)
+}
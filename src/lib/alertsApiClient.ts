@@ -1,4 +1,6 @@
 import { createApiClient } from '@/lib/httpClient'
+import { bffApi } from '@/lib/bffApiClient'
+import { getOperatorName } from '@/lib/operator'
 
 function resolveAlertsBaseUrl(): string {
   if (import.meta.env.DEV) {
@@ -20,10 +22,9 @@ export async function getAlert(eventId: string) {
   return data
 }
 
-export async function acknowledgeAlert(eventId: string) {
-  // Best-effort acknowledge endpoint — dashboard-bff should implement this
-  const { data } = await alertsApi.post(`/alerts/${encodeURIComponent(eventId)}/acknowledge`)
-  return data
+export async function acknowledgeAlert(eventId: string, actor = getOperatorName()) {
+  // Acknowledgement lives on the incident, which the dashboard BFF owns
+  return bffApi.acknowledgeEvent(eventId, actor)
 }
 
 export async function getWsStats() {
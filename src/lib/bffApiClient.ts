@@ -15,6 +15,8 @@ export interface AlertEvent {
   context?: Context
   links?: Links
   meta?: Meta
+  // Set by the BFF when the event matched a silence rule on arrival
+  silenced_by?: string
 }
 
 export interface ServiceInfo {
@@ -87,10 +89,271 @@ export interface Incident {
   latest_event_id: string
   event_count: number
   quality_flags: string[]
+  // Operator workflow; null until the corresponding action happens
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  assignee: string | null
+  assigned_at: string | null
+  assigned_by: string | null
+  // Set whenever the incident is resolved; resolved_by is null when an event resolved it
+  resolved_at: string | null
+  resolved_by: string | null
+  // Silence rule that matched the latest event; silenced incidents are hidden by default
+  silenced_by: string | null
+  // Start of the current episode: the first event, or whatever last reopened the incident
+  opened_at: string
+}
+
+export type IncidentActionType = 'acknowledge' | 'assign' | 'unassign' | 'resolve' | 'reopen'
+
+export interface IncidentAction {
+  action_id: string
+  dedupe_key: string
+  namespace: string
+  service: string
+  action: IncidentActionType
+  actor: string
+  assignee?: string
+  at: string
+}
+
+export type NoteFormat = 'text' | 'markdown'
+
+export interface IncidentNote {
+  note_id: string
+  dedupe_key: string
+  namespace: string
+  service: string
+  author: string
+  body: string
+  format: NoteFormat
+  // Optional link to the event the note is about
+  event_id?: string
+  created_at: string
+  updated_at: string
+  // Set when someone edits the note after it was created
+  edited_by?: string
+}
+
+// Every matcher that is set must equal the event's value; unset matchers match anything
+export interface SilenceMatchers {
+  namespace?: string
+  service?: string
+  alert_type?: string
+  severity?: string
+  dedupe_key?: string
+}
+
+export type SilenceState = 'pending' | 'active' | 'expired'
+
+export interface SilenceRule {
+  silence_id: string
+  matchers: SilenceMatchers
+  starts_at: string
+  ends_at: string
+  reason: string
+  created_by: string
+  created_at: string
+  // Set when someone expired the rule before its original ends_at
+  expired_by?: string
+  state: SilenceState
+}
+
+export interface NewSilence {
+  matchers: SilenceMatchers
+  starts_at?: string
+  ends_at?: string
+  duration_minutes?: number
+  reason: string
+  created_by: string
+}
+
+export type ChannelKind = 'sms' | 'webhook' | 'email' | 'file'
+export type ChannelStatus = 'ok' | 'degraded' | 'down' | 'unknown'
+
+export interface ChannelHealth {
+  name: string
+  kind: ChannelKind
+  status: ChannelStatus
+  recipients: string[]
+  last_success_at: string | null
+  last_failure_at: string | null
+  last_error: string | null
+  consecutive_failures: number
+  detail?: string
+}
+
+// Every matcher that is set must match; list matchers match when the event's value is
+// one of the listed ones, reason_codes when the event carries any of them
+export interface RouteMatchers {
+  severities?: string[]
+  namespaces?: string[]
+  services?: string[]
+  priorities?: string[]
+  auto?: boolean
+  reason_codes?: string[]
+}
+
+// A channel by name; without recipients the channel's default recipients are used
+export interface RouteTarget {
+  channel: string
+  recipients?: string[]
+}
+
+export interface EscalationTier {
+  after_minutes: number
+  targets: RouteTarget[]
+}
+
+export interface QuietHours {
+  start: string
+  end: string
+  timezone?: string
+  override_severities?: string[]
+}
+
+export interface RoutingRule {
+  rule_id: string
+  name: string
+  enabled: boolean
+  position: number
+  matchers: RouteMatchers
+  targets: RouteTarget[]
+  escalations: EscalationTier[]
+  quiet_hours: QuietHours | null
+  continue: boolean
+  created_by: string
+  created_at: string
+  updated_by: string
+  updated_at: string
+}
+
+export type RoutingRuleChanges = Partial<
+  Pick<
+    RoutingRule,
+    | 'name'
+    | 'enabled'
+    | 'position'
+    | 'matchers'
+    | 'targets'
+    | 'escalations'
+    | 'quiet_hours'
+    | 'continue'
+  >
+>
+
+export type NotificationStatus = 'pending' | 'retrying' | 'sent' | 'dead' | 'suppressed'
+
+export type NotificationReason = 'alert' | 'escalation' | 'digest' | 'manual'
+
+export interface NotificationRecord {
+  notification_id: string
+  reason: NotificationReason
+  dedupe_key: string | null
+  namespace: string | null
+  service: string | null
+  event_id: string | null
+  channel: string
+  recipient: string
+  subject: string
+  body: string
+  html: string | null
+  payload: Record<string, unknown> | null
+  status: NotificationStatus
+  attempts: number
+  last_error: string | null
+  provider_response: unknown
+  next_attempt_at: string | null
+  created_at: string
+  updated_at: string
+  sent_at: string | null
 }
 
 export interface IncidentDetail extends Incident {
   events: AlertEvent[]
+  actions: IncidentAction[]
+  notes: IncidentNote[]
+}
+
+export type TrendInterval = '5m' | '1h' | '1d'
+
+// decision splits automated from manual responses
+export type TrendGroupBy = 'severity' | 'namespace' | 'service' | 'alert_type' | 'decision'
+
+export interface TrendQuery {
+  interval?: TrendInterval
+  group_by?: TrendGroupBy
+  // A span suited to the interval, ending now, when left out
+  from?: string
+  to?: string
+  namespace?: string[]
+  service?: string[]
+  severity?: string[]
+}
+
+export interface TrendBucket {
+  start: string
+  // Counts per group, every group present
+  events: Record<string, number>
+  // Distinct incidents with events in the bucket
+  incidents: Record<string, number>
+}
+
+export interface IncidentTrends {
+  interval: TrendInterval
+  group_by: TrendGroupBy
+  from: string
+  to: string
+  // Most severe first for severity; by volume for most other groupings
+  groups: string[]
+  buckets: TrendBucket[]
+}
+
+export interface ReportQuery {
+  // When episodes opened; the last 7 days by default
+  from?: string
+  to?: string
+  namespace?: string[]
+  service?: string[]
+}
+
+export interface DurationStats {
+  count: number
+  mean_seconds: number
+  p90_seconds: number
+}
+
+export interface ReliabilityMetrics {
+  incidents: number
+  episodes: number
+  // Incidents reopened at least once, and their share of all incidents
+  reopened: number
+  reopen_rate: number
+  time_to_acknowledge: DurationStats | null
+  time_to_resolve: DurationStats | null
+}
+
+export interface ReliabilityReport {
+  from: string
+  to: string
+  summary: ReliabilityMetrics
+  namespaces: (ReliabilityMetrics & { namespace: string })[]
+  services: (ReliabilityMetrics & { namespace: string; service: string })[]
+}
+
+// One opening (or reopening) of an incident inside the report window
+export interface ReportEpisode {
+  dedupe_key: string
+  namespace: string
+  service: string
+  current_severity: string
+  status: 'OPEN' | 'RESOLVED'
+  opened_at: string
+  acknowledged_at: string | null
+  resolved_at: string | null
+  reopened: boolean
+  time_to_acknowledge_seconds: number | null
+  time_to_resolve_seconds: number | null
 }
 
 export interface ServiceRollup {
@@ -118,21 +381,108 @@ export interface Overview {
   last_updated_at: string
 }
 
+export type IncidentSort = 'last_observed_at' | 'risk_score' | 'severity' | 'event_count'
+
 export interface IncidentFilter {
   status?: 'open' | 'resolved' | 'all'
-  severity?: string
-  namespace?: string
-  service?: string
-  priority?: string
+  // A list matches incidents with any of its values
+  severity?: string | string[]
+  namespace?: string | string[]
+  service?: string | string[]
+  priority?: string | string[]
   auto?: boolean
+  // Silenced incidents are excluded unless asked for
+  silenced?: 'exclude' | 'include' | 'only'
+  // Bounds on last_observed_at (ISO-8601)
+  from?: string
+  to?: string
+  // Text in the service, dedupe key or reason codes
+  q?: string
+  // Most recently observed first by default
+  sort?: IncidentSort
+  order?: 'asc' | 'desc'
+  // Page size; everything matching when unset
+  limit?: number
+  // next_cursor of the previous page
+  cursor?: string
+}
+
+export interface IncidentPage {
+  incidents: Incident[]
+  // Matching incidents across all pages
+  total: number
+  next_cursor: string | null
 }
 
+export type ExportFormat = 'csv' | 'ndjson' | 'json'
+
 export interface WSMessage {
-  type: 'incident_updated' | 'event_received' | 'stats' | 'connection'
+  type:
+    | 'incident_updated'
+    | 'event_received'
+    | 'batch_ingested'
+    | 'projections_rebuilt'
+    | 'note_created'
+    | 'note_updated'
+    | 'note_deleted'
+    | 'silence_created'
+    | 'silence_expired'
+    | 'routing_rule_created'
+    | 'routing_rule_updated'
+    | 'routing_rule_deleted'
+    | 'notification_updated'
+    | 'stats'
+    | 'connection'
+    | 'subscribed'
+    | 'resync_required'
+    | 'error'
   data: any
+  // Position in the stream; set on broadcast messages, not on replies to this client
+  seq?: number
+}
+
+// Narrows the alert stream server-side; each list that is set must contain the message's
+// value. Messages without the field (routing rules, notes for severity) still come through.
+export interface StreamSubscription {
+  namespaces?: string[]
+  services?: string[]
+  severities?: string[]
+  dedupe_keys?: string[]
 }
 
 // API Client
+function incidentParams(filter?: IncidentFilter): URLSearchParams {
+  const params = new URLSearchParams()
+  const appendList = (name: string, value?: string | string[]) => {
+    const values = Array.isArray(value) ? value : value ? [value] : []
+    if (values.length > 0) params.append(name, values.join(','))
+  }
+  if (filter?.status && filter.status !== 'all') params.append('status', filter.status)
+  appendList('severity', filter?.severity)
+  appendList('namespace', filter?.namespace)
+  appendList('service', filter?.service)
+  appendList('priority', filter?.priority)
+  if (filter?.auto !== undefined) params.append('auto', String(filter.auto))
+  if (filter?.silenced) params.append('silenced', filter.silenced)
+  if (filter?.from) params.append('from', filter.from)
+  if (filter?.to) params.append('to', filter.to)
+  if (filter?.q) params.append('q', filter.q)
+  if (filter?.sort) params.append('sort', filter.sort)
+  if (filter?.order) params.append('order', filter.order)
+  if (filter?.limit) params.append('limit', String(filter.limit))
+  if (filter?.cursor) params.append('cursor', filter.cursor)
+  return params
+}
+
+function reportParams(query?: ReportQuery): string {
+  const params = new URLSearchParams()
+  if (query?.from) params.append('from', query.from)
+  if (query?.to) params.append('to', query.to)
+  if (query?.namespace?.length) params.append('namespace', query.namespace.join(','))
+  if (query?.service?.length) params.append('service', query.service.join(','))
+  return params.toString() ? `?${params}` : ''
+}
+
 export const bffApi = {
   // Overview
   async getOverview(): Promise<Overview> {
@@ -142,21 +492,22 @@ export const bffApi = {
   },
 
   // Incidents
-  async getIncidents(filter?: IncidentFilter): Promise<{ incidents: Incident[]; total: number }> {
-    const params = new URLSearchParams()
-    if (filter?.status && filter.status !== 'all') params.append('status', filter.status)
-    if (filter?.severity) params.append('severity', filter.severity)
-    if (filter?.namespace) params.append('namespace', filter.namespace)
-    if (filter?.service) params.append('service', filter.service)
-    if (filter?.priority) params.append('priority', filter.priority)
-    if (filter?.auto !== undefined) params.append('auto', String(filter.auto))
-
+  async getIncidents(filter?: IncidentFilter): Promise<IncidentPage> {
+    const params = incidentParams(filter)
     const url = `${BFF_BASE_URL}/api/incidents${params.toString() ? `?${params}` : ''}`
     const response = await fetch(url)
     if (!response.ok) throw new Error('Failed to fetch incidents')
     return response.json()
   },
 
+  // A download of the incidents matching the filter; the BFF streams it as an attachment
+  getIncidentExportUrl(filter: IncidentFilter, format: ExportFormat, events = false): string {
+    const params = incidentParams(filter)
+    params.append('format', format)
+    if (events) params.append('events', 'true')
+    return `${BFF_BASE_URL}/api/incidents/export?${params}`
+  },
+
   async getIncidentDetail(
     dedupeKey: string,
     namespace: string,
@@ -170,6 +521,249 @@ export const bffApi = {
     return response.json()
   },
 
+  // Incident workflow: acknowledge, assign, unassign, resolve, reopen
+  async applyIncidentAction(
+    dedupeKey: string,
+    namespace: string,
+    service: string,
+    action: IncidentActionType,
+    body: { actor: string; assignee?: string }
+  ): Promise<Incident> {
+    const params = new URLSearchParams({ namespace, service })
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/incidents/${encodeURIComponent(dedupeKey)}/${action}?${params}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || `Failed to ${action} incident`)
+    return result.incident
+  },
+
+  // Incident notes
+  async createNote(
+    dedupeKey: string,
+    namespace: string,
+    service: string,
+    note: { author: string; body: string; format?: NoteFormat; event_id?: string }
+  ): Promise<IncidentNote> {
+    const params = new URLSearchParams({ namespace, service })
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/incidents/${encodeURIComponent(dedupeKey)}/notes?${params}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(note),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to add note')
+    return result.note
+  },
+
+  async updateNote(
+    noteId: string,
+    changes: { actor: string; body?: string; format?: NoteFormat; event_id?: string | null }
+  ): Promise<IncidentNote> {
+    const response = await fetch(`${BFF_BASE_URL}/api/notes/${encodeURIComponent(noteId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to update note')
+    return result.note
+  },
+
+  async deleteNote(noteId: string, actor: string): Promise<void> {
+    const params = new URLSearchParams({ actor })
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/notes/${encodeURIComponent(noteId)}?${params}`,
+      { method: 'DELETE' }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to delete note')
+  },
+
+  // Silence rules
+  async getSilences(state?: SilenceState): Promise<{ silences: SilenceRule[]; total: number }> {
+    const params = state ? `?${new URLSearchParams({ state })}` : ''
+    const response = await fetch(`${BFF_BASE_URL}/api/silences${params}`)
+    if (!response.ok) throw new Error('Failed to fetch silences')
+    return response.json()
+  },
+
+  async createSilence(silence: NewSilence): Promise<SilenceRule> {
+    const response = await fetch(`${BFF_BASE_URL}/api/silences`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(silence),
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to create silence')
+    return result.silence
+  },
+
+  async expireSilence(silenceId: string, actor: string): Promise<SilenceRule> {
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/silences/${encodeURIComponent(silenceId)}/expire`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ actor }),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to expire silence')
+    return result.silence
+  },
+
+  // Notification channels and routing rules
+  async getNotificationChannels(): Promise<{ channels: ChannelHealth[]; total: number }> {
+    const response = await fetch(`${BFF_BASE_URL}/api/notifications/channels`)
+    if (!response.ok) throw new Error('Failed to fetch notification channels')
+    return response.json()
+  },
+
+  async testNotificationChannel(name: string, recipient?: string): Promise<void> {
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/notifications/channels/${encodeURIComponent(name)}/test`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recipient }),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      const failure = result.results?.find((r: { success: boolean }) => !r.success)
+      throw new Error(failure?.error || result.error || 'Test notification failed')
+    }
+  },
+
+  async getRoutingRules(): Promise<{ rules: RoutingRule[]; total: number }> {
+    const response = await fetch(`${BFF_BASE_URL}/api/notifications/rules`)
+    if (!response.ok) throw new Error('Failed to fetch routing rules')
+    return response.json()
+  },
+
+  async createRoutingRule(rule: RoutingRuleChanges, actor: string): Promise<RoutingRule> {
+    const response = await fetch(`${BFF_BASE_URL}/api/notifications/rules`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...rule, actor }),
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to create routing rule')
+    return result.rule
+  },
+
+  async updateRoutingRule(
+    ruleId: string,
+    changes: RoutingRuleChanges,
+    actor: string
+  ): Promise<RoutingRule> {
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/notifications/rules/${encodeURIComponent(ruleId)}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...changes, actor }),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to update routing rule')
+    return result.rule
+  },
+
+  async deleteRoutingRule(ruleId: string, actor: string): Promise<void> {
+    const params = new URLSearchParams({ actor })
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/notifications/rules/${encodeURIComponent(ruleId)}?${params}`,
+      { method: 'DELETE' }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to delete routing rule')
+  },
+
+  // Notification outbox
+  async getIncidentNotifications(
+    dedupeKey: string,
+    namespace: string,
+    service: string
+  ): Promise<{ notifications: NotificationRecord[]; total: number }> {
+    const params = new URLSearchParams({ namespace, service })
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/incidents/${encodeURIComponent(dedupeKey)}/notifications?${params}`
+    )
+    if (!response.ok) throw new Error('Failed to fetch notifications')
+    return response.json()
+  },
+
+  async getNotificationOutbox(
+    filter: { status?: NotificationStatus; channel?: string; limit?: number } = {}
+  ): Promise<{ notifications: NotificationRecord[]; total: number }> {
+    const params = new URLSearchParams()
+    if (filter.status) params.append('status', filter.status)
+    if (filter.channel) params.append('channel', filter.channel)
+    if (filter.limit) params.append('limit', String(filter.limit))
+    const response = await fetch(`${BFF_BASE_URL}/api/notifications/outbox?${params}`)
+    if (!response.ok) throw new Error('Failed to fetch notifications')
+    return response.json()
+  },
+
+  async retryNotification(notificationId: string, actor: string): Promise<NotificationRecord> {
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/notifications/outbox/${encodeURIComponent(notificationId)}/retry`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ actor }),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to retry notification')
+    return result.notification
+  },
+
+  // Analytics
+  async getIncidentTrends(query?: TrendQuery): Promise<IncidentTrends> {
+    const params = new URLSearchParams()
+    if (query?.interval) params.append('interval', query.interval)
+    if (query?.group_by) params.append('group_by', query.group_by)
+    if (query?.from) params.append('from', query.from)
+    if (query?.to) params.append('to', query.to)
+    if (query?.namespace?.length) params.append('namespace', query.namespace.join(','))
+    if (query?.service?.length) params.append('service', query.service.join(','))
+    if (query?.severity?.length) params.append('severity', query.severity.join(','))
+
+    const url = `${BFF_BASE_URL}/api/analytics/incidents${params.toString() ? `?${params}` : ''}`
+    const response = await fetch(url)
+    if (!response.ok) throw new Error('Failed to fetch incident trends')
+    return response.json()
+  },
+
+  // Reports
+  async getReliabilityReport(query?: ReportQuery): Promise<ReliabilityReport> {
+    const response = await fetch(`${BFF_BASE_URL}/api/reports/reliability${reportParams(query)}`)
+    if (!response.ok) throw new Error('Failed to fetch reliability report')
+    return response.json()
+  },
+
+  // The incident episodes behind a report, most recently opened first
+  async getReportIncidents(
+    query?: ReportQuery
+  ): Promise<{ episodes: ReportEpisode[]; total: number }> {
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/reports/reliability/incidents${reportParams(query)}`
+    )
+    if (!response.ok) throw new Error('Failed to fetch report incidents')
+    return response.json()
+  },
+
   // Services
   async getServices(): Promise<{ services: ServiceRollup[]; total: number }> {
     const response = await fetch(`${BFF_BASE_URL}/api/services`)
@@ -184,6 +778,21 @@ export const bffApi = {
     return response.json()
   },
 
+  // Acknowledges the incident the event belongs to
+  async acknowledgeEvent(eventId: string, actor: string): Promise<Incident> {
+    const response = await fetch(
+      `${BFF_BASE_URL}/api/events/${encodeURIComponent(eventId)}/acknowledge`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ actor }),
+      }
+    )
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || 'Failed to acknowledge incident')
+    return result.incident
+  },
+
   // Stats
   async getStats(): Promise<any> {
     const response = await fetch(`${BFF_BASE_URL}/api/stats`)
@@ -192,35 +801,143 @@ export const bffApi = {
   },
 }
 
-// WebSocket connection helper
+export type AlertStreamTransport = 'websocket' | 'sse'
+
+export interface AlertStreamStatus {
+  transport: AlertStreamTransport
+  connected: boolean
+}
+
+export interface AlertStreamOptions {
+  // Without a subscription every message is received
+  subscription?: StreamSubscription
+  // Called when the connection opens or drops, including when it falls back to SSE
+  onStatus?: (status: AlertStreamStatus) => void
+}
+
+export interface AlertStream {
+  readonly transport: AlertStreamTransport
+  close(): void
+}
+
+const RECONNECT_DELAY_MS = 2000
+// A WebSocket that has not opened by then is taken to be blocked, e.g. by a proxy
+const WEBSOCKET_OPEN_TIMEOUT_MS = 5000
+
+// Set once a WebSocket failed to open, so later streams on this page go straight to SSE
+let websocketBlocked = false
+
+// Live alert stream. It uses the /ws WebSocket, and falls back to Server-Sent Events from
+// /sse (same messages) when the WebSocket cannot be opened. A dropped connection is
+// re-established and resumes after the last message seen, so nothing is missed. When the
+// gap is too old to replay, onMessage gets a 'resync_required' message and the caller
+// should reload whatever it shows.
 export function connectToAlertStream(
   onMessage: (message: WSMessage) => void,
-  onError?: (error: Event) => void
-): WebSocket {
+  onError?: (error: Event) => void,
+  options: AlertStreamOptions = {}
+): AlertStream {
+  const { subscription, onStatus } = options
   const wsUrl = BFF_BASE_URL.replace('http://', 'ws://').replace('https://', 'wss://')
-  const ws = new WebSocket(`${wsUrl}/ws`)
-
-  ws.onopen = () => {
-    console.log('Connected to alert stream')
-  }
+  let transport: AlertStreamTransport = websocketBlocked ? 'sse' : 'websocket'
+  let ws: WebSocket | undefined
+  let source: EventSource | undefined
+  let lastSeq: number | undefined
+  let closed = false
+  let reconnectTimer: number | undefined
 
-  ws.onmessage = (event) => {
+  const handle = (raw: string) => {
     try {
-      const message = JSON.parse(event.data) as WSMessage
+      const message = JSON.parse(raw) as WSMessage
+      if (message.seq !== undefined) {
+        lastSeq = message.seq
+      } else if (message.type === 'resync_required') {
+        lastSeq = message.data.last_seq
+      } else if (message.type === 'connection' && lastSeq === undefined) {
+        // Where this client joined, in case the connection drops before anything arrives
+        lastSeq = message.data.last_seq
+      }
       onMessage(message)
     } catch (error) {
-      console.error('Failed to parse WebSocket message:', error)
+      console.error('Failed to parse alert stream message:', error)
     }
   }
 
-  ws.onerror = (error) => {
-    console.error('WebSocket error:', error)
-    if (onError) onError(error)
+  const reconnect = () => {
+    if (!closed) reconnectTimer = window.setTimeout(open, RECONNECT_DELAY_MS)
+  }
+
+  const openWebSocket = () => {
+    const socket = new WebSocket(`${wsUrl}/ws`)
+    ws = socket
+    let opened = false
+    const openTimer = window.setTimeout(() => socket.close(), WEBSOCKET_OPEN_TIMEOUT_MS)
+
+    socket.onopen = () => {
+      opened = true
+      window.clearTimeout(openTimer)
+      console.log('Connected to alert stream')
+      onStatus?.({ transport, connected: true })
+      if (subscription) socket.send(JSON.stringify({ type: 'subscribe', ...subscription }))
+      if (lastSeq !== undefined) socket.send(JSON.stringify({ type: 'resume', since: lastSeq }))
+    }
+
+    socket.onmessage = (event) => handle(event.data)
+
+    socket.onerror = (error) => {
+      console.error('WebSocket error:', error)
+      if (onError) onError(error)
+    }
+
+    socket.onclose = () => {
+      window.clearTimeout(openTimer)
+      console.log('Disconnected from alert stream')
+      if (!opened && !closed) {
+        console.warn('WebSocket unavailable, falling back to Server-Sent Events')
+        websocketBlocked = true
+        transport = 'sse'
+      }
+      onStatus?.({ transport, connected: false })
+      reconnect()
+    }
   }
 
-  ws.onclose = () => {
-    console.log('Disconnected from alert stream')
+  const openEventSource = () => {
+    const params = new URLSearchParams()
+    for (const [field, values] of Object.entries(subscription ?? {})) {
+      for (const value of values ?? []) params.append(field, value)
+    }
+    if (lastSeq !== undefined) params.set('since', String(lastSeq))
+    const es = new EventSource(`${BFF_BASE_URL}/sse?${params}`)
+    source = es
+
+    es.onopen = () => {
+      console.log('Connected to alert stream (SSE)')
+      onStatus?.({ transport, connected: true })
+    }
+
+    es.onmessage = (event) => handle(event.data)
+
+    es.onerror = (error) => {
+      onStatus?.({ transport, connected: false })
+      if (onError) onError(error)
+      // EventSource reconnects by itself, resuming from Last-Event-ID, unless it gave up
+      if (es.readyState === EventSource.CLOSED) reconnect()
+    }
   }
 
-  return ws
+  const open = () => (transport === 'websocket' ? openWebSocket() : openEventSource())
+  open()
+
+  return {
+    get transport() {
+      return transport
+    },
+    close() {
+      closed = true
+      window.clearTimeout(reconnectTimer)
+      ws?.close()
+      source?.close()
+    },
+  }
 }
@@ -59,6 +59,20 @@ export function formatShortDate(timestamp: string | Date): string {
   }
 }
 
+/**
+ * Format a duration in seconds, e.g. "45s", "12m", "3h 20m", "2d 4h"
+ */
+export function formatDuration(seconds: number | null | undefined): string {
+  if (seconds === null || seconds === undefined || Number.isNaN(seconds)) return 'N/A'
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  const mins = Math.floor(seconds / 60)
+  if (mins < 60) return `${mins}m`
+  const hours = Math.floor(mins / 60)
+  if (hours < 24) return mins % 60 ? `${hours}h ${mins % 60}m` : `${hours}h`
+  const days = Math.floor(hours / 24)
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`
+}
+
 /**
  * Format count with K/M suffixes
  */
@@ -0,0 +1,23 @@
+/**
+ * Name recorded as the actor on incident actions (acknowledge, assign, resolve, ...).
+ * The dashboard has no sign-in yet, so operators set it once and it is kept in localStorage.
+ */
+const OPERATOR_STORAGE_KEY = 'alerts.operator'
+const DEFAULT_OPERATOR = 'dashboard'
+
+export function getOperatorName(): string {
+  try {
+    return localStorage.getItem(OPERATOR_STORAGE_KEY)?.trim() || DEFAULT_OPERATOR
+  } catch {
+    return DEFAULT_OPERATOR
+  }
+}
+
+export function setOperatorName(name: string): void {
+  try {
+    if (name.trim()) localStorage.setItem(OPERATOR_STORAGE_KEY, name.trim())
+    else localStorage.removeItem(OPERATOR_STORAGE_KEY)
+  } catch {
+    // Storage unavailable (private mode); the default name is used instead
+  }
+}
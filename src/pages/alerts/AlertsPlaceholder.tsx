@@ -1,8 +1,19 @@
 import { useEffect, useState, useRef } from 'react'
 import { Link } from 'react-router'
-import { bffApi, Incident, Overview, connectToAlertStream, WSMessage } from '@/lib/bffApiClient'
+import {
+  AlertStreamStatus,
+  bffApi,
+  Incident,
+  IncidentActionType,
+  Overview,
+  connectToAlertStream,
+  WSMessage,
+} from '@/lib/bffApiClient'
 import StatusBadge from '@/components/common/StatusBadge'
+import IncidentTrends from '@/pages/alerts/IncidentTrends'
+import ExportMenu from '@/pages/alerts/ExportMenu'
 import { formatDistanceToNow } from '@/lib/format'
+import { getOperatorName } from '@/lib/operator'
 import {
   AlertTriangle,
   CheckCircle2,
@@ -14,6 +25,9 @@ import {
   Users,
   X,
   Bell,
+  BellOff,
+  Wifi,
+  WifiOff,
 } from 'lucide-react'
 
 interface Toast {
@@ -27,12 +41,15 @@ export default function AlertsPage() {
   const [incidents, setIncidents] = useState<Incident[]>([])
   const [loading, setLoading] = useState(true)
   const [toasts, setToasts] = useState<Toast[]>([])
+  const [streamStatus, setStreamStatus] = useState<AlertStreamStatus | null>(null)
   const [filter, setFilter] = useState<{
     status: 'all' | 'open' | 'resolved'
     severity: string
+    silenced: 'exclude' | 'include' | 'only'
   }>({
     status: 'open',
     severity: '',
+    silenced: 'exclude',
   })
 
   // Track scroll position for restoration after updates
@@ -52,10 +69,10 @@ export default function AlertsPage() {
     loadDataWithFilters(filter)
   }, [filter])
 
-  // Connect to WebSocket for real-time updates
+  // Connect to the alert stream (WebSocket, or SSE where that is blocked) for real-time updates
   useEffect(() => {
-    const ws = connectToAlertStream(handleWSMessage)
-    return () => ws.close()
+    const stream = connectToAlertStream(handleWSMessage, undefined, { onStatus: setStreamStatus })
+    return () => stream.close()
   }, [])
 
   // Restore scroll position after WebSocket updates
@@ -80,6 +97,7 @@ export default function AlertsPage() {
         bffApi.getIncidents({
           status: filterToUse.status,
           severity: filterToUse.severity || undefined,
+          silenced: filterToUse.silenced,
         }),
       ])
       setOverview(overviewData)
@@ -93,7 +111,7 @@ export default function AlertsPage() {
 
   const handleWSMessage = async (message: WSMessage) => {
     if (message.type === 'incident_updated') {
-      const { dedupe_key, namespace, service, state } = message.data
+      const { dedupe_key, namespace, service, state, silenced } = message.data
 
       // Save current scroll position before updating
       scrollPositionRef.current = window.scrollY
@@ -118,8 +136,8 @@ export default function AlertsPage() {
 
         const matchesFilter = statusMatches && severityMatches
 
-        // Show toast if incident doesn't match current filter
-        if (!matchesFilter) {
+        // Show toast if incident doesn't match current filter; silenced updates stay quiet
+        if (!matchesFilter && !silenced) {
           const toastMessage =
             state === 'resolved'
               ? `Incident resolved: ${service} (filtered out)`
@@ -133,6 +151,25 @@ export default function AlertsPage() {
 
       // Always reload data with current filters
       loadDataWithFilters(currentFilter)
+    } else if (message.type === 'batch_ingested') {
+      // One coalesced update for a whole batch: reload once instead of per incident
+      scrollPositionRef.current = window.scrollY
+      isWebSocketUpdateRef.current = true
+
+      const { ingested, incidents: touched } = message.data
+      showToast(
+        `${ingested} new ${ingested === 1 ? 'event' : 'events'} across ${touched.length} ${
+          touched.length === 1 ? 'incident' : 'incidents'
+        }`,
+        'info'
+      )
+      loadDataWithFilters(filterRef.current)
+    } else if (message.type === 'projections_rebuilt' || message.type === 'resync_required') {
+      // Every incident may have changed (or updates were missed while disconnected); reload
+      // in place
+      scrollPositionRef.current = window.scrollY
+      isWebSocketUpdateRef.current = true
+      loadDataWithFilters(filterRef.current)
     }
   }
 
@@ -146,6 +183,22 @@ export default function AlertsPage() {
     }, 5000)
   }
 
+  // Quick actions from the table; the incident_updated broadcast refreshes the list
+  const handleIncidentAction = async (incident: Incident, action: IncidentActionType) => {
+    try {
+      await bffApi.applyIncidentAction(
+        incident.dedupe_key,
+        incident.namespace,
+        incident.service,
+        action,
+        { actor: getOperatorName() }
+      )
+      showToast(`${incident.service}: ${action} recorded`, 'success')
+    } catch (error: any) {
+      showToast(error.message || `Failed to ${action} incident`, 'warning')
+    }
+  }
+
   const dismissToast = (id: string) => {
     setToasts((prev) => prev.filter((t) => t.id !== id))
   }
@@ -182,6 +235,28 @@ export default function AlertsPage() {
           <div className="flex items-center gap-3 mb-2">
             <Shield className="w-8 h-8 text-blue-400" />
             <h1 className="text-4xl font-bold text-white">Alerts Dashboard</h1>
+            {streamStatus && (
+              <span
+                className={`ml-auto inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border ${
+                  streamStatus.connected
+                    ? 'bg-green-500/10 text-green-300 border-green-500/30'
+                    : 'bg-gray-700/40 text-gray-400 border-gray-600/50'
+                }`}
+                title={
+                  streamStatus.transport === 'sse'
+                    ? 'WebSocket unavailable; updates arrive over Server-Sent Events'
+                    : undefined
+                }
+              >
+                {streamStatus.connected ? (
+                  <Wifi className="w-3 h-3" />
+                ) : (
+                  <WifiOff className="w-3 h-3" />
+                )}
+                {streamStatus.connected ? 'Live' : 'Reconnecting'} via{' '}
+                {streamStatus.transport === 'sse' ? 'SSE' : 'WebSocket'}
+              </span>
+            )}
           </div>
           <p className="text-gray-300 text-lg">
             Real-time incident monitoring and automated response tracking
@@ -270,6 +345,8 @@ export default function AlertsPage() {
         </div>
       )}
 
+      <IncidentTrends />
+
       {/* Filters */}
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 p-6 shadow-lg">
         <div className="flex items-center gap-2 mb-4">
@@ -304,6 +381,37 @@ export default function AlertsPage() {
               <option value="low">🔵 Low</option>
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Silenced</label>
+            <select
+              value={filter.silenced}
+              onChange={(e) =>
+                setFilter({ ...filter, silenced: e.target.value as typeof filter.silenced })
+              }
+              className="bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-4 py-2.5 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all"
+            >
+              <option value="exclude">Hide silenced</option>
+              <option value="include">Show silenced</option>
+              <option value="only">Only silenced</option>
+            </select>
+          </div>
+
+          <Link
+            to="/alerts/silences"
+            className="self-end inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium bg-gray-700/50 text-gray-300 border border-gray-600/50 hover:bg-gray-700 hover:text-white transition-colors"
+          >
+            <BellOff className="w-4 h-4" />
+            Manage silences
+          </Link>
+
+          <ExportMenu
+            filter={{
+              status: filter.status,
+              severity: filter.severity || undefined,
+              silenced: filter.silenced,
+            }}
+          />
         </div>
       </div>
 
@@ -345,12 +453,15 @@ export default function AlertsPage() {
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                   Last Update
                 </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                  Response
+                </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-700/50">
               {incidents.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-16 text-center">
+                  <td colSpan={8} className="px-6 py-16 text-center">
                     <div className="flex flex-col items-center justify-center space-y-3">
                       <div className="p-4 bg-gray-700/30 rounded-full">
                         <CheckCircle2 className="w-12 h-12 text-gray-500" />
@@ -379,6 +490,12 @@ export default function AlertsPage() {
                           {incident.service}
                         </span>
                         <span className="text-xs text-gray-500 mt-0.5">{incident.namespace}</span>
+                        {incident.silenced_by && (
+                          <span className="inline-flex items-center gap-1 mt-1 text-xs text-gray-400">
+                            <BellOff className="w-3 h-3" />
+                            Silenced
+                          </span>
+                        )}
                       </Link>
                     </td>
                     <td className="px-6 py-4">
@@ -477,6 +594,42 @@ export default function AlertsPage() {
                         {formatDistanceToNow(incident.last_observed_at)}
                       </div>
                     </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-col gap-1.5">
+                        <span className="text-xs text-gray-400">
+                          {incident.assignee
+                            ? `Owner: ${incident.assignee}`
+                            : incident.acknowledged_by
+                              ? `Ack: ${incident.acknowledged_by}`
+                              : 'Unacknowledged'}
+                        </span>
+                        <div className="flex gap-2">
+                          {incident.status === 'OPEN' && !incident.acknowledged_at && (
+                            <button
+                              onClick={() => handleIncidentAction(incident, 'acknowledge')}
+                              className="px-2 py-1 rounded-md text-xs font-medium bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-colors"
+                            >
+                              Ack
+                            </button>
+                          )}
+                          {incident.status === 'OPEN' ? (
+                            <button
+                              onClick={() => handleIncidentAction(incident, 'resolve')}
+                              className="px-2 py-1 rounded-md text-xs font-medium bg-green-500/20 text-green-300 hover:bg-green-500/30 transition-colors"
+                            >
+                              Resolve
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleIncidentAction(incident, 'reopen')}
+                              className="px-2 py-1 rounded-md text-xs font-medium bg-orange-500/20 text-orange-300 hover:bg-orange-500/30 transition-colors"
+                            >
+                              Reopen
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </td>
                   </tr>
                 ))
               )}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react'
+import { bffApi, ExportFormat, IncidentFilter } from '@/lib/bffApiClient'
+import { ChevronDown, Download } from 'lucide-react'
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Spreadsheets; one row per event with events' },
+  { value: 'ndjson', label: 'NDJSON', description: 'One incident per line' },
+  { value: 'json', label: 'JSON', description: 'A single array of incidents' },
+]
+
+// Downloads every incident matching the current filters, not just the page on screen
+export default function ExportMenu({ filter }: Readonly<{ filter: IncidentFilter }>) {
+  const [open, setOpen] = useState(false)
+  const [withEvents, setWithEvents] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', close)
+    return () => document.removeEventListener('mousedown', close)
+  }, [open])
+
+  return (
+    <div ref={menuRef} className="relative self-end">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium bg-gray-700/50 text-gray-300 border border-gray-600/50 hover:bg-gray-700 hover:text-white transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-2">
+          {FORMATS.map((format) => (
+            <a
+              key={format.value}
+              href={bffApi.getIncidentExportUrl(filter, format.value, withEvents)}
+              onClick={() => setOpen(false)}
+              className="block px-3 py-2 rounded-md hover:bg-gray-700/70 transition-colors"
+            >
+              <div className="text-sm font-medium text-white">{format.label}</div>
+              <div className="text-xs text-gray-400">{format.description}</div>
+            </a>
+          ))}
+          <label className="flex items-center gap-2 px-3 pt-3 pb-1 mt-1 border-t border-gray-700 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={withEvents}
+              onChange={(e) => setWithEvents(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Include alert events
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
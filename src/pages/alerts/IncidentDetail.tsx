@@ -1,8 +1,22 @@
 import { useEffect, useState } from 'react'
+import type { ReactNode } from 'react'
 import { useParams, useSearchParams, Link } from 'react-router'
-import { bffApi, IncidentDetail, AlertEvent } from '@/lib/bffApiClient'
+import {
+  bffApi,
+  connectToAlertStream,
+  IncidentDetail,
+  AlertEvent,
+  IncidentAction,
+  IncidentActionType,
+  IncidentNote,
+  NotificationRecord,
+  NotificationStatus,
+  WSMessage,
+} from '@/lib/bffApiClient'
 import StatusBadge from '@/components/common/StatusBadge'
+import Markdown from '@/components/common/Markdown'
 import { formatDistanceToNow } from '@/lib/format'
+import { getOperatorName, setOperatorName } from '@/lib/operator'
 import {
   ArrowLeft,
   Shield,
@@ -16,8 +30,26 @@ import {
   ChevronDown,
   ChevronUp,
   ExternalLink,
+  UserCheck,
+  UserPlus,
+  UserMinus,
+  RotateCcw,
+  ClipboardList,
+  MessageSquare,
+  Pencil,
+  Trash2,
+  Link2,
+  BellOff,
+  Bell,
+  Send,
 } from 'lucide-react'
 
+type IncidentKeyFields = { dedupe_key: string; namespace: string; service: string }
+
+type TimelineItem =
+  | { kind: 'event'; at: string; event: AlertEvent }
+  | { kind: 'note'; at: string; note: IncidentNote }
+
 export default function IncidentDetailPage() {
   const { dedupeKey } = useParams<{ dedupeKey: string }>()
   const [searchParams] = useSearchParams()
@@ -27,6 +59,9 @@ export default function IncidentDetailPage() {
   const [incident, setIncident] = useState<IncidentDetail | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [showSilenced, setShowSilenced] = useState(false)
+  const [tab, setTab] = useState<'timeline' | 'notifications'>('timeline')
+  const [notifications, setNotifications] = useState<NotificationRecord[]>([])
 
   useEffect(() => {
     if (!dedupeKey || !service) {
@@ -36,6 +71,49 @@ export default function IncidentDetailPage() {
     }
 
     loadIncidentDetail()
+    loadNotifications()
+  }, [dedupeKey, namespace, service])
+
+  // Live updates for this incident only (the BFF filters the stream): notes and notifications
+  // are applied in place, anything else refetches
+  useEffect(() => {
+    if (!dedupeKey || !service) return
+
+    const isThisIncident = (data: IncidentKeyFields) =>
+      data.dedupe_key === dedupeKey && data.namespace === namespace && data.service === service
+
+    const handleMessage = (message: WSMessage) => {
+      if (message.type === 'note_created' || message.type === 'note_updated') {
+        const note = message.data as IncidentNote
+        if (!isThisIncident(note)) return
+        setIncident((prev) => (prev ? { ...prev, notes: upsertNote(prev.notes, note) } : prev))
+      } else if (message.type === 'note_deleted') {
+        if (!isThisIncident(message.data)) return
+        setIncident((prev) =>
+          prev
+            ? { ...prev, notes: prev.notes.filter((n) => n.note_id !== message.data.note_id) }
+            : prev
+        )
+      } else if (message.type === 'notification_updated') {
+        const notification = message.data as NotificationRecord
+        if (!notification.dedupe_key || !isThisIncident(notification as IncidentKeyFields)) return
+        setNotifications((prev) => upsertNotification(prev, notification))
+      } else if (message.type === 'incident_updated' && isThisIncident(message.data)) {
+        refreshIncidentDetail()
+      } else if (message.type === 'resync_required') {
+        refreshIncidentDetail()
+        loadNotifications()
+      }
+    }
+
+    const stream = connectToAlertStream(handleMessage, undefined, {
+      subscription: {
+        namespaces: [namespace],
+        services: [service],
+        dedupe_keys: [dedupeKey],
+      },
+    })
+    return () => stream.close()
   }, [dedupeKey, namespace, service])
 
   const loadIncidentDetail = async () => {
@@ -52,6 +130,24 @@ export default function IncidentDetailPage() {
     }
   }
 
+  const loadNotifications = async () => {
+    try {
+      const data = await bffApi.getIncidentNotifications(dedupeKey!, namespace, service)
+      setNotifications(data.notifications)
+    } catch (err) {
+      console.error('Failed to load notifications:', err)
+    }
+  }
+
+  // Refresh in place after an action so the page doesn't flash its loading state
+  const refreshIncidentDetail = async () => {
+    try {
+      setIncident(await bffApi.getIncidentDetail(dedupeKey!, namespace, service))
+    } catch (err) {
+      console.error('Failed to refresh incident detail:', err)
+    }
+  }
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -88,6 +184,8 @@ export default function IncidentDetailPage() {
     )
   }
 
+  const silencedCount = incident.events.filter((e) => e.silenced_by).length
+
   return (
     <div className="max-w-7xl mx-auto space-y-6">
       {/* Header with gradient */}
@@ -108,11 +206,35 @@ export default function IncidentDetailPage() {
             <code className="text-sm text-gray-300 bg-gray-800/50 px-3 py-1.5 rounded-lg border border-gray-700">
               {incident.dedupe_key}
             </code>
+            <Link
+              to={`/alerts/silences?${new URLSearchParams({
+                namespace: incident.namespace,
+                service: incident.service,
+                dedupe_key: incident.dedupe_key,
+              })}`}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-300 bg-gray-800/50 border border-gray-700 hover:text-white transition-colors"
+            >
+              <BellOff className="w-4 h-4" />
+              Silence...
+            </Link>
           </div>
         </div>
         <div className="absolute top-0 right-0 w-64 h-64 bg-purple-500/10 rounded-full blur-3xl"></div>
       </div>
 
+      {incident.silenced_by && (
+        <div className="flex items-center gap-3 bg-purple-500/10 border border-purple-500/30 rounded-xl p-4 text-sm text-purple-200">
+          <BellOff className="w-5 h-5 text-purple-400" />
+          <span>
+            Silenced: the latest event matched a silence rule, so no notifications were sent and
+            this incident is hidden from the Alerts page by default.
+          </span>
+          <Link to="/alerts/silences" className="ml-auto text-purple-300 hover:text-white">
+            View silences
+          </Link>
+        </div>
+      )}
+
       {/* Incident Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Decision Card - Primary focus */}
@@ -306,6 +428,9 @@ export default function IncidentDetailPage() {
         </div>
       </div>
 
+      {/* Response: acknowledgement, ownership, manual resolution */}
+      <IncidentWorkflowPanel incident={incident} onUpdated={refreshIncidentDetail} />
+
       {/* Quality Flags */}
       {incident.quality_flags.length > 0 && (
         <div className="relative overflow-hidden bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border border-yellow-500/30 rounded-xl p-6 shadow-lg">
@@ -331,21 +456,463 @@ export default function IncidentDetailPage() {
         </div>
       )}
 
-      {/* Event Timeline */}
+      {/* Timeline (events and responder notes, newest first) and the notifications sent */}
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 overflow-hidden shadow-lg">
         <div className="bg-gray-700/30 px-6 py-4 border-b border-gray-700/50">
           <div className="flex items-center gap-2">
-            <Activity className="w-5 h-5 text-blue-400" />
-            <h2 className="text-lg font-semibold text-white">Event Timeline</h2>
-            <span className="ml-auto text-sm text-gray-400">{incident.events.length} events</span>
+            <TabButton
+              active={tab === 'timeline'}
+              onClick={() => setTab('timeline')}
+              icon={<Activity className="w-5 h-5 text-blue-400" />}
+              label="Timeline"
+            />
+            <TabButton
+              active={tab === 'notifications'}
+              onClick={() => setTab('notifications')}
+              icon={<Bell className="w-5 h-5 text-yellow-400" />}
+              label={`Notifications (${notifications.length})`}
+            />
+            {tab === 'timeline' ? (
+              <>
+                <span className="ml-auto text-sm text-gray-400">
+                  {incident.events.length} events · {incident.notes.length} notes
+                </span>
+                {silencedCount > 0 && (
+                  <button
+                    onClick={() => setShowSilenced(!showSilenced)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs text-gray-300 bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                  >
+                    <BellOff className="w-3 h-3" />
+                    {showSilenced ? 'Hide' : 'Show'} {silencedCount} silenced
+                  </button>
+                )}
+              </>
+            ) : (
+              <span className="ml-auto text-sm text-gray-400">
+                {notifications.filter((n) => n.status === 'sent').length} delivered ·{' '}
+                {notifications.filter((n) => n.status === 'dead').length} failed
+              </span>
+            )}
+          </div>
+        </div>
+        {tab === 'timeline' ? (
+          <div className="p-6 space-y-4">
+            <NoteComposer incident={incident} />
+            {buildTimeline(incident, showSilenced).map((item) =>
+              item.kind === 'event' ? (
+                <EventCard
+                  key={item.event.event_id}
+                  event={item.event}
+                  isLatest={item.event.event_id === incident.events[0]?.event_id}
+                />
+              ) : (
+                <NoteCard key={item.note.note_id} note={item.note} />
+              )
+            )}
+          </div>
+        ) : (
+          <NotificationLog notifications={notifications} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+const ACTION_LABELS: Record<IncidentActionType, string> = {
+  acknowledge: 'acknowledged',
+  assign: 'assigned',
+  unassign: 'unassigned',
+  resolve: 'resolved',
+  reopen: 'reopened',
+}
+
+function IncidentWorkflowPanel({
+  incident,
+  onUpdated,
+}: {
+  incident: IncidentDetail
+  onUpdated: () => Promise<void>
+}) {
+  const [operator, setOperator] = useState(getOperatorName)
+  const [assignee, setAssignee] = useState('')
+  const [pending, setPending] = useState<IncidentActionType | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const runAction = async (action: IncidentActionType, extra: { assignee?: string } = {}) => {
+    try {
+      setPending(action)
+      setActionError(null)
+      await bffApi.applyIncidentAction(
+        incident.dedupe_key,
+        incident.namespace,
+        incident.service,
+        action,
+        { actor: operator.trim() || getOperatorName(), ...extra }
+      )
+      if (action === 'assign') setAssignee('')
+      await onUpdated()
+    } catch (err: any) {
+      setActionError(err.message || `Failed to ${action} incident`)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const isResolved = incident.status === 'RESOLVED'
+  const buttonClass =
+    'inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed'
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 p-6 shadow-lg">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <UserCheck className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Response</h2>
+        </div>
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-400">
+          Acting as
+          <input
+            value={operator}
+            onChange={(e) => setOperator(e.target.value)}
+            onBlur={() => setOperatorName(operator)}
+            className="bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-1.5 text-sm w-40 focus:border-blue-500 outline-none"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-5 text-sm">
+        <div>
+          <div className="text-gray-400 mb-1">Acknowledged</div>
+          {incident.acknowledged_at ? (
+            <div className="text-white">
+              {incident.acknowledged_by}{' '}
+              <span className="text-gray-500">{formatDistanceToNow(incident.acknowledged_at)}</span>
+            </div>
+          ) : (
+            <div className="text-orange-400">Not acknowledged</div>
+          )}
+        </div>
+        <div>
+          <div className="text-gray-400 mb-1">Assignee</div>
+          {incident.assignee ? (
+            <div className="text-white">
+              {incident.assignee} <span className="text-gray-500">by {incident.assigned_by}</span>
+            </div>
+          ) : (
+            <div className="text-gray-500">Unassigned</div>
+          )}
+        </div>
+        <div>
+          <div className="text-gray-400 mb-1">Resolution</div>
+          {incident.resolved_at ? (
+            <div className="text-white">
+              {incident.resolved_by ? `Resolved by ${incident.resolved_by}` : 'Resolved by alert'}{' '}
+              <span className="text-gray-500">{formatDistanceToNow(incident.resolved_at)}</span>
+            </div>
+          ) : (
+            <div className="text-gray-500">Open</div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => runAction('acknowledge')}
+          disabled={pending !== null || isResolved || !!incident.acknowledged_at}
+          className={`${buttonClass} bg-blue-500/20 text-blue-300 border-blue-500/30 hover:bg-blue-500/30`}
+        >
+          <UserCheck className="w-4 h-4" />
+          Acknowledge
+        </button>
+
+        <div className="flex items-center gap-2">
+          <input
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="Assign to..."
+            className="bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-2 text-sm w-40 focus:border-blue-500 outline-none"
+          />
+          <button
+            onClick={() => runAction('assign', { assignee: assignee.trim() })}
+            disabled={pending !== null || !assignee.trim()}
+            className={`${buttonClass} bg-purple-500/20 text-purple-300 border-purple-500/30 hover:bg-purple-500/30`}
+          >
+            <UserPlus className="w-4 h-4" />
+            Assign
+          </button>
+        </div>
+
+        {incident.assignee && (
+          <button
+            onClick={() => runAction('unassign')}
+            disabled={pending !== null}
+            className={`${buttonClass} bg-gray-700/50 text-gray-300 border-gray-600/50 hover:bg-gray-700`}
+          >
+            <UserMinus className="w-4 h-4" />
+            Unassign
+          </button>
+        )}
+
+        {isResolved ? (
+          <button
+            onClick={() => runAction('reopen')}
+            disabled={pending !== null}
+            className={`${buttonClass} bg-orange-500/20 text-orange-300 border-orange-500/30 hover:bg-orange-500/30`}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reopen
+          </button>
+        ) : (
+          <button
+            onClick={() => runAction('resolve')}
+            disabled={pending !== null}
+            className={`${buttonClass} bg-green-500/20 text-green-300 border-green-500/30 hover:bg-green-500/30`}
+          >
+            <CheckCircle2 className="w-4 h-4" />
+            Resolve
+          </button>
+        )}
+      </div>
+
+      {actionError && <div className="mt-3 text-sm text-red-400">{actionError}</div>}
+
+      {incident.actions.length > 0 && (
+        <div className="mt-5 pt-4 border-t border-gray-700/50">
+          <div className="flex items-center gap-2 text-sm font-semibold text-gray-300 mb-2">
+            <ClipboardList className="w-4 h-4 text-gray-400" />
+            Activity
           </div>
+          <ul className="space-y-1.5 text-sm">
+            {[...incident.actions].reverse().map((action) => (
+              <ActionRow key={action.action_id} action={action} />
+            ))}
+          </ul>
         </div>
-        <div className="p-6 space-y-4">
-          {incident.events.map((event, idx) => (
-            <EventCard key={event.event_id} event={event} isLatest={idx === 0} />
+      )}
+    </div>
+  )
+}
+
+function ActionRow({ action }: { action: IncidentAction }) {
+  return (
+    <li className="flex items-center gap-2 text-gray-300">
+      <span className="font-medium text-white">{action.actor}</span>
+      <span>{ACTION_LABELS[action.action]}</span>
+      {action.assignee && <span className="text-purple-300">{action.assignee}</span>}
+      <span className="ml-auto text-xs text-gray-500">{new Date(action.at).toLocaleString()}</span>
+    </li>
+  )
+}
+
+// Newest first; a note written at the same moment as an event sorts above it
+function buildTimeline(incident: IncidentDetail, showSilenced: boolean): TimelineItem[] {
+  const events = showSilenced ? incident.events : incident.events.filter((e) => !e.silenced_by)
+  const items: TimelineItem[] = [
+    ...events.map((event) => ({ kind: 'event' as const, at: event.observed_at, event })),
+    ...incident.notes.map((note) => ({ kind: 'note' as const, at: note.created_at, note })),
+  ]
+  return items.sort((a, b) => {
+    const diff = new Date(b.at).getTime() - new Date(a.at).getTime()
+    if (diff !== 0) return diff
+    return a.kind === b.kind ? 0 : a.kind === 'note' ? -1 : 1
+  })
+}
+
+function upsertNote(notes: IncidentNote[], note: IncidentNote): IncidentNote[] {
+  return notes.some((n) => n.note_id === note.note_id)
+    ? notes.map((n) => (n.note_id === note.note_id ? note : n))
+    : [...notes, note]
+}
+
+// Newest first, like the list the BFF returns
+function upsertNotification(
+  notifications: NotificationRecord[],
+  notification: NotificationRecord
+): NotificationRecord[] {
+  return notifications.some((n) => n.notification_id === notification.notification_id)
+    ? notifications.map((n) =>
+        n.notification_id === notification.notification_id ? notification : n
+      )
+    : [notification, ...notifications]
+}
+
+function scrollToEvent(eventId: string) {
+  document
+    .getElementById(`event-${eventId}`)
+    ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+}
+
+const inputClass =
+  'w-full bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-2 text-sm focus:border-blue-500 outline-none'
+
+function NoteComposer({ incident }: { incident: IncidentDetail }) {
+  const [body, setBody] = useState('')
+  const [markdown, setMarkdown] = useState(false)
+  const [eventId, setEventId] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [noteError, setNoteError] = useState<string | null>(null)
+
+  // The new note arrives over /ws like everyone else's, so nothing is added locally
+  const submit = async () => {
+    try {
+      setSaving(true)
+      setNoteError(null)
+      await bffApi.createNote(incident.dedupe_key, incident.namespace, incident.service, {
+        author: getOperatorName(),
+        body,
+        format: markdown ? 'markdown' : 'text',
+        event_id: eventId || undefined,
+      })
+      setBody('')
+      setEventId('')
+    } catch (err: any) {
+      setNoteError(err.message || 'Failed to add note')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-700 rounded-xl p-4 bg-gray-900/30 space-y-3">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Add a note for other responders..."
+        rows={3}
+        className={inputClass}
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={markdown}
+            onChange={(e) => setMarkdown(e.target.checked)}
+          />
+          Markdown
+        </label>
+        <select
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          className="bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-1.5 text-sm outline-none"
+        >
+          <option value="">No linked event</option>
+          {incident.events.map((event) => (
+            <option key={event.event_id} value={event.event_id}>
+              {event.event_id} · {event.alert.state} ·{' '}
+              {new Date(event.observed_at).toLocaleTimeString()}
+            </option>
           ))}
+        </select>
+        <button
+          onClick={submit}
+          disabled={saving || !body.trim()}
+          className="ml-auto inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30 hover:bg-blue-500/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <MessageSquare className="w-4 h-4" />
+          Add note
+        </button>
+      </div>
+      {noteError && <div className="text-sm text-red-400">{noteError}</div>}
+    </div>
+  )
+}
+
+function NoteCard({ note }: { note: IncidentNote }) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(note.body)
+  const [noteError, setNoteError] = useState<string | null>(null)
+
+  const save = async () => {
+    try {
+      setNoteError(null)
+      await bffApi.updateNote(note.note_id, { actor: getOperatorName(), body: draft })
+      setEditing(false)
+    } catch (err: any) {
+      setNoteError(err.message || 'Failed to update note')
+    }
+  }
+
+  const remove = async () => {
+    if (!window.confirm('Delete this note?')) return
+    try {
+      await bffApi.deleteNote(note.note_id, getOperatorName())
+    } catch (err: any) {
+      setNoteError(err.message || 'Failed to delete note')
+    }
+  }
+
+  return (
+    <div className="relative border border-purple-500/30 bg-purple-500/5 rounded-xl p-5">
+      <div className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+        <MessageSquare className="w-3.5 h-3.5 text-purple-400" />
+        <span className="text-sm font-medium text-white">{note.author}</span>
+        <span>{new Date(note.created_at).toLocaleString()}</span>
+        {note.edited_by && (
+          <span className="italic">
+            · edited by {note.edited_by} {formatDistanceToNow(note.updated_at)}
+          </span>
+        )}
+        {note.event_id && (
+          <button
+            onClick={() => scrollToEvent(note.event_id!)}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700/50 text-gray-300 hover:text-white transition-colors"
+          >
+            <Link2 className="w-3 h-3" />
+            {note.event_id}
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => {
+              setDraft(note.body)
+              setEditing(!editing)
+            }}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Edit note"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={remove}
+            className="text-gray-400 hover:text-red-400 transition-colors"
+            title="Delete note"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
         </div>
       </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={!draft.trim()}
+              className="px-3 py-1 rounded-md text-xs font-medium bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 disabled:opacity-40"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="px-3 py-1 rounded-md text-xs font-medium bg-gray-700/50 text-gray-300 hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : note.format === 'markdown' ? (
+        <Markdown source={note.body} />
+      ) : (
+        <p className="text-sm text-gray-200 whitespace-pre-wrap">{note.body}</p>
+      )}
+
+      {noteError && <div className="mt-2 text-sm text-red-400">{noteError}</div>}
     </div>
   )
 }
@@ -433,16 +1000,25 @@ function EventCard({ event, isLatest }: { event: AlertEvent; isLatest: boolean }
 
   return (
     <div
+      id={`event-${event.event_id}`}
       className={`relative border ${expanded ? 'border-blue-500/50' : 'border-gray-700'} rounded-xl p-5 transition-all duration-200 ${
         isLatest ? 'bg-blue-500/5 border-blue-500/30' : 'bg-gray-700/20 hover:bg-gray-700/30'
       }`}
     >
-      {isLatest && (
-        <div className="absolute top-3 right-3">
-          <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-500/20 text-blue-400 text-xs font-semibold rounded-full border border-blue-500/30">
-            <TrendingUp className="w-3 h-3" />
-            Latest
-          </span>
+      {(isLatest || event.silenced_by) && (
+        <div className="absolute top-3 right-3 flex gap-2">
+          {event.silenced_by && (
+            <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-500/20 text-purple-300 text-xs font-semibold rounded-full border border-purple-500/30">
+              <BellOff className="w-3 h-3" />
+              Silenced
+            </span>
+          )}
+          {isLatest && (
+            <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-500/20 text-blue-400 text-xs font-semibold rounded-full border border-blue-500/30">
+              <TrendingUp className="w-3 h-3" />
+              Latest
+            </span>
+          )}
         </div>
       )}
 
@@ -682,3 +1258,155 @@ function EventCard({ event, isLatest }: { event: AlertEvent; isLatest: boolean }
     </div>
   )
 }
+
+function TabButton({
+  active,
+  onClick,
+  icon,
+  label,
+}: {
+  active: boolean
+  onClick: () => void
+  icon: ReactNode
+  label: string
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-lg font-semibold transition-colors ${
+        active ? 'text-white bg-gray-700/60' : 'text-gray-400 hover:text-white'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  )
+}
+
+const NOTIFICATION_STATUS_STYLES: Record<NotificationStatus, string> = {
+  pending: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+  retrying: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  sent: 'bg-green-500/20 text-green-300 border-green-500/30',
+  dead: 'bg-red-500/20 text-red-300 border-red-500/30',
+  suppressed: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+}
+
+const NOTIFICATION_STATUS_LABELS: Record<NotificationStatus, string> = {
+  pending: 'sending',
+  retrying: 'retrying',
+  sent: 'delivered',
+  dead: 'failed',
+  suppressed: 'rate limited',
+}
+
+function NotificationLog({ notifications }: { notifications: NotificationRecord[] }) {
+  if (notifications.length === 0) {
+    return (
+      <div className="p-6 text-sm text-gray-400">
+        No notifications were sent for this incident. Only opening, a severity increase and
+        resolution notify; routing rules, quiet hours, silences and digest mode decide who hears
+        about it and when.
+      </div>
+    )
+  }
+
+  return (
+    <ul className="divide-y divide-gray-700/50">
+      {notifications.map((notification) => (
+        <NotificationRow key={notification.notification_id} notification={notification} />
+      ))}
+    </ul>
+  )
+}
+
+function NotificationRow({ notification }: { notification: NotificationRecord }) {
+  const [expanded, setExpanded] = useState(false)
+  const [retrying, setRetrying] = useState(false)
+  const [retryError, setRetryError] = useState<string | null>(null)
+
+  // The updated record arrives over /ws
+  const retry = async () => {
+    try {
+      setRetrying(true)
+      setRetryError(null)
+      await bffApi.retryNotification(notification.notification_id, getOperatorName())
+    } catch (err: any) {
+      setRetryError(err.message || 'Failed to retry notification')
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const canRetry = notification.status !== 'sent' && notification.status !== 'pending'
+
+  return (
+    <li className="px-6 py-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span
+          className={`px-2 py-0.5 rounded-md text-xs font-medium border ${NOTIFICATION_STATUS_STYLES[notification.status]}`}
+        >
+          {NOTIFICATION_STATUS_LABELS[notification.status]}
+        </span>
+        <span className="font-medium text-white">{notification.channel}</span>
+        <span className="text-gray-300 font-mono text-xs break-all">
+          {notification.recipient || '(no recipient)'}
+        </span>
+        {notification.reason === 'escalation' && (
+          <span className="px-2 py-0.5 rounded-md text-xs bg-orange-500/20 text-orange-300">
+            escalation
+          </span>
+        )}
+        <span className="ml-auto text-xs text-gray-500">
+          {notification.attempts} attempt{notification.attempts === 1 ? '' : 's'} ·{' '}
+          {formatDistanceToNow(notification.created_at)}
+        </span>
+      </div>
+
+      <div className="text-sm text-gray-300">{notification.subject}</div>
+      {notification.last_error && (
+        <div className="text-xs text-red-400">Last error: {notification.last_error}</div>
+      )}
+      {notification.status === 'retrying' && notification.next_attempt_at && (
+        <div className="text-xs text-yellow-400">
+          Next attempt {new Date(notification.next_attempt_at).toLocaleTimeString()}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          {expanded ? 'Hide' : 'Show'} message
+        </button>
+        {canRetry && (
+          <button
+            onClick={retry}
+            disabled={retrying}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs text-blue-300 bg-blue-500/20 border border-blue-500/30 hover:bg-blue-500/30 transition-colors disabled:opacity-40"
+          >
+            <Send className="w-3 h-3" />
+            Retry now
+          </button>
+        )}
+        {retryError && <span className="text-xs text-red-400">{retryError}</span>}
+      </div>
+
+      {expanded && (
+        <div className="space-y-2">
+          <pre className="text-xs text-gray-300 bg-gray-900/50 border border-gray-700 rounded-lg p-3 whitespace-pre-wrap">
+            {notification.payload
+              ? JSON.stringify(notification.payload, null, 2)
+              : notification.body}
+          </pre>
+          {notification.provider_response != null && (
+            <pre className="text-xs text-gray-400 bg-gray-900/50 border border-gray-700 rounded-lg p-3 whitespace-pre-wrap">
+              {JSON.stringify(notification.provider_response, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </li>
+  )
+}
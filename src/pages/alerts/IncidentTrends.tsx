@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react'
+import { bffApi, IncidentTrends as Trends, TrendGroupBy, TrendInterval } from '@/lib/bffApiClient'
+import StackedBarChart from '@/components/charts/StackedBarChart'
+import { TrendingUp } from 'lucide-react'
+
+const INTERVALS: { value: TrendInterval; label: string }[] = [
+  { value: '5m', label: 'Last 6 hours (5 min)' },
+  { value: '1h', label: 'Last 7 days (hourly)' },
+  { value: '1d', label: 'Last 30 days (daily)' },
+]
+
+const GROUPINGS: { value: TrendGroupBy; label: string }[] = [
+  { value: 'severity', label: 'Severity' },
+  { value: 'namespace', label: 'Namespace' },
+  { value: 'service', label: 'Service' },
+  { value: 'alert_type', label: 'Alert type' },
+  { value: 'decision', label: 'Auto / manual' },
+]
+
+const GROUP_COLORS: Record<string, string> = {
+  critical: '#ef4444',
+  high: '#f97316',
+  medium: '#eab308',
+  low: '#3b82f6',
+  warning: '#a855f7',
+  info: '#6b7280',
+  auto: '#22c55e',
+  manual: '#3b82f6',
+}
+
+const PALETTE = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#14b8a6', '#ec4899', '#eab308']
+
+// Stacks beyond this many groups fold the smallest ones into "other"
+const MAX_SERIES = 8
+
+const REFRESH_MS = 60 * 1000
+
+const formatBucket = (interval: TrendInterval) => (timestamp: string) => {
+  const date = new Date(timestamp)
+  if (interval === '1d') return date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+  if (interval === '1h') {
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' })
+  }
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+// Events and incidents over time from the BFF's analytics endpoint, as stacked bars
+export default function IncidentTrends() {
+  const [bucketInterval, setBucketInterval] = useState<TrendInterval>('1h')
+  const [groupBy, setGroupBy] = useState<TrendGroupBy>('severity')
+  const [metric, setMetric] = useState<'events' | 'incidents'>('incidents')
+  const [trends, setTrends] = useState<Trends | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const result = await bffApi.getIncidentTrends({
+          interval: bucketInterval,
+          group_by: groupBy,
+        })
+        if (cancelled) return
+        setTrends(result)
+        setError(null)
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load incident trends')
+        }
+      }
+    }
+
+    load()
+    const timer = setInterval(load, REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [bucketInterval, groupBy])
+
+  const shown = trends?.groups.slice(0, MAX_SERIES) ?? []
+  const folded = trends?.groups.slice(MAX_SERIES) ?? []
+  const data =
+    trends?.buckets.map((bucket) => {
+      const counts = bucket[metric]
+      const point: { timestamp: string; [series: string]: number | string } = {
+        timestamp: bucket.start,
+      }
+      shown.forEach((group) => {
+        point[group] = counts[group] ?? 0
+      })
+      if (folded.length > 0) {
+        point.other = folded.reduce((sum, group) => sum + (counts[group] ?? 0), 0)
+      }
+      return point
+    }) ?? []
+  const series = [
+    ...shown.map((group, index) => ({
+      key: group,
+      color: GROUP_COLORS[group] ?? PALETTE[index % PALETTE.length],
+    })),
+    ...(folded.length > 0 ? [{ key: 'other', color: '#4b5563' }] : []),
+  ]
+  const empty = data.every((point) => series.every(({ key }) => !point[key]))
+
+  const selectClass =
+    'bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-2 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all'
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 p-6 shadow-lg">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex items-center gap-2 mr-auto">
+          <TrendingUp className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Incident Trends</h2>
+        </div>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as typeof metric)}
+          className={selectClass}
+        >
+          <option value="incidents">Incidents</option>
+          <option value="events">Events</option>
+        </select>
+        <select
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as TrendGroupBy)}
+          className={selectClass}
+        >
+          {GROUPINGS.map((grouping) => (
+            <option key={grouping.value} value={grouping.value}>
+              By {grouping.label.toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <select
+          value={bucketInterval}
+          onChange={(e) => setBucketInterval(e.target.value as TrendInterval)}
+          className={selectClass}
+        >
+          {INTERVALS.map((interval) => (
+            <option key={interval.value} value={interval.value}>
+              {interval.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <div className="h-[240px] flex items-center justify-center text-sm text-red-400">
+          {error}
+        </div>
+      ) : !trends ? (
+        <div className="h-[240px] flex items-center justify-center text-sm text-gray-400">
+          Loading...
+        </div>
+      ) : empty ? (
+        <div className="h-[240px] flex items-center justify-center text-sm text-gray-500">
+          No alerts in this period
+        </div>
+      ) : (
+        <StackedBarChart
+          data={data}
+          series={series}
+          formatTimestamp={formatBucket(trends.interval)}
+          yAxisLabel={metric === 'incidents' ? 'Incidents' : 'Events'}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import {
+  bffApi,
+  connectToAlertStream,
+  SilenceMatchers,
+  SilenceRule,
+  SilenceState,
+  WSMessage,
+} from '@/lib/bffApiClient'
+import { formatDistanceToNow } from '@/lib/format'
+import { getOperatorName } from '@/lib/operator'
+import { ArrowLeft, BellOff, Clock, Plus, XCircle } from 'lucide-react'
+
+const MATCHER_FIELDS: { key: keyof SilenceMatchers; label: string; placeholder: string }[] = [
+  { key: 'namespace', label: 'Namespace', placeholder: 'default' },
+  { key: 'service', label: 'Service', placeholder: 'payment-service' },
+  { key: 'alert_type', label: 'Alert type', placeholder: 'latency' },
+  { key: 'dedupe_key', label: 'Dedupe key', placeholder: 'high-latency-payment' },
+]
+
+const SEVERITIES = ['info', 'warning', 'low', 'medium', 'high', 'critical']
+
+const DURATIONS = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 480, label: '8 hours' },
+  { minutes: 1440, label: '1 day' },
+  { minutes: 10080, label: '7 days' },
+]
+
+const STATE_TABS: { value: SilenceState | 'all'; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'pending', label: 'Scheduled' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'all', label: 'All' },
+]
+
+const STATE_STYLES: Record<SilenceState, string> = {
+  active: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+  pending: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  expired: 'bg-gray-700/50 text-gray-400 border-gray-600/50',
+}
+
+const inputClass =
+  'w-full bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-2 text-sm focus:border-blue-500 outline-none'
+
+export default function Silences() {
+  const [searchParams] = useSearchParams()
+  const [silences, setSilences] = useState<SilenceRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [tab, setTab] = useState<SilenceState | 'all'>('active')
+
+  const loadSilences = async () => {
+    try {
+      const data = await bffApi.getSilences()
+      setSilences(data.silences)
+      setError(null)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load silences')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSilences()
+
+    const handleMessage = (message: WSMessage) => {
+      if (
+        message.type === 'silence_created' ||
+        message.type === 'silence_expired' ||
+        message.type === 'resync_required'
+      ) {
+        loadSilences()
+      }
+    }
+    const stream = connectToAlertStream(handleMessage)
+    return () => stream.close()
+  }, [])
+
+  const handleExpire = async (silence: SilenceRule) => {
+    try {
+      await bffApi.expireSilence(silence.silence_id, getOperatorName())
+    } catch (err: any) {
+      setError(err.message || 'Failed to expire silence')
+    }
+  }
+
+  const visible = tab === 'all' ? silences : silences.filter((s) => s.state === tab)
+  const counts = silences.reduce<Record<string, number>>((acc, s) => {
+    acc[s.state] = (acc[s.state] || 0) + 1
+    return acc
+  }, {})
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <Link
+        to="/alerts"
+        className="inline-flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Alerts
+      </Link>
+
+      <div className="relative overflow-hidden bg-gradient-to-r from-purple-600/20 via-blue-600/20 to-gray-600/20 rounded-2xl border border-gray-700/50 p-8">
+        <div className="flex items-center gap-3 mb-2">
+          <BellOff className="w-8 h-8 text-purple-400" />
+          <h1 className="text-4xl font-bold text-white">Silences</h1>
+        </div>
+        <p className="text-gray-300 text-lg">
+          Matching events are still recorded, but send no notifications and are hidden from the
+          Alerts page until the silence ends.
+        </p>
+      </div>
+
+      <SilenceForm
+        key={searchParams.toString()}
+        initialMatchers={Object.fromEntries(
+          [...MATCHER_FIELDS.map((f) => f.key), 'severity']
+            .map((key) => [key, searchParams.get(key) || ''])
+            .filter(([, value]) => value)
+        )}
+        onError={setError}
+      />
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 overflow-hidden shadow-lg">
+        <div className="bg-gray-700/30 px-6 py-4 border-b border-gray-700/50 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Rules</h2>
+          <div className="ml-auto flex gap-1">
+            {STATE_TABS.map((t) => (
+              <button
+                key={t.value}
+                onClick={() => setTab(t.value)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  tab === t.value
+                    ? 'bg-blue-500/30 text-blue-200'
+                    : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+                }`}
+              >
+                {t.label}
+                {t.value !== 'all' && counts[t.value] ? ` (${counts[t.value]})` : ''}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="p-6 text-gray-400">Loading...</div>
+        ) : visible.length === 0 ? (
+          <div className="p-6 text-gray-500 text-sm">No silences here.</div>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            {visible.map((silence) => (
+              <SilenceRow key={silence.silence_id} silence={silence} onExpire={handleExpire} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SilenceForm({
+  initialMatchers,
+  onError,
+}: {
+  initialMatchers: SilenceMatchers
+  onError: (message: string | null) => void
+}) {
+  const [matchers, setMatchers] = useState<SilenceMatchers>(initialMatchers)
+  const [duration, setDuration] = useState(60)
+  const [startsAt, setStartsAt] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const hasMatcher = Object.values(matchers).some((value) => value)
+
+  const submit = async () => {
+    try {
+      setSaving(true)
+      onError(null)
+      await bffApi.createSilence({
+        matchers: Object.fromEntries(Object.entries(matchers).filter(([, value]) => value)),
+        starts_at: startsAt ? new Date(startsAt).toISOString() : undefined,
+        duration_minutes: duration,
+        reason,
+        created_by: getOperatorName(),
+      })
+      setReason('')
+    } catch (err: any) {
+      onError(err.message || 'Failed to create silence')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 p-6 shadow-lg space-y-4">
+      <div className="flex items-center gap-2">
+        <Plus className="w-5 h-5 text-blue-400" />
+        <h2 className="text-lg font-semibold text-white">New silence</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {MATCHER_FIELDS.map((field) => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+            <input
+              value={matchers[field.key] || ''}
+              onChange={(e) => setMatchers({ ...matchers, [field.key]: e.target.value })}
+              placeholder={field.placeholder}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Severity</label>
+          <select
+            value={matchers.severity || ''}
+            onChange={(e) => setMatchers({ ...matchers, severity: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Any</option>
+            {SEVERITIES.map((severity) => (
+              <option key={severity} value={severity}>
+                {severity}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Starts</label>
+          <input
+            type="datetime-local"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500 mt-1">Leave empty to start now</p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Duration</label>
+          <select
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className={inputClass}
+          >
+            {DURATIONS.map((d) => (
+              <option key={d.minutes} value={d.minutes}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Reason</label>
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Flapping during rollout of v2.3"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={submit}
+          disabled={saving || !hasMatcher || !reason.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-purple-500/20 text-purple-300 border border-purple-500/30 hover:bg-purple-500/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <BellOff className="w-4 h-4" />
+          Create silence
+        </button>
+        {!hasMatcher && <span className="text-xs text-gray-500">Set at least one matcher</span>}
+      </div>
+    </div>
+  )
+}
+
+function SilenceRow({
+  silence,
+  onExpire,
+}: {
+  silence: SilenceRule
+  onExpire: (silence: SilenceRule) => void
+}) {
+  return (
+    <div className="px-6 py-4 flex flex-wrap items-start gap-4">
+      <span
+        className={`px-2 py-0.5 rounded border text-xs font-semibold uppercase ${STATE_STYLES[silence.state]}`}
+      >
+        {silence.state}
+      </span>
+
+      <div className="flex-1 min-w-[16rem] space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(silence.matchers).map(([key, value]) => (
+            <span
+              key={key}
+              className="px-2 py-0.5 rounded bg-gray-700/50 text-xs text-gray-200 font-mono"
+            >
+              {key}={value}
+            </span>
+          ))}
+        </div>
+        <p className="text-sm text-gray-300">{silence.reason}</p>
+        <p className="text-xs text-gray-500">
+          Created by {silence.created_by} {formatDistanceToNow(silence.created_at)}
+          {silence.expired_by && ` · expired early by ${silence.expired_by}`}
+        </p>
+      </div>
+
+      <div className="text-xs text-gray-400 text-right space-y-1">
+        <div>From {new Date(silence.starts_at).toLocaleString()}</div>
+        <div>Until {new Date(silence.ends_at).toLocaleString()}</div>
+      </div>
+
+      {silence.state !== 'expired' && (
+        <button
+          onClick={() => onExpire(silence)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-700/50 text-gray-300 hover:bg-red-500/20 hover:text-red-300 transition-colors"
+        >
+          <XCircle className="w-3.5 h-3.5" />
+          Expire now
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router'
+import {
+  bffApi,
+  DurationStats,
+  ReliabilityMetrics,
+  ReliabilityReport,
+  ReportEpisode,
+} from '@/lib/bffApiClient'
+import { formatDate, formatDuration, formatPercent } from '@/lib/format'
+import { BarChart3, CheckCircle2, Clock, ListTree, RotateCcw, Timer, X } from 'lucide-react'
+
+const WINDOWS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Grouping = 'services' | 'namespaces'
+
+// A row of the report, and what its drill-down is narrowed to
+interface Selection {
+  namespace: string
+  service?: string
+}
+
+const headerClass =
+  'px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider'
+
+const selectClass =
+  'bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-2 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all'
+
+const formatStats = (stats: DurationStats | null, key: 'mean_seconds' | 'p90_seconds') =>
+  stats ? formatDuration(stats[key]) : 'N/A'
+
+// Time to acknowledge and resolve, reopen rate and incident counts per service and namespace
+export default function Reports() {
+  const [windowDays, setWindowDays] = useState(7)
+  const [grouping, setGrouping] = useState<Grouping>('services')
+  const [report, setReport] = useState<ReliabilityReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selection, setSelection] = useState<Selection | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const to = new Date()
+    const from = new Date(to.getTime() - windowDays * DAY_MS)
+    setReport(null)
+    setSelection(null)
+    bffApi
+      .getReliabilityReport({ from: from.toISOString(), to: to.toISOString() })
+      .then((result) => {
+        if (cancelled) return
+        setReport(result)
+        setError(null)
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load reliability report')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [windowDays])
+
+  const rows: (ReliabilityMetrics & Selection)[] =
+    (grouping === 'services' ? report?.services : report?.namespaces) ?? []
+  const isSelected = (row: Selection) =>
+    selection?.namespace === row.namespace && selection?.service === row.service
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="relative overflow-hidden bg-gradient-to-r from-blue-600/20 via-teal-600/20 to-gray-600/20 rounded-2xl border border-gray-700/50 p-8">
+        <div className="flex items-center gap-3 mb-2">
+          <BarChart3 className="w-8 h-8 text-blue-400" />
+          <h1 className="text-4xl font-bold text-white">Reliability Reports</h1>
+        </div>
+        <p className="text-gray-300 text-lg">
+          How quickly incidents are acknowledged and resolved, and how often they come back
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={windowDays}
+          onChange={(e) => setWindowDays(Number(e.target.value))}
+          className={selectClass}
+        >
+          {WINDOWS.map((option) => (
+            <option key={option.days} value={option.days}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {report && (
+          <span className="text-xs text-gray-400">
+            Incidents opened {formatDate(report.from)} – {formatDate(report.to)}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {!report ? (
+        !error && <div className="text-gray-400">Loading...</div>
+      ) : (
+        <>
+          <SummaryCards metrics={report.summary} />
+
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 overflow-hidden shadow-lg">
+            <div className="bg-gray-700/30 px-6 py-4 border-b border-gray-700/50 flex items-center gap-2">
+              <ListTree className="w-5 h-5 text-blue-400" />
+              <h2 className="text-lg font-semibold text-white">Breakdown</h2>
+              <div className="ml-auto flex gap-1">
+                {(['services', 'namespaces'] as const).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => {
+                      setGrouping(value)
+                      setSelection(null)
+                    }}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                      grouping === value
+                        ? 'bg-blue-500/20 text-blue-300'
+                        : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+                    }`}
+                  >
+                    By {value === 'services' ? 'service' : 'namespace'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-700/20">
+                  <tr>
+                    <th className={headerClass}>
+                      {grouping === 'services' ? 'Service' : 'Namespace'}
+                    </th>
+                    <th className={headerClass}>Incidents</th>
+                    <th className={headerClass}>Reopen rate</th>
+                    <th className={headerClass}>MTTA</th>
+                    <th className={headerClass}>P90 TTA</th>
+                    <th className={headerClass}>MTTR</th>
+                    <th className={headerClass}>P90 TTR</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700/50">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-10 text-center text-sm text-gray-500">
+                        No incidents opened in this period
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row) => (
+                      <tr
+                        key={`${row.namespace}/${row.service ?? ''}`}
+                        onClick={() =>
+                          setSelection(
+                            isSelected(row)
+                              ? null
+                              : { namespace: row.namespace, service: row.service }
+                          )
+                        }
+                        className={`cursor-pointer transition-colors duration-150 ${
+                          isSelected(row) ? 'bg-blue-500/10' : 'hover:bg-gray-700/30'
+                        }`}
+                      >
+                        <td className="px-6 py-4">
+                          <div className="text-white font-medium">
+                            {row.service ?? row.namespace}
+                          </div>
+                          {row.service && (
+                            <div className="text-xs text-gray-500">{row.namespace}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-gray-300">
+                          {row.incidents}
+                          {row.episodes > row.incidents && (
+                            <span className="text-xs text-gray-500">
+                              {' '}
+                              ({row.episodes} episodes)
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-gray-300">
+                          {formatPercent(row.reopen_rate * 100, 1)}
+                        </td>
+                        <td className="px-6 py-4 text-gray-300">
+                          {formatStats(row.time_to_acknowledge, 'mean_seconds')}
+                        </td>
+                        <td className="px-6 py-4 text-gray-300">
+                          {formatStats(row.time_to_acknowledge, 'p90_seconds')}
+                        </td>
+                        <td className="px-6 py-4 text-gray-300">
+                          {formatStats(row.time_to_resolve, 'mean_seconds')}
+                        </td>
+                        <td className="px-6 py-4 text-gray-300">
+                          {formatStats(row.time_to_resolve, 'p90_seconds')}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {selection && (
+            <EpisodeList
+              from={report.from}
+              to={report.to}
+              selection={selection}
+              onClose={() => setSelection(null)}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryCards({ metrics }: Readonly<{ metrics: ReliabilityMetrics }>) {
+  const cards = [
+    {
+      label: 'Incidents',
+      value: String(metrics.incidents),
+      detail: `${metrics.episodes} episodes`,
+      icon: BarChart3,
+    },
+    {
+      label: 'Reopen rate',
+      value: formatPercent(metrics.reopen_rate * 100, 1),
+      detail: `${metrics.reopened} reopened`,
+      icon: RotateCcw,
+    },
+    {
+      label: 'Mean time to acknowledge',
+      value: formatStats(metrics.time_to_acknowledge, 'mean_seconds'),
+      detail: `P90 ${formatStats(metrics.time_to_acknowledge, 'p90_seconds')}`,
+      icon: Timer,
+    },
+    {
+      label: 'Mean time to resolve',
+      value: formatStats(metrics.time_to_resolve, 'mean_seconds'),
+      detail: `P90 ${formatStats(metrics.time_to_resolve, 'p90_seconds')}`,
+      icon: CheckCircle2,
+    },
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      {cards.map((card) => (
+        <div
+          key={card.label}
+          className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 p-6 shadow-lg"
+        >
+          <div className="p-3 bg-blue-500/20 rounded-lg w-fit mb-4">
+            <card.icon className="w-6 h-6 text-blue-400" />
+          </div>
+          <p className="text-sm font-medium text-gray-300">{card.label}</p>
+          <p className="text-4xl font-bold text-white">{card.value}</p>
+          <p className="text-xs text-gray-400">{card.detail}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// The incident episodes behind one row of the report
+function EpisodeList({
+  from,
+  to,
+  selection,
+  onClose,
+}: Readonly<{ from: string; to: string; selection: Selection; onClose: () => void }>) {
+  const [episodes, setEpisodes] = useState<ReportEpisode[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setEpisodes(null)
+    bffApi
+      .getReportIncidents({
+        from,
+        to,
+        namespace: [selection.namespace],
+        service: selection.service ? [selection.service] : undefined,
+      })
+      .then((result) => {
+        if (cancelled) return
+        setEpisodes(result.episodes)
+        setError(null)
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load incidents')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [from, to, selection.namespace, selection.service])
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 overflow-hidden shadow-lg">
+      <div className="bg-gray-700/30 px-6 py-4 border-b border-gray-700/50 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-blue-400" />
+        <h2 className="text-lg font-semibold text-white">
+          Incidents in {selection.service ?? selection.namespace}
+        </h2>
+        <button
+          onClick={onClose}
+          className="ml-auto p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error ? (
+        <div className="p-6 text-sm text-red-400">{error}</div>
+      ) : !episodes ? (
+        <div className="p-6 text-gray-400">Loading...</div>
+      ) : episodes.length === 0 ? (
+        <div className="p-6 text-gray-500 text-sm">No incidents here.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-700/20">
+              <tr>
+                <th className={headerClass}>Incident</th>
+                <th className={headerClass}>Opened</th>
+                <th className={headerClass}>Time to acknowledge</th>
+                <th className={headerClass}>Time to resolve</th>
+                <th className={headerClass}>Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {episodes.map((episode) => (
+                <tr
+                  key={`${episode.namespace}/${episode.service}/${episode.dedupe_key}/${episode.opened_at}`}
+                  className="hover:bg-gray-700/30 transition-colors duration-150"
+                >
+                  <td className="px-6 py-4">
+                    <Link
+                      to={`/alerts/${encodeURIComponent(episode.dedupe_key)}?namespace=${episode.namespace}&service=${episode.service}`}
+                      className="text-blue-400 hover:text-blue-300 font-medium transition-colors hover:underline"
+                    >
+                      {episode.dedupe_key}
+                    </Link>
+                    <div className="text-xs text-gray-500">
+                      {episode.namespace}/{episode.service} · {episode.current_severity}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-300">
+                    {formatDate(episode.opened_at)}
+                    {episode.reopened && (
+                      <span className="ml-2 px-2 py-0.5 bg-yellow-500/20 text-yellow-300 text-xs rounded-full">
+                        Reopened
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-300">
+                    {formatDuration(episode.time_to_acknowledge_seconds)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-300">
+                    {formatDuration(episode.time_to_resolve_seconds)}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span
+                      className={episode.status === 'OPEN' ? 'text-orange-400' : 'text-green-400'}
+                    >
+                      {episode.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router'
+import { useParams, useNavigate, Link } from 'react-router'
 import PageHeader from '@/components/layout/PageHeader'
 import KPIStatCard from '@/components/layout/KPIStatCard'
 import Section from '@/components/layout/Section'
@@ -7,7 +7,8 @@ import EmptyState from '@/components/layout/EmptyState'
 import TimeSeriesLineChart from '@/components/charts/TimeSeriesLineChart'
 import LatencyMultiLineChart from '@/components/charts/LatencyMultiLineChart'
 import { getTelemetryMetrics } from '@/lib/api'
-import { formatRps, formatPercent, formatMs } from '@/lib/format'
+import { bffApi, connectToAlertStream, Incident, WSMessage } from '@/lib/bffApiClient'
+import { formatRps, formatPercent, formatMs, formatDistanceToNow } from '@/lib/format'
 import { TelemetryMetricsResponse } from '@/lib/types'
 import { getGlossaryTerm } from '@/lib/glossary'
 
@@ -24,6 +25,7 @@ export default function ServiceHealthDetails() {
   const [data, setData] = useState<TelemetryMetricsResponse | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [incidents, setIncidents] = useState<Incident[]>([])
 
   useEffect(() => {
     if (!serviceName) return
@@ -52,6 +54,43 @@ export default function ServiceHealthDetails() {
     fetchData()
   }, [serviceName, timeRange])
 
+  // Open incidents of this service, kept current by a stream subscribed to it alone
+  useEffect(() => {
+    if (!serviceName) return
+
+    const loadIncidents = async () => {
+      try {
+        const result = await bffApi.getIncidents({
+          status: 'open',
+          namespace,
+          service: serviceName,
+        })
+        setIncidents(result.incidents)
+      } catch (err) {
+        console.error('Failed to load service incidents:', err)
+      }
+    }
+
+    const handleMessage = (message: WSMessage) => {
+      if (
+        message.type === 'incident_updated' ||
+        message.type === 'batch_ingested' ||
+        message.type === 'resync_required'
+      ) {
+        loadIncidents()
+      }
+    }
+
+    loadIncidents()
+    const stream = connectToAlertStream(handleMessage, undefined, {
+      subscription: {
+        namespaces: [namespace],
+        services: [serviceName],
+      },
+    })
+    return () => stream.close()
+  }, [namespace, serviceName])
+
   const getTimeRangeMs = (range: string): number => {
     const units: Record<string, number> = {
       '1h': 60 * 60 * 1000,
@@ -137,6 +176,37 @@ export default function ServiceHealthDetails() {
         </div>
       )}
 
+      {incidents.length > 0 && (
+        <Section title="Open Incidents">
+          <ul className="divide-y divide-slate-700">
+            {incidents.map((incident) => (
+              <li
+                key={incident.dedupe_key}
+                className="flex items-center justify-between gap-4 px-6 py-3"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span
+                    className={`text-xs font-bold uppercase ${incidentSeverityColor(incident.current_severity)}`}
+                  >
+                    {incident.current_severity}
+                  </span>
+                  <Link
+                    to={`/alerts/${encodeURIComponent(incident.dedupe_key)}?namespace=${incident.namespace}&service=${incident.service}`}
+                    className="text-blue-400 hover:text-blue-300 hover:underline truncate"
+                  >
+                    {incident.dedupe_key}
+                  </Link>
+                </div>
+                <div className="text-xs text-slate-400 whitespace-nowrap">
+                  {incident.event_count} events • last{' '}
+                  {formatDistanceToNow(incident.last_observed_at)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
       {data && data.datapoints.length > 0 && (
         <Section title="Performance Trends">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -186,3 +256,16 @@ export default function ServiceHealthDetails() {
     </div>
   )
 }
+
+function incidentSeverityColor(severity: string): string {
+  switch (severity) {
+    case 'critical':
+      return 'text-red-400'
+    case 'high':
+      return 'text-orange-400'
+    case 'medium':
+      return 'text-yellow-400'
+    default:
+      return 'text-blue-400'
+  }
+}
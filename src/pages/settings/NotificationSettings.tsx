@@ -0,0 +1,783 @@
+import { useEffect, useState } from 'react'
+import {
+  bffApi,
+  ChannelHealth,
+  ChannelStatus,
+  connectToAlertStream,
+  EscalationTier,
+  QuietHours,
+  RouteMatchers,
+  RouteTarget,
+  RoutingRule,
+  RoutingRuleChanges,
+  WSMessage,
+} from '@/lib/bffApiClient'
+import { formatDistanceToNow } from '@/lib/format'
+import { getOperatorName } from '@/lib/operator'
+import {
+  ArrowDown,
+  ArrowUp,
+  Bell,
+  Moon,
+  Pencil,
+  Plus,
+  Radio,
+  Send,
+  Trash2,
+  TrendingUp,
+  X,
+} from 'lucide-react'
+
+const SEVERITIES = ['info', 'warning', 'low', 'medium', 'high', 'critical']
+
+type ListMatcher = 'namespaces' | 'services' | 'priorities' | 'reason_codes'
+
+const LIST_MATCHERS: { key: ListMatcher; label: string; placeholder: string }[] = [
+  { key: 'namespaces', label: 'Namespaces', placeholder: 'default, payments' },
+  { key: 'services', label: 'Services', placeholder: 'payment-service' },
+  { key: 'priorities', label: 'Priorities', placeholder: 'P1, P2' },
+  { key: 'reason_codes', label: 'Any reason code', placeholder: 'error_rate_high' },
+]
+
+const STATUS_STYLES: Record<ChannelStatus, string> = {
+  ok: 'bg-green-500/20 text-green-300 border-green-500/30',
+  degraded: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  down: 'bg-red-500/20 text-red-300 border-red-500/30',
+  unknown: 'bg-gray-700/50 text-gray-400 border-gray-600/50',
+}
+
+const inputClass =
+  'w-full bg-gray-700/70 text-white border border-gray-600/50 rounded-lg px-3 py-2 text-sm focus:border-blue-500 outline-none'
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0)
+
+export default function NotificationSettings() {
+  const [channels, setChannels] = useState<ChannelHealth[]>([])
+  const [rules, setRules] = useState<RoutingRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // null: no form open; 'new' or the id of the rule being edited
+  const [editing, setEditing] = useState<string | null>(null)
+
+  const loadRules = async () => {
+    try {
+      const data = await bffApi.getRoutingRules()
+      setRules(data.rules)
+      setError(null)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load routing rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadChannels = async () => {
+    try {
+      const data = await bffApi.getNotificationChannels()
+      setChannels(data.channels)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load notification channels')
+    }
+  }
+
+  useEffect(() => {
+    loadRules()
+    loadChannels()
+
+    const handleMessage = (message: WSMessage) => {
+      if (
+        message.type === 'routing_rule_created' ||
+        message.type === 'routing_rule_updated' ||
+        message.type === 'routing_rule_deleted' ||
+        message.type === 'resync_required'
+      ) {
+        loadRules()
+      }
+    }
+    const stream = connectToAlertStream(handleMessage)
+    return () => stream.close()
+  }, [])
+
+  const save = async (changes: RoutingRuleChanges) => {
+    try {
+      setError(null)
+      if (editing === 'new') {
+        await bffApi.createRoutingRule(changes, getOperatorName())
+      } else if (editing) {
+        await bffApi.updateRoutingRule(editing, changes, getOperatorName())
+      }
+      setEditing(null)
+      loadRules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save routing rule')
+    }
+  }
+
+  const update = async (rule: RoutingRule, changes: RoutingRuleChanges) => {
+    try {
+      await bffApi.updateRoutingRule(rule.rule_id, changes, getOperatorName())
+      loadRules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update routing rule')
+    }
+  }
+
+  const remove = async (rule: RoutingRule) => {
+    if (!window.confirm(`Delete the routing rule "${rule.name}"?`)) return
+    try {
+      await bffApi.deleteRoutingRule(rule.rule_id, getOperatorName())
+      loadRules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete routing rule')
+    }
+  }
+
+  // Renumbers every rule so positions are unique after the move
+  const move = async (index: number, offset: number) => {
+    const order = [...rules]
+    const [rule] = order.splice(index, 1)
+    order.splice(index + offset, 0, rule)
+    try {
+      await Promise.all(
+        order
+          .map((r, position) => ({ r, position }))
+          .filter(({ r, position }) => r.position !== position)
+          .map(({ r, position }) =>
+            bffApi.updateRoutingRule(r.rule_id, { position }, getOperatorName())
+          )
+      )
+    } catch (err: any) {
+      setError(err.message || 'Failed to reorder routing rules')
+    } finally {
+      loadRules()
+    }
+  }
+
+  const test = async (channel: ChannelHealth) => {
+    try {
+      setError(null)
+      await bffApi.testNotificationChannel(channel.name)
+    } catch (err: any) {
+      setError(`${channel.name}: ${err.message}`)
+    } finally {
+      loadChannels()
+    }
+  }
+
+  const channelNames = channels.map((c) => c.name)
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="relative overflow-hidden bg-gradient-to-r from-blue-600/20 via-purple-600/20 to-gray-600/20 rounded-2xl border border-gray-700/50 p-8">
+        <div className="flex items-center gap-3 mb-2">
+          <Bell className="w-8 h-8 text-blue-400" />
+          <h1 className="text-4xl font-bold text-white">Notifications</h1>
+        </div>
+        <p className="text-gray-300 text-lg">
+          Rules are checked top to bottom for every new event, and the first match decides who is
+          notified. With no rules, every channel is notified.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 overflow-hidden shadow-lg">
+        <div className="bg-gray-700/30 px-6 py-4 border-b border-gray-700/50 flex items-center gap-2">
+          <Radio className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Channels</h2>
+        </div>
+        {channels.length === 0 ? (
+          <div className="p-6 text-gray-500 text-sm">
+            No channels are configured. Set them up in the BFF environment (see .env.example).
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            {channels.map((channel) => (
+              <ChannelRow key={channel.name} channel={channel} onTest={test} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700/50 overflow-hidden shadow-lg">
+        <div className="bg-gray-700/30 px-6 py-4 border-b border-gray-700/50 flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Routing rules</h2>
+          {editing !== 'new' && (
+            <button
+              onClick={() => setEditing('new')}
+              className="ml-auto inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30 hover:bg-blue-500/30 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New rule
+            </button>
+          )}
+        </div>
+
+        {editing === 'new' && (
+          <RuleForm channels={channelNames} onSave={save} onCancel={() => setEditing(null)} />
+        )}
+
+        {loading ? (
+          <div className="p-6 text-gray-400">Loading...</div>
+        ) : rules.length === 0 ? (
+          <div className="p-6 text-gray-500 text-sm">No routing rules yet.</div>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            {rules.map((rule, index) =>
+              editing === rule.rule_id ? (
+                <RuleForm
+                  key={rule.rule_id}
+                  rule={rule}
+                  channels={channelNames}
+                  onSave={save}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : (
+                <RuleRow
+                  key={rule.rule_id}
+                  rule={rule}
+                  isFirst={index === 0}
+                  isLast={index === rules.length - 1}
+                  onMove={(offset) => move(index, offset)}
+                  onToggle={() => update(rule, { enabled: !rule.enabled })}
+                  onEdit={() => setEditing(rule.rule_id)}
+                  onDelete={() => remove(rule)}
+                />
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ChannelRow({
+  channel,
+  onTest,
+}: {
+  channel: ChannelHealth
+  onTest: (channel: ChannelHealth) => void
+}) {
+  return (
+    <div className="px-6 py-4 flex flex-wrap items-start gap-4">
+      <span
+        className={`px-2 py-0.5 rounded border text-xs font-semibold uppercase ${STATUS_STYLES[channel.status]}`}
+      >
+        {channel.status}
+      </span>
+      <div className="flex-1 min-w-[16rem] space-y-1">
+        <div className="text-sm text-white font-medium">
+          {channel.name} <span className="text-gray-500 font-normal">({channel.kind})</span>
+        </div>
+        <div className="text-xs text-gray-400 font-mono">
+          {channel.recipients.join(', ') || 'no default recipients'}
+        </div>
+        {channel.last_error && (
+          <div className="text-xs text-red-300">
+            {channel.last_error}
+            {channel.last_failure_at && ` · ${formatDistanceToNow(channel.last_failure_at)}`}
+          </div>
+        )}
+        {channel.detail && <div className="text-xs text-gray-500">{channel.detail}</div>}
+      </div>
+      <button
+        onClick={() => onTest(channel)}
+        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-700/50 text-gray-300 hover:bg-blue-500/20 hover:text-blue-300 transition-colors"
+      >
+        <Send className="w-3.5 h-3.5" />
+        Send test
+      </button>
+    </div>
+  )
+}
+
+function Chip({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="px-2 py-0.5 rounded bg-gray-700/50 text-xs text-gray-200 font-mono">
+      {children}
+    </span>
+  )
+}
+
+function targetLabel(target: RouteTarget): string {
+  return target.recipients?.length
+    ? `${target.channel} → ${target.recipients.join(', ')}`
+    : target.channel
+}
+
+function RuleRow({
+  rule,
+  isFirst,
+  isLast,
+  onMove,
+  onToggle,
+  onEdit,
+  onDelete,
+}: {
+  rule: RoutingRule
+  isFirst: boolean
+  isLast: boolean
+  onMove: (offset: number) => void
+  onToggle: () => void
+  onEdit: () => void
+  onDelete: () => void
+}) {
+  const { matchers } = rule
+  const matcherChips = [
+    ...Object.entries(matchers)
+      .filter(([key]) => key !== 'auto')
+      .map(([key, values]) => `${key}=${(values as string[]).join('|')}`),
+    ...(matchers.auto !== undefined ? [matchers.auto ? 'auto' : 'manual'] : []),
+  ]
+
+  return (
+    <div
+      className={`px-6 py-4 flex flex-wrap items-start gap-4 ${rule.enabled ? '' : 'opacity-50'}`}
+    >
+      <div className="flex flex-col gap-1">
+        <button
+          onClick={() => onMove(-1)}
+          disabled={isFirst}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 disabled:opacity-30"
+          title="Move up"
+        >
+          <ArrowUp className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => onMove(1)}
+          disabled={isLast}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 disabled:opacity-30"
+          title="Move down"
+        >
+          <ArrowDown className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-w-[16rem] space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-white font-medium">{rule.name}</span>
+          {rule.continue && (
+            <span className="text-xs text-gray-500">· continues to later rules</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {matcherChips.length > 0 ? (
+            matcherChips.map((chip) => <Chip key={chip}>{chip}</Chip>)
+          ) : (
+            <Chip>every event</Chip>
+          )}
+        </div>
+        <div className="text-xs text-gray-300 space-y-1">
+          {rule.targets.length > 0 && <div>Notify {rule.targets.map(targetLabel).join('; ')}</div>}
+          {rule.escalations.map((tier) => (
+            <div key={tier.after_minutes} className="text-orange-300">
+              After {tier.after_minutes} min unacknowledged:{' '}
+              {tier.targets.map(targetLabel).join('; ')}
+            </div>
+          ))}
+          {rule.quiet_hours && (
+            <div className="text-gray-400 inline-flex items-center gap-1">
+              <Moon className="w-3 h-3" />
+              Quiet {rule.quiet_hours.start}–{rule.quiet_hours.end}
+              {rule.quiet_hours.timezone && ` ${rule.quiet_hours.timezone}`}
+              {rule.quiet_hours.override_severities?.length
+                ? ` (except ${rule.quiet_hours.override_severities.join(', ')})`
+                : ''}
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          Updated by {rule.updated_by} {formatDistanceToNow(rule.updated_at)}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onToggle}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-700/50 text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+        >
+          {rule.enabled ? 'Disable' : 'Enable'}
+        </button>
+        <button
+          onClick={onEdit}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+          title="Edit"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onDelete}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-red-300 hover:bg-red-500/20 transition-colors"
+          title="Delete"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function SeverityToggles({
+  selected,
+  onChange,
+}: {
+  selected: string[]
+  onChange: (severities: string[]) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {SEVERITIES.map((severity) => {
+        const active = selected.includes(severity)
+        return (
+          <button
+            key={severity}
+            type="button"
+            onClick={() =>
+              onChange(active ? selected.filter((s) => s !== severity) : [...selected, severity])
+            }
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              active
+                ? 'bg-blue-500/30 text-blue-200'
+                : 'bg-gray-700/50 text-gray-400 hover:text-white'
+            }`}
+          >
+            {severity}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+// Form state keeps recipient lists as typed; they are split on save
+interface TargetDraft {
+  channel: string
+  recipients: string
+}
+
+interface EscalationDraft {
+  after_minutes: number
+  targets: TargetDraft[]
+}
+
+const toDraft = (target: RouteTarget): TargetDraft => ({
+  channel: target.channel,
+  recipients: target.recipients?.join(', ') || '',
+})
+
+const fromDraft = (draft: TargetDraft): RouteTarget => {
+  const recipients = splitList(draft.recipients)
+  return { channel: draft.channel, ...(recipients.length > 0 ? { recipients } : {}) }
+}
+
+function TargetsEditor({
+  targets,
+  channels,
+  onChange,
+}: {
+  targets: TargetDraft[]
+  channels: string[]
+  onChange: (targets: TargetDraft[]) => void
+}) {
+  const setTarget = (index: number, target: TargetDraft) =>
+    onChange(targets.map((t, i) => (i === index ? target : t)))
+
+  return (
+    <div className="space-y-2">
+      {targets.map((target, index) => (
+        <div key={index} className="flex gap-2">
+          <select
+            value={target.channel}
+            onChange={(e) => setTarget(index, { ...target, channel: e.target.value })}
+            className={`${inputClass} max-w-[12rem]`}
+          >
+            {!channels.includes(target.channel) && (
+              <option value={target.channel}>{target.channel}</option>
+            )}
+            {channels.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <input
+            value={target.recipients}
+            onChange={(e) => setTarget(index, { ...target, recipients: e.target.value })}
+            placeholder="Channel defaults"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(targets.filter((_, i) => i !== index))}
+            className="p-2 rounded-lg text-gray-400 hover:text-red-300 hover:bg-red-500/20"
+            title="Remove"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...targets, { channel: channels[0] || '', recipients: '' }])}
+        disabled={channels.length === 0}
+        className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add target
+      </button>
+    </div>
+  )
+}
+
+function RuleForm({
+  rule,
+  channels,
+  onSave,
+  onCancel,
+}: {
+  rule?: RoutingRule
+  channels: string[]
+  onSave: (changes: RoutingRuleChanges) => Promise<void>
+  onCancel: () => void
+}) {
+  const [name, setName] = useState(rule?.name || '')
+  const [severities, setSeverities] = useState<string[]>(rule?.matchers.severities || [])
+  const [auto, setAuto] = useState<boolean | undefined>(rule?.matchers.auto)
+  const [lists, setLists] = useState<Record<ListMatcher, string>>(
+    () =>
+      Object.fromEntries(
+        LIST_MATCHERS.map(({ key }) => [key, rule?.matchers[key]?.join(', ') || ''])
+      ) as Record<ListMatcher, string>
+  )
+  const [targets, setTargets] = useState<TargetDraft[]>(rule?.targets.map(toDraft) || [])
+  const [escalations, setEscalations] = useState<EscalationDraft[]>(
+    rule?.escalations.map((tier) => ({ ...tier, targets: tier.targets.map(toDraft) })) || []
+  )
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(rule?.quiet_hours || null)
+  const [continueMatching, setContinueMatching] = useState(rule?.continue || false)
+  const [saving, setSaving] = useState(false)
+
+  const submit = async () => {
+    const matchers: RouteMatchers = {
+      ...(severities.length > 0 ? { severities } : {}),
+      ...(auto !== undefined ? { auto } : {}),
+    }
+    for (const { key } of LIST_MATCHERS) {
+      const values = splitList(lists[key])
+      if (values.length > 0) matchers[key] = values
+    }
+
+    setSaving(true)
+    await onSave({
+      name,
+      matchers,
+      targets: targets.map(fromDraft),
+      escalations: escalations.map(
+        (tier): EscalationTier => ({
+          after_minutes: tier.after_minutes,
+          targets: tier.targets.map(fromDraft),
+        })
+      ),
+      quiet_hours: quietHours,
+      continue: continueMatching,
+    })
+    setSaving(false)
+  }
+
+  return (
+    <div className="p-6 space-y-4 bg-gray-900/30 border-b border-gray-700/50">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Critical payments to on-call"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Severities</label>
+          <SeverityToggles selected={severities} onChange={setSeverities} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {LIST_MATCHERS.map((field) => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+            <input
+              value={lists[field.key]}
+              onChange={(e) => setLists({ ...lists, [field.key]: e.target.value })}
+              placeholder={field.placeholder}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Decision</label>
+          <select
+            value={auto === undefined ? '' : String(auto)}
+            onChange={(e) => setAuto(e.target.value === '' ? undefined : e.target.value === 'true')}
+            className={inputClass}
+          >
+            <option value="">Any</option>
+            <option value="true">Auto</option>
+            <option value="false">Manual</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">Notify</label>
+        <TargetsEditor targets={targets} channels={channels} onChange={setTargets} />
+      </div>
+
+      <div className="space-y-3">
+        <label className="block text-xs font-medium text-gray-400">
+          Escalate while unacknowledged
+        </label>
+        {escalations.map((tier, index) => (
+          <div key={index} className="flex flex-wrap gap-3 items-start">
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              After
+              <input
+                type="number"
+                min={1}
+                value={tier.after_minutes}
+                onChange={(e) =>
+                  setEscalations(
+                    escalations.map((t, i) =>
+                      i === index ? { ...t, after_minutes: Number(e.target.value) } : t
+                    )
+                  )
+                }
+                className={`${inputClass} w-20`}
+              />
+              min
+            </div>
+            <div className="flex-1 min-w-[20rem]">
+              <TargetsEditor
+                targets={tier.targets}
+                channels={channels}
+                onChange={(tierTargets) =>
+                  setEscalations(
+                    escalations.map((t, i) => (i === index ? { ...t, targets: tierTargets } : t))
+                  )
+                }
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setEscalations(escalations.filter((_, i) => i !== index))}
+              className="text-xs text-gray-400 hover:text-red-300"
+            >
+              Remove tier
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            setEscalations([
+              ...escalations,
+              {
+                after_minutes: (escalations[escalations.length - 1]?.after_minutes || 0) + 15,
+                targets: channels[0] ? [{ channel: channels[0], recipients: '' }] : [],
+              },
+            ])
+          }
+          className="inline-flex items-center gap-1 text-xs text-orange-400 hover:text-orange-300"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add escalation tier
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={quietHours !== null}
+            onChange={(e) =>
+              setQuietHours(
+                e.target.checked
+                  ? {
+                      start: '22:00',
+                      end: '07:00',
+                      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                      override_severities: ['critical'],
+                    }
+                  : null
+              )
+            }
+          />
+          Quiet hours
+        </label>
+        {quietHours && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <input
+              type="time"
+              value={quietHours.start}
+              onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="time"
+              value={quietHours.end}
+              onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              value={quietHours.timezone || ''}
+              onChange={(e) => setQuietHours({ ...quietHours, timezone: e.target.value })}
+              placeholder="Europe/Berlin"
+              className={inputClass}
+            />
+            <div>
+              <SeverityToggles
+                selected={quietHours.override_severities || []}
+                onChange={(override_severities) =>
+                  setQuietHours({ ...quietHours, override_severities })
+                }
+              />
+              <p className="text-xs text-gray-500 mt-1">Still notify for these</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={continueMatching}
+          onChange={(e) => setContinueMatching(e.target.checked)}
+        />
+        Keep checking later rules after this one matches
+      </label>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={submit}
+          disabled={saving || !name.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30 hover:bg-blue-500/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {rule ? 'Save rule' : 'Create rule'}
+        </button>
+        <button onClick={onCancel} className="text-sm text-gray-400 hover:text-white">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -31,6 +31,8 @@ export function useAlerts({ pageSize = 20 } = {}) {
   const [hasMore, setHasMore] = useState(false)
   const wsRef = useRef<WebSocket | null>(null)
   const reconnectRef = useRef<number | null>(null)
+  // Last stream seq seen, sent on reconnect so the server replays what was missed
+  const lastSeqRef = useRef<number | null>(null)
 
   // Fetch page helper
   const fetchPage = useCallback(
@@ -73,6 +75,12 @@ export function useAlerts({ pageSize = 20 } = {}) {
     }
   }, [fetchPage])
 
+  // The socket outlives filter changes; a resync reloads with whatever filters are current
+  const fetchPageRef = useRef(fetchPage)
+  useEffect(() => {
+    fetchPageRef.current = fetchPage
+  }, [fetchPage])
+
   const connect = useCallback(() => {
     if (wsRef.current) return
 
@@ -86,11 +94,26 @@ export function useAlerts({ pageSize = 20 } = {}) {
     ws.addEventListener('open', () => {
       setConnected(true)
       console.info('Alerts websocket connected')
+      if (lastSeqRef.current !== null) {
+        ws.send(JSON.stringify({ type: 'resume', since: lastSeqRef.current }))
+      }
     })
 
     ws.addEventListener('message', (ev) => {
       try {
         const payload = JSON.parse(ev.data)
+        if (typeof payload.seq === 'number') lastSeqRef.current = payload.seq
+        if (payload.type === 'connection') {
+          lastSeqRef.current ??= payload.data?.last_seq ?? null
+          return
+        }
+        if (payload.type === 'resync_required') {
+          // Too much was missed to replay: start over from the first page
+          lastSeqRef.current = payload.data?.last_seq ?? null
+          setPage(0)
+          fetchPageRef.current(0, true)
+          return
+        }
         const event = payload.event || payload || {}
         const a = toAlertData(event)
         setAlerts((prev) => {